@@ -19,77 +19,57 @@ import {
   RefreshControl,
   Modal,
   Dimensions,
+  Linking,
+  Share,
 } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
 
 // Services
-import { authService, AuthUser } from './src/services/auth';
+import { authService, AuthUser, AuthResponse, MfaChallenge, SessionInfo, ImpersonationSession, isMfaChallenge } from './src/services/auth.simple';
 import { notificationService, Notification } from './src/services/notification.simple';
-import { databaseService } from './src/services/database';
+import { permissionService, Permission, PERMISSIONS, StaffRole, UserRole } from './src/services/permissions';
+import { invitationService, InvitationSummary, InvitationStatus } from './src/services/invitations';
+import {
+  cartRepository,
+  messageRepository,
+  orderRepository,
+  productRepository,
+  userRepository,
+  orderQuery,
+  productQuery,
+  customerQuery,
+  OrderFilter,
+  ProductFilter,
+  CustomerFilter,
+  Product,
+  Order,
+  ChatMessage,
+  ConflictError,
+  isConflictError
+} from './src/repositories';
+import { resetUnreadableKeys } from './storageUtils';
+import { seedSampleData } from './src/repositories/seed';
+import { migrateLocalStorage } from './src/repositories/migrations';
 import { dataManager } from './src/services/dataManager';
+import { syncService, SyncState } from './src/services/sync';
+import { ORDER_STATUSES, ORDER_STATUS_LABELS, nextStatuses, isOrderTransitionError, isRefundOwed } from './src/services/orderLifecycle';
+import { computeTotals, describeCheckoutIssue } from './src/services/checkout';
+import { displayOrderNumber } from './src/utils/orderNumber';
+import { canCustomerChange, changeWindowEndsAt, isOrderChangeError } from './src/services/orderChanges';
 import { useDataManager } from './src/hooks/useDataManager';
-import { storage } from './storageUtils';
+import { usePagedQuery } from './src/hooks/usePagedQuery';
 
 // Components
 import StableInput from './src/components/StableInput';
+import PagedList from './src/components/PagedList';
+import OrderTimeline from './src/components/OrderTimeline';
 
-// Types
-interface Product {
-  id: string;
-  name: string;
-  description: string;
-  price: number;
-  cost: number;
-  sku: string;
-  category_id: string;
-  supplier_id: string;
-  stock_quantity: number;
-  min_stock_level: number;
-  max_stock_level: number;
-  images: string[];
-  features: string[];
-  specifications: Record<string, any>;
-  status: 'active' | 'inactive' | 'discontinued';
-  created_at: string;
-  updated_at: string;
-  categories?: { name: string };
-  suppliers?: { name: string; contact_person: string };
-}
-
-interface Order {
-  id: string;
-  customer_id: string;
-  order_number: string;
-  status: 'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled' | 'refunded';
-  payment_status: 'pending' | 'paid' | 'failed' | 'refunded';
-  payment_method: 'cash' | 'card' | 'bank_transfer' | 'mobile_money';
-  subtotal: number;
-  tax_amount: number;
-  shipping_cost: number;
-  discount_amount: number;
-  total_amount: number;
-  notes?: string;
-  shipping_address: any;
-  billing_address: any;
-  created_at: string;
-  updated_at: string;
-  shipped_at?: string;
-  delivered_at?: string;
-  order_items?: OrderItem[];
-}
-
-interface OrderItem {
-  id: string;
-  order_id: string;
-  product_id: string;
-  quantity: number;
-  unit_price: number;
-  total_price: number;
-  products?: Product;
-}
+// Utils
+import { formatRelativeTime } from './src/utils';
 
+// Types
 interface CartItem {
   product: Product;
   quantity: number;
@@ -143,6 +123,33 @@ const SPACING = {
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
+// Order display helpers
+const getPaymentMethodLabel = (method: Order['payment_method']) =>
+  method === 'cash' ? 'Cash on Delivery' : 'Online Payment';
+
+const getSyncLabel = (state: SyncState) =>
+  state === 'rejected' ? 'Refused by server'
+    : state === 'failed' ? 'Not saved to server'
+    : state === 'syncing' ? 'Syncing…'
+    : 'Waiting to sync';
+
+// Admin button for moving an order to each status; pending is never a target
+const STATUS_ACTIONS: Record<Order['status'], { label: string; color: string }> = {
+  pending: { label: 'Mark as Pending', color: COLORS.warning },
+  confirmed: { label: 'Confirm Order', color: COLORS.primary },
+  processing: { label: 'Start Processing', color: COLORS.primary },
+  shipped: { label: 'Mark as Shipped', color: COLORS.success },
+  delivered: { label: 'Mark as Delivered', color: COLORS.success },
+  cancelled: { label: 'Cancel Order', color: COLORS.error },
+  refunded: { label: 'Refund Order', color: COLORS.error },
+};
+
+const getOrderLines = (order: Order, catalogue: Product[]) =>
+  (order.order_items || []).map(item => ({
+    ...item,
+    product: item.products || catalogue.find(p => p.id === item.product_id)
+  }));
+
 
 // Top-level, stable Product Modal component
 const ProductModalComponent = React.memo(function ProductModalComponent({
@@ -314,6 +321,7 @@ const ChatModalComponent = React.memo(function ChatModalComponent({
   onChangeMessage,
   onSend,
   onClose,
+  getSyncState,
 }: any) {
   return (
     <Modal
@@ -324,7 +332,7 @@ const ChatModalComponent = React.memo(function ChatModalComponent({
       <SafeAreaView style={styles.modalContainer}>
         <View style={styles.modalHeader}>
           <Text style={styles.modalTitle}>
-            {user?.role === 'admin' && chatWithUser 
+            {permissionService.can(user, 'support.chat') && chatWithUser 
               ? `Chat with ${chatWithUser.profile?.first_name || 'Customer'}`
               : 'Support Chat'
             }
@@ -349,6 +357,7 @@ const ChatModalComponent = React.memo(function ChatModalComponent({
               <Text style={styles.messageText}>{message.content}</Text>
               <Text style={styles.messageTime}>
                 {new Date(message.created_at).toLocaleTimeString()}
+                {getSyncState(message.id) !== 'synced' ? ` · ${getSyncLabel(getSyncState(message.id))}` : ''}
               </Text>
             </View>
           ))}
@@ -447,10 +456,9 @@ const ChatViewComponent = React.memo(function ChatViewComponent({
 
   const loadRecentMessages = async () => {
     try {
-      const messagesData = await storage.getItem('@zada_chat_messages');
-      if (messagesData) {
-        const allMessages = JSON.parse(messagesData);
-        const supportMessages = allMessages.filter((msg: any) => msg.type === 'support' && (msg.sender_id === user?.id || msg.recipient_id === user?.id));
+      const userMessages = user ? await messageRepository.listForUser(user.id) : [];
+      if (userMessages.length > 0) {
+        const supportMessages = userMessages.filter((msg: any) => msg.type === 'support');
         const conversations = supportMessages.reduce((acc: any, msg: any) => {
           const otherUserId = msg.sender_id === user?.id ? msg.recipient_id : msg.sender_id;
           if (!acc[otherUserId]) {
@@ -509,7 +517,7 @@ export default function App() {
   const {
     products,
     orders,
-    cart,
+    cart: deviceCart,
     customers,
     notifications,
     loading: dataLoading,
@@ -518,15 +526,28 @@ export default function App() {
     addProduct,
     updateProduct,
     deleteProduct,
-    addOrder,
+    placeOrder,
     updateOrder,
+    transitionOrder,
+    retryRefund,
+    cancelOwnOrder,
+    changeOwnOrder,
     addToCart,
     updateCartItem,
     removeFromCart,
-    clearCart,
     addNotification,
     markNotificationAsRead,
     syncData,
+    outbox,
+    rejectedChanges,
+    offline,
+    orderEvents,
+    loadOrderEvents,
+    setOrderActor,
+    retrySync,
+    discardQueuedChange,
+    getSyncState,
+    setCartOwner,
     getOrdersByUser,
     getNotificationsByUser,
     getUnreadNotificationCount,
@@ -535,7 +556,7 @@ export default function App() {
   } = useDataManager();
   
   // UI state
-  const [currentView, setCurrentView] = useState<'dashboard' | 'inventory' | 'orders' | 'analytics' | 'customers' | 'chat'>('dashboard');
+  const [currentView, setCurrentView] = useState<'dashboard' | 'inventory' | 'orders' | 'analytics' | 'customers' | 'chat' | 'roles'>('dashboard');
   const [customerView, setCustomerView] = useState<'home' | 'products' | 'cart' | 'orders' | 'profile' | 'chat'>('home');
   const [isRegistering, setIsRegistering] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
@@ -622,7 +643,6 @@ export default function App() {
     lastName: '',
     phone: '',
     address: '',
-    role: 'customer' as 'customer' | 'admin',
     termsAccepted: false,
   });
 
@@ -637,6 +657,27 @@ export default function App() {
   // Password visibility state
   const [showPassword, setShowPassword] = useState(false);
 
+  // Forgot-password flow: request a code by email, then redeem it with a new password
+  const [passwordResetStep, setPasswordResetStep] = useState<'none' | 'request' | 'confirm'>('none');
+  const [resetCode, setResetCode] = useState('');
+
+  // Admin sign-in second step: pending challenge from login/register and the code typed in
+  const [mfaChallenge, setMfaChallenge] = useState<MfaChallenge | null>(null);
+  const [mfaCode, setMfaCode] = useState('');
+
+  // Passwordless customer sign-in: request an SMS code, then enter it
+  const [phoneLoginStep, setPhoneLoginStep] = useState<'none' | 'request' | 'verify'>('none');
+  const [otpCode, setOtpCode] = useState('');
+
+  // Staff invitation acceptance: the link or token from the invite email; null when not on that screen
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
+
+  // Support "view as customer": `user` becomes the customer while the staff member is kept on the session
+  const [impersonation, setImpersonation] = useState<ImpersonationSession | null>(null);
+  const [impersonatedCart, setImpersonatedCart] = useState<CartItem[]>([]); // the customer's saved cart while viewing as them
+  const cart = impersonation ? impersonatedCart : deviceCart;
+  const [openHistoryId, setOpenHistoryId] = useState<string | null>(null); // the order whose timeline is expanded
+
   // Clear form function
   const clearForm = () => {
     setFirstName('');
@@ -652,8 +693,41 @@ export default function App() {
     setPhoneValue('');
     setAddressValue('');
     setShowPassword(false);
+    setResetCode('');
+    setOtpCode('');
   };
 
+  // Permission check for the signed-in user; admin screens and actions are gated on this
+  const can = (permission: Permission) => authService.hasPermission(user, permission);
+
+  // Admin lists load a page at a time; they live here so filters and loaded pages survive view re-renders
+  const adminOrders = usePagedQuery(
+    orderRepository,
+    (filter: OrderFilter, page) => orderQuery(filter, undefined, page),
+    {},
+    {
+      enabled: currentView === 'orders' && can('orders.view'),
+      // Edits still waiting in the outbox are shown over the server copy
+      resolve: order => dataManager.getOrders().find(o => o.id === order.id) || order
+    }
+  );
+  const adminProducts = usePagedQuery(
+    productRepository,
+    (filter: ProductFilter, page) => productQuery(filter, undefined, page),
+    {},
+    { enabled: currentView === 'inventory' && can('inventory.view') }
+  );
+  const adminCustomers = usePagedQuery(
+    userRepository,
+    (filter: CustomerFilter, page) => customerQuery(filter, undefined, page),
+    {},
+    {
+      enabled: currentView === 'customers' && can('customers.view'),
+      // Credentials stay with the auth service
+      resolve: ({ password_hash, mfa, ...customer }) => customer
+    }
+  );
+
   // Stable onChange handlers to prevent re-renders
   const handleFirstNameChange = useCallback((text: string) => {
     setFirstName(text);
@@ -695,42 +769,51 @@ export default function App() {
   const [phoneValue, setPhoneValue] = useState('');
   const [addressValue, setAddressValue] = useState('');
 
+  // Invitation emails link to zada://invite?token=...; open the acceptance screen when the app is opened from one
+  useEffect(() => {
+    const openInviteLink = (url: string | null) => {
+      if (url && url.includes('invite') && url.includes('token=')) {
+        setInviteLink(url);
+      }
+    };
+
+    Linking.getInitialURL().then(openInviteLink).catch(() => {});
+    const subscription = Linking.addEventListener('url', ({ url }) => openInviteLink(url));
+    return () => subscription.remove();
+  }, []);
+
   // Load initial data
   useEffect(() => {
     const initializeAppData = async () => {
       try {
         console.log('=== APP INITIALIZATION ===');
-        await authService.initialize();
+        // Saved data this install can no longer decrypt is cleared, so the app starts instead of failing on it
+        const cleared = await resetUnreadableKeys();
+        if (cleared.length > 0) {
+          Alert.alert(
+            'Saved Data Cleared',
+            'Some data saved on this device could not be read and has been cleared. You may need to sign in again.'
+          );
+        }
+        // Upgrade data left by older versions before anything reads it
+        await migrateLocalStorage();
+        await seedSampleData();
+        await permissionService.initialize();
         await initializeData();
         await initializeApp();
         console.log('App initialization completed');
         
-        // Add debug functions to window for testing
-        (window as any).debugAuth = {
-          createAdmin: async (email: string, firstName: string, lastName: string) => {
-            try {
-              const admin = await authService.createAdminUser({
-                email,
-                profile: { first_name: firstName, last_name: lastName }
-              });
-              console.log('✅ Admin created:', admin);
-              return admin;
-            } catch (error) {
-              console.error('❌ Error creating admin:', error);
-              return null;
+        // Add debug functions to window for testing; development builds only, and never with credentials
+        if (__DEV__) {
+          (window as any).debugAuth = {
+            getAllUsers: async () => {
+              const users = (await userRepository.list()).map(({ password_hash, mfa, ...account }) => account);
+              console.log('👥 All users:', users);
+              return users;
             }
-          },
-          getAllUsers: async () => {
-            const users = await databaseService.getAllUsers();
-            console.log('👥 All users:', users);
-            return users;
-          },
-          clearData: async () => {
-            await databaseService.clearAllData();
-            console.log('🗑️ Data cleared');
-          }
-        };
-        console.log('🔧 Debug functions available: window.debugAuth');
+          };
+          console.log('🔧 Debug functions available: window.debugAuth');
+        }
       } catch (error) {
         console.error('Error during app initialization:', error);
       }
@@ -746,196 +829,29 @@ export default function App() {
     }
   }, [user]);
 
-  // Load sample data for demonstration
-  const loadSampleData = async () => {
-    try {
-      // Load sample products if none exist
-      const existingProducts = await storage.getItem('@zada_products');
-      if (!existingProducts || JSON.parse(existingProducts).length === 0) {
-        const sampleProducts: Product[] = [
-          {
-            id: 'prod_1',
-            sku: 'SKU-001',
-            name: 'Premium Water 500ml',
-            description: 'High-quality purified water in convenient 500ml bottles',
-            price: 150,
-            cost: 100,
-            stock_quantity: 100,
-            min_stock_level: 20,
-            max_stock_level: 200,
-            status: 'active',
-            category_id: 'cat_1',
-            supplier_id: 'sup_1',
-            features: ['Purified', 'BPA-free bottle', 'Convenient size'],
-            images: [],
-            specifications: {},
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-            categories: { name: 'Water Products' },
-            suppliers: { name: 'ZADA Suppliers', contact_person: 'Admin' }
-          },
-          {
-            id: 'prod_2',
-            sku: 'SKU-002',
-            name: 'Premium Water 1L',
-            description: 'High-quality purified water in 1-liter bottles',
-            price: 250,
-            cost: 180,
-            stock_quantity: 80,
-            min_stock_level: 15,
-            max_stock_level: 150,
-            status: 'active',
-            category_id: 'cat_1',
-            supplier_id: 'sup_1',
-            features: ['Purified', 'BPA-free bottle', 'Family size'],
-            images: [],
-            specifications: {},
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-            categories: { name: 'Water Products' },
-            suppliers: { name: 'ZADA Suppliers', contact_person: 'Admin' }
-          },
-          {
-            id: 'prod_3',
-            sku: 'SKU-003',
-            name: 'Premium Water 5L',
-            description: 'High-quality purified water in 5-liter containers',
-            price: 800,
-            cost: 600,
-            stock_quantity: 50,
-            min_stock_level: 10,
-            max_stock_level: 100,
-            status: 'active',
-            category_id: 'cat_1',
-            supplier_id: 'sup_1',
-            features: ['Purified', 'BPA-free container', 'Bulk size'],
-            images: [],
-            specifications: {},
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-            categories: { name: 'Water Products' },
-            suppliers: { name: 'ZADA Suppliers', contact_person: 'Admin' }
-          }
-        ];
-        setProducts(sampleProducts);
-        await storage.setItem('@zada_products', JSON.stringify(sampleProducts));
-      }
-
-      // Load sample customers if none exist
-      const existingCustomers = await storage.getItem('@zada_customers');
-      console.log('Existing customers data:', existingCustomers);
-      
-      if (!existingCustomers || JSON.parse(existingCustomers).length === 0) {
-        console.log('Creating sample customers including admin...');
-        const sampleCustomers: AuthUser[] = [
-          {
-            id: 'customer_1',
-            email: 'john.doe@example.com',
-            role: 'customer',
-            profile: {
-              first_name: 'John',
-              last_name: 'Doe',
-              phone: '+2348012345678',
-              address: '123 Main Street, Lagos'
-            },
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString()
-          },
-          {
-            id: 'customer_2',
-            email: 'jane.smith@example.com',
-            role: 'customer',
-            profile: {
-              first_name: 'Jane',
-              last_name: 'Smith',
-              phone: '+2348098765432',
-              address: '456 Oak Avenue, Abuja'
-            },
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString()
-          },
-          {
-            id: 'admin_1',
-            email: 'admin@zadafoods.com',
-            role: 'admin',
-            profile: {
-              first_name: 'Admin',
-              last_name: 'User',
-              phone: '+2348012345680',
-              address: 'ZADA Foods Headquarters'
-            },
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString()
-          }
-        ];
-        console.log('Sample customers created:', sampleCustomers);
-        setCustomers(sampleCustomers);
-        await storage.setItem('@zada_customers', JSON.stringify(sampleCustomers));
-        console.log('Sample customers saved to storage');
-      } else {
-        console.log('Loading existing customers from storage');
-        const existingUsers = JSON.parse(existingCustomers);
-        setCustomers(existingUsers);
-        console.log('Loaded customers:', existingUsers);
-      }
+  // Mirror the customer's cart to their account so offline edits are synced later
+  useEffect(() => {
+    setCartOwner(user?.role === 'customer' && !impersonation ? user.id : null);
+  }, [user, impersonation]);
 
-      // Load sample orders if none exist
-      const existingOrders = await storage.getItem('@zada_orders');
-      if (!existingOrders || JSON.parse(existingOrders).length === 0) {
-        const sampleOrders = [
-          {
-            id: 'order_1',
-            customer_id: 'customer_1',
-            customer_name: 'John Doe',
-            customer_email: 'john.doe@example.com',
-            items: [
-              {
-                product: {
-                  id: 'prod_1',
-                  name: 'Premium Water 500ml',
-                  price: 150
-                },
-                quantity: 2,
-                price: 150
-              }
-            ],
-            total_amount: 300,
-            payment_method: 'cash_on_delivery',
-            payment_status: 'pending',
-            status: 'pending',
-            created_at: new Date(Date.now() - 86400000).toISOString(), // 1 day ago
-            updated_at: new Date(Date.now() - 86400000).toISOString()
-          },
-          {
-            id: 'order_2',
-            customer_id: 'customer_2',
-            customer_name: 'Jane Smith',
-            customer_email: 'jane.smith@example.com',
-            items: [
-              {
-                product: {
-                  id: 'prod_2',
-                  name: 'Premium Water 1L',
-                  price: 250
-                },
-                quantity: 1,
-                price: 250
-              }
-            ],
-            total_amount: 250,
-            payment_method: 'online',
-            payment_status: 'paid',
-            status: 'delivered',
-            created_at: new Date(Date.now() - 172800000).toISOString(), // 2 days ago
-            updated_at: new Date(Date.now() - 86400000).toISOString()
-          }
-        ];
-        setOrders(sampleOrders);
-        await storage.setItem('@zada_orders', JSON.stringify(sampleOrders));
-      }
-    } catch (error) {
-      console.error('Error loading sample data:', error);
+  // Order history names staff; customers appear as "Customer" so no personal data enters the append-only log
+  useEffect(() => {
+    const actor = impersonation ? impersonation.actor : user;
+    setOrderActor(actor ? {
+      id: actor.id,
+      name: actor.role === 'customer'
+        ? 'Customer'
+        : `${actor.profile?.first_name || ''} ${actor.profile?.last_name || ''}`.trim() || actor.email
+    } : null);
+  }, [user, impersonation]);
+
+  const toggleOrderHistory = (orderId: string) => {
+    if (openHistoryId === orderId) {
+      setOpenHistoryId(null);
+      return;
     }
+    setOpenHistoryId(orderId);
+    loadOrderEvents(orderId).catch(error => console.error('Error loading order history:', error));
   };
 
   // Real-time subscriptions
@@ -950,6 +866,7 @@ export default function App() {
       setIsLoading(true);
       
       // Check authentication
+      await authService.closeStaleImpersonation();
       const currentUser = await authService.validateSession();
       if (currentUser) {
         setUser(currentUser);
@@ -965,12 +882,13 @@ export default function App() {
   const loadUserData = async (user: AuthUser) => {
     try {
       // Load products
-      const productsData = await databaseService.getAllProducts();
+      const productsData = await productRepository.list();
       setProducts(productsData);
       
       // Load orders
-      const allOrders = await databaseService.getAllOrders();
-      const ordersData = user.role === 'customer' ? allOrders.filter(o => o.customer_id === user.id) : allOrders;
+      const ordersData = user.role === 'customer'
+        ? await orderRepository.list({ customer_id: user.id })
+        : await orderRepository.list();
       setOrders(ordersData);
       
       // Load notifications
@@ -1033,29 +951,216 @@ export default function App() {
       console.log('=== LOGIN DEBUG ===');
       console.log('Attempting login with email:', email);
       
-      // Use the new auth service
-      const loggedInUser = await authService.login(email, password);
-      
-      if (loggedInUser) {
-        console.log('Login successful:', loggedInUser);
-        setUser(loggedInUser);
-        await loadUserData(loggedInUser);
-        
-        const roleText = loggedInUser.role === 'admin' ? 'Admin' : 'User';
-        Alert.alert('Success', `Welcome back, ${roleText} ${loggedInUser.profile?.first_name || 'User'}!`);
-      } else {
-        console.log('Login failed: Invalid credentials');
-        Alert.alert('Login Failed', 'Invalid credentials. Please check your email and password.');
+      const result = await authService.login({ email, password });
+      if (isMfaChallenge(result)) {
+        startMfaChallenge(result);
+        return;
       }
+      await handleAuthSuccess(result.user, 'Welcome back');
       
     } catch (error) {
       console.error('Login error:', error);
+      // Accounts created before passwords were stored have just been emailed a code to set one
+      if (error instanceof Error && error.message.includes('Password setup required')) {
+        setPassword('');
+        setResetCode('');
+        setPasswordResetStep('confirm');
+        Alert.alert('Set Your Password', 'This account does not have a password yet. Enter the code we emailed you and choose a password.');
+        return;
+      }
       Alert.alert('Login Failed', error instanceof Error ? error.message : 'An error occurred. Please try again.');
     } finally {
       setIsAuthenticating(false);
     }
   };
 
+  const handleAuthSuccess = async (authUser: AuthUser, greeting: string) => {
+    console.log('Login successful:', authUser.id);
+    setUser(authUser);
+    await loadUserData(authUser);
+    
+    const roleText = authUser.role === 'customer' ? 'User' : 'Admin';
+    Alert.alert('Success', `${greeting}, ${roleText} ${authUser.profile?.first_name || 'User'}!`);
+  };
+
+  const startMfaChallenge = (challenge: MfaChallenge) => {
+    setPassword('');
+    setMfaCode('');
+    setMfaChallenge(challenge);
+  };
+
+  const handleVerifyMfa = async () => {
+    if (!mfaChallenge) return;
+    if (!mfaCode?.trim()) {
+      Alert.alert('Validation Error', 'Authentication code is required');
+      return;
+    }
+
+    try {
+      setIsAuthenticating(true);
+      const response: AuthResponse = await authService.verifyMfa(mfaChallenge.challenge_token, mfaCode);
+      setMfaChallenge(null);
+      setMfaCode('');
+
+      if (response.backup_codes) {
+        Alert.alert(
+          'Save Your Backup Codes',
+          `Each code can be used once if you lose access to your authenticator app. They will not be shown again.\n\n${response.backup_codes.join('\n')}`,
+          [{ text: 'I Saved Them', onPress: () => handleAuthSuccess(response.user, 'Two-factor authentication enabled. Welcome') }]
+        );
+        return;
+      }
+
+      await handleAuthSuccess(response.user, 'Welcome back');
+    } catch (error) {
+      console.error('MFA verification error:', error);
+      Alert.alert('Verification Failed', error instanceof Error ? error.message : 'An error occurred. Please try again.');
+      // An expired challenge cannot be retried; send the user back to sign in
+      if (error instanceof Error && error.message.includes('sign in again')) {
+        setMfaChallenge(null);
+      }
+    } finally {
+      setIsAuthenticating(false);
+    }
+  };
+
+  const startPasswordReset = () => {
+    setPassword('');
+    setResetCode('');
+    setShowPassword(false);
+    setPasswordResetStep('request');
+  };
+
+  const handleRequestPasswordReset = async () => {
+    if (!email?.trim()) {
+      Alert.alert('Validation Error', 'Email is required');
+      return;
+    }
+    if (!email.includes('@') || !email.includes('.')) {
+      Alert.alert('Validation Error', 'Please enter a valid email address');
+      return;
+    }
+
+    try {
+      setIsAuthenticating(true);
+      await authService.requestPasswordReset(email);
+      setPasswordResetStep('confirm');
+      Alert.alert('Check Your Email', 'If an account exists for this email, a reset code has been sent. It expires in 15 minutes.');
+    } catch (error) {
+      console.error('Password reset request error:', error);
+      Alert.alert('Reset Failed', error instanceof Error ? error.message : 'An error occurred. Please try again.');
+    } finally {
+      setIsAuthenticating(false);
+    }
+  };
+
+  const handleConfirmPasswordReset = async () => {
+    if (!resetCode?.trim()) {
+      Alert.alert('Validation Error', 'Reset code is required');
+      return;
+    }
+    if (!password?.trim()) {
+      Alert.alert('Validation Error', 'New password is required');
+      return;
+    }
+    if (password.length < 6) {
+      Alert.alert('Validation Error', 'Password must be at least 6 characters');
+      return;
+    }
+
+    try {
+      setIsAuthenticating(true);
+      await authService.confirmPasswordReset(resetCode, password);
+      setPassword('');
+      setResetCode('');
+      setPasswordResetStep('none');
+      Alert.alert('Password Updated', 'Your password has been reset. Please sign in with your new password.');
+    } catch (error) {
+      console.error('Password reset error:', error);
+      Alert.alert('Reset Failed', error instanceof Error ? error.message : 'An error occurred. Please try again.');
+    } finally {
+      setIsAuthenticating(false);
+    }
+  };
+
+  const handleRequestPhoneOtp = async () => {
+    if (!phone?.trim()) {
+      Alert.alert('Validation Error', 'Phone number is required');
+      return;
+    }
+
+    try {
+      setIsAuthenticating(true);
+      const { phone: normalizedPhone } = await authService.requestPhoneOtp(phone);
+      setPhone(normalizedPhone);
+      setPhoneLoginStep('verify');
+      Alert.alert('Code Sent', `We sent a 6-digit code to ${normalizedPhone}`);
+    } catch (error) {
+      console.error('Phone OTP request error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'An error occurred. Please try again.');
+    } finally {
+      setIsAuthenticating(false);
+    }
+  };
+
+  const handleVerifyPhoneOtp = async () => {
+    if (!otpCode?.trim()) {
+      Alert.alert('Validation Error', 'Verification code is required');
+      return;
+    }
+
+    try {
+      setIsAuthenticating(true);
+      const { user: loggedInUser } = await authService.verifyPhoneOtp(phone, otpCode);
+      setOtpCode('');
+      setPhoneLoginStep('none');
+      await handleAuthSuccess(loggedInUser, 'Welcome');
+    } catch (error) {
+      console.error('Phone OTP verification error:', error);
+      Alert.alert('Sign In Failed', error instanceof Error ? error.message : 'An error occurred. Please try again.');
+    } finally {
+      setIsAuthenticating(false);
+    }
+  };
+
+  const handleAcceptInvitation = async () => {
+    if (!inviteLink?.trim()) {
+      Alert.alert('Validation Error', 'Invitation link is required');
+      return;
+    }
+    if (!firstName?.trim() || !lastName?.trim()) {
+      Alert.alert('Validation Error', 'First and last name are required');
+      return;
+    }
+    if (!password?.trim()) {
+      Alert.alert('Validation Error', 'Password is required');
+      return;
+    }
+
+    try {
+      setIsAuthenticating(true);
+      const result = await authService.acceptInvitation(inviteLink, {
+        password,
+        first_name: firstName,
+        last_name: lastName,
+        phone: phone?.trim() || undefined
+      });
+      setInviteLink(null);
+
+      // Staff accounts always enroll in two-factor authentication first
+      if (isMfaChallenge(result)) {
+        startMfaChallenge(result);
+        return;
+      }
+      await handleAuthSuccess(result.user, 'Welcome to the team');
+    } catch (error) {
+      console.error('Invitation acceptance error:', error);
+      Alert.alert('Invitation Failed', error instanceof Error ? error.message : 'An error occurred. Please try again.');
+    } finally {
+      setIsAuthenticating(false);
+    }
+  };
+
   const handleRegister = async () => {
     // Validation
     if (!firstName?.trim()) {
@@ -1105,26 +1210,31 @@ export default function App() {
       
       console.log('=== REGISTRATION DEBUG ===');
       console.log('Attempting registration with email:', email);
-      console.log('Role:', formData.role);
       
       // Use the new auth service
-      const newUser = await authService.register({
+      const result = await authService.register({
         email: email.trim().toLowerCase(),
-        role: formData.role,
-        profile: {
-          first_name: firstName.trim(),
-          last_name: lastName.trim(),
-          phone: phone?.trim() || '',
-          address: address?.trim() || ''
-        }
+        password,
+        first_name: firstName.trim(),
+        last_name: lastName.trim(),
+        phone: phone?.trim() || '',
+        address: address?.trim() || '',
+        terms_accepted: formData.termsAccepted
       });
       
+      // The bootstrap super admin must set up two-factor authentication before their first session
+      if (isMfaChallenge(result)) {
+        console.log('Registration successful, two-factor enrollment required');
+        startMfaChallenge(result);
+        return;
+      }
+      
+      const newUser = result.user;
       console.log('Registration successful:', newUser);
       setUser(newUser);
       await loadUserData(newUser);
       
-      const roleText = newUser.role === 'admin' ? 'Admin' : 'User';
-      Alert.alert('Success', `${roleText} registration successful!`);
+      Alert.alert('Success', 'Registration successful!');
       
     } catch (error) {
       console.error('Registration error:', error);
@@ -1134,6 +1244,31 @@ export default function App() {
     }
   };
 
+  // Drop everything held for the signed-in user
+  const clearSignedInState = () => {
+    setUser(null);
+    setProducts([]);
+    setOrders([]);
+    setCart([]);
+    setCustomers([]);
+    setNotifications([]);
+    setChatMessages([]);
+    setChatWithUser(null);
+    setNewMessage('');
+    setShowChatModal(false);
+    setShowProductModal(false);
+    setEditingProduct(null);
+    setCurrentView('dashboard');
+    setCustomerView('home');
+    setIsRegistering(false);
+    setRefreshing(false);
+    setShowNotifications(false);
+    setShowNotification(false);
+    setNotificationMessage('');
+    setUnreadMessages(0);
+    setUnreadCount(0);
+  };
+
   const handleLogout = async () => {
     try {
       console.log('=== LOGOUT DEBUG ===');
@@ -1141,29 +1276,7 @@ export default function App() {
       
       // Use the new auth service
       await authService.logout();
-      
-      // Clear all local state
-      setUser(null);
-      setProducts([]);
-      setOrders([]);
-      setCart([]);
-      setCustomers([]);
-      setNotifications([]);
-      setChatMessages([]);
-      setChatWithUser(null);
-      setNewMessage('');
-      setShowChatModal(false);
-      setShowProductModal(false);
-      setEditingProduct(null);
-      setCurrentView('dashboard');
-      setCustomerView('home');
-      setIsRegistering(false);
-      setRefreshing(false);
-      setShowNotifications(false);
-      setShowNotification(false);
-      setNotificationMessage('');
-      setUnreadMessages(0);
-      setUnreadCount(0);
+      clearSignedInState();
       
       console.log('✅ Logout successful');
       Alert.alert('Success', 'Logged out successfully');
@@ -1172,6 +1285,56 @@ export default function App() {
     }
   };
 
+  const startImpersonation = async (customer: AuthUser, reason: string) => {
+    if (!user) return;
+    try {
+      const session = await authService.startImpersonation(user, customer.id, reason);
+      setImpersonatedCart(await loadSavedCart(customer.id));
+      setImpersonation(session);
+      setCustomerView('home');
+      setUser(session.customer);
+      await loadUserData(session.customer);
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to open customer view');
+    }
+  };
+
+  // The cart last synced from the customer's devices, priced from the current catalogue
+  const loadSavedCart = async (customerId: string): Promise<CartItem[]> => {
+    try {
+      const saved = await cartRepository.list({ user_id: customerId });
+      return saved.flatMap(item => {
+        const product = products.find(p => p.id === item.product_id);
+        return product ? [{ product, quantity: item.quantity, addedAt: new Date(item.created_at) }] : [];
+      });
+    } catch (error) {
+      console.error('Error loading customer cart:', error);
+      return [];
+    }
+  };
+
+  const stopImpersonation = async () => {
+    if (!impersonation) return;
+    try {
+      await authService.endImpersonation(impersonation);
+    } catch (error) {
+      console.error('Error ending impersonation:', error);
+    }
+    const staffUser = impersonation.actor;
+    setImpersonation(null);
+    setImpersonatedCart([]);
+    setCurrentView('customers');
+    setUser(staffUser);
+    await loadUserData(staffUser);
+  };
+
+  // Customer-side writes are disabled while staff are viewing as a customer
+  const blockedByImpersonation = () => {
+    if (!impersonation?.read_only) return false;
+    Alert.alert('Read-only', `You are viewing as ${impersonation.customer.profile?.first_name || 'this customer'}. Changes are disabled.`);
+    return true;
+  };
+
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
     if (user) {
@@ -1182,6 +1345,10 @@ export default function App() {
 
   // Product management functions
   const handleAddProduct = () => {
+    if (!can('inventory.create')) {
+      Alert.alert('Permission Denied', 'You do not have permission to add products');
+      return;
+    }
     setEditingProduct(null);
     setProductForm({
       name: '',
@@ -1195,6 +1362,10 @@ export default function App() {
   };
 
   const handleEditProduct = (product: Product) => {
+    if (!can('inventory.edit') && !can('inventory.adjust')) {
+      Alert.alert('Permission Denied', 'You do not have permission to edit products');
+      return;
+    }
     setEditingProduct(product);
     setProductForm({
       name: product.name,
@@ -1207,6 +1378,45 @@ export default function App() {
     setShowProductModal(true);
   };
 
+  // Someone else saved the same record first and the merge rules could not settle every field
+  const resolveConflict = (
+    conflict: ConflictError,
+    keepMine: () => Promise<void>,
+    keepTheirs: () => Promise<void>
+  ) => {
+    const details = conflict.conflicts
+      .map(c => `${c.field}: yours "${c.mine ?? ''}", theirs "${c.theirs ?? ''}"`)
+      .join('\n');
+    const run = (resolve: () => Promise<void>) => () => {
+      resolve().catch(error => {
+        console.error('Error resolving conflict:', error);
+        Alert.alert('Error', 'Failed to save changes. Please try again.');
+      });
+    };
+    Alert.alert(
+      'Changed by Someone Else',
+      `This record was updated while you were editing it.\n\n${details}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Keep Theirs', onPress: run(keepTheirs) },
+        { text: 'Keep Mine', onPress: run(keepMine) }
+      ]
+    );
+  };
+
+  const finishEditingProduct = () => {
+    setShowProductModal(false);
+    setEditingProduct(null);
+    setProductForm({
+      name: '',
+      description: '',
+      price: '',
+      stock: '',
+      minStock: '',
+      features: '',
+    });
+  };
+
   const handleSaveProduct = async (overrideForm?: {
     name: string;
     description: string;
@@ -1237,6 +1447,22 @@ export default function App() {
       Alert.alert('Validation Error', 'Minimum stock level must be a valid number');
       return;
     }
+    if (!editingProduct && !can('inventory.create')) {
+      Alert.alert('Permission Denied', 'You do not have permission to add products');
+      return;
+    }
+    // Stock-only roles may change quantities but nothing else about a product
+    if (editingProduct && !can('inventory.edit')) {
+      const detailsChanged =
+        form.name.trim() !== editingProduct.name ||
+        form.description.trim() !== editingProduct.description ||
+        parseFloat(form.price) !== editingProduct.price ||
+        form.features.split(',').map(f => f.trim()).filter(f => f).join(',') !== editingProduct.features.join(',');
+      if (!can('inventory.adjust') || detailsChanged) {
+        Alert.alert('Permission Denied', 'You can only adjust stock levels for this product');
+        return;
+      }
+    }
 
     try {
       const productData = {
@@ -1252,8 +1478,27 @@ export default function App() {
       };
 
       if (editingProduct) {
-        // Update existing product
-        await updateProduct(editingProduct.id, productData);
+        // Update existing product, against the version the form was opened with
+        try {
+          await updateProduct(editingProduct.id, productData, editingProduct);
+        } catch (error) {
+          if (!isConflictError(error)) throw error;
+          resolveConflict(
+            error,
+            async () => {
+              await updateProduct(editingProduct.id, productData, error.current);
+              finishEditingProduct();
+            },
+            async () => {
+              const { updated_at, ...merged } = error.merged;
+              if (Object.keys(merged).length > 0) {
+                await updateProduct(editingProduct.id, merged, error.current);
+              }
+              finishEditingProduct();
+            }
+          );
+          return;
+        }
         Alert.alert('Success', 'Product updated successfully!');
       } else {
         // Add new product
@@ -1274,16 +1519,7 @@ export default function App() {
         Alert.alert('Success', 'Product added successfully!');
       }
 
-      setShowProductModal(false);
-      setEditingProduct(null);
-      setProductForm({
-        name: '',
-        description: '',
-        price: '',
-        stock: '',
-        minStock: '',
-        features: '',
-      });
+      finishEditingProduct();
     } catch (error) {
       console.error('Error saving product:', error);
       Alert.alert('Error', 'Failed to save product. Please try again.');
@@ -1291,6 +1527,10 @@ export default function App() {
   };
 
   const handleDeleteProduct = async (productId: string) => {
+    if (!can('inventory.delete')) {
+      Alert.alert('Permission Denied', 'You do not have permission to delete products');
+      return;
+    }
     Alert.alert(
       'Delete Product',
       'Are you sure you want to delete this product?',
@@ -1322,12 +1562,11 @@ export default function App() {
 
   const loadChatMessages = async () => {
     try {
-      const messagesData = await storage.getItem('@zada_chat_messages');
-      const allMessages = messagesData ? JSON.parse(messagesData) : [];
+      const allMessages = await messageRepository.list();
       
       // Filter messages for current chat
       const filteredMessages = allMessages.filter((msg: any) => {
-        if (user?.role === 'admin') {
+        if (can('support.chat')) {
           return msg.type === 'support' || (msg.sender_id === chatWithUser?.id || msg.recipient_id === chatWithUser?.id);
         } else {
           return msg.type === 'support';
@@ -1343,6 +1582,7 @@ export default function App() {
   const sendMessage = async () => {
     if (!newMessage.trim()) return;
     if (!user) return;
+    if (blockedByImpersonation()) return;
 
     const messageContent = newMessage.trim();
     if (messageContent.length > 500) {
@@ -1351,10 +1591,10 @@ export default function App() {
     }
 
     try {
-      const message = {
+      const message: ChatMessage = {
         id: 'msg_' + Date.now(),
         sender_id: user.id,
-        recipient_id: user.role === 'admin' ? chatWithUser?.id : null,
+        recipient_id: can('support.chat') ? chatWithUser?.id : null,
         type: 'support',
         subject: 'Support Chat',
         content: messageContent,
@@ -1364,10 +1604,7 @@ export default function App() {
         updated_at: new Date().toISOString(),
       };
 
-      const messagesData = await storage.getItem('@zada_chat_messages');
-      const allMessages = messagesData ? JSON.parse(messagesData) : [];
-      allMessages.push(message);
-      await storage.setItem('@zada_chat_messages', JSON.stringify(allMessages));
+      await syncService.execute('message.create', message.id, message);
 
       setChatMessages(prev => [...prev, message]);
       setNewMessage('');
@@ -1405,25 +1642,14 @@ export default function App() {
     }, 5000);
   };
 
-  const createNotification = async (type: string, title: string, message: string, targetUserId?: string) => {
+  const createNotification = async (type: Notification['type'], title: string, message: string, targetUserId?: string) => {
     try {
-      const notification = {
-        id: 'notif_' + Date.now(),
-        type,
-        title,
-        message,
-        userId: targetUserId || user?.id,
-        read: false,
-        created_at: new Date().toISOString()
-      };
-
-      const notificationsData = await storage.getItem('@zada_notifications');
-      const existingNotifications = notificationsData ? JSON.parse(notificationsData) : [];
-      existingNotifications.push(notification);
-      await storage.setItem('@zada_notifications', JSON.stringify(existingNotifications));
+      const recipientId = targetUserId || user?.id;
+      if (!recipientId) return;
+      const notification = await notificationService.createNotification(recipientId, type, title, message);
       
       // Only update local state if this notification is for the current user
-      if (notification.userId === user?.id) {
+      if (notification.user_id === user?.id) {
         setNotifications(prev => [...prev, notification]);
       }
     } catch (error) {
@@ -1433,10 +1659,8 @@ export default function App() {
 
   const loadNotifications = async () => {
     try {
-      const notificationsData = await storage.getItem('@zada_notifications');
-      if (notificationsData) {
-        const allNotifications = JSON.parse(notificationsData);
-        const userNotifications = allNotifications.filter((notif: any) => notif.userId === user?.id);
+      if (user) {
+        const userNotifications = await notificationService.getUserNotifications(user.id);
         setNotifications(userNotifications);
       }
     } catch (error) {
@@ -1448,16 +1672,58 @@ export default function App() {
   // Show loading screen
   // Modal Components
 
-  const ChatModal = () => (
-    <ChatModalComponent
-      visible={showChatModal}
-      user={user}
+  // Offline changes waiting for the server; a failed one blocks the queue until retried or discarded,
+  // while one the server refused has been set aside and stays here until dismissed
+  const renderSyncBanner = () => {
+    if (outbox.length === 0 && rejectedChanges.length === 0 && !offline) return null;
+    const failed = outbox.find(entry => entry.status === 'failed') || rejectedChanges[0];
+    const waiting = `${outbox.length} change${outbox.length === 1 ? '' : 's'} waiting to sync`;
+
+    return (
+      <View style={[styles.syncBanner, failed && styles.syncBannerFailed]}>
+        <Ionicons name={failed ? 'alert-circle' : offline ? 'cloud-offline' : 'cloud-upload'} size={20} color={COLORS.white} />
+        <Text style={styles.syncBannerText} numberOfLines={2}>
+          {failed
+            ? `${failed.status === 'rejected' ? 'A change was refused by the server' : 'A change could not be saved'}: ${failed.last_error}`
+            : offline
+              ? `Working offline${outbox.length > 0 ? `, ${waiting}` : '. Changes will sync when the connection is back'}`
+              : waiting}
+        </Text>
+        <TouchableOpacity style={styles.syncBannerButton} onPress={retrySync}>
+          <Text style={styles.syncBannerButtonText}>Retry</Text>
+        </TouchableOpacity>
+        {failed && (
+          <TouchableOpacity
+            style={styles.syncBannerButton}
+            onPress={() => {
+              Alert.alert(
+                'Discard Change',
+                'This change will not be saved to the server. Continue?',
+                [
+                  { text: 'Cancel', style: 'cancel' },
+                  { text: 'Discard', style: 'destructive', onPress: () => discardQueuedChange(failed.id) }
+                ]
+              );
+            }}
+          >
+            <Text style={styles.syncBannerButtonText}>Discard</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  const ChatModal = () => (
+    <ChatModalComponent
+      visible={showChatModal}
+      user={user}
       chatWithUser={chatWithUser}
       chatMessages={chatMessages}
       newMessage={newMessage}
       onChangeMessage={handleNewMessageChange}
       onSend={sendMessage}
       onClose={() => setShowChatModal(false)}
+      getSyncState={getSyncState}
     />
   );
 
@@ -1475,7 +1741,16 @@ export default function App() {
 
   // Show authentication screen
   if (!user) {
-    return AuthenticationScreen();
+    if (mfaChallenge) {
+      return MfaScreen();
+    }
+    if (inviteLink !== null) {
+      return InvitationScreen();
+    }
+    if (phoneLoginStep !== 'none') {
+      return PhoneLoginScreen();
+    }
+    return passwordResetStep === 'none' ? AuthenticationScreen() : PasswordResetScreen();
   }
 
   // Show customer interface
@@ -1496,6 +1771,24 @@ export default function App() {
             <Ionicons name="close" size={20} color={COLORS.white} />
           </TouchableOpacity>
         )}
+        {renderSyncBanner()}
+        {impersonation && (
+          <View style={styles.impersonationBanner}>
+            <Ionicons name="eye" size={20} color={COLORS.white} />
+            <View style={styles.impersonationInfo}>
+              <Text style={styles.impersonationTitle}>
+                Viewing as {impersonation.customer.profile?.first_name} {impersonation.customer.profile?.last_name}
+                {impersonation.read_only ? ' · Read-only' : ''}
+              </Text>
+              <Text style={styles.impersonationText} numberOfLines={2}>
+                Reason: {impersonation.reason}. The cart shows what the customer last synced from their devices.
+              </Text>
+            </View>
+            <TouchableOpacity style={styles.impersonationExit} onPress={stopImpersonation}>
+              <Text style={styles.impersonationExitText}>Exit</Text>
+            </TouchableOpacity>
+          </View>
+        )}
         <CustomerInterface />
       </SafeAreaView>
     );
@@ -1518,6 +1811,7 @@ export default function App() {
           <Ionicons name="close" size={20} color={COLORS.white} />
         </TouchableOpacity>
       )}
+      {renderSyncBanner()}
       <AdminInterface />
     </SafeAreaView>
   );
@@ -1620,49 +1914,15 @@ export default function App() {
                       />
                     </TouchableOpacity>
                   </View>
+                  {!isRegistering && (
+                    <TouchableOpacity style={styles.forgotPasswordButton} onPress={startPasswordReset}>
+                      <Text style={styles.forgotPasswordText}>Forgot password?</Text>
+                    </TouchableOpacity>
+                  )}
                 </View>
 
                 {isRegistering && (
                   <>
-                    <View style={styles.roleSelector}>
-                      <Text style={styles.roleLabel}>Account Type:</Text>
-                      <View style={styles.roleButtons}>
-                        <TouchableOpacity
-                          style={[
-                            styles.roleButton,
-                            formData.role === 'customer' && styles.roleButtonActive
-                          ]}
-                          onPress={() => setFormData(prev => ({ ...prev, role: 'customer' }))}
-                        >
-                          <Text style={[
-                            styles.roleButtonText,
-                            formData.role === 'customer' && styles.roleButtonTextActive
-                          ]}>
-                            Customer
-                          </Text>
-                        </TouchableOpacity>
-                        <TouchableOpacity
-                          style={[
-                            styles.roleButton,
-                            formData.role === 'admin' && styles.roleButtonActive
-                          ]}
-                          onPress={() => setFormData(prev => ({ ...prev, role: 'admin' }))}
-                        >
-                          <Text style={[
-                            styles.roleButtonText,
-                            formData.role === 'admin' && styles.roleButtonTextActive
-                          ]}>
-                            Admin
-                          </Text>
-                        </TouchableOpacity>
-                      </View>
-                      {formData.role === 'admin' && (
-                        <Text style={styles.adminEmailHint}>
-                          💡 Admin accounts require @zadafoods.com or @zada.com email address
-                        </Text>
-                      )}
-                    </View>
-
                     <View style={styles.inputGroup}>
                       <Text style={styles.inputLabel}>Phone (Optional)</Text>
                       <StableInput
@@ -1732,6 +1992,482 @@ export default function App() {
                     {isRegistering ? "Already have an account? Sign In" : "Don't have an account? Sign Up"}
                   </Text>
                 </TouchableOpacity>
+
+                {!isRegistering && (
+                  <TouchableOpacity
+                    style={[styles.toggleButton, { marginTop: SPACING.md }]}
+                    onPress={() => {
+                      clearForm();
+                      setPhoneLoginStep('request');
+                    }}
+                  >
+                    <Text style={styles.toggleButtonText}>Sign in with phone number</Text>
+                  </TouchableOpacity>
+                )}
+
+                {!isRegistering && (
+                  <TouchableOpacity
+                    style={[styles.toggleButton, { marginTop: SPACING.md }]}
+                    onPress={() => {
+                      clearForm();
+                      setInviteLink('');
+                    }}
+                  >
+                    <Text style={styles.toggleButtonText}>Joining the ZADA team? Accept an invitation</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            </ScrollView>
+          </KeyboardAvoidingView>
+        </LinearGradient>
+      </SafeAreaView>
+    );
+  }
+
+  // Password Reset Screen Component
+  function PasswordResetScreen() {
+    const isConfirmStep = passwordResetStep === 'confirm';
+
+    return (
+      <SafeAreaView style={styles.container}>
+        <StatusBar style="auto" />
+        <LinearGradient colors={COLORS.gradient} style={styles.authGradient}>
+          <KeyboardAvoidingView
+            style={styles.authContainer}
+            behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          >
+            <ScrollView contentContainerStyle={styles.authScrollContainer} keyboardShouldPersistTaps="handled">
+              <View style={styles.authHeader}>
+                <Text style={styles.authTitle}>ZADA Water Delivery</Text>
+                <Text style={styles.authSubtitle}>
+                  {isConfirmStep ? 'Enter your reset code' : 'Reset your password'}
+                </Text>
+              </View>
+
+              <View style={styles.authForm}>
+                {!isConfirmStep ? (
+                  <View style={styles.inputGroup}>
+                    <Text style={styles.inputLabel}>Email</Text>
+                    <StableInput
+                      ref={emailRef}
+                      style={styles.input}
+                      value={email}
+                      onChangeText={setEmail}
+                      placeholder="Enter your account email"
+                      keyboardType="email-address"
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                      autoComplete="email"
+                      returnKeyType="done"
+                      onSubmitEditing={handleRequestPasswordReset}
+                    />
+                  </View>
+                ) : (
+                  <>
+                    <Text style={styles.resetHint}>
+                      We sent a reset code to {email}. Enter it below with your new password.
+                    </Text>
+
+                    <View style={styles.inputGroup}>
+                      <Text style={styles.inputLabel}>Reset Code</Text>
+                      <StableInput
+                        style={styles.input}
+                        value={resetCode}
+                        onChangeText={setResetCode}
+                        placeholder="Enter the 8-character code"
+                        autoCapitalize="characters"
+                        autoCorrect={false}
+                        autoComplete="one-time-code"
+                        returnKeyType="next"
+                        onSubmitEditing={() => passwordRef.current?.focus()}
+                      />
+                    </View>
+
+                    <View style={styles.inputGroup}>
+                      <Text style={styles.inputLabel}>New Password</Text>
+                      <View style={styles.passwordContainer}>
+                        <StableInput
+                          ref={passwordRef}
+                          style={styles.passwordInput}
+                          value={password}
+                          onChangeText={setPassword}
+                          placeholder="Enter a new password"
+                          secureTextEntry={!showPassword}
+                          autoComplete="new-password"
+                          returnKeyType="done"
+                          onSubmitEditing={handleConfirmPasswordReset}
+                          autoCorrect={false}
+                          autoCapitalize="none"
+                        />
+                        <TouchableOpacity
+                          style={styles.passwordToggle}
+                          onPress={() => setShowPassword(!showPassword)}
+                        >
+                          <Ionicons
+                            name={showPassword ? "eye-off" : "eye"}
+                            size={20}
+                            color={COLORS.gray}
+                          />
+                        </TouchableOpacity>
+                      </View>
+                    </View>
+                  </>
+                )}
+
+                <TouchableOpacity
+                  style={styles.submitButton}
+                  onPress={isConfirmStep ? handleConfirmPasswordReset : handleRequestPasswordReset}
+                  disabled={isAuthenticating}
+                >
+                  {isAuthenticating ? (
+                    <ActivityIndicator color={COLORS.white} />
+                  ) : (
+                    <Text style={styles.submitButtonText}>
+                      {isConfirmStep ? 'Reset Password' : 'Send Reset Code'}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+
+                {isConfirmStep && (
+                  <TouchableOpacity
+                    style={[styles.toggleButton, { marginBottom: SPACING.md }]}
+                    onPress={handleRequestPasswordReset}
+                    disabled={isAuthenticating}
+                  >
+                    <Text style={styles.toggleButtonText}>Didn't get a code? Send a new one</Text>
+                  </TouchableOpacity>
+                )}
+
+                <TouchableOpacity
+                  style={styles.toggleButton}
+                  onPress={() => {
+                    setPassword('');
+                    setResetCode('');
+                    setPasswordResetStep('none');
+                  }}
+                >
+                  <Text style={styles.toggleButtonText}>Back to Sign In</Text>
+                </TouchableOpacity>
+              </View>
+            </ScrollView>
+          </KeyboardAvoidingView>
+        </LinearGradient>
+      </SafeAreaView>
+    );
+  }
+
+  // Two-Factor Screen Component
+  function MfaScreen() {
+    const enrollment = mfaChallenge?.enrollment;
+
+    return (
+      <SafeAreaView style={styles.container}>
+        <StatusBar style="auto" />
+        <LinearGradient colors={COLORS.gradient} style={styles.authGradient}>
+          <KeyboardAvoidingView
+            style={styles.authContainer}
+            behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          >
+            <ScrollView contentContainerStyle={styles.authScrollContainer} keyboardShouldPersistTaps="handled">
+              <View style={styles.authHeader}>
+                <Text style={styles.authTitle}>ZADA Water Delivery</Text>
+                <Text style={styles.authSubtitle}>
+                  {enrollment ? 'Set up two-factor authentication' : 'Two-factor authentication'}
+                </Text>
+              </View>
+
+              <View style={styles.authForm}>
+                {enrollment ? (
+                  <View style={styles.mfaEnrollment}>
+                    <Text style={styles.resetHint}>
+                      Admin accounts require an authenticator app. Add a new account in Google Authenticator,
+                      Authy or 1Password using this setup key, then enter the 6-digit code it shows.
+                    </Text>
+                    <Text style={styles.inputLabel}>Setup Key</Text>
+                    <Text style={styles.mfaSecret} selectable>
+                      {enrollment.secret.match(/.{1,4}/g)?.join(' ')}
+                    </Text>
+                    <Text style={styles.mfaUri} selectable>{enrollment.otpauth_uri}</Text>
+                  </View>
+                ) : (
+                  <Text style={styles.resetHint}>
+                    Enter the 6-digit code from your authenticator app, or one of your backup codes.
+                  </Text>
+                )}
+
+                <View style={styles.inputGroup}>
+                  <Text style={styles.inputLabel}>Authentication Code</Text>
+                  <StableInput
+                    style={styles.input}
+                    value={mfaCode}
+                    onChangeText={setMfaCode}
+                    placeholder={enrollment ? 'Enter the 6-digit code' : '6-digit code or backup code'}
+                    autoCapitalize="characters"
+                    autoCorrect={false}
+                    autoComplete="one-time-code"
+                    returnKeyType="done"
+                    onSubmitEditing={handleVerifyMfa}
+                  />
+                </View>
+
+                <TouchableOpacity
+                  style={styles.submitButton}
+                  onPress={handleVerifyMfa}
+                  disabled={isAuthenticating}
+                >
+                  {isAuthenticating ? (
+                    <ActivityIndicator color={COLORS.white} />
+                  ) : (
+                    <Text style={styles.submitButtonText}>
+                      {enrollment ? 'Enable & Sign In' : 'Verify'}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                  style={styles.toggleButton}
+                  onPress={() => {
+                    setMfaCode('');
+                    setMfaChallenge(null);
+                  }}
+                >
+                  <Text style={styles.toggleButtonText}>Back to Sign In</Text>
+                </TouchableOpacity>
+              </View>
+            </ScrollView>
+          </KeyboardAvoidingView>
+        </LinearGradient>
+      </SafeAreaView>
+    );
+  }
+
+  // Phone Login Screen Component
+  function PhoneLoginScreen() {
+    const isVerifyStep = phoneLoginStep === 'verify';
+
+    return (
+      <SafeAreaView style={styles.container}>
+        <StatusBar style="auto" />
+        <LinearGradient colors={COLORS.gradient} style={styles.authGradient}>
+          <KeyboardAvoidingView
+            style={styles.authContainer}
+            behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          >
+            <ScrollView contentContainerStyle={styles.authScrollContainer} keyboardShouldPersistTaps="handled">
+              <View style={styles.authHeader}>
+                <Text style={styles.authTitle}>ZADA Water Delivery</Text>
+                <Text style={styles.authSubtitle}>
+                  {isVerifyStep ? 'Enter your code' : 'Sign in with your phone'}
+                </Text>
+              </View>
+
+              <View style={styles.authForm}>
+                {!isVerifyStep ? (
+                  <View style={styles.inputGroup}>
+                    <Text style={styles.inputLabel}>Phone Number</Text>
+                    <StableInput
+                      ref={phoneRef}
+                      style={styles.input}
+                      value={phone}
+                      onChangeText={setPhone}
+                      placeholder="e.g. 0803 123 4567"
+                      keyboardType="phone-pad"
+                      autoComplete="tel"
+                      returnKeyType="done"
+                      onSubmitEditing={handleRequestPhoneOtp}
+                    />
+                  </View>
+                ) : (
+                  <>
+                    <Text style={styles.resetHint}>
+                      We sent a 6-digit code to {phone}. New numbers get a customer account automatically.
+                    </Text>
+
+                    <View style={styles.inputGroup}>
+                      <Text style={styles.inputLabel}>Verification Code</Text>
+                      <StableInput
+                        style={styles.input}
+                        value={otpCode}
+                        onChangeText={setOtpCode}
+                        placeholder="Enter the 6-digit code"
+                        keyboardType="number-pad"
+                        autoComplete="one-time-code"
+                        maxLength={6}
+                        returnKeyType="done"
+                        onSubmitEditing={handleVerifyPhoneOtp}
+                      />
+                    </View>
+                  </>
+                )}
+
+                <TouchableOpacity
+                  style={styles.submitButton}
+                  onPress={isVerifyStep ? handleVerifyPhoneOtp : handleRequestPhoneOtp}
+                  disabled={isAuthenticating}
+                >
+                  {isAuthenticating ? (
+                    <ActivityIndicator color={COLORS.white} />
+                  ) : (
+                    <Text style={styles.submitButtonText}>
+                      {isVerifyStep ? 'Verify & Sign In' : 'Send Code'}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+
+                {isVerifyStep && (
+                  <TouchableOpacity
+                    style={[styles.toggleButton, { marginBottom: SPACING.md }]}
+                    onPress={handleRequestPhoneOtp}
+                    disabled={isAuthenticating}
+                  >
+                    <Text style={styles.toggleButtonText}>Didn't get a code? Send a new one</Text>
+                  </TouchableOpacity>
+                )}
+
+                <TouchableOpacity
+                  style={styles.toggleButton}
+                  onPress={() => {
+                    setOtpCode('');
+                    setPhoneLoginStep('none');
+                  }}
+                >
+                  <Text style={styles.toggleButtonText}>Sign in with email instead</Text>
+                </TouchableOpacity>
+              </View>
+            </ScrollView>
+          </KeyboardAvoidingView>
+        </LinearGradient>
+      </SafeAreaView>
+    );
+  }
+
+  // Staff Invitation Screen Component
+  function InvitationScreen() {
+    return (
+      <SafeAreaView style={styles.container}>
+        <StatusBar style="auto" />
+        <LinearGradient colors={COLORS.gradient} style={styles.authGradient}>
+          <KeyboardAvoidingView
+            style={styles.authContainer}
+            behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          >
+            <ScrollView contentContainerStyle={styles.authScrollContainer} keyboardShouldPersistTaps="handled">
+              <View style={styles.authHeader}>
+                <Text style={styles.authTitle}>ZADA Water Delivery</Text>
+                <Text style={styles.authSubtitle}>Accept your staff invitation</Text>
+              </View>
+
+              <View style={styles.authForm}>
+                <Text style={styles.resetHint}>
+                  Open the link from your invitation email, or paste it below. Your role was chosen when you were invited.
+                </Text>
+
+                <View style={styles.inputGroup}>
+                  <Text style={styles.inputLabel}>Invitation Link</Text>
+                  <StableInput
+                    style={styles.input}
+                    value={inviteLink || ''}
+                    onChangeText={setInviteLink}
+                    placeholder="zada://invite?token=..."
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    multiline
+                  />
+                </View>
+
+                <View style={styles.inputGroup}>
+                  <Text style={styles.inputLabel}>First Name</Text>
+                  <StableInput
+                    ref={firstNameRef}
+                    style={styles.input}
+                    value={firstName}
+                    onChangeText={setFirstName}
+                    placeholder="Enter your first name"
+                    autoComplete="given-name"
+                    returnKeyType="next"
+                    onSubmitEditing={() => lastNameRef.current?.focus()}
+                  />
+                </View>
+
+                <View style={styles.inputGroup}>
+                  <Text style={styles.inputLabel}>Last Name</Text>
+                  <StableInput
+                    ref={lastNameRef}
+                    style={styles.input}
+                    value={lastName}
+                    onChangeText={setLastName}
+                    placeholder="Enter your last name"
+                    autoComplete="family-name"
+                    returnKeyType="next"
+                    onSubmitEditing={() => phoneRef.current?.focus()}
+                  />
+                </View>
+
+                <View style={styles.inputGroup}>
+                  <Text style={styles.inputLabel}>Phone (Optional)</Text>
+                  <StableInput
+                    ref={phoneRef}
+                    style={styles.input}
+                    value={phone}
+                    onChangeText={setPhone}
+                    placeholder="Enter your phone number"
+                    keyboardType="phone-pad"
+                    autoComplete="tel"
+                    returnKeyType="next"
+                    onSubmitEditing={() => passwordRef.current?.focus()}
+                  />
+                </View>
+
+                <View style={styles.inputGroup}>
+                  <Text style={styles.inputLabel}>Password</Text>
+                  <View style={styles.passwordContainer}>
+                    <StableInput
+                      ref={passwordRef}
+                      style={styles.passwordInput}
+                      value={password}
+                      onChangeText={setPassword}
+                      placeholder="Choose a password"
+                      secureTextEntry={!showPassword}
+                      autoComplete="new-password"
+                      returnKeyType="done"
+                      onSubmitEditing={handleAcceptInvitation}
+                      autoCorrect={false}
+                      autoCapitalize="none"
+                    />
+                    <TouchableOpacity
+                      style={styles.passwordToggle}
+                      onPress={() => setShowPassword(!showPassword)}
+                    >
+                      <Ionicons
+                        name={showPassword ? "eye-off" : "eye"}
+                        size={20}
+                        color={COLORS.gray}
+                      />
+                    </TouchableOpacity>
+                  </View>
+                </View>
+
+                <TouchableOpacity
+                  style={styles.submitButton}
+                  onPress={handleAcceptInvitation}
+                  disabled={isAuthenticating}
+                >
+                  {isAuthenticating ? (
+                    <ActivityIndicator color={COLORS.white} />
+                  ) : (
+                    <Text style={styles.submitButtonText}>Create Staff Account</Text>
+                  )}
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                  style={styles.toggleButton}
+                  onPress={() => {
+                    clearForm();
+                    setInviteLink(null);
+                  }}
+                >
+                  <Text style={styles.toggleButtonText}>Back to sign in</Text>
+                </TouchableOpacity>
               </View>
             </ScrollView>
           </KeyboardAvoidingView>
@@ -1762,7 +2498,7 @@ export default function App() {
                 </View>
               )}
             </TouchableOpacity>
-            <TouchableOpacity onPress={handleLogout} style={styles.logoutButton}>
+            <TouchableOpacity onPress={impersonation ? stopImpersonation : handleLogout} style={styles.logoutButton}>
               <Ionicons name="log-out" size={24} color={COLORS.white} />
             </TouchableOpacity>
           </View>
@@ -1875,11 +2611,12 @@ export default function App() {
           keyboardShouldPersistTaps="handled"
         >
           {currentView === 'dashboard' && <AdminDashboardView />}
-          {currentView === 'inventory' && <AdminInventoryView />}
-          {currentView === 'orders' && <AdminOrdersView />}
-          {currentView === 'analytics' && <AdminAnalyticsView />}
-          {currentView === 'customers' && <AdminCustomersView />}
-          {currentView === 'chat' && <ChatView />}
+          {currentView === 'inventory' && can('inventory.view') && <AdminInventoryView />}
+          {currentView === 'orders' && can('orders.view') && <AdminOrdersView />}
+          {currentView === 'analytics' && can('analytics.view') && <AdminAnalyticsView />}
+          {currentView === 'customers' && can('customers.view') && <AdminCustomersView />}
+          {currentView === 'chat' && can('support.chat') && <ChatView />}
+          {currentView === 'roles' && can('roles.manage') && <AdminRolesView />}
         </ScrollView>
 
         <View style={styles.bottomNavigation}>
@@ -1890,41 +2627,60 @@ export default function App() {
             <Ionicons name="grid" size={24} color={currentView === 'dashboard' ? COLORS.primary : COLORS.textSecondary} />
             <Text style={[styles.navText, currentView === 'dashboard' && styles.activeNavText]}>Dashboard</Text>
           </TouchableOpacity>
-          <TouchableOpacity
-            style={[styles.navItem, currentView === 'inventory' && styles.activeNavItem]}
-            onPress={() => setCurrentView('inventory')}
-          >
-            <Ionicons name="cube" size={24} color={currentView === 'inventory' ? COLORS.primary : COLORS.textSecondary} />
-            <Text style={[styles.navText, currentView === 'inventory' && styles.activeNavText]}>Inventory</Text>
-          </TouchableOpacity>
-          <TouchableOpacity
-            style={[styles.navItem, currentView === 'orders' && styles.activeNavItem]}
-            onPress={() => setCurrentView('orders')}
-          >
-            <Ionicons name="receipt" size={24} color={currentView === 'orders' ? COLORS.primary : COLORS.textSecondary} />
-            <Text style={[styles.navText, currentView === 'orders' && styles.activeNavText]}>Orders</Text>
-          </TouchableOpacity>
-          <TouchableOpacity
-            style={[styles.navItem, currentView === 'analytics' && styles.activeNavItem]}
-            onPress={() => setCurrentView('analytics')}
-          >
-            <Ionicons name="analytics" size={24} color={currentView === 'analytics' ? COLORS.primary : COLORS.textSecondary} />
-            <Text style={[styles.navText, currentView === 'analytics' && styles.activeNavText]}>Analytics</Text>
-          </TouchableOpacity>
-          <TouchableOpacity
-            style={[styles.navItem, currentView === 'customers' && styles.activeNavItem]}
-            onPress={() => setCurrentView('customers')}
-          >
-            <Ionicons name="people" size={24} color={currentView === 'customers' ? COLORS.primary : COLORS.textSecondary} />
-            <Text style={[styles.navText, currentView === 'customers' && styles.activeNavText]}>Customers</Text>
-          </TouchableOpacity>
-          <TouchableOpacity
-            style={[styles.navItem, currentView === 'chat' && styles.activeNavItem]}
-            onPress={() => setCurrentView('chat')}
-          >
-            <Ionicons name="chatbubbles" size={24} color={currentView === 'chat' ? COLORS.primary : COLORS.textSecondary} />
-            <Text style={[styles.navText, currentView === 'chat' && styles.activeNavText]}>Support</Text>
-          </TouchableOpacity>
+          {can('inventory.view') && (
+            <TouchableOpacity
+              style={[styles.navItem, currentView === 'inventory' && styles.activeNavItem]}
+              onPress={() => setCurrentView('inventory')}
+            >
+              <Ionicons name="cube" size={24} color={currentView === 'inventory' ? COLORS.primary : COLORS.textSecondary} />
+              <Text style={[styles.navText, currentView === 'inventory' && styles.activeNavText]}>Inventory</Text>
+            </TouchableOpacity>
+          )}
+          {can('orders.view') && (
+            <TouchableOpacity
+              style={[styles.navItem, currentView === 'orders' && styles.activeNavItem]}
+              onPress={() => setCurrentView('orders')}
+            >
+              <Ionicons name="receipt" size={24} color={currentView === 'orders' ? COLORS.primary : COLORS.textSecondary} />
+              <Text style={[styles.navText, currentView === 'orders' && styles.activeNavText]}>Orders</Text>
+            </TouchableOpacity>
+          )}
+          {can('analytics.view') && (
+            <TouchableOpacity
+              style={[styles.navItem, currentView === 'analytics' && styles.activeNavItem]}
+              onPress={() => setCurrentView('analytics')}
+            >
+              <Ionicons name="analytics" size={24} color={currentView === 'analytics' ? COLORS.primary : COLORS.textSecondary} />
+              <Text style={[styles.navText, currentView === 'analytics' && styles.activeNavText]}>Analytics</Text>
+            </TouchableOpacity>
+          )}
+          {can('customers.view') && (
+            <TouchableOpacity
+              style={[styles.navItem, currentView === 'customers' && styles.activeNavItem]}
+              onPress={() => setCurrentView('customers')}
+            >
+              <Ionicons name="people" size={24} color={currentView === 'customers' ? COLORS.primary : COLORS.textSecondary} />
+              <Text style={[styles.navText, currentView === 'customers' && styles.activeNavText]}>Customers</Text>
+            </TouchableOpacity>
+          )}
+          {can('support.chat') && (
+            <TouchableOpacity
+              style={[styles.navItem, currentView === 'chat' && styles.activeNavItem]}
+              onPress={() => setCurrentView('chat')}
+            >
+              <Ionicons name="chatbubbles" size={24} color={currentView === 'chat' ? COLORS.primary : COLORS.textSecondary} />
+              <Text style={[styles.navText, currentView === 'chat' && styles.activeNavText]}>Support</Text>
+            </TouchableOpacity>
+          )}
+          {can('roles.manage') && (
+            <TouchableOpacity
+              style={[styles.navItem, currentView === 'roles' && styles.activeNavItem]}
+              onPress={() => setCurrentView('roles')}
+            >
+              <Ionicons name="key" size={24} color={currentView === 'roles' ? COLORS.primary : COLORS.textSecondary} />
+              <Text style={[styles.navText, currentView === 'roles' && styles.activeNavText]}>Team</Text>
+            </TouchableOpacity>
+          )}
         </View>
 
         <NotificationsModal />
@@ -1991,6 +2747,7 @@ export default function App() {
               <TouchableOpacity
                 style={styles.addToCartButton}
                 onPress={async () => {
+                  if (blockedByImpersonation()) return;
                   try {
                     await addToCart(product, 1);
                     
@@ -1998,15 +2755,15 @@ export default function App() {
                     showNotificationBanner('Item Added to Cart', `${product.name} has been added to your cart!`);
                     
                     // Create persistent notification
-                    await addNotification({
-                      id: 'notif_' + Date.now(),
-                      type: 'cart',
-                      title: 'Item Added to Cart',
-                      message: `${product.name} has been added to your cart!`,
-                      userId: user?.id,
-                      read: false,
-                      created_at: new Date().toISOString()
-                    });
+                    if (user) {
+                      await addNotification({
+                        user_id: user.id,
+                        type: 'system',
+                        title: 'Item Added to Cart',
+                        content: `${product.name} has been added to your cart!`,
+                        data: { product_id: product.id }
+                      });
+                    }
                   } catch (error) {
                     console.error('Error adding to cart:', error);
                     Alert.alert('Error', 'Failed to add item to cart');
@@ -2030,6 +2787,7 @@ export default function App() {
 
   function CustomerCartView() {
     const updateQuantity = async (productId: string, newQuantity: number) => {
+      if (blockedByImpersonation()) return;
       try {
         await updateCartItem(productId, newQuantity);
       } catch (error) {
@@ -2039,6 +2797,7 @@ export default function App() {
     };
 
     const removeFromCartItem = async (productId: string) => {
+      if (blockedByImpersonation()) return;
       try {
         await removeFromCart(productId);
       } catch (error) {
@@ -2051,28 +2810,16 @@ export default function App() {
       return cartTotal;
     };
 
-    const getSubtotal = () => {
-      return cart.reduce((total, item) => total + (item.product.price * item.quantity), 0);
-    };
-
-    const getTaxAmount = () => {
-      return getSubtotal() * 0.1; // 10% tax
-    };
-
-    const getShippingCost = () => {
-      return 500; // Fixed shipping cost
-    };
-
-    const getGrandTotal = () => {
-      return getSubtotal() + getTaxAmount() + getShippingCost();
-    };
+    // Same figures the checkout will charge
+    const totals = computeTotals(cart.map(item => ({ unit_price: item.product.price, quantity: item.quantity })));
 
     const proceedToCheckout = () => {
+      if (blockedByImpersonation()) return;
       console.log('=== CHECKOUT DEBUG ===');
       console.log('Proceed to checkout called, cart length:', cart.length);
       console.log('Cart items:', cart);
       console.log('User:', user);
-      console.log('Grand total:', getGrandTotal());
+      console.log('Grand total:', totals.total_amount);
       
       if (cart.length === 0) {
         console.log('Cart is empty, showing alert');
@@ -2080,96 +2827,71 @@ export default function App() {
         return;
       }
       
+      // Orders are only accepted from customers with a confirmed email address
+      if (user && !authService.isEmailVerified(user)) {
+        Alert.alert(
+          'Verify Your Email',
+          `Please confirm ${user.email} before placing your first order. Enter the code we emailed you on your Profile page.`,
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Verify Now', onPress: () => setCustomerView('profile') }
+          ]
+        );
+        return;
+      }
+      
       console.log('Showing payment method selection');
       // Show payment method selection
       Alert.alert(
         'Select Payment Method',
-        `Total: ₦${getGrandTotal().toLocaleString()}\n\nHow would you like to pay?`,
+        `Total: ₦${totals.total_amount.toLocaleString()}\n\nHow would you like to pay?`,
         [
           { text: 'Cancel', style: 'cancel', onPress: () => console.log('Checkout cancelled') },
           { 
             text: 'Cash on Delivery', 
             onPress: () => {
               console.log('Cash on delivery selected');
-              createOrder('cash_on_delivery');
+              createOrder('cash');
             }
           },
           { 
             text: 'Online Payment', 
             onPress: () => {
               console.log('Online payment selected');
-              createOrder('online');
+              createOrder('card');
             }
           }
         ]
       );
     };
 
-    const createOrder = (paymentMethod: string) => {
+    const createOrder = async (paymentMethod: Order['payment_method']) => {
+      if (!user) return;
       console.log('=== CREATE ORDER DEBUG ===');
       console.log('Creating order with payment method:', paymentMethod);
-      console.log('Cart items:', cart);
-      console.log('User:', user);
-      
-      const subtotal = getSubtotal();
-      const taxAmount = getTaxAmount();
-      const shippingCost = getShippingCost();
-      const totalAmount = getGrandTotal();
-      
-      console.log('Calculated amounts:', { subtotal, taxAmount, shippingCost, totalAmount });
-      
-      const order: Order = {
-        id: 'order_' + Date.now(),
-        order_number: 'ORD-' + Date.now(),
-        customer_id: user?.id || '',
-        subtotal: subtotal,
-        tax_amount: taxAmount,
-        shipping_cost: shippingCost,
-        total_amount: totalAmount,
-        payment_method: paymentMethod === 'cash_on_delivery' ? 'cash' : 'card',
-        payment_status: 'pending',
-        status: 'pending',
-        shipping_address: user?.profile?.address || '',
-        notes: '',
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-        order_items: cart.map(item => ({
-          id: 'item_' + Date.now() + '_' + Math.random(),
-          order_id: 'order_' + Date.now(),
-          product_id: item.product.id,
-          quantity: item.quantity,
-          price: item.product.price,
-          created_at: new Date().toISOString()
-        }))
-      };
-      
-      console.log('Order created:', order);
       
       try {
-        setOrders(prev => {
-          console.log('Previous orders:', prev);
-          const newOrders = [...prev, order];
-          console.log('New orders array:', newOrders);
-          return newOrders;
-        });
+        const result = await placeOrder({ customer: user, payment_method: paymentMethod });
         
-        console.log('Cart before clearing:', cart);
-        setCart([]);
-        console.log('Cart cleared');
+        if (result.status === 'rejected') {
+          // The cart now shows current prices and stock, so the customer can adjust and try again
+          Alert.alert('Please Review Your Cart', result.issues.map(describeCheckoutIssue).join('\n'));
+          return;
+        }
         
-        const paymentMessage = paymentMethod === 'cash_on_delivery' 
+        const paymentMessage = paymentMethod === 'cash'
           ? 'Order placed successfully! You will pay cash on delivery.'
           : 'Order placed successfully! Please complete your online payment.';
-        
-        console.log('Payment message:', paymentMessage);
+        // Queued in the outbox when offline; the order shows as waiting to sync
+        const syncMessage = result.sync_state === 'synced' ? '' : ' It will be sent once you are back online.';
         
         // Show notification
         showNotificationBanner('Order Placed', paymentMessage);
         
         // Create persistent notification
-        createNotification('payment', 'Order Placed', paymentMessage);
+        createNotification('order', 'Order Placed', paymentMessage);
         
-        Alert.alert('Success', paymentMessage);
+        Alert.alert('Success', paymentMessage + syncMessage);
         console.log('Order creation completed successfully');
       } catch (error) {
         console.error('Error in createOrder:', error);
@@ -2238,19 +2960,19 @@ export default function App() {
             <View style={styles.cartFooter}>
               <View style={styles.cartTotal}>
                 <Text style={styles.cartTotalLabel}>Subtotal:</Text>
-                <Text style={styles.cartTotalAmount}>₦{getSubtotal().toLocaleString()}</Text>
+                <Text style={styles.cartTotalAmount}>₦{totals.subtotal.toLocaleString()}</Text>
               </View>
               <View style={styles.cartTotal}>
                 <Text style={styles.cartTotalLabel}>Tax (10%):</Text>
-                <Text style={styles.cartTotalAmount}>₦{getTaxAmount().toLocaleString()}</Text>
+                <Text style={styles.cartTotalAmount}>₦{totals.tax_amount.toLocaleString()}</Text>
               </View>
               <View style={styles.cartTotal}>
                 <Text style={styles.cartTotalLabel}>Shipping:</Text>
-                <Text style={styles.cartTotalAmount}>₦{getShippingCost().toLocaleString()}</Text>
+                <Text style={styles.cartTotalAmount}>₦{totals.shipping_cost.toLocaleString()}</Text>
               </View>
               <View style={[styles.cartTotal, { borderTopWidth: 1, borderTopColor: COLORS.border, paddingTop: 8 }]}>
                 <Text style={[styles.cartTotalLabel, { fontWeight: 'bold' as const }]}>Total:</Text>
-                <Text style={[styles.cartTotalAmount, { fontWeight: 'bold' as const }]}>₦{getGrandTotal().toLocaleString()}</Text>
+                <Text style={[styles.cartTotalAmount, { fontWeight: 'bold' as const }]}>₦{totals.total_amount.toLocaleString()}</Text>
               </View>
               
               <TouchableOpacity
@@ -2274,11 +2996,13 @@ export default function App() {
       ? customerOrders 
       : customerOrders.filter(order => order.status === selectedStatus);
 
-    const reorderItems = (order: any) => {
-      const itemsToAdd = order.items.map((item: any) => ({
-        product: item.product,
-        quantity: item.quantity
-      }));
+    const reorderItems = (order: Order) => {
+      const itemsToAdd = getOrderLines(order, products)
+        .filter(item => item.product)
+        .map(item => ({
+          product: item.product,
+          quantity: item.quantity
+        }));
       
       setCart(prev => {
         const newCart = [...prev];
@@ -2297,13 +3021,82 @@ export default function App() {
       Alert.alert('Success', 'Items added to cart!');
     };
 
+    // The order being changed inside its grace window, with the quantities and address as edited so far
+    const [changeDraft, setChangeDraft] = useState<{ orderId: string; quantities: Record<string, number>; address: string } | null>(null);
+
+    const startOrderChange = (order: Order) => {
+      setChangeDraft({
+        orderId: order.id,
+        quantities: Object.fromEntries((order.order_items || []).map(item => [item.id, item.quantity])),
+        address: typeof order.shipping_address === 'string' ? order.shipping_address : ''
+      });
+    };
+
+    const setDraftQuantity = (itemId: string, quantity: number) => {
+      setChangeDraft(prev => prev && { ...prev, quantities: { ...prev.quantities, [itemId]: Math.max(0, quantity) } });
+    };
+
+    // Only what differs from the order is sent
+    const saveOrderChange = async (order: Order) => {
+      if (!changeDraft || blockedByImpersonation()) return;
+      const quantities = Object.fromEntries(
+        Object.entries(changeDraft.quantities).filter(([itemId, quantity]) =>
+          order.order_items?.find(item => item.id === itemId)?.quantity !== quantity)
+      );
+      const address = changeDraft.address.trim();
+      const request = {
+        ...(Object.keys(quantities).length > 0 ? { quantities } : {}),
+        ...(address !== (order.shipping_address || '') ? { shipping_address: address } : {})
+      };
+      if (Object.keys(request).length === 0) {
+        setChangeDraft(null);
+        return;
+      }
+
+      try {
+        await changeOwnOrder(order.id, request);
+        setChangeDraft(null);
+        Alert.alert('Order Updated', 'Your changes have been saved.');
+      } catch (error) {
+        console.error('Error changing order:', error);
+        Alert.alert('Could Not Change Order', isOrderChangeError(error) ? error.message : 'Failed to save your changes. Please try again.');
+      }
+    };
+
+    const cancelOrder = (order: Order) => {
+      if (blockedByImpersonation()) return;
+      Alert.alert(
+        'Cancel Order',
+        `Cancel order ${displayOrderNumber(order.order_number)}?` +
+          (order.payment_status === 'paid' ? ' Your payment will be refunded.' : ''),
+        [
+          { text: 'Keep Order', style: 'cancel' },
+          {
+            text: 'Cancel Order',
+            style: 'destructive',
+            onPress: async () => {
+              try {
+                await cancelOwnOrder(order.id);
+                Alert.alert('Order Cancelled', order.payment_status === 'paid'
+                  ? 'Your order has been cancelled and a refund has been started.'
+                  : 'Your order has been cancelled.');
+              } catch (error) {
+                console.error('Error cancelling order:', error);
+                Alert.alert('Could Not Cancel', isOrderChangeError(error) ? error.message : 'Failed to cancel the order. Please try again.');
+              }
+            }
+          }
+        ]
+      );
+    };
+
     return (
       <View style={styles.viewContainer}>
         <Text style={styles.viewTitle}>Your Orders</Text>
         
         {/* Status Filter */}
         <View style={styles.filterContainer}>
-          {['all', 'pending', 'processing', 'shipped', 'delivered', 'cancelled'].map((status) => (
+          {['all', ...ORDER_STATUSES].map((status) => (
             <TouchableOpacity
               key={status}
               style={[
@@ -2327,7 +3120,7 @@ export default function App() {
           {filteredOrders.map((order) => (
             <View key={order.id} style={styles.orderCard}>
               <View style={styles.orderHeader}>
-                <Text style={styles.orderId}>Order #{order.id.slice(-6)}</Text>
+                <Text style={styles.orderId}>Order {displayOrderNumber(order.order_number)}</Text>
                 <View style={[styles.orderStatus, { backgroundColor: getStatusColor(order.status) }]}>
                   <Text style={styles.orderStatusText}>{order.status.toUpperCase()}</Text>
                 </View>
@@ -2336,7 +3129,7 @@ export default function App() {
               <View style={styles.orderDetails}>
                 <Text style={styles.orderAmount}>Amount: ₦{order.total_amount.toLocaleString()}</Text>
                 <Text style={styles.orderPayment}>
-                  Payment: {order.payment_method === 'cash_on_delivery' ? 'Cash on Delivery' : 'Online Payment'}
+                  Payment: {getPaymentMethodLabel(order.payment_method)}
                 </Text>
                 <Text style={styles.orderPaymentStatus}>
                   Payment Status: {order.payment_status === 'pending' ? 'Pending' : 'Paid'}
@@ -2344,14 +3137,19 @@ export default function App() {
                 <Text style={styles.orderDate}>
                   Date: {new Date(order.created_at).toLocaleDateString()}
                 </Text>
+                {getSyncState(order.id) !== 'synced' && (
+                  <Text style={[styles.syncStateText, ['failed', 'rejected'].includes(getSyncState(order.id)) && styles.syncStateFailed]}>
+                    {getSyncLabel(getSyncState(order.id))}
+                  </Text>
+                )}
               </View>
 
               {/* Order Items */}
               <View style={styles.orderItems}>
                 <Text style={styles.orderItemsTitle}>Items:</Text>
-                {order.items.map((item, index) => (
+                {getOrderLines(order, products).map((item, index) => (
                   <Text key={index} style={styles.orderItem}>
-                    {item.quantity}x {item.product.name} - ₦{item.price.toLocaleString()}
+                    {item.quantity}x {item.product?.name || 'Unknown product'} - ₦{item.unit_price.toLocaleString()}
                   </Text>
                 ))}
               </View>
@@ -2363,18 +3161,22 @@ export default function App() {
                   onPress={() => {
                     Alert.alert(
                       'Order Details',
-                      `Order #${order.id.slice(-6)}\n` +
+                      `Order ${displayOrderNumber(order.order_number)}\n` +
                       `Status: ${order.status.toUpperCase()}\n` +
                       `Total: ₦${order.total_amount.toLocaleString()}\n` +
                       `Date: ${new Date(order.created_at).toLocaleDateString()}\n\n` +
-                      `Items:\n${order.items.map((item: any) => 
-                        `${item.quantity}x ${item.product.name} - ₦${item.price.toLocaleString()}`
+                      `Items:\n${getOrderLines(order, products).map(item => 
+                        `${item.quantity}x ${item.product?.name || 'Unknown product'} - ₦${item.unit_price.toLocaleString()}`
                       ).join('\n')}`
                     );
                   }}
                 >
                   <Text style={styles.detailsButtonText}>View Details</Text>
                 </TouchableOpacity>
+
+                <TouchableOpacity style={styles.detailsButton} onPress={() => toggleOrderHistory(order.id)}>
+                  <Text style={styles.detailsButtonText}>{openHistoryId === order.id ? 'Hide History' : 'History'}</Text>
+                </TouchableOpacity>
                 
                 {(order.status === 'delivered' || order.status === 'cancelled') && (
                   <TouchableOpacity
@@ -2385,6 +3187,71 @@ export default function App() {
                   </TouchableOpacity>
                 )}
               </View>
+
+              {/* Grace window: cancel or change a pending order shortly after placing it, once the server has it */}
+              {canCustomerChange(order) && getSyncState(order.id) === 'synced' && (
+                <View style={styles.orderChangeSection}>
+                  <Text style={styles.orderChangeHint}>
+                    You can change or cancel this order until{' '}
+                    {changeWindowEndsAt(order).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </Text>
+                  <View style={styles.orderActions}>
+                    <TouchableOpacity
+                      style={styles.detailsButton}
+                      onPress={() => changeDraft?.orderId === order.id ? setChangeDraft(null) : startOrderChange(order)}
+                    >
+                      <Text style={styles.detailsButtonText}>{changeDraft?.orderId === order.id ? 'Discard Changes' : 'Change Order'}</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.cancelOrderButton} onPress={() => cancelOrder(order)}>
+                      <Text style={styles.cancelOrderButtonText}>Cancel Order</Text>
+                    </TouchableOpacity>
+                  </View>
+
+                  {changeDraft?.orderId === order.id && (
+                    <View style={styles.orderChangeEditor}>
+                      {getOrderLines(order, products).map(item => (
+                        <View key={item.id} style={styles.orderChangeRow}>
+                          <Text style={styles.orderChangeItemName}>{item.product?.name || 'Unknown product'}</Text>
+                          {order.payment_status === 'paid' ? (
+                            <Text style={styles.quantityText}>{item.quantity}</Text>
+                          ) : (
+                            <View style={styles.quantityControls}>
+                              <TouchableOpacity
+                                style={styles.quantityButton}
+                                onPress={() => setDraftQuantity(item.id, (changeDraft.quantities[item.id] ?? item.quantity) - 1)}
+                              >
+                                <Ionicons name="remove" size={16} color={COLORS.primary} />
+                              </TouchableOpacity>
+                              <Text style={styles.quantityText}>{changeDraft.quantities[item.id] ?? item.quantity}</Text>
+                              <TouchableOpacity
+                                style={styles.quantityButton}
+                                onPress={() => setDraftQuantity(item.id, (changeDraft.quantities[item.id] ?? item.quantity) + 1)}
+                              >
+                                <Ionicons name="add" size={16} color={COLORS.primary} />
+                              </TouchableOpacity>
+                            </View>
+                          )}
+                        </View>
+                      ))}
+                      {order.payment_status === 'paid' && (
+                        <Text style={styles.orderChangeHint}>Items on a paid order cannot be changed; cancel it for a refund instead</Text>
+                      )}
+                      <TextInput
+                        style={[styles.fieldInput, styles.orderChangeAddress]}
+                        value={changeDraft.address}
+                        onChangeText={text => setChangeDraft(prev => prev && { ...prev, address: text })}
+                        placeholder="Delivery address"
+                        multiline
+                      />
+                      <TouchableOpacity style={styles.reorderButton} onPress={() => saveOrderChange(order)}>
+                        <Text style={styles.reorderButtonText}>Save Changes</Text>
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                </View>
+              )}
+
+              {openHistoryId === order.id && <OrderTimeline events={orderEvents[order.id]} viewerId={user?.id} />}
             </View>
           ))}
           
@@ -2407,35 +3274,209 @@ export default function App() {
     );
   }
 
-  function CustomerProfileView() {
-    const [isEditing, setIsEditing] = useState(false);
-    const [editForm, setEditForm] = useState({
-      first_name: user?.profile?.first_name || '',
-      last_name: user?.profile?.last_name || '',
-      phone: user?.profile?.phone || '',
-      address: user?.profile?.address || '',
-    });
+  function CustomerProfileView() {
+    const [isEditing, setIsEditing] = useState(false);
+    const [editForm, setEditForm] = useState({
+      first_name: user?.profile?.first_name || '',
+      last_name: user?.profile?.last_name || '',
+      phone: user?.profile?.phone || '',
+      address: user?.profile?.address || '',
+    });
+    const [verificationCode, setVerificationCode] = useState('');
+    const [isVerifying, setIsVerifying] = useState(false);
+    const [phoneCode, setPhoneCode] = useState('');
+    const [isVerifyingPhone, setIsVerifyingPhone] = useState(false);
+    const [sessions, setSessions] = useState<SessionInfo[]>([]);
+    const [showDeleteAccount, setShowDeleteAccount] = useState(false);
+    const [deletePassword, setDeletePassword] = useState('');
+    const [isDeletingAccount, setIsDeletingAccount] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
+
+    // Devices and account actions belong to whoever is signed in, not to the customer being viewed
+    useEffect(() => {
+      if (!impersonation) {
+        authService.getSessions().then(setSessions);
+      }
+    }, [user?.id]);
+
+    const handleRevokeSession = (session: SessionInfo) => {
+      Alert.alert(
+        'Sign Out Device',
+        `Sign out of ${session.device_name}?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Sign Out',
+            style: 'destructive',
+            onPress: async () => {
+              try {
+                await authService.revokeSession(session.id);
+                if (session.current) {
+                  await handleLogout();
+                  return;
+                }
+                setSessions(await authService.getSessions());
+              } catch (error) {
+                Alert.alert('Error', error instanceof Error ? error.message : 'Failed to sign out device');
+              }
+            }
+          }
+        ]
+      );
+    };
+
+    const handleSignOutEverywhere = () => {
+      Alert.alert(
+        'Sign Out Everywhere',
+        'You will be signed out on all devices, including this one.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Sign Out All',
+            style: 'destructive',
+            onPress: async () => {
+              try {
+                await authService.signOutEverywhere();
+                await handleLogout();
+              } catch (error) {
+                Alert.alert('Error', error instanceof Error ? error.message : 'Failed to sign out');
+              }
+            }
+          }
+        ]
+      );
+    };
+
+    const handleVerifyEmail = async () => {
+      if (!user || blockedByImpersonation()) return;
+      if (!verificationCode.trim()) {
+        Alert.alert('Validation Error', 'Verification code is required');
+        return;
+      }
+
+      try {
+        setIsVerifying(true);
+        const verifiedUser = await authService.confirmEmailVerification(user.id, verificationCode);
+        setUser(verifiedUser);
+        Alert.alert('Email Verified', 'Thanks! You can now place orders.');
+      } catch (error) {
+        Alert.alert('Verification Failed', error instanceof Error ? error.message : 'Failed to verify email');
+      } finally {
+        setIsVerifying(false);
+      }
+    };
+
+    const handleResendVerification = async () => {
+      if (!user || blockedByImpersonation()) return;
+      try {
+        await authService.resendEmailVerification(user.id);
+        Alert.alert('Code Sent', `A new verification code has been sent to ${user.email}`);
+      } catch (error) {
+        Alert.alert('Error', error instanceof Error ? error.message : 'Failed to resend code');
+      }
+    };
+
+    const handleSendPhoneCode = async () => {
+      if (!user?.profile?.phone || blockedByImpersonation()) return;
+      try {
+        await authService.requestPhoneOtp(user.profile.phone);
+        Alert.alert('Code Sent', `A code has been sent to ${user.profile.phone}`);
+      } catch (error) {
+        Alert.alert('Error', error instanceof Error ? error.message : 'Failed to send code');
+      }
+    };
+
+    const handleVerifyPhone = async () => {
+      if (!user || blockedByImpersonation()) return;
+      if (!phoneCode.trim()) {
+        Alert.alert('Validation Error', 'Verification code is required');
+        return;
+      }
+
+      try {
+        setIsVerifyingPhone(true);
+        const verifiedUser = await authService.confirmProfilePhone(phoneCode);
+        setUser(verifiedUser);
+        setPhoneCode('');
+        Alert.alert('Phone Verified', 'You can now sign in with this number.');
+      } catch (error) {
+        Alert.alert('Verification Failed', error instanceof Error ? error.message : 'Failed to verify phone');
+      } finally {
+        setIsVerifyingPhone(false);
+      }
+    };
+
+    const handleExportData = async () => {
+      try {
+        setIsExporting(true);
+        const dataExport = await authService.exportMyData();
+        const json = JSON.stringify(dataExport, null, 2);
+        const fileName = `zada-data-${new Date().toISOString().slice(0, 10)}.json`;
+
+        if (Platform.OS === 'web') {
+          const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+          const link = (globalThis as any).document.createElement('a');
+          link.href = url;
+          link.download = fileName;
+          link.click();
+          URL.revokeObjectURL(url);
+        } else {
+          await Share.share({ title: fileName, message: json });
+        }
+      } catch (error) {
+        Alert.alert('Error', error instanceof Error ? error.message : 'Failed to export your data');
+      } finally {
+        setIsExporting(false);
+      }
+    };
+
+    const handleDeleteAccount = () => {
+      if (user?.has_password && !deletePassword) {
+        Alert.alert('Validation Error', 'Enter your password to confirm');
+        return;
+      }
+      Alert.alert(
+        'Delete Account',
+        'Your profile, messages and notifications will be erased and open orders cancelled. Past orders are kept anonymously for our accounts. This cannot be undone.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Delete',
+            style: 'destructive',
+            onPress: async () => {
+              try {
+                setIsDeletingAccount(true);
+                await authService.deleteAccount(deletePassword || undefined);
+                await syncData();
+                clearSignedInState();
+                Alert.alert('Account Deleted', 'Your account has been deleted.');
+              } catch (error) {
+                Alert.alert('Error', error instanceof Error ? error.message : 'Failed to delete account');
+              } finally {
+                setIsDeletingAccount(false);
+              }
+            }
+          }
+        ]
+      );
+    };
 
     const handleSaveProfile = async () => {
+      if (blockedByImpersonation()) return;
       if (!editForm.first_name.trim() || !editForm.last_name.trim()) {
         Alert.alert('Validation Error', 'First name and last name are required');
         return;
       }
 
       try {
-        const updatedUser = {
-          ...user,
-          profile: {
-            ...user?.profile,
-            first_name: editForm.first_name.trim(),
-            last_name: editForm.last_name.trim(),
-            phone: editForm.phone.trim(),
-            address: editForm.address.trim(),
-          }
-        };
+        const updatedUser = await authService.updateProfile({
+          first_name: editForm.first_name.trim(),
+          last_name: editForm.last_name.trim(),
+          phone: editForm.phone.trim(),
+          address: editForm.address.trim(),
+        });
         
         setUser(updatedUser);
-        await storage.setItem('@zada_user', JSON.stringify(updatedUser));
         setIsEditing(false);
         Alert.alert('Success', 'Profile updated successfully!');
       } catch (error) {
@@ -2466,6 +3507,82 @@ export default function App() {
           </View>
         </View>
 
+        {/* Email Verification */}
+        {user && !authService.isEmailVerified(user) && (
+          <View style={styles.verificationCard}>
+            <View style={styles.verificationHeader}>
+              <Ionicons name="mail-unread" size={20} color={COLORS.warning} />
+              <Text style={styles.verificationTitle}>Verify your email</Text>
+            </View>
+            <Text style={styles.verificationText}>
+              Enter the 6-digit code we sent to {user.email}. You need a verified email to place orders.
+            </Text>
+            <StableInput
+              style={styles.fieldInput}
+              value={verificationCode}
+              onChangeText={setVerificationCode}
+              placeholder="Enter verification code"
+              keyboardType="number-pad"
+              autoComplete="one-time-code"
+              maxLength={6}
+            />
+            <View style={styles.verificationActions}>
+              <TouchableOpacity
+                style={[styles.saveButton, styles.verificationButton]}
+                onPress={handleVerifyEmail}
+                disabled={isVerifying}
+              >
+                {isVerifying ? (
+                  <ActivityIndicator color={COLORS.white} />
+                ) : (
+                  <Text style={styles.saveButtonText}>Verify</Text>
+                )}
+              </TouchableOpacity>
+              <TouchableOpacity onPress={handleResendVerification}>
+                <Text style={styles.toggleButtonText}>Resend code</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {/* Phone Verification: a number is only used for sign-in once a code sent to it is entered */}
+        {user?.profile?.phone && !user.phone_verified_at && (
+          <View style={styles.verificationCard}>
+            <View style={styles.verificationHeader}>
+              <Ionicons name="call" size={20} color={COLORS.warning} />
+              <Text style={styles.verificationTitle}>Verify your phone</Text>
+            </View>
+            <Text style={styles.verificationText}>
+              Send a code to {user.profile.phone} and enter it here to sign in with this number.
+            </Text>
+            <StableInput
+              style={styles.fieldInput}
+              value={phoneCode}
+              onChangeText={setPhoneCode}
+              placeholder="Enter verification code"
+              keyboardType="number-pad"
+              autoComplete="one-time-code"
+              maxLength={6}
+            />
+            <View style={styles.verificationActions}>
+              <TouchableOpacity
+                style={[styles.saveButton, styles.verificationButton]}
+                onPress={handleVerifyPhone}
+                disabled={isVerifyingPhone}
+              >
+                {isVerifyingPhone ? (
+                  <ActivityIndicator color={COLORS.white} />
+                ) : (
+                  <Text style={styles.saveButtonText}>Verify</Text>
+                )}
+              </TouchableOpacity>
+              <TouchableOpacity onPress={handleSendPhoneCode}>
+                <Text style={styles.toggleButtonText}>Send code</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
         {/* Profile Stats */}
         <View style={styles.profileStats}>
           <View style={styles.statCard}>
@@ -2559,45 +3676,114 @@ export default function App() {
           )}
         </View>
 
+        {/* Signed-in Devices */}
+        {!impersonation && (
+          <View style={[styles.profileForm, { marginBottom: SPACING.lg }]}>
+            <View style={styles.formHeader}>
+              <Text style={styles.formTitle}>Your devices</Text>
+            </View>
+            {sessions.map((session) => (
+              <View key={session.id} style={styles.deviceRow}>
+                <Ionicons
+                  name={session.platform === 'web' ? 'desktop-outline' : 'phone-portrait-outline'}
+                  size={24}
+                  color={COLORS.primary}
+                />
+                <View style={styles.deviceInfo}>
+                  <Text style={styles.deviceName}>
+                    {session.device_name}{session.current ? ' (this device)' : ''}
+                  </Text>
+                  <Text style={styles.deviceMeta}>
+                    Last active {formatRelativeTime(session.last_seen_at)}
+                    {session.ip_address !== 'unknown' ? ` · ${session.ip_address}` : ''}
+                    {` · signed in ${new Date(session.created_at).toLocaleDateString()}`}
+                  </Text>
+                </View>
+                <TouchableOpacity onPress={() => handleRevokeSession(session)}>
+                  <Text style={[styles.toggleButtonText, { color: COLORS.error }]}>Sign out</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+            {sessions.length > 1 && (
+              <TouchableOpacity style={styles.forgotPasswordButton} onPress={handleSignOutEverywhere}>
+                <Text style={[styles.forgotPasswordText, { color: COLORS.error }]}>Sign out everywhere</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
         {/* Account Actions */}
-        <View style={styles.accountActions}>
-          <TouchableOpacity
-            style={styles.actionButton}
-            onPress={() => {
-              Alert.alert(
-                'Change Password',
-                'Password change functionality will be available soon.',
-                [{ text: 'OK' }]
-              );
-            }}
-          >
-            <Ionicons name="lock-closed" size={20} color={COLORS.primary} />
-            <Text style={styles.actionButtonText}>Change Password</Text>
-          </TouchableOpacity>
+        {!impersonation && (
+          <View style={styles.accountActions}>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => {
+                Alert.alert(
+                  'Change Password',
+                  'Password change functionality will be available soon.',
+                  [{ text: 'OK' }]
+                );
+              }}
+            >
+              <Ionicons name="lock-closed" size={20} color={COLORS.primary} />
+              <Text style={styles.actionButtonText}>Change Password</Text>
+            </TouchableOpacity>
 
-          <TouchableOpacity
-            style={[styles.actionButton, { backgroundColor: COLORS.error + '20' }]}
-            onPress={() => {
-              Alert.alert(
-                'Delete Account',
-                'Are you sure you want to delete your account? This action cannot be undone.',
-                [
-                  { text: 'Cancel', style: 'cancel' },
-                  { 
-                    text: 'Delete', 
-                    style: 'destructive',
-                    onPress: () => {
-                      Alert.alert('Account Deletion', 'Account deletion will be available soon.');
-                    }
-                  }
-                ]
-              );
-            }}
-          >
-            <Ionicons name="trash" size={20} color={COLORS.error} />
-            <Text style={[styles.actionButtonText, { color: COLORS.error }]}>Delete Account</Text>
-          </TouchableOpacity>
-        </View>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={handleExportData}
+              disabled={isExporting}
+            >
+              <Ionicons name="download" size={20} color={COLORS.primary} />
+              <Text style={styles.actionButtonText}>
+                {isExporting ? 'Preparing your data...' : 'Download My Data'}
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.actionButton, { backgroundColor: COLORS.error + '20' }]}
+              onPress={() => {
+                setDeletePassword('');
+                setShowDeleteAccount(!showDeleteAccount);
+              }}
+            >
+              <Ionicons name="trash" size={20} color={COLORS.error} />
+              <Text style={[styles.actionButtonText, { color: COLORS.error }]}>Delete Account</Text>
+            </TouchableOpacity>
+
+            {showDeleteAccount && (
+              <View style={styles.deleteAccountPanel}>
+                <Text style={styles.verificationText}>
+                  Deleting your account erases your profile, addresses, messages and notifications, and cancels any order
+                  that has not shipped yet. Completed orders and payments are kept without your name or contact details.
+                  Download your data first if you want a copy.
+                </Text>
+                {user?.has_password && (
+                  <StableInput
+                    style={styles.fieldInput}
+                    value={deletePassword}
+                    onChangeText={setDeletePassword}
+                    placeholder="Enter your password to confirm"
+                    secureTextEntry
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                  />
+                )}
+                <TouchableOpacity
+                  style={[styles.saveButton, { backgroundColor: COLORS.error }]}
+                  onPress={handleDeleteAccount}
+                  disabled={isDeletingAccount}
+                >
+                  {isDeletingAccount ? (
+                    <ActivityIndicator color={COLORS.white} />
+                  ) : (
+                    <Text style={styles.saveButtonText}>Permanently Delete Account</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        )}
       </View>
     );
   }
@@ -2615,13 +3801,9 @@ export default function App() {
 
     const loadRecentMessages = async () => {
       try {
-        const messagesData = await storage.getItem('@zada_chat_messages');
-        if (messagesData) {
-          const allMessages = JSON.parse(messagesData);
-          const supportMessages = allMessages.filter((msg: any) => 
-            msg.type === 'support' && 
-            (msg.sender_id === user?.id || msg.recipient_id === user?.id)
-          );
+        const userMessages = user ? await messageRepository.listForUser(user.id) : [];
+        if (userMessages.length > 0) {
+          const supportMessages = userMessages.filter((msg: any) => msg.type === 'support');
           
           // Get unique conversations
           const conversations = supportMessages.reduce((acc: any, msg: any) => {
@@ -2653,7 +3835,7 @@ export default function App() {
       <View style={styles.viewContainer}>
         <View style={styles.chatHeader}>
           <Text style={styles.viewTitle}>
-            {user?.role === 'admin' ? 'Customer Support' : 'Support Chat'}
+            {can('support.chat') ? 'Customer Support' : 'Support Chat'}
           </Text>
           {user?.role === 'customer' && unreadCount > 0 && (
             <View style={styles.unreadBadge}>
@@ -2666,12 +3848,12 @@ export default function App() {
           >
             <Ionicons name="chatbubbles" size={20} color={COLORS.white} />
             <Text style={styles.chatButtonText}>
-              {user?.role === 'admin' ? 'View All Messages' : 'Start Chat'}
+              {can('support.chat') ? 'View All Messages' : 'Start Chat'}
             </Text>
           </TouchableOpacity>
         </View>
         
-        {user?.role === 'admin' ? (
+        {can('support.chat') ? (
           <ScrollView style={styles.customersList}>
             {customers.map((customer) => (
               <TouchableOpacity
@@ -2796,7 +3978,7 @@ export default function App() {
             {orders.slice(0, 5).map((order) => (
               <View key={order.id} style={styles.orderItem}>
                 <View style={styles.orderInfo}>
-                  <Text style={styles.orderId}>Order #{order.id.slice(-6)}</Text>
+                  <Text style={styles.orderId}>Order {displayOrderNumber(order.order_number)}</Text>
                   <Text style={styles.orderCustomer}>{order.customer_name}</Text>
                   <Text style={styles.orderAmount}>₦{order.total_amount.toLocaleString()}</Text>
                 </View>
@@ -2827,28 +4009,74 @@ export default function App() {
   function getStatusColor(status: string) {
     switch (status) {
       case 'pending': return COLORS.warning;
+      case 'confirmed': return COLORS.primary;
       case 'processing': return COLORS.primary;
       case 'shipped': return COLORS.success;
       case 'delivered': return COLORS.success;
       case 'cancelled': return COLORS.error;
+      case 'refunded': return COLORS.secondary;
       default: return COLORS.gray;
     }
   }
 
   function AdminInventoryView() {
+    const { filter, setFilter } = adminProducts;
+    const [searchDraft, setSearchDraft] = useState(filter.search || '');
+
     return (
       <View style={styles.viewContainer}>
         <View style={styles.sectionHeader}>
           <Text style={styles.viewTitle}>Inventory Management</Text>
-          <TouchableOpacity style={styles.addButton} onPress={handleAddProduct}>
-            <Ionicons name="add" size={20} color={COLORS.white} />
-            <Text style={styles.addButtonText}>Add Product</Text>
-          </TouchableOpacity>
+          {can('inventory.create') && (
+            <TouchableOpacity style={styles.addButton} onPress={handleAddProduct}>
+              <Ionicons name="add" size={20} color={COLORS.white} />
+              <Text style={styles.addButtonText}>Add Product</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {/* Search runs on the server, so it applies on submit rather than per keystroke */}
+        <View style={styles.searchContainer}>
+          <Ionicons name="search" size={20} color={COLORS.gray} />
+          <StableInput
+            style={styles.searchInput}
+            value={searchDraft}
+            onChangeText={setSearchDraft}
+            onSubmitEditing={() => setFilter({ ...filter, search: searchDraft })}
+            returnKeyType="search"
+            placeholder="Search by name or SKU..."
+            placeholderTextColor={COLORS.gray}
+            autoCorrect={false}
+            autoCapitalize="none"
+          />
+        </View>
+
+        <View style={styles.filterContainer}>
+          {([undefined, 'active', 'inactive', 'discontinued'] as Array<Product['status'] | undefined>).map(status => (
+            <TouchableOpacity
+              key={status || 'all'}
+              style={[styles.filterButton, filter.status === status && styles.filterButtonActive]}
+              onPress={() => setFilter({ ...filter, status })}
+            >
+              <Text style={[styles.filterButtonText, filter.status === status && styles.filterButtonTextActive]}>
+                {status ? status.charAt(0).toUpperCase() + status.slice(1) : 'All'}
+              </Text>
+            </TouchableOpacity>
+          ))}
         </View>
         
-        <ScrollView style={styles.productsList} keyboardShouldPersistTaps="handled">
-          {(products || []).map((product) => (
-            <View key={product.id} style={styles.productItem}>
+        <PagedList
+          list={adminProducts}
+          style={styles.productsList}
+          itemLabel="products"
+          emptyComponent={
+            <View style={styles.emptyState}>
+              <Ionicons name="cube-outline" size={64} color={COLORS.gray} />
+              <Text style={styles.emptyText}>{filter.search || filter.status ? 'No products found' : 'No products yet'}</Text>
+            </View>
+          }
+          renderItem={(product) => (
+            <View style={styles.productItem}>
               <View style={styles.productInfo}>
                 <Text style={styles.productName}>{product.name}</Text>
                 <Text style={styles.productDescription}>{product.description}</Text>
@@ -2858,71 +4086,127 @@ export default function App() {
                 </Text>
               </View>
               <View style={styles.productActions}>
-                <TouchableOpacity
-                  style={styles.actionButton}
-                  onPress={() => handleEditProduct(product)}
-                >
-                  <Ionicons name="create" size={20} color={COLORS.primary} />
-                </TouchableOpacity>
-                <TouchableOpacity
-                  style={[styles.actionButton, styles.deleteButton]}
-                  onPress={() => handleDeleteProduct(product.id)}
-                >
-                  <Ionicons name="trash" size={20} color={COLORS.error} />
-                </TouchableOpacity>
+                {(can('inventory.edit') || can('inventory.adjust')) && (
+                  <TouchableOpacity
+                    style={styles.actionButton}
+                    onPress={() => handleEditProduct(product)}
+                  >
+                    <Ionicons name="create" size={20} color={COLORS.primary} />
+                  </TouchableOpacity>
+                )}
+                {can('inventory.delete') && (
+                  <TouchableOpacity
+                    style={[styles.actionButton, styles.deleteButton]}
+                    onPress={() => handleDeleteProduct(product.id)}
+                  >
+                    <Ionicons name="trash" size={20} color={COLORS.error} />
+                  </TouchableOpacity>
+                )}
               </View>
             </View>
-          ))}
-        </ScrollView>
+          )}
+        />
       </View>
     );
   }
 
   function AdminOrdersView() {
-    const [selectedStatus, setSelectedStatus] = useState<string>('all');
-    
-    const filteredOrders = selectedStatus === 'all' 
-      ? orders 
-      : orders.filter(order => order.status === selectedStatus);
-
-    const updateOrderStatus = async (orderId: string, newStatus: string) => {
+    const { filter, setFilter } = adminOrders;
+    const [searchDraft, setSearchDraft] = useState(filter.search || '');
+    // Note drafts keep the order as it was when typing started, so a concurrent edit is detected on save
+    const [noteDrafts, setNoteDrafts] = useState<Record<string, { text: string; base: Order }>>({});
+    const [driverDrafts, setDriverDrafts] = useState<Record<string, string>>({});
+
+    // Zones come from the orders that carry one; the row is hidden until any do
+    const deliveryZones = Array.from(new Set(orders.map(order => order.delivery_zone).filter((zone): zone is string => !!zone))).sort();
+    const selectedDays = filter.created?.from
+      ? Math.round((Date.now() - new Date(filter.created.from).getTime()) / 86400000)
+      : undefined;
+    const sinceDaysAgo = (days?: number) =>
+      days === undefined ? undefined : { from: new Date(Date.now() - days * 86400000).toISOString() };
+
+    // Resolves false when the change is waiting on the conflict prompt
+    const saveOrderChanges = async (orderId: string, changes: Partial<Order>, base?: Order): Promise<boolean> => {
       try {
-        const updatedOrders = orders.map(order => 
-          order.id === orderId 
-            ? { ...order, status: newStatus, updated_at: new Date().toISOString() }
-            : order
+        await updateOrder(orderId, changes, base);
+        return true;
+      } catch (error) {
+        if (!isConflictError(error)) throw error;
+        resolveConflict(
+          error,
+          () => updateOrder(orderId, changes, error.current),
+          async () => {
+            const { updated_at, ...merged } = error.merged;
+            if (Object.keys(merged).length > 0) {
+              await updateOrder(orderId, merged, error.current);
+            }
+          }
         );
-        setOrders(updatedOrders);
-        await storage.setItem('@zada_orders', JSON.stringify(updatedOrders));
-        
-        // Create notification for customer
-        const order = orders.find(o => o.id === orderId);
-        if (order) {
-          await createNotification('order_update', 'Order Status Updated', 
-            `Your order #${orderId.slice(-6)} status has been updated to ${newStatus}`);
-        }
-        
+        return false;
+      }
+    };
+
+    const saveOrderNotes = async (orderId: string) => {
+      const draft = noteDrafts[orderId];
+      if (!draft) return;
+      try {
+        await saveOrderChanges(orderId, { notes: draft.text.trim() }, draft.base);
+        setNoteDrafts(prev => {
+          const { [orderId]: saved, ...rest } = prev;
+          return rest;
+        });
+      } catch (error) {
+        Alert.alert('Error', 'Failed to save note');
+      }
+    };
+
+    // The lifecycle notifies the customer and handles any stock or refund the move implies
+    const updateOrderStatus = async (orderId: string, newStatus: Order['status']) => {
+      if (!can(newStatus === 'cancelled' ? 'orders.cancel' : 'orders.update_status')) {
+        Alert.alert('Permission Denied', 'You do not have permission to change this order');
+        return;
+      }
+      try {
+        await transitionOrder(orderId, newStatus);
         Alert.alert('Success', 'Order status updated successfully!');
       } catch (error) {
-        Alert.alert('Error', 'Failed to update order status');
+        if (isOrderTransitionError(error)) {
+          Alert.alert('Not Allowed', error.message);
+        } else if (isConflictError(error)) {
+          Alert.alert('Order Changed', 'Someone else changed this order. Check its status and try again.');
+        } else {
+          Alert.alert('Error', 'Failed to update order status');
+        }
+      }
+    };
+
+    // A refund that failed when the order was cancelled leaves it marked paid until one goes through
+    const retryOrderRefund = async (orderId: string) => {
+      if (!can('payments.refund')) {
+        Alert.alert('Permission Denied', 'You do not have permission to refund payments');
+        return;
+      }
+      try {
+        await retryRefund(orderId);
+        Alert.alert('Success', 'Payment refunded');
+      } catch (error) {
+        Alert.alert('Refund Failed', error instanceof Error ? error.message : 'Failed to refund payment');
       }
     };
 
     const updateDeliveryStatus = async (orderId: string, deliveryStatus: string) => {
+      if (!can('orders.update_delivery')) {
+        Alert.alert('Permission Denied', 'You do not have permission to update deliveries');
+        return;
+      }
       try {
-        const updatedOrders = orders.map(order => 
-          order.id === orderId 
-            ? { ...order, delivery_status: deliveryStatus, updated_at: new Date().toISOString() }
-            : order
-        );
-        setOrders(updatedOrders);
-        await storage.setItem('@zada_orders', JSON.stringify(updatedOrders));
+        if (!(await saveOrderChanges(orderId, { delivery_status: deliveryStatus }))) return;
         
         // Create notification for customer
         const order = orders.find(o => o.id === orderId);
         if (order) {
-          await createNotification('delivery_update', 'Delivery Status Updated', 
-            `Your order #${orderId.slice(-6)} delivery status: ${deliveryStatus}`);
+          await createNotification('order', 'Delivery Status Updated', 
+            `Your order #${orderId.slice(-6)} delivery status: ${deliveryStatus}`, order.customer_id);
         }
         
         Alert.alert('Success', 'Delivery status updated successfully!');
@@ -2931,15 +4215,27 @@ export default function App() {
       }
     };
 
-    const updatePaymentStatus = async (orderId: string, newPaymentStatus: string) => {
+    const assignDriver = async (orderId: string) => {
+      const driverName = driverDrafts[orderId]?.trim();
+      if (!driverName) return;
       try {
-        const updatedOrders = orders.map(order => 
-          order.id === orderId 
-            ? { ...order, payment_status: newPaymentStatus, updated_at: new Date().toISOString() }
-            : order
-        );
-        setOrders(updatedOrders);
-        await storage.setItem('@zada_orders', JSON.stringify(updatedOrders));
+        if (!(await saveOrderChanges(orderId, { driver_name: driverName }))) return;
+        setDriverDrafts(prev => {
+          const { [orderId]: assigned, ...rest } = prev;
+          return rest;
+        });
+      } catch (error) {
+        Alert.alert('Error', 'Failed to assign driver');
+      }
+    };
+
+    const updatePaymentStatus = async (orderId: string, newPaymentStatus: Order['payment_status']) => {
+      if (!can('payments.update_status')) {
+        Alert.alert('Permission Denied', 'You do not have permission to update payments');
+        return;
+      }
+      try {
+        if (!(await saveOrderChanges(orderId, { payment_status: newPaymentStatus }))) return;
         Alert.alert('Success', 'Payment status updated successfully!');
       } catch (error) {
         Alert.alert('Error', 'Failed to update payment status');
@@ -2950,33 +4246,105 @@ export default function App() {
       <View style={styles.viewContainer}>
         <Text style={styles.viewTitle}>Order Management</Text>
         
+        {/* Search runs on the server, so it applies on submit rather than per keystroke */}
+        <View style={styles.searchContainer}>
+          <Ionicons name="search" size={20} color={COLORS.gray} />
+          <StableInput
+            style={styles.searchInput}
+            value={searchDraft}
+            onChangeText={setSearchDraft}
+            onSubmitEditing={() => setFilter({ ...filter, search: searchDraft })}
+            returnKeyType="search"
+            placeholder="Order number, customer name or email..."
+            placeholderTextColor={COLORS.gray}
+            autoCorrect={false}
+            autoCapitalize="none"
+          />
+        </View>
+
         {/* Status Filter */}
         <View style={styles.filterContainer}>
-          {['all', 'pending', 'processing', 'shipped', 'delivered', 'cancelled'].map((status) => (
+          {[undefined, ...ORDER_STATUSES].map((status) => (
             <TouchableOpacity
-              key={status}
+              key={status || 'all'}
               style={[
                 styles.filterButton,
-                selectedStatus === status && styles.filterButtonActive
+                filter.status === status && styles.filterButtonActive
               ]}
-              onPress={() => setSelectedStatus(status)}
+              onPress={() => setFilter({ ...filter, status })}
             >
               <Text style={[
                 styles.filterButtonText,
-                selectedStatus === status && styles.filterButtonTextActive
+                filter.status === status && styles.filterButtonTextActive
               ]}>
-                {status.charAt(0).toUpperCase() + status.slice(1)}
+                {status ? ORDER_STATUS_LABELS[status] : 'All'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {/* Priority and Date Filters */}
+        <View style={styles.filterContainer}>
+          {(['high', 'medium', 'low'] as const).map(priority => (
+            <TouchableOpacity
+              key={priority}
+              style={[styles.filterButton, filter.priority === priority && styles.filterButtonActive]}
+              onPress={() => setFilter({ ...filter, priority: filter.priority === priority ? undefined : priority })}
+            >
+              <Text style={[styles.filterButtonText, filter.priority === priority && styles.filterButtonTextActive]}>
+                {priority.charAt(0).toUpperCase() + priority.slice(1)} priority
+              </Text>
+            </TouchableOpacity>
+          ))}
+          {[
+            { label: 'All time', days: undefined },
+            { label: 'Today', days: 1 },
+            { label: '7 days', days: 7 },
+            { label: '30 days', days: 30 }
+          ].map(({ label, days }) => (
+            <TouchableOpacity
+              key={label}
+              style={[styles.filterButton, selectedDays === days && styles.filterButtonActive]}
+              onPress={() => setFilter({ ...filter, created: sinceDaysAgo(days) })}
+            >
+              <Text style={[styles.filterButtonText, selectedDays === days && styles.filterButtonTextActive]}>
+                {label}
               </Text>
             </TouchableOpacity>
           ))}
         </View>
 
+        {deliveryZones.length > 0 && (
+          <View style={styles.filterContainer}>
+            {deliveryZones.map(zone => (
+              <TouchableOpacity
+                key={zone}
+                style={[styles.filterButton, filter.delivery_zone === zone && styles.filterButtonActive]}
+                onPress={() => setFilter({ ...filter, delivery_zone: filter.delivery_zone === zone ? undefined : zone })}
+              >
+                <Text style={[styles.filterButtonText, filter.delivery_zone === zone && styles.filterButtonTextActive]}>
+                  {zone}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
         {/* Orders List */}
-        <ScrollView style={styles.ordersList}>
-          {filteredOrders.map((order) => (
-            <View key={order.id} style={styles.orderCard}>
+        <PagedList
+          list={adminOrders}
+          style={styles.ordersList}
+          itemLabel="orders"
+          emptyComponent={
+            <View style={styles.emptyState}>
+              <Ionicons name="receipt-outline" size={64} color={COLORS.gray} />
+              <Text style={styles.emptyText}>No orders found</Text>
+            </View>
+          }
+          renderItem={(order) => (
+            <View style={styles.orderCard}>
               <View style={styles.orderHeader}>
-                <Text style={styles.orderId}>Order #{order.id.slice(-6)}</Text>
+                <Text style={styles.orderId}>Order {displayOrderNumber(order.order_number)}</Text>
                 <View style={[styles.orderStatus, { backgroundColor: getStatusColor(order.status) }]}>
                   <Text style={styles.orderStatusText}>{order.status.toUpperCase()}</Text>
                 </View>
@@ -2987,7 +4355,7 @@ export default function App() {
                 <Text style={styles.orderEmail}>Email: {order.customer_email}</Text>
                 <Text style={styles.orderAmount}>Amount: ₦{order.total_amount.toLocaleString()}</Text>
                 <Text style={styles.orderPayment}>
-                  Payment: {order.payment_method === 'cash_on_delivery' ? 'Cash on Delivery' : 'Online Payment'}
+                  Payment: {getPaymentMethodLabel(order.payment_method)}
                 </Text>
                 <Text style={styles.orderPaymentStatus}>
                   Payment Status: {order.payment_status === 'pending' ? 'Pending' : 'Paid'}
@@ -2995,56 +4363,40 @@ export default function App() {
                 <Text style={styles.orderDate}>
                   Date: {new Date(order.created_at).toLocaleDateString()}
                 </Text>
+                {getSyncState(order.id) !== 'synced' && (
+                  <Text style={[styles.syncStateText, ['failed', 'rejected'].includes(getSyncState(order.id)) && styles.syncStateFailed]}>
+                    {getSyncLabel(getSyncState(order.id))}
+                  </Text>
+                )}
               </View>
 
               {/* Order Items */}
               <View style={styles.orderItems}>
                 <Text style={styles.orderItemsTitle}>Items:</Text>
-                {order.items.map((item, index) => (
+                {getOrderLines(order, products).map((item, index) => (
                   <Text key={index} style={styles.orderItem}>
-                    {item.quantity}x {item.product.name} - ₦{item.price.toLocaleString()}
+                    {item.quantity}x {item.product?.name || 'Unknown product'} - ₦{item.unit_price.toLocaleString()}
                   </Text>
                 ))}
               </View>
 
               {/* Status Update Buttons */}
               <View style={styles.statusButtons}>
-                {order.status === 'pending' && (
-                  <TouchableOpacity
-                    style={[styles.statusButton, { backgroundColor: COLORS.primary }]}
-                    onPress={() => updateOrderStatus(order.id, 'processing')}
-                  >
-                    <Text style={styles.statusButtonText}>Start Processing</Text>
-                  </TouchableOpacity>
-                )}
-                {order.status === 'processing' && (
-                  <TouchableOpacity
-                    style={[styles.statusButton, { backgroundColor: COLORS.success }]}
-                    onPress={() => updateOrderStatus(order.id, 'shipped')}
-                  >
-                    <Text style={styles.statusButtonText}>Mark as Shipped</Text>
-                  </TouchableOpacity>
-                )}
-                {order.status === 'shipped' && (
-                  <TouchableOpacity
-                    style={[styles.statusButton, { backgroundColor: COLORS.success }]}
-                    onPress={() => updateOrderStatus(order.id, 'delivered')}
-                  >
-                    <Text style={styles.statusButtonText}>Mark as Delivered</Text>
-                  </TouchableOpacity>
-                )}
-                {(order.status === 'pending' || order.status === 'processing') && (
-                  <TouchableOpacity
-                    style={[styles.statusButton, { backgroundColor: COLORS.error }]}
-                    onPress={() => updateOrderStatus(order.id, 'cancelled')}
-                  >
-                    <Text style={styles.statusButtonText}>Cancel Order</Text>
-                  </TouchableOpacity>
-                )}
+                {nextStatuses(order)
+                  .filter(status => can(status === 'cancelled' ? 'orders.cancel' : 'orders.update_status'))
+                  .map(status => (
+                    <TouchableOpacity
+                      key={status}
+                      style={[styles.statusButton, { backgroundColor: STATUS_ACTIONS[status].color }]}
+                      onPress={() => updateOrderStatus(order.id, status)}
+                    >
+                      <Text style={styles.statusButtonText}>{STATUS_ACTIONS[status].label}</Text>
+                    </TouchableOpacity>
+                  ))}
               </View>
 
               {/* Payment Status Buttons */}
-              {order.payment_method === 'cash_on_delivery' && order.payment_status === 'pending' && (
+              {order.payment_method === 'cash' && order.payment_status === 'pending' && can('payments.update_status') && (
                 <View style={styles.paymentButtons}>
                   <TouchableOpacity
                     style={[styles.paymentButton, { backgroundColor: COLORS.success }]}
@@ -3054,46 +4406,97 @@ export default function App() {
                   </TouchableOpacity>
                 </View>
               )}
+              {isRefundOwed(order) && can('payments.refund') && (
+                <View style={styles.paymentButtons}>
+                  <TouchableOpacity
+                    style={[styles.paymentButton, { backgroundColor: COLORS.warning }]}
+                    onPress={() => retryOrderRefund(order.id)}
+                  >
+                    <Text style={styles.paymentButtonText}>Retry Refund</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
 
               {/* Delivery Status */}
               <View style={styles.deliveryStatus}>
                 <Ionicons name="car" size={16} color={COLORS.primary} />
                 <Text style={styles.deliveryStatusText}>
                   Delivery: {order.delivery_status || 'Not Started'}
+                  {order.driver_name ? ` · Driver: ${order.driver_name}` : ''}
                 </Text>
               </View>
 
+              {/* Driver Assignment */}
+              {can('orders.update_delivery') && !['delivered', 'cancelled', 'refunded'].includes(order.status) && (
+                <View style={styles.driverRow}>
+                  <TextInput
+                    style={[styles.fieldInput, styles.driverInput]}
+                    value={driverDrafts[order.id] ?? ''}
+                    onChangeText={text => setDriverDrafts(prev => ({ ...prev, [order.id]: text }))}
+                    placeholder={order.driver_name ? 'Reassign driver' : 'Driver name'}
+                  />
+                  {!!driverDrafts[order.id]?.trim() && (
+                    <TouchableOpacity style={styles.orderNotesSave} onPress={() => assignDriver(order.id)}>
+                      <Text style={styles.orderNotesSaveText}>Assign</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              )}
+
               {/* Delivery Status Buttons */}
-              <View style={styles.deliveryStatusButtons}>
-                <TouchableOpacity
-                  style={[styles.deliveryStatusButton, { backgroundColor: COLORS.primary }]}
-                  onPress={() => updateDeliveryStatus(order.id, 'Preparing')}
-                >
-                  <Text style={styles.deliveryStatusButtonText}>Preparing</Text>
-                </TouchableOpacity>
-                <TouchableOpacity
-                  style={[styles.deliveryStatusButton, { backgroundColor: COLORS.warning }]}
-                  onPress={() => updateDeliveryStatus(order.id, 'Out for Delivery')}
-                >
-                  <Text style={styles.deliveryStatusButtonText}>Out for Delivery</Text>
-                </TouchableOpacity>
-                <TouchableOpacity
-                  style={[styles.deliveryStatusButton, { backgroundColor: COLORS.success }]}
-                  onPress={() => updateDeliveryStatus(order.id, 'Delivered')}
-                >
-                  <Text style={styles.deliveryStatusButtonText}>Delivered</Text>
-                </TouchableOpacity>
-              </View>
-            </View>
-          ))}
-          
-          {filteredOrders.length === 0 && (
-            <View style={styles.emptyState}>
-              <Ionicons name="receipt-outline" size={64} color={COLORS.gray} />
-              <Text style={styles.emptyText}>No orders found</Text>
+              {can('orders.update_delivery') && (
+                <View style={styles.deliveryStatusButtons}>
+                  <TouchableOpacity
+                    style={[styles.deliveryStatusButton, { backgroundColor: COLORS.primary }]}
+                    onPress={() => updateDeliveryStatus(order.id, 'Preparing')}
+                  >
+                    <Text style={styles.deliveryStatusButtonText}>Preparing</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.deliveryStatusButton, { backgroundColor: COLORS.warning }]}
+                    onPress={() => updateDeliveryStatus(order.id, 'Out for Delivery')}
+                  >
+                    <Text style={styles.deliveryStatusButtonText}>Out for Delivery</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.deliveryStatusButton, { backgroundColor: COLORS.success }]}
+                    onPress={() => updateDeliveryStatus(order.id, 'Delivered')}
+                  >
+                    <Text style={styles.deliveryStatusButtonText}>Delivered</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+
+              {/* Team Notes */}
+              {can('orders.update_status') && (
+                <View style={styles.orderNotes}>
+                  <TextInput
+                    style={styles.fieldInput}
+                    value={noteDrafts[order.id]?.text ?? order.notes ?? ''}
+                    onChangeText={text => setNoteDrafts(prev => ({
+                      ...prev,
+                      [order.id]: { text, base: prev[order.id]?.base || order }
+                    }))}
+                    placeholder="Add a note for the team"
+                    multiline
+                  />
+                  {noteDrafts[order.id] && noteDrafts[order.id].text.trim() !== (order.notes || '') && (
+                    <TouchableOpacity style={styles.orderNotesSave} onPress={() => saveOrderNotes(order.id)}>
+                      <Text style={styles.orderNotesSaveText}>Save Note</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              )}
+
+              {/* History */}
+              <TouchableOpacity style={styles.historyToggle} onPress={() => toggleOrderHistory(order.id)}>
+                <Ionicons name={openHistoryId === order.id ? 'chevron-up' : 'time-outline'} size={16} color={COLORS.primary} />
+                <Text style={styles.historyToggleText}>{openHistoryId === order.id ? 'Hide History' : 'Show History'}</Text>
+              </TouchableOpacity>
+              {openHistoryId === order.id && <OrderTimeline events={orderEvents[order.id]} viewerId={user?.id} />}
             </View>
           )}
-        </ScrollView>
+        />
       </View>
     );
   }
@@ -3123,22 +4526,22 @@ export default function App() {
 
     // Payment method analytics
     const paymentMethodStats = {
-      cash_on_delivery: orders.filter(o => o.payment_method === 'cash_on_delivery').length,
-      online: orders.filter(o => o.payment_method === 'online').length,
+      cash_on_delivery: orders.filter(o => o.payment_method === 'cash').length,
+      online: orders.filter(o => o.payment_method !== 'cash').length,
     };
 
     const paymentRevenue = {
-      cash_on_delivery: orders.filter(o => o.payment_method === 'cash_on_delivery').reduce((sum, o) => sum + o.total_amount, 0),
-      online: orders.filter(o => o.payment_method === 'online').reduce((sum, o) => sum + o.total_amount, 0),
+      cash_on_delivery: orders.filter(o => o.payment_method === 'cash').reduce((sum, o) => sum + o.total_amount, 0),
+      online: orders.filter(o => o.payment_method !== 'cash').reduce((sum, o) => sum + o.total_amount, 0),
     };
 
     // Top selling products
     const productSales = products.map(product => {
       const productOrders = orders.flatMap(order => 
-        order.items.filter(item => item.product.id === product.id)
+        (order.order_items || []).filter(item => item.product_id === product.id)
       );
       const totalQuantity = productOrders.reduce((sum, item) => sum + item.quantity, 0);
-      const totalRevenue = productOrders.reduce((sum, item) => sum + (item.quantity * item.price), 0);
+      const totalRevenue = productOrders.reduce((sum, item) => sum + item.total_price, 0);
       return {
         ...product,
         totalQuantity,
@@ -3268,13 +4671,10 @@ export default function App() {
   }
 
   function AdminCustomersView() {
-    const [searchQuery, setSearchQuery] = useState('');
-
-    const filteredCustomers = customers.filter(customer => 
-      customer.profile?.first_name?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      customer.profile?.last_name?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      customer.email.toLowerCase().includes(searchQuery.toLowerCase())
-    );
+    const { filter, setFilter } = adminCustomers;
+    const [searchDraft, setSearchDraft] = useState(filter.search || '');
+    const [viewAsCustomerId, setViewAsCustomerId] = useState<string | null>(null);
+    const [viewAsReason, setViewAsReason] = useState('');
 
     const getCustomerOrderStats = (customerId: string) => {
       const customerOrders = orders.filter(order => order.customer_id === customerId);
@@ -3289,17 +4689,55 @@ export default function App() {
       };
     };
 
+    const unlockCustomer = async (customerId: string) => {
+      if (!user) return;
+      try {
+        await authService.unlockAccount(user, customerId);
+        await syncData();
+        Alert.alert('Success', 'Account unlocked successfully!');
+      } catch (error) {
+        console.error('Error unlocking account:', error);
+        Alert.alert('Error', error instanceof Error ? error.message : 'Failed to unlock account');
+      }
+    };
+
+    const resetStaffMfa = (staffMember: AuthUser) => {
+      if (!user) return;
+      Alert.alert(
+        'Reset Two-Factor Authentication',
+        `${staffMember.profile?.first_name || staffMember.email} will be signed out and must set up an authenticator app again on next sign-in.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Reset',
+            style: 'destructive',
+            onPress: async () => {
+              try {
+                await authService.resetMfa(user, staffMember.id);
+                await syncData();
+                Alert.alert('Success', 'Two-factor authentication has been reset');
+              } catch (error) {
+                Alert.alert('Error', error instanceof Error ? error.message : 'Failed to reset two-factor authentication');
+              }
+            }
+          }
+        ]
+      );
+    };
+
     return (
       <View style={styles.viewContainer}>
         <Text style={styles.viewTitle}>Customer Management</Text>
         
-        {/* Search Bar */}
+        {/* Search Bar; the search runs on the server, so it applies on submit */}
         <View style={styles.searchContainer}>
           <Ionicons name="search" size={20} color={COLORS.gray} />
           <StableInput
             style={styles.searchInput}
-            value={searchQuery}
-            onChangeText={setSearchQuery}
+            value={searchDraft}
+            onChangeText={setSearchDraft}
+            onSubmitEditing={() => setFilter({ ...filter, search: searchDraft })}
+            returnKeyType="search"
             placeholder="Search customers..."
             placeholderTextColor={COLORS.gray}
             selectTextOnFocus={false}
@@ -3309,12 +4747,38 @@ export default function App() {
           />
         </View>
 
+        {/* Account Status Filter */}
+        <View style={styles.filterContainer}>
+          {([undefined, 'active', 'suspended', 'pending_verification'] as Array<AuthUser['status'] | undefined>).map(status => (
+            <TouchableOpacity
+              key={status || 'all'}
+              style={[styles.filterButton, filter.status === status && styles.filterButtonActive]}
+              onPress={() => setFilter({ ...filter, status })}
+            >
+              <Text style={[styles.filterButtonText, filter.status === status && styles.filterButtonTextActive]}>
+                {status ? (status.charAt(0).toUpperCase() + status.slice(1)).replace('_', ' ') : 'All'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
         {/* Customers List */}
-        <ScrollView style={styles.customersList}>
-          {filteredCustomers.map((customer) => {
+        <PagedList
+          list={adminCustomers}
+          style={styles.customersList}
+          itemLabel="customers"
+          emptyComponent={
+            <View style={styles.emptyState}>
+              <Ionicons name="people-outline" size={64} color={COLORS.gray} />
+              <Text style={styles.emptyText}>
+                {filter.search || filter.status ? 'No customers found' : 'No customers yet'}
+              </Text>
+            </View>
+          }
+          renderItem={(customer) => {
             const stats = getCustomerOrderStats(customer.id);
             return (
-              <View key={customer.id} style={styles.customerCard}>
+              <View style={styles.customerCard}>
                 <View style={styles.customerHeader}>
                   <View style={styles.customerAvatar}>
                     <Text style={styles.customerAvatarText}>
@@ -3330,12 +4794,14 @@ export default function App() {
                       {customer.profile?.phone || 'No phone'}
                     </Text>
                   </View>
-                  <TouchableOpacity
-                    style={styles.chatButton}
-                    onPress={() => openChat(customer)}
-                  >
-                    <Ionicons name="chatbubble" size={20} color={COLORS.primary} />
-                  </TouchableOpacity>
+                  {can('support.chat') && (
+                    <TouchableOpacity
+                      style={styles.chatButton}
+                      onPress={() => openChat(customer)}
+                    >
+                      <Ionicons name="chatbubble" size={20} color={COLORS.primary} />
+                    </TouchableOpacity>
+                  )}
                 </View>
 
                 <View style={styles.customerStats}>
@@ -3359,19 +4825,344 @@ export default function App() {
                     <Text style={styles.addressText}>{customer.profile.address}</Text>
                   </View>
                 )}
+
+                {customer.status === 'suspended' && (
+                  <View style={styles.customerLockNotice}>
+                    <Ionicons name="lock-closed" size={16} color={COLORS.error} />
+                    <Text style={styles.customerLockText}>
+                      {customer.locked_until
+                        ? `Locked until ${new Date(customer.locked_until).toLocaleTimeString()}`
+                        : 'Account suspended'}
+                    </Text>
+                    {can('customers.unlock') && (
+                      <TouchableOpacity
+                        style={[styles.statusButton, { backgroundColor: COLORS.primary }]}
+                        onPress={() => unlockCustomer(customer.id)}
+                      >
+                        <Text style={styles.statusButtonText}>Unlock</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                )}
+
+                {customer.mfa_enabled && customer.id !== user?.id && can('staff.reset_mfa') && (
+                  <View style={styles.customerLockNotice}>
+                    <Ionicons name="shield-checkmark" size={16} color={COLORS.primary} />
+                    <Text style={[styles.customerLockText, { color: COLORS.textSecondary }]}>
+                      Two-factor authentication enabled
+                    </Text>
+                    <TouchableOpacity
+                      style={[styles.statusButton, { backgroundColor: COLORS.error }]}
+                      onPress={() => resetStaffMfa(customer)}
+                    >
+                      <Text style={styles.statusButtonText}>Reset 2FA</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+
+                {customer.role === 'customer' && can('customers.impersonate') && (
+                  viewAsCustomerId === customer.id ? (
+                    <View style={styles.impersonationReason}>
+                      <StableInput
+                        style={styles.fieldInput}
+                        value={viewAsReason}
+                        onChangeText={setViewAsReason}
+                        placeholder="Reason, e.g. ticket #123: customer reports wrong cart"
+                        multiline
+                      />
+                      <View style={styles.verificationActions}>
+                        <TouchableOpacity
+                          style={[styles.statusButton, { backgroundColor: COLORS.primary }]}
+                          onPress={() => startImpersonation(customer, viewAsReason)}
+                        >
+                          <Text style={styles.statusButtonText}>Start Read-only View</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity onPress={() => setViewAsCustomerId(null)}>
+                          <Text style={styles.toggleButtonText}>Cancel</Text>
+                        </TouchableOpacity>
+                      </View>
+                    </View>
+                  ) : (
+                    <TouchableOpacity
+                      style={[styles.statusButton, { backgroundColor: COLORS.secondary, alignSelf: 'flex-start', marginTop: SPACING.sm }]}
+                      onPress={() => {
+                        setViewAsReason('');
+                        setViewAsCustomerId(customer.id);
+                      }}
+                    >
+                      <Text style={styles.statusButtonText}>View as Customer</Text>
+                    </TouchableOpacity>
+                  )
+                )}
+              </View>
+            );
+          }}
+        />
+      </View>
+    );
+  }
+
+  function AdminRolesView() {
+    const [drafts, setDrafts] = useState<Partial<Record<UserRole, Permission[]>>>(() =>
+      Object.fromEntries(permissionService.getRoles().map(role => [role.id, [...role.permissions]]))
+    );
+    const [expandedRole, setExpandedRole] = useState<UserRole | null>(null);
+    const [staff, setStaff] = useState<AuthUser[]>([]);
+    const [invitations, setInvitations] = useState<InvitationSummary[]>([]);
+    const [inviteEmail, setInviteEmail] = useState('');
+    const [inviteRole, setInviteRole] = useState<StaffRole>('dispatcher');
+    const [isInviting, setIsInviting] = useState(false);
+
+    const permissionGroups = (Object.keys(PERMISSIONS) as Permission[]).reduce((groups, permission) => {
+      const group = PERMISSIONS[permission].group;
+      groups[group] = [...(groups[group] || []), permission];
+      return groups;
+    }, {} as Record<string, Permission[]>);
+
+    useEffect(() => {
+      if (user) {
+        authService.getStaffUsers(user).then(setStaff);
+        invitationService.listInvitations(user).then(setInvitations);
+      }
+    }, [user]);
+
+    const inviteStatusColor = (status: InvitationStatus) => {
+      switch (status) {
+        case 'pending': return COLORS.warning;
+        case 'accepted': return COLORS.success;
+        default: return COLORS.gray;
+      }
+    };
+
+    const sendInvitation = async () => {
+      if (!user) return;
+      if (!inviteEmail.trim()) {
+        Alert.alert('Validation Error', 'Email is required');
+        return;
+      }
+      try {
+        setIsInviting(true);
+        const invitation = await invitationService.createInvitation(user, inviteEmail, inviteRole);
+        setInvitations(prev => [invitation, ...prev]);
+        setInviteEmail('');
+        Alert.alert('Invitation Sent', `${invitation.email} can now create a ${permissionService.getRole(invitation.role)?.name} account from the link in their email.`);
+      } catch (error) {
+        Alert.alert('Error', error instanceof Error ? error.message : 'Failed to send invitation');
+      } finally {
+        setIsInviting(false);
+      }
+    };
+
+    const revokeInvitation = (invitation: InvitationSummary) => {
+      if (!user) return;
+      Alert.alert(
+        'Revoke Invitation',
+        `The link sent to ${invitation.email} will stop working.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Revoke',
+            style: 'destructive',
+            onPress: async () => {
+              try {
+                await invitationService.revokeInvitation(user, invitation.id);
+                setInvitations(await invitationService.listInvitations(user));
+              } catch (error) {
+                Alert.alert('Error', error instanceof Error ? error.message : 'Failed to revoke invitation');
+              }
+            }
+          }
+        ]
+      );
+    };
+
+    const togglePermission = (roleId: UserRole, permission: Permission) => {
+      setDrafts(prev => {
+        const current = prev[roleId] || [];
+        return {
+          ...prev,
+          [roleId]: current.includes(permission)
+            ? current.filter(p => p !== permission)
+            : [...current, permission]
+        };
+      });
+    };
+
+    const saveRole = async (roleId: UserRole) => {
+      if (!user) return;
+      try {
+        const role = await permissionService.updateRolePermissions(user, roleId, drafts[roleId] || []);
+        setDrafts(prev => ({ ...prev, [roleId]: [...role.permissions] }));
+        Alert.alert('Success', `${role.name} permissions updated`);
+      } catch (error) {
+        Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update role');
+      }
+    };
+
+    const changeStaffRole = (member: AuthUser, role: UserRole) => {
+      if (!user || member.role === role) return;
+      const roleName = permissionService.getRole(role)?.name || role;
+      Alert.alert(
+        'Change Role',
+        `Make ${member.profile?.first_name || member.email} a ${roleName}? They will be signed out on all devices.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Change',
+            onPress: async () => {
+              try {
+                const updated = await authService.assignUserRole(user, member.id, role);
+                setStaff(prev => prev.map(m => m.id === updated.id ? updated : m));
+                await syncData();
+              } catch (error) {
+                Alert.alert('Error', error instanceof Error ? error.message : 'Failed to change role');
+              }
+            }
+          }
+        ]
+      );
+    };
+
+    return (
+      <View style={styles.viewContainer}>
+        <Text style={styles.viewTitle}>Roles & Permissions</Text>
+
+        {permissionService.getRoles().map((role) => {
+          const isExpanded = expandedRole === role.id;
+          const rolePermissions = drafts[role.id] || [];
+          return (
+            <View key={role.id} style={styles.customerCard}>
+              <TouchableOpacity
+                style={styles.roleCardHeader}
+                onPress={() => setExpandedRole(isExpanded ? null : role.id)}
+              >
+                <View style={styles.customerInfo}>
+                  <Text style={styles.customerName}>{role.name}</Text>
+                  <Text style={styles.customerEmail}>{role.description}</Text>
+                </View>
+                <Text style={styles.roleCount}>
+                  {role.editable ? `${role.permissions.length} permissions` : 'All permissions'}
+                </Text>
+                <Ionicons name={isExpanded ? 'chevron-up' : 'chevron-down'} size={20} color={COLORS.gray} />
+              </TouchableOpacity>
+
+              {isExpanded && role.editable && (
+                <View style={styles.rolePermissions}>
+                  {Object.entries(permissionGroups).map(([group, permissions]) => (
+                    <View key={group}>
+                      <Text style={styles.permissionGroupTitle}>{group}</Text>
+                      {permissions.filter(p => p !== 'roles.manage').map((permission) => (
+                        <TouchableOpacity
+                          key={permission}
+                          style={styles.permissionRow}
+                          onPress={() => togglePermission(role.id, permission)}
+                        >
+                          <View style={[styles.checkbox, rolePermissions.includes(permission) && styles.checkboxChecked]}>
+                            {rolePermissions.includes(permission) && <Ionicons name="checkmark" size={16} color={COLORS.white} />}
+                          </View>
+                          <Text style={styles.permissionLabel}>{PERMISSIONS[permission].label}</Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  ))}
+                  <TouchableOpacity style={styles.saveButton} onPress={() => saveRole(role.id)}>
+                    <Text style={styles.saveButtonText}>Save {role.name}</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+            </View>
+          );
+        })}
+
+        <Text style={[styles.viewTitle, { marginTop: SPACING.lg }]}>Team Members</Text>
+        {staff.map((member) => (
+          <View key={member.id} style={styles.customerCard}>
+            <Text style={styles.customerName}>
+              {member.profile?.first_name || 'Unknown'} {member.profile?.last_name || ''}
+            </Text>
+            <Text style={styles.customerEmail}>{member.email}</Text>
+            {member.id === user?.id ? (
+              <Text style={styles.roleCount}>{permissionService.getRole(member.role)?.name} (you)</Text>
+            ) : (
+              <View style={styles.filterContainer}>
+                {permissionService.getStaffRoles().map((role) => (
+                  <TouchableOpacity
+                    key={role.id}
+                    style={[styles.filterButton, member.role === role.id && styles.filterButtonActive]}
+                    onPress={() => changeStaffRole(member, role.id)}
+                  >
+                    <Text style={[styles.filterButtonText, member.role === role.id && styles.filterButtonTextActive]}>
+                      {role.name}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+          </View>
+        ))}
+
+        <Text style={[styles.viewTitle, { marginTop: SPACING.lg }]}>Staff Invitations</Text>
+        <View style={styles.customerCard}>
+          <Text style={styles.inputLabel}>Invite by email</Text>
+          <StableInput
+            style={styles.input}
+            value={inviteEmail}
+            onChangeText={setInviteEmail}
+            placeholder="new.staff@example.com"
+            keyboardType="email-address"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <View style={styles.filterContainer}>
+            {permissionService.getStaffRoles().map((role) => (
+              <TouchableOpacity
+                key={role.id}
+                style={[styles.filterButton, inviteRole === role.id && styles.filterButtonActive]}
+                onPress={() => setInviteRole(role.id as StaffRole)}
+              >
+                <Text style={[styles.filterButtonText, inviteRole === role.id && styles.filterButtonTextActive]}>
+                  {role.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TouchableOpacity style={styles.saveButton} onPress={sendInvitation} disabled={isInviting}>
+            {isInviting ? (
+              <ActivityIndicator color={COLORS.white} />
+            ) : (
+              <Text style={styles.saveButtonText}>Send Invitation</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        {invitations.map((invitation) => (
+          <View key={invitation.id} style={styles.customerCard}>
+            <View style={styles.roleCardHeader}>
+              <View style={styles.customerInfo}>
+                <Text style={styles.customerName}>{invitation.email}</Text>
+                <Text style={styles.customerEmail}>
+                  {permissionService.getRole(invitation.role)?.name || invitation.role} · {invitation.status === 'accepted' && invitation.accepted_at
+                    ? `accepted ${new Date(invitation.accepted_at).toLocaleDateString()}`
+                    : `expires ${new Date(invitation.expires_at).toLocaleDateString()}`}
+                </Text>
+              </View>
+              <View style={[styles.orderStatus, { backgroundColor: inviteStatusColor(invitation.status) }]}>
+                <Text style={styles.orderStatusText}>{invitation.status.toUpperCase()}</Text>
               </View>
-            );
-          })}
-          
-          {filteredCustomers.length === 0 && (
-            <View style={styles.emptyState}>
-              <Ionicons name="people-outline" size={64} color={COLORS.gray} />
-              <Text style={styles.emptyText}>
-                {searchQuery ? 'No customers found' : 'No customers yet'}
-              </Text>
             </View>
-          )}
-        </ScrollView>
+            {invitation.status === 'pending' && (
+              <TouchableOpacity
+                style={[styles.statusButton, { backgroundColor: COLORS.error, alignSelf: 'flex-start', marginTop: SPACING.sm }]}
+                onPress={() => revokeInvitation(invitation)}
+              >
+                <Text style={styles.statusButtonText}>Revoke</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        ))}
+        {invitations.length === 0 && (
+          <Text style={styles.customerEmail}>No invitations sent yet</Text>
+        )}
       </View>
     );
   }
@@ -3526,46 +5317,6 @@ const styles = StyleSheet.create({
     padding: 8,
     zIndex: 1,
   },
-  roleSelector: {
-    marginBottom: SPACING.lg,
-  },
-  roleLabel: {
-    fontSize: TYPOGRAPHY.fontSize.base,
-    fontWeight: '500' as const,
-    color: COLORS.textPrimary,
-    marginBottom: SPACING.sm,
-  },
-  roleButtons: {
-    flexDirection: 'row',
-    gap: SPACING.sm,
-  },
-  roleButton: {
-    flex: 1,
-    padding: SPACING.md,
-    borderRadius: 8,
-    borderWidth: 1,
-    borderColor: COLORS.border,
-    alignItems: 'center',
-  },
-  roleButtonActive: {
-    backgroundColor: COLORS.primary,
-    borderColor: COLORS.primary,
-  },
-  roleButtonText: {
-    fontSize: TYPOGRAPHY.fontSize.base,
-    color: COLORS.textSecondary,
-  },
-  roleButtonTextActive: {
-    color: COLORS.white,
-    fontWeight: '500' as const,
-  },
-  adminEmailHint: {
-    fontSize: TYPOGRAPHY.fontSize.sm,
-    color: COLORS.textSecondary,
-    textAlign: 'center',
-    marginTop: SPACING.sm,
-    fontStyle: 'italic',
-  },
   termsContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -3609,6 +5360,37 @@ const styles = StyleSheet.create({
     color: COLORS.primary,
     fontSize: TYPOGRAPHY.fontSize.base,
   },
+  forgotPasswordButton: {
+    alignSelf: 'flex-end',
+    marginTop: SPACING.sm,
+  },
+  forgotPasswordText: {
+    color: COLORS.primary,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  resetHint: {
+    fontSize: TYPOGRAPHY.fontSize.sm,
+    color: COLORS.textSecondary,
+    marginBottom: SPACING.lg,
+  },
+  mfaEnrollment: {
+    marginBottom: SPACING.lg,
+  },
+  mfaSecret: {
+    fontSize: TYPOGRAPHY.fontSize.lg,
+    fontWeight: '600' as const,
+    color: COLORS.textPrimary,
+    letterSpacing: 1,
+    textAlign: 'center',
+    padding: SPACING.md,
+    borderRadius: 8,
+    backgroundColor: COLORS.background,
+    marginBottom: SPACING.sm,
+  },
+  mfaUri: {
+    fontSize: TYPOGRAPHY.fontSize.xs,
+    color: COLORS.textSecondary,
+  },
   header: {
     backgroundColor: COLORS.primary,
     padding: SPACING.lg,
@@ -4292,6 +6074,38 @@ const styles = StyleSheet.create({
   customersList: {
     flex: 1,
   },
+  roleCardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  roleCount: {
+    fontSize: TYPOGRAPHY.fontSize.sm,
+    color: COLORS.textSecondary,
+  },
+  rolePermissions: {
+    marginTop: SPACING.md,
+    paddingTop: SPACING.md,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+  },
+  permissionGroupTitle: {
+    fontSize: TYPOGRAPHY.fontSize.sm,
+    fontWeight: '600' as const,
+    color: COLORS.textPrimary,
+    marginTop: SPACING.sm,
+    marginBottom: SPACING.xs,
+  },
+  permissionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: SPACING.xs,
+  },
+  permissionLabel: {
+    flex: 1,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+    color: COLORS.textSecondary,
+  },
   customerCard: {
     backgroundColor: COLORS.white,
     padding: SPACING.lg,
@@ -4358,6 +6172,20 @@ const styles = StyleSheet.create({
     marginLeft: SPACING.sm,
     flex: 1,
   },
+  customerLockNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: SPACING.sm,
+    paddingTop: SPACING.sm,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+  },
+  customerLockText: {
+    fontSize: TYPOGRAPHY.fontSize.sm,
+    color: COLORS.error,
+    marginLeft: SPACING.sm,
+    flex: 1,
+  },
   // Cart Styles
   cartList: {
     flex: 1,
@@ -4535,6 +6363,38 @@ const styles = StyleSheet.create({
     fontWeight: '600' as const,
     marginTop: 2,
   },
+  verificationCard: {
+    backgroundColor: COLORS.white,
+    padding: SPACING.lg,
+    borderRadius: 12,
+    marginBottom: SPACING.lg,
+    borderLeftWidth: 4,
+    borderLeftColor: COLORS.warning,
+    gap: SPACING.sm,
+  },
+  verificationHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  verificationTitle: {
+    fontSize: TYPOGRAPHY.fontSize.lg,
+    fontWeight: '600' as const,
+    color: COLORS.textPrimary,
+  },
+  verificationText: {
+    fontSize: TYPOGRAPHY.fontSize.sm,
+    color: COLORS.textSecondary,
+  },
+  verificationActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: SPACING.md,
+  },
+  verificationButton: {
+    flex: 0,
+  },
   profileStats: {
     flexDirection: 'row',
     justifyContent: 'space-around',
@@ -4619,6 +6479,172 @@ const styles = StyleSheet.create({
     backgroundColor: COLORS.gray + '20',
     color: COLORS.textSecondary,
   },
+  orderNotes: {
+    marginTop: SPACING.sm,
+    gap: SPACING.xs,
+  },
+  orderNotesSave: {
+    alignSelf: 'flex-end',
+    backgroundColor: COLORS.primary,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    borderRadius: 6,
+  },
+  orderNotesSaveText: {
+    color: COLORS.white,
+    fontWeight: '600' as const,
+  },
+  orderChangeSection: {
+    marginTop: SPACING.md,
+    gap: SPACING.sm,
+  },
+  orderChangeHint: {
+    fontSize: TYPOGRAPHY.fontSize.xs,
+    color: COLORS.textSecondary,
+  },
+  orderChangeEditor: {
+    gap: SPACING.sm,
+  },
+  orderChangeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  orderChangeItemName: {
+    flex: 1,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+    color: COLORS.textPrimary,
+  },
+  orderChangeAddress: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  cancelOrderButton: {
+    flex: 1,
+    backgroundColor: COLORS.error,
+    paddingVertical: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  cancelOrderButtonText: {
+    color: COLORS.white,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+    fontWeight: '600',
+  },
+  driverRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    marginTop: SPACING.sm,
+  },
+  driverInput: {
+    flex: 1,
+  },
+  historyToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xs,
+    marginTop: SPACING.md,
+  },
+  historyToggleText: {
+    color: COLORS.primary,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+    fontWeight: '600' as const,
+  },
+  syncBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    backgroundColor: COLORS.secondary,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+  },
+  syncBannerFailed: {
+    backgroundColor: COLORS.error,
+  },
+  syncBannerText: {
+    flex: 1,
+    color: COLORS.white,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  syncBannerButton: {
+    backgroundColor: COLORS.white,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    borderRadius: 6,
+  },
+  syncBannerButtonText: {
+    color: COLORS.textPrimary,
+    fontWeight: '600' as const,
+  },
+  syncStateText: {
+    marginTop: SPACING.xs,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+    color: COLORS.warning,
+  },
+  syncStateFailed: {
+    color: COLORS.error,
+  },
+  impersonationBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    backgroundColor: COLORS.warning,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+  },
+  impersonationInfo: {
+    flex: 1,
+  },
+  impersonationTitle: {
+    color: COLORS.white,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+    fontWeight: '600' as const,
+  },
+  impersonationText: {
+    color: COLORS.white,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  impersonationExit: {
+    backgroundColor: COLORS.white,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    borderRadius: 6,
+  },
+  impersonationExitText: {
+    color: COLORS.warning,
+    fontWeight: '600' as const,
+  },
+  impersonationReason: {
+    marginTop: SPACING.md,
+    gap: SPACING.sm,
+  },
+  deleteAccountPanel: {
+    marginTop: SPACING.md,
+    gap: SPACING.sm,
+  },
+  deviceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.md,
+    paddingVertical: SPACING.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  deviceInfo: {
+    flex: 1,
+  },
+  deviceName: {
+    fontSize: TYPOGRAPHY.fontSize.sm,
+    fontWeight: '600' as const,
+    color: COLORS.textPrimary,
+  },
+  deviceMeta: {
+    fontSize: TYPOGRAPHY.fontSize.xs,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
   accountActions: {
     backgroundColor: COLORS.white,
     padding: SPACING.lg,
@@ -4649,6 +6675,12 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     paddingVertical: SPACING['4xl'],
   },
+  emptyText: {
+    marginTop: SPACING.md,
+    fontSize: 16,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+  },
   browseButton: {
     backgroundColor: COLORS.primary,
     paddingHorizontal: SPACING.lg,
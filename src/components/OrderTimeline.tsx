@@ -0,0 +1,97 @@
+import React from 'react';
+import { View, Text, ActivityIndicator, StyleSheet } from 'react-native';
+import { OrderEvent, OrderEventType } from '../repositories';
+import { ORDER_EVENT_LABELS } from '../services/orderLifecycle';
+import { COLORS, SPACING, TYPOGRAPHY } from '../constants';
+
+interface OrderTimelineProps {
+  events?: OrderEvent[]; // undefined while the history is loading
+  viewerId?: string; // the viewer's own entries read "You"
+}
+
+const EVENT_COLORS: Partial<Record<OrderEventType, string>> = {
+  paid: COLORS.success,
+  delivered: COLORS.success,
+  cancelled: COLORS.error,
+  refunded: COLORS.error,
+};
+
+// An order's history, oldest first, as a vertical timeline
+function OrderTimeline({ events, viewerId }: OrderTimelineProps) {
+  if (!events) {
+    return <ActivityIndicator style={styles.loading} color={COLORS.primary} />;
+  }
+  if (events.length === 0) {
+    return <Text style={styles.empty}>No history recorded for this order yet</Text>;
+  }
+
+  return (
+    <View style={styles.container}>
+      {events.map((event, index) => (
+        <View key={event.id} style={styles.row}>
+          <View style={styles.rail}>
+            <View style={[styles.dot, { backgroundColor: EVENT_COLORS[event.type] || COLORS.primary }]} />
+            {index < events.length - 1 && <View style={styles.line} />}
+          </View>
+          <View style={styles.body}>
+            <Text style={styles.title}>
+              {ORDER_EVENT_LABELS[event.type] || event.type}
+              {event.note ? `: ${event.note}` : ''}
+            </Text>
+            <Text style={styles.meta}>
+              {new Date(event.created_at).toLocaleString()} · {event.actor_id && event.actor_id === viewerId ? 'You' : event.actor_name}
+            </Text>
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: SPACING.md,
+  },
+  loading: {
+    marginTop: SPACING.md,
+  },
+  empty: {
+    marginTop: SPACING.md,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+    color: COLORS.textSecondary,
+  },
+  row: {
+    flexDirection: 'row',
+  },
+  rail: {
+    width: 20,
+    alignItems: 'center',
+  },
+  dot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginTop: 4,
+  },
+  line: {
+    flex: 1,
+    width: 2,
+    backgroundColor: COLORS.border,
+  },
+  body: {
+    flex: 1,
+    paddingBottom: SPACING.md,
+  },
+  title: {
+    fontSize: TYPOGRAPHY.fontSize.sm,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  meta: {
+    fontSize: TYPOGRAPHY.fontSize.xs,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+});
+
+export default React.memo(OrderTimeline);
@@ -0,0 +1,82 @@
+import React from 'react';
+import { FlatList, Text, TouchableOpacity, ActivityIndicator, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { PagedQuery } from '../hooks/usePagedQuery';
+import { COLORS, SPACING, TYPOGRAPHY } from '../constants';
+
+interface PagedListProps<T> {
+  list: PagedQuery<T, any>;
+  renderItem: (item: T) => React.ReactElement;
+  emptyComponent: React.ReactElement;
+  style?: StyleProp<ViewStyle>;
+  itemLabel?: string; // plural noun for the footer count, e.g. 'orders'
+}
+
+// Infinite-scroll list over a usePagedQuery result; restores its scroll position when remounted
+function PagedList<T extends { id: string }>({ list, renderItem, emptyComponent, style, itemLabel = 'items' }: PagedListProps<T>) {
+  const listRef = React.useRef<FlatList<T>>(null);
+  const restored = React.useRef(false);
+
+  const restoreScroll = React.useCallback(() => {
+    if (restored.current || list.items.length === 0) return;
+    restored.current = true;
+    if (list.scrollOffset.current > 0) {
+      listRef.current?.scrollToOffset({ offset: list.scrollOffset.current, animated: false });
+    }
+  }, [list.items.length, list.scrollOffset]);
+
+  const footer = () => {
+    if (list.loadingMore) {
+      return <ActivityIndicator style={styles.footer} color={COLORS.primary} />;
+    }
+    if (list.error) {
+      return (
+        <TouchableOpacity style={styles.footer} onPress={list.hasMore ? list.loadMore : list.refresh}>
+          <Text style={styles.errorText}>{list.error}. Tap to retry</Text>
+        </TouchableOpacity>
+      );
+    }
+    if (list.items.length === 0) return null;
+    return (
+      <Text style={[styles.footer, styles.footerText]}>
+        Showing {list.items.length} of {list.total} {itemLabel}
+      </Text>
+    );
+  };
+
+  return (
+    <FlatList
+      ref={listRef}
+      style={style}
+      data={list.items}
+      keyExtractor={item => item.id}
+      renderItem={({ item }) => renderItem(item)}
+      onEndReached={() => list.hasMore && list.loadMore()}
+      onEndReachedThreshold={0.5}
+      onContentSizeChange={restoreScroll}
+      onScroll={event => { list.scrollOffset.current = event.nativeEvent.contentOffset.y; }}
+      scrollEventThrottle={100}
+      keyboardShouldPersistTaps="handled"
+      ListEmptyComponent={list.loading ? <ActivityIndicator style={styles.footer} color={COLORS.primary} /> : emptyComponent}
+      ListFooterComponent={footer}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  footer: {
+    paddingVertical: SPACING.md,
+    alignItems: 'center',
+  },
+  footerText: {
+    textAlign: 'center',
+    fontSize: TYPOGRAPHY.fontSize.sm,
+    color: COLORS.textSecondary,
+  },
+  errorText: {
+    textAlign: 'center',
+    fontSize: TYPOGRAPHY.fontSize.sm,
+    color: COLORS.error,
+  },
+});
+
+export default PagedList;
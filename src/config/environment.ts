@@ -10,14 +10,16 @@ export interface EnvironmentConfig {
   ENVIRONMENT: 'development' | 'staging' | 'production';
   
   // Database Configuration
+  DATA_BACKEND: 'local' | 'supabase'; // where repositories read and write
+  SUPABASE_CLIENT: 'remote' | 'memory'; // 'memory' swaps the live project for supabaseMemoryClient
   SUPABASE_URL: string;
   SUPABASE_ANON_KEY: string;
   DATABASE_URL?: string;
   DATABASE_POOL_SIZE: number;
   
   // Security Configuration
-  JWT_SECRET: string;
   ENCRYPTION_KEY: string;
+  SUPER_ADMIN_EMAIL?: string; // first account registered with this email becomes super_admin; other staff are invited
   
   // API Configuration
   API_BASE_URL: string;
@@ -49,13 +51,15 @@ const getEnvironmentConfig = (): EnvironmentConfig => {
     APP_VERSION: '1.0.0',
     ENVIRONMENT: 'production',
     
+    DATA_BACKEND: process.env.EXPO_PUBLIC_DATA_BACKEND === 'supabase' ? 'supabase' : 'local',
+    SUPABASE_CLIENT: process.env.EXPO_PUBLIC_SUPABASE_CLIENT === 'memory' ? 'memory' : 'remote',
     SUPABASE_URL: process.env.EXPO_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
     SUPABASE_ANON_KEY: process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY || 'placeholder-key',
     DATABASE_URL: process.env.EXPO_PUBLIC_DATABASE_URL,
     DATABASE_POOL_SIZE: 10,
     
-    JWT_SECRET: process.env.EXPO_PUBLIC_JWT_SECRET || 'default-jwt-secret-change-in-production',
     ENCRYPTION_KEY: process.env.EXPO_PUBLIC_ENCRYPTION_KEY || 'default-encryption-key-change-in-production',
+    SUPER_ADMIN_EMAIL: process.env.EXPO_PUBLIC_SUPER_ADMIN_EMAIL,
     
     API_BASE_URL: process.env.EXPO_PUBLIC_API_BASE_URL || 'https://api.zadafoods.com',
     API_TIMEOUT: 30000,
@@ -105,16 +109,14 @@ export const config = getEnvironmentConfig();
 export const validateConfig = (): { isValid: boolean; errors: string[] } => {
   const errors: string[] = [];
   
-  if (!config.SUPABASE_URL || config.SUPABASE_URL.includes('placeholder')) {
-    errors.push('SUPABASE_URL is not configured');
-  }
-  
-  if (!config.SUPABASE_ANON_KEY || config.SUPABASE_ANON_KEY.includes('placeholder')) {
-    errors.push('SUPABASE_ANON_KEY is not configured');
-  }
-  
-  if (config.JWT_SECRET.includes('default')) {
-    errors.push('JWT_SECRET should be changed from default value');
+  if (config.DATA_BACKEND === 'supabase' && config.SUPABASE_CLIENT === 'remote') {
+    if (!config.SUPABASE_URL || config.SUPABASE_URL.includes('placeholder')) {
+      errors.push('SUPABASE_URL is not configured');
+    }
+    
+    if (!config.SUPABASE_ANON_KEY || config.SUPABASE_ANON_KEY.includes('placeholder')) {
+      errors.push('SUPABASE_ANON_KEY is not configured');
+    }
   }
   
   if (config.ENCRYPTION_KEY.includes('default')) {
@@ -134,7 +136,7 @@ export const logConfigStatus = (): void => {
   console.log('🔧 Environment Configuration:');
   console.log(`   App: ${config.APP_NAME} v${config.APP_VERSION}`);
   console.log(`   Environment: ${config.ENVIRONMENT}`);
-  console.log(`   Database: ${config.SUPABASE_URL.includes('placeholder') ? '❌ Not configured' : '✅ Configured'}`);
+  console.log(`   Database: ${config.DATA_BACKEND === 'local' ? 'Local storage' : config.SUPABASE_CLIENT === 'memory' ? 'In-memory Supabase' : config.SUPABASE_URL.includes('placeholder') ? '❌ Supabase not configured' : '✅ Supabase'}`);
   console.log(`   Security: ${validation.errors.some(e => e.includes('SECRET') || e.includes('KEY')) ? '❌ Using defaults' : '✅ Configured'}`);
   console.log(`   API: ${config.API_BASE_URL}`);
   console.log(`   Features: Analytics=${config.ENABLE_ANALYTICS}, Notifications=${config.ENABLE_PUSH_NOTIFICATIONS}, Offline=${config.ENABLE_OFFLINE_MODE}`);
@@ -147,13 +147,28 @@ export const ANIMATION_DURATION = {
 export const API_CONFIG = {
   timeout: 10000,
   retryAttempts: 3,
-  retryDelay: 1000,
+  retryDelay: 1000, // backoff base; doubles per attempt, with jitter
+  maxRetryDelay: 8000,
+  circuitFailureThreshold: 5, // consecutive transient failures before working offline
+  circuitCooldown: 30000, // wait before probing the backend again
+} as const;
+
+// Checkout pricing, in naira; the server prices orders from app_settings in supabase/production_schema.sql, so keep the two in step
+export const CHECKOUT_CONFIG = {
+  taxRate: 0.1,
+  shippingCost: 500, // flat delivery fee per order
+  maxQuantityPerItem: 100,
+} as const;
+
+// Customer changes to a placed order; amend_order() reads its window from app_settings 'order_changes', so keep the two in step
+export const ORDER_CHANGE_CONFIG = {
+  windowMinutes: 15, // a pending order can be cancelled or changed this long after it was placed
 } as const;
 
 // Storage keys
 export const STORAGE_KEYS = {
-  USERS: '@zada_users',
-  PRODUCTS: '@zada_products',
+  USERS: '@zada/users',
+  PRODUCTS: '@zada/products',
   SUPPORT_MESSAGES: '@zada_support_messages',
   SEEN_MESSAGE_IDS: '@zada_seen_message_ids',
   USER_ADMIN_DATA: '@zada_user_admin_data',
@@ -175,18 +190,6 @@ export const VALIDATION_RULES = {
   },
 } as const;
 
-// Admin email domains
-export const ADMIN_EMAIL_DOMAINS = [
-  '@zadafoods.com',
-  '@zada.com',
-] as const;
-
-export const ALLOWED_ADMIN_EMAILS = [
-  'admin@zada.com',
-  'manager@zada.com',
-  'supervisor@zada.com',
-] as const;
-
 // Pagination
 export const PAGINATION = {
   defaultPageSize: 20,
@@ -5,6 +5,10 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { dataManager, DataManagerState } from '../services/dataManager';
+import type { OrderStatus } from '../repositories';
+import type { OrderActor } from '../services/orderLifecycle';
+import type { CheckoutRequest } from '../services/checkout';
+import type { OrderChangeRequest } from '../services/orderChanges';
 
 export const useDataManager = () => {
   const [state, setState] = useState<DataManagerState>(dataManager.getState());
@@ -47,11 +51,11 @@ export const useDataManager = () => {
     }
   }, []);
 
-  const updateProduct = useCallback(async (productId: string, productData: any) => {
+  const updateProduct = useCallback(async (productId: string, productData: any, base?: any) => {
     try {
       setLoading(true);
       setError(null);
-      await dataManager.updateProduct(productId, productData);
+      await dataManager.updateProduct(productId, productData, base);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to update product');
       throw err;
@@ -87,11 +91,25 @@ export const useDataManager = () => {
     }
   }, []);
 
-  const updateOrder = useCallback(async (orderId: string, orderData: any) => {
+  // Resolves with the checkout result; a rejection is part of the result, not an error
+  const placeOrder = useCallback(async (request: Omit<CheckoutRequest, 'lines'>) => {
     try {
       setLoading(true);
       setError(null);
-      await dataManager.updateOrder(orderId, orderData);
+      return await dataManager.placeOrder(request);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to place order');
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const updateOrder = useCallback(async (orderId: string, orderData: any, base?: any) => {
+    try {
+      setLoading(true);
+      setError(null);
+      await dataManager.updateOrder(orderId, orderData, base);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to update order');
       throw err;
@@ -100,6 +118,58 @@ export const useDataManager = () => {
     }
   }, []);
 
+  const transitionOrder = useCallback(async (orderId: string, status: OrderStatus, reason?: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      await dataManager.transitionOrder(orderId, status, reason);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update order status');
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const retryRefund = useCallback(async (orderId: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      await dataManager.retryRefund(orderId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to refund order');
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const cancelOwnOrder = useCallback(async (orderId: string, reason?: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      await dataManager.cancelOwnOrder(orderId, reason);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel order');
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const changeOwnOrder = useCallback(async (orderId: string, request: OrderChangeRequest) => {
+    try {
+      setLoading(true);
+      setError(null);
+      await dataManager.changeOwnOrder(orderId, request);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change order');
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
   // Cart operations
   const addToCart = useCallback(async (product: any, quantity: number = 1) => {
     try {
@@ -194,6 +264,26 @@ export const useDataManager = () => {
     }
   }, []);
 
+  // Offline queue
+  const retrySync = useCallback(async () => {
+    try {
+      setError(null);
+      await dataManager.retrySync();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sync changes');
+    }
+  }, []);
+
+  const discardQueuedChange = useCallback(async (entryId: string) => {
+    try {
+      setError(null);
+      await dataManager.discardQueuedChange(entryId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to discard change');
+      throw err;
+    }
+  }, []);
+
   // Computed values
   const cartTotal = dataManager.getCartTotal();
   const cartItemCount = dataManager.getCartItemCount();
@@ -205,6 +295,10 @@ export const useDataManager = () => {
     customers: state.customers,
     cart: state.cart,
     notifications: state.notifications,
+    outbox: state.outbox,
+    rejectedChanges: state.rejectedChanges,
+    offline: state.offline,
+    orderEvents: state.orderEvents,
     loading,
     error,
 
@@ -218,7 +312,12 @@ export const useDataManager = () => {
     updateProduct,
     deleteProduct,
     addOrder,
+    placeOrder,
     updateOrder,
+    transitionOrder,
+    retryRefund,
+    cancelOwnOrder,
+    changeOwnOrder,
     addToCart,
     updateCartItem,
     removeFromCart,
@@ -226,10 +325,16 @@ export const useDataManager = () => {
     addNotification,
     markNotificationAsRead,
     syncData,
+    retrySync,
+    discardQueuedChange,
 
     // Data access methods
     getOrdersByUser: (userId: string) => dataManager.getOrdersByUser(userId),
     getNotificationsByUser: (userId: string) => dataManager.getNotificationsByUser(userId),
     getUnreadNotificationCount: (userId?: string) => dataManager.getUnreadNotificationCount(userId),
+    getSyncState: (entityId: string) => dataManager.getSyncState(entityId),
+    setCartOwner: (userId: string | null) => dataManager.setCartOwner(userId),
+    setOrderActor: (actor: OrderActor | null) => dataManager.setActor(actor),
+    loadOrderEvents: (orderId: string) => dataManager.loadOrderEvents(orderId),
   };
 };
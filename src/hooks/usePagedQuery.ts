@@ -0,0 +1,135 @@
+/**
+ * React Hook for Paged Lists
+ * Loads a repository query a page at a time for infinite scroll and reloads it when data changes
+ */
+
+import { useState, useEffect, useCallback, useRef, MutableRefObject } from 'react';
+import { dataManager } from '../services/dataManager';
+import { Repository, Query, PageRequest } from '../repositories';
+import { PAGINATION } from '../constants';
+
+export interface PagedQueryOptions<T> {
+  enabled?: boolean; // nothing is fetched while false, e.g. when the list is off screen
+  resolve?: (item: T) => T; // overlays local state, such as changes still waiting in the outbox
+}
+
+export interface PagedQuery<T, F> {
+  items: T[];
+  total: number;
+  hasMore: boolean;
+  loading: boolean;
+  loadingMore: boolean;
+  error: string | null;
+  filter: F;
+  setFilter: (filter: F) => void;
+  loadMore: () => void;
+  refresh: () => void;
+  // Kept here rather than in the list so the position survives the list being remounted
+  scrollOffset: MutableRefObject<number>;
+}
+
+export const usePagedQuery = <T extends { id: string }, F>(
+  repository: Repository<T>,
+  buildQuery: (filter: F, page: PageRequest) => Query<T>,
+  initialFilter: F,
+  options: PagedQueryOptions<T> = {}
+): PagedQuery<T, F> => {
+  const { enabled = true, resolve } = options;
+  const [filter, setFilterState] = useState<F>(initialFilter);
+  const [items, setItems] = useState<T[]>([]);
+  const [total, setTotal] = useState(0);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const scrollOffset = useRef(0);
+
+  // Responses to superseded requests are dropped, so a slow page never lands after a newer filter
+  const requestId = useRef(0);
+  const loadedCount = useRef(0);
+  const buildQueryRef = useRef(buildQuery);
+  buildQueryRef.current = buildQuery;
+  const resolveRef = useRef(resolve);
+  resolveRef.current = resolve;
+
+  const applyResolve = (records: T[]): T[] =>
+    resolveRef.current ? records.map(record => resolveRef.current!(record)) : records;
+
+  // Reloads from the top, keeping as many records as were already on screen
+  const reload = useCallback(async (nextFilter: F, keepLoaded: boolean) => {
+    const id = ++requestId.current;
+    const limit = keepLoaded
+      ? Math.min(Math.max(loadedCount.current, PAGINATION.defaultPageSize), PAGINATION.maxPageSize)
+      : PAGINATION.defaultPageSize;
+    try {
+      if (!keepLoaded) setLoading(true);
+      setError(null);
+      const page = await repository.query(buildQueryRef.current(nextFilter, { limit }));
+      if (id !== requestId.current) return;
+      loadedCount.current = page.items.length;
+      setItems(applyResolve(page.items));
+      setTotal(page.total);
+      setCursor(page.nextCursor);
+    } catch (err) {
+      if (id !== requestId.current) return;
+      setError(err instanceof Error ? err.message : 'Failed to load list');
+    } finally {
+      if (id === requestId.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    }
+  }, [repository]);
+
+  const filterKey = JSON.stringify(filter);
+
+  useEffect(() => {
+    if (!enabled) return;
+    scrollOffset.current = 0;
+    reload(filter, false);
+  }, [enabled, filterKey, reload]);
+
+  // Writes anywhere in the app go through the data manager, so its updates mark the list stale
+  useEffect(() => {
+    if (!enabled) return;
+    return dataManager.subscribe(() => {
+      reload(filter, true);
+    });
+  }, [enabled, filterKey, reload]);
+
+  const loadMore = useCallback(async () => {
+    if (!cursor || loading || loadingMore) return;
+    const id = ++requestId.current;
+    try {
+      setLoadingMore(true);
+      const page = await repository.query(buildQueryRef.current(filter, { cursor }));
+      if (id !== requestId.current) return;
+      loadedCount.current += page.items.length;
+      setItems(prev => [...prev, ...applyResolve(page.items.filter(item => !prev.some(existing => existing.id === item.id)))]);
+      setTotal(page.total);
+      setCursor(page.nextCursor);
+    } catch (err) {
+      if (id !== requestId.current) return;
+      setError(err instanceof Error ? err.message : 'Failed to load more');
+    } finally {
+      if (id === requestId.current) setLoadingMore(false);
+    }
+  }, [repository, cursor, filterKey, loading, loadingMore]);
+
+  const setFilter = useCallback((next: F) => setFilterState(next), []);
+  const refresh = useCallback(() => { reload(filter, true); }, [filterKey, reload]);
+
+  return {
+    items,
+    total,
+    hasMore: cursor !== null,
+    loading,
+    loadingMore,
+    error,
+    filter,
+    setFilter,
+    loadMore,
+    refresh,
+    scrollOffset
+  };
+};
@@ -0,0 +1,136 @@
+/**
+ * Concurrent Edits
+ * Conflict detection on write and per-entity field merge rules
+ */
+
+import type { Repository, Order, Product } from './types';
+
+export interface FieldConflict {
+  field: string;
+  base: any; // value the editor started from
+  mine: any;
+  theirs: any;
+}
+
+// Raised when the stored record changed since the caller read it; `merged` holds the changes that still apply
+export class ConflictError<T = any> extends Error {
+  constructor(
+    readonly current: T,
+    readonly conflicts: FieldConflict[] = [],
+    readonly merged: Partial<T> = {}
+  ) {
+    super(conflicts.length > 0
+      ? `Changed by someone else: ${conflicts.map(c => c.field).join(', ')}`
+      : 'Record was changed by someone else');
+    this.name = 'ConflictError';
+  }
+}
+
+export const isConflictError = (error: unknown): error is ConflictError => error instanceof ConflictError;
+
+// How a field edited on both sides is settled; unlisted fields go to 'prompt'
+export type MergeRule = 'mine' | 'theirs' | 'prompt' | ((values: { base: any; mine: any; theirs: any }) => any);
+
+export type MergeRules<T> = Partial<Record<keyof T & string, MergeRule>>;
+
+const sameValue = (a: any, b: any): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+// The value further along the progression wins
+const furthestAlong = (progression: readonly string[]): MergeRule => ({ mine, theirs }) =>
+  progression.indexOf(mine) >= progression.indexOf(theirs) ? mine : theirs;
+
+// A cancellation stops a shipment but not a completed delivery
+const ORDER_STATUS_PROGRESSION: Order['status'][] = [
+  'pending', 'confirmed', 'processing', 'shipped', 'cancelled', 'delivered', 'refunded'
+];
+const PAYMENT_STATUS_PROGRESSION: Order['payment_status'][] = ['pending', 'failed', 'paid', 'refunded'];
+const DELIVERY_STATUS_PROGRESSION = ['Preparing', 'Out for Delivery', 'Delivered'];
+
+// Status transitions merge on their own; free text such as notes needs a person to decide
+export const ORDER_MERGE_RULES: MergeRules<Order> = {
+  status: furthestAlong(ORDER_STATUS_PROGRESSION),
+  payment_status: furthestAlong(PAYMENT_STATUS_PROGRESSION),
+  delivery_status: furthestAlong(DELIVERY_STATUS_PROGRESSION),
+  updated_at: 'mine',
+  notes: 'prompt',
+  cancellation_reason: 'prompt'
+};
+
+// Stock edits are adjustments, so both sides' deltas are kept
+export const PRODUCT_MERGE_RULES: MergeRules<Product> = {
+  stock_quantity: ({ base, mine, theirs }) => Math.max(0, theirs + (mine - base)),
+  updated_at: 'mine'
+};
+
+// Three-way merge of the caller's changes onto the current record, field by field
+export const mergeChanges = <T>(
+  base: Partial<T>,
+  current: T,
+  changes: Partial<T>,
+  rules: MergeRules<T>
+): { merged: Partial<T>; conflicts: FieldConflict[] } => {
+  const merged: Partial<T> = {};
+  const conflicts: FieldConflict[] = [];
+
+  for (const field of Object.keys(changes) as Array<keyof T & string>) {
+    const mine = changes[field];
+    const theirs = current[field];
+    const original = base[field];
+
+    // Sent unchanged, as full-form saves do: whatever is stored now stands
+    if (sameValue(mine, original)) {
+      continue;
+    }
+
+    // Only this side touched the field, or both made the same edit
+    if (sameValue(theirs, original) || sameValue(theirs, mine)) {
+      merged[field] = mine;
+      continue;
+    }
+
+    const rule = rules[field] || 'prompt';
+    if (rule === 'mine') {
+      merged[field] = mine;
+    } else if (rule === 'prompt') {
+      conflicts.push({ field, base: original, mine, theirs });
+    } else if (rule !== 'theirs') {
+      merged[field] = rule({ base: original, mine, theirs });
+    }
+  }
+
+  return { merged, conflicts };
+};
+
+// Values the edited fields had when the editor opened the record, including its updated_at
+export const baseFor = <T extends { updated_at: string }>(record: T | undefined, changes: Partial<T>): Partial<T> => {
+  if (!record) return {};
+  const base: Partial<T> = { updated_at: record.updated_at } as Partial<T>;
+  (Object.keys(changes) as Array<keyof T>).forEach(field => {
+    base[field] = record[field];
+  });
+  return base;
+};
+
+// Writes against the version the editor saw and merges automatically when someone else wrote first
+export const updateWithMerge = async <T extends { id: string; updated_at: string }>(
+  repository: Repository<T>,
+  id: string,
+  base: Partial<T>,
+  changes: Partial<T>,
+  rules: MergeRules<T>
+): Promise<T> => {
+  try {
+    return await repository.update(id, changes, { expectedUpdatedAt: base.updated_at });
+  } catch (error) {
+    if (!isConflictError(error)) throw error;
+
+    const current = error.current as T;
+    const { merged, conflicts } = mergeChanges(base, current, changes, rules);
+    if (conflicts.length > 0) {
+      throw new ConflictError(current, conflicts, merged);
+    }
+
+    // A second race within this window is reported rather than merged again
+    return repository.update(id, merged, { expectedUpdatedAt: current.updated_at });
+  }
+};
@@ -0,0 +1,32 @@
+/**
+ * Repositories
+ * One typed API per aggregate; the backend is chosen by config.DATA_BACKEND
+ */
+
+import { config } from '../config/environment';
+import { createLocalRepositories } from './local';
+import { createSupabaseRepositories } from './supabase';
+import { Repositories } from './types';
+
+export * from './types';
+export * from './conflicts';
+export * from './query';
+
+export const repositories: Repositories = config.DATA_BACKEND === 'supabase'
+  ? createSupabaseRepositories()
+  : createLocalRepositories();
+
+export const {
+  users: userRepository,
+  products: productRepository,
+  orders: orderRepository,
+  cartItems: cartRepository,
+  messages: messageRepository,
+  notifications: notificationRepository,
+  payments: paymentRepository,
+  paymentMethods: paymentMethodRepository,
+  auditLogs: auditLogRepository,
+  tokenFamilies: tokenFamilyRepository,
+  staffInvitations: staffInvitationRepository,
+  rolePermissions: rolePermissionRepository
+} = repositories;
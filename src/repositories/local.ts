@@ -0,0 +1,500 @@
+/**
+ * Local Storage Repositories
+ * Each aggregate is a JSON array under its own key in the versioned store
+ */
+
+import { store } from '../../storageUtils';
+import {
+  Repository,
+  RecordFilter,
+  Repositories,
+  UpdateOptions,
+  UserRecord,
+  UserMfa,
+  UserRepository,
+  CustomerErasure,
+  Product,
+  Order,
+  OrderItem,
+  OrderEvent,
+  OrderRepository,
+  OrderAmendment,
+  Notification,
+  CartItemRecord,
+  ChatMessage,
+  MessageRepository,
+  PaymentIntent,
+  PaymentRepository,
+  PaymentMethod,
+  StaffInvitation,
+  StaffInvitationRepository,
+  RolePermissionRecord
+} from './types';
+import { ConflictError } from './conflicts';
+import { applyQuery, Query, Page } from './query';
+import { generateId } from '../utils';
+import { formatOrderNumber } from '../utils/orderNumber';
+import { customerContact, customerPseudonym } from '../utils/orderCustomer';
+import { applyRoleOverrides, roleHasPermission, UserRole } from '../utils/roles';
+import { CHECKOUT_CONFIG, ORDER_CHANGE_CONFIG } from '../constants';
+import { computeTotals, sameAmount } from '../utils/orderTotals';
+import { RequestError } from '../services/request';
+
+const matches = <T>(record: T, filter?: RecordFilter<T>): boolean =>
+  !filter || Object.entries(filter).every(([key, value]) => (record as any)[key] === value);
+
+class LocalRepository<T extends { id: string }> implements Repository<T> {
+  constructor(protected readonly key: string) {}
+
+  protected async load(): Promise<T[]> {
+    return (await store.get<T[]>(this.key)) || [];
+  }
+
+  protected async save(records: T[]): Promise<void> {
+    await store.set(this.key, records);
+  }
+
+  async list(filter?: RecordFilter<T>): Promise<T[]> {
+    const records = await this.load();
+    return records.filter(record => matches(record, filter));
+  }
+
+  async query(query?: Query<T>): Promise<Page<T>> {
+    return applyQuery(await this.load(), query);
+  }
+
+  async getById(id: string): Promise<T | null> {
+    const records = await this.load();
+    return records.find(record => record.id === id) || null;
+  }
+
+  async create(record: T): Promise<T> {
+    const records = await this.load();
+    if (records.some(r => r.id === record.id)) {
+      throw new Error(`Record ${record.id} already exists in ${this.key}`);
+    }
+    records.push(record);
+    await this.save(records);
+    return record;
+  }
+
+  async update(id: string, changes: Partial<T>, options?: UpdateOptions): Promise<T> {
+    const records = await this.load();
+    const index = records.findIndex(record => record.id === id);
+    if (index === -1) {
+      throw new Error(`Record ${id} not found in ${this.key}`);
+    }
+    if (options?.expectedUpdatedAt && (records[index] as any).updated_at !== options.expectedUpdatedAt) {
+      throw new ConflictError(records[index]);
+    }
+    records[index] = { ...records[index], ...changes, id };
+    await this.save(records);
+    return records[index];
+  }
+
+  async remove(id: string): Promise<void> {
+    const records = await this.load();
+    await this.save(records.filter(record => record.id !== id));
+  }
+
+  async removeWhere(filter: RecordFilter<T>): Promise<number> {
+    const records = await this.load();
+    const kept = records.filter(record => !matches(record, filter));
+    if (kept.length !== records.length) {
+      await this.save(kept);
+    }
+    return records.length - kept.length;
+  }
+}
+
+// Orders in these states have not left the depot, so erasure cancels them
+const OPEN_ORDER_STATUSES: Order['status'][] = ['pending', 'confirmed', 'processing'];
+
+class LocalUserRepository extends LocalRepository<UserRecord> implements UserRepository {
+  private readonly orders = new LocalRepository<Order>('orders');
+  private readonly events = new LocalRepository<OrderEvent>('order_events');
+  private readonly payments = new LocalRepository<PaymentIntent>('payment_intents');
+  private readonly products = new LocalRepository<Product>('products');
+  private readonly messages = new LocalRepository<ChatMessage>('messages');
+  private readonly notifications = new LocalRepository<Notification>('notifications');
+  private readonly paymentMethods = new LocalRepository<PaymentMethod>('payment_methods');
+  private readonly cartItems = new LocalRepository<CartItemRecord>('cart_items');
+
+  async findByEmail(email: string): Promise<UserRecord | null> {
+    const users = await this.load();
+    return users.find(u => u.email.toLowerCase() === email.toLowerCase()) || null;
+  }
+
+  // The device holds only its own accounts, so the checks the account functions make are the auth service's here
+  async lockAccount(userId: string, lockedUntil: string): Promise<void> {
+    await this.update(userId, { status: 'suspended', locked_until: lockedUntil, updated_at: new Date().toISOString() });
+  }
+
+  async unlockAccount(userId: string): Promise<void> {
+    await this.update(userId, { status: 'active', locked_until: undefined, updated_at: new Date().toISOString() });
+  }
+
+  async setRole(userId: string, role: UserRole): Promise<void> {
+    await this.update(userId, { role, updated_at: new Date().toISOString() });
+  }
+
+  async setMfa(userId: string, mfa: UserMfa | null): Promise<void> {
+    await this.update(userId, { mfa: mfa ?? undefined, updated_at: new Date().toISOString() });
+  }
+
+  async confirmEmail(userId: string): Promise<void> {
+    const now = new Date().toISOString();
+    const user = await this.getById(userId);
+    await this.update(userId, {
+      email_verified_at: now,
+      ...(user?.status === 'pending_verification' ? { status: 'active' as const } : {}),
+      updated_at: now
+    });
+  }
+
+  async confirmPhone(userId: string): Promise<void> {
+    const now = new Date().toISOString();
+    await this.update(userId, { phone_verified_at: now, updated_at: now });
+  }
+
+  async resetPassword(userId: string, passwordHash: string): Promise<void> {
+    const now = new Date().toISOString();
+    const user = await this.getById(userId);
+    await this.update(userId, {
+      password_hash: passwordHash,
+      ...(user?.status === 'suspended' && user.locked_until ? { status: 'active' as const, locked_until: undefined } : {}),
+      ...(user?.status === 'pending_verification' ? { status: 'active' as const, email_verified_at: now } : {}),
+      updated_at: now
+    });
+  }
+
+  // The device plays the server's part in erase_customer_data
+  async eraseCustomerData(userId: string): Promise<CustomerErasure> {
+    const now = new Date().toISOString();
+    const orders = await this.orders.list({ customer_id: userId });
+    const cancelledOrderIds: string[] = [];
+
+    for (const order of orders) {
+      const open = OPEN_ORDER_STATUSES.includes(order.status);
+      if (open) {
+        cancelledOrderIds.push(order.id);
+        if (order.stock_reserved) {
+          for (const item of order.order_items || []) {
+            const product = await this.products.getById(item.product_id);
+            if (product) {
+              await this.products.update(product.id, { stock_quantity: product.stock_quantity + item.quantity, updated_at: now });
+            }
+          }
+        }
+        for (const payment of await this.payments.list({ order_id: order.id })) {
+          if (payment.status === 'pending' || payment.status === 'processing') {
+            await this.payments.update(payment.id, { status: 'cancelled', updated_at: now });
+          }
+        }
+      }
+
+      // Amounts, items, payment method and status stay; anything identifying goes
+      await this.orders.update(order.id, {
+        ...(open ? { status: 'cancelled' as const, stock_reserved: false, cancellation_reason: 'account_deleted' } : {}),
+        customer_name: customerPseudonym(userId),
+        customer_email: undefined,
+        customer_phone: undefined,
+        shipping_address: '[removed]',
+        billing_address: '[removed]',
+        notes: '',
+        pseudonymized_at: now,
+        updated_at: now
+      });
+      if (open) {
+        await this.events.create({
+          id: 'evt_' + generateId(),
+          order_id: order.id,
+          type: 'cancelled',
+          actor_id: null,
+          actor_name: 'System',
+          note: 'Account deleted',
+          created_at: now
+        });
+      }
+    }
+
+    const result: CustomerErasure = {
+      cancelled_order_ids: cancelledOrderIds,
+      pseudonymized_order_count: orders.length,
+      removed_message_count:
+        (await this.messages.removeWhere({ sender_id: userId })) + (await this.messages.removeWhere({ recipient_id: userId })),
+      removed_notification_count: await this.notifications.removeWhere({ user_id: userId }),
+      removed_payment_method_count: await this.paymentMethods.removeWhere({ user_id: userId }),
+      removed_cart_item_count: await this.cartItems.removeWhere({ user_id: userId })
+    };
+
+    // Every field not on the tombstone is cleared, credentials included
+    const user = await this.getById(userId);
+    if (user) {
+      const cleared = Object.fromEntries(Object.keys(user).map(key => [key, undefined]));
+      await this.update(userId, {
+        ...cleared,
+        email: `deleted_${userId}`,
+        role: 'customer',
+        profile: { first_name: 'Deleted', last_name: 'Customer' },
+        preferences: { notifications: false, marketing: false, theme: 'light' },
+        status: 'inactive',
+        created_at: user.created_at,
+        updated_at: now,
+        deleted_at: now
+      });
+    }
+    return result;
+  }
+}
+
+const ORDER_SEQUENCE_KEY = 'order_number_seq';
+
+// The device's stand-in for the server's order number sequence. Allocations are chained so two
+// orders stored at once never draw the same number
+let orderSequence: Promise<number> = Promise.resolve(0);
+const nextOrderSequence = (): Promise<number> =>
+  (orderSequence = orderSequence.catch(() => 0).then(async () => {
+    const next = ((await store.get<number>(ORDER_SEQUENCE_KEY)) || 0) + 1;
+    await store.set(ORDER_SEQUENCE_KEY, next);
+    return next;
+  }));
+
+class LocalOrderRepository extends LocalRepository<Order> implements OrderRepository {
+  private readonly events = new LocalRepository<OrderEvent>('order_events');
+  private readonly payments = new LocalRepository<PaymentIntent>('payment_intents');
+  private readonly products = new LocalRepository<Product>('products');
+  private readonly users = new LocalRepository<UserRecord>('users');
+  private readonly notifications = new LocalRepository<Notification>('notifications');
+  private readonly rolePermissions = new LocalRepository<RolePermissionRecord>('role_permissions');
+
+  // Numbered as it is stored, like the server's assign_order_number trigger
+  async create(order: Order): Promise<Order> {
+    const sequence = await nextOrderSequence();
+    return super.create({ ...order, order_number: formatOrderNumber(new Date(order.created_at), sequence) });
+  }
+
+  async listEvents(orderId: string): Promise<OrderEvent[]> {
+    const events = await this.events.list({ order_id: orderId });
+    return events.sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
+  async appendEvent(event: OrderEvent): Promise<OrderEvent> {
+    return (await this.events.getById(event.id)) || this.events.create(event);
+  }
+
+  // The device plays the server's part in place_order: the same checks, in the same terms. No transactions
+  // in AsyncStorage, so a failed payment write takes the order back out
+  async place(order: Order, payment: PaymentIntent | null): Promise<Order> {
+    const refuse = (message: string): never => {
+      throw new RequestError(`${this.key} place failed: ${message}`, 'validation');
+    };
+    const existing = await this.getById(order.id);
+    if (existing && existing.customer_id === order.customer_id) return existing;
+    if (existing) {
+      throw new RequestError(`${this.key} place failed: Order id is already in use`, 'conflict');
+    }
+
+    // A queued order from an unverified account is refused on replay too
+    const customer = await this.users.getById(order.customer_id);
+    if (customer?.status === 'pending_verification') {
+      refuse('Please confirm your email address before placing an order');
+    }
+
+    const items = order.order_items || [];
+    if (items.length === 0) refuse('An order needs at least one item');
+    for (const item of items) {
+      if (!Number.isInteger(item.quantity) || item.quantity < 1 || item.quantity > CHECKOUT_CONFIG.maxQuantityPerItem) {
+        refuse(`Quantities must be between 1 and ${CHECKOUT_CONFIG.maxQuantityPerItem}`);
+      }
+      const product = await this.products.getById(item.product_id);
+      if (!product || product.status !== 'active') refuse(`Product ${item.product_id} is not available`);
+      if (product!.price !== item.unit_price) refuse(`The price of ${product!.name} has changed`);
+      if (!sameAmount(item.total_price, product!.price * item.quantity)) {
+        refuse(`The line total for ${product!.name} does not match its price`);
+      }
+      if (product!.stock_quantity < item.quantity) refuse(`Only ${product!.stock_quantity} of ${product!.name} left in stock`);
+    }
+
+    const totals = computeTotals(items);
+    const mismatched = (Object.keys(totals) as Array<keyof typeof totals>).some(field => !sameAmount(order[field] ?? 0, totals[field]));
+    if (mismatched) refuse('Order totals do not match current prices');
+    if (payment && (
+      payment.amount !== Math.round(totals.total_amount * 100) ||
+      payment.currency !== 'NGN' ||
+      payment.payment_method !== order.payment_method
+    )) {
+      refuse('Payment does not match the order total');
+    }
+
+    // Contact details come from the account, as place_order takes them
+    const placed = await this.create({ ...order, ...(customer ? customerContact(customer) : {}), stock_reserved: true });
+    if (payment) {
+      try {
+        await this.payments.create(payment);
+      } catch (error) {
+        await this.remove(order.id);
+        throw error;
+      }
+    }
+
+    // Reserved until the order is cancelled
+    await this.moveStock((order.order_items || []).map(item => ({ product_id: item.product_id, change: -item.quantity })));
+    return placed;
+  }
+
+  // The device plays the server's part in amend_order, refusing in the same terms so callers need not tell backends apart
+  async amend(orderId: string, amendment: OrderAmendment): Promise<Order> {
+    const refuse = (message: string): never => {
+      throw new RequestError(`${this.key} amend failed: ${message}`, 'validation');
+    };
+    const order = await this.getById(orderId);
+    if (!order) throw new Error(`Record ${orderId} not found in ${this.key}`);
+    if (order.status !== 'pending') refuse('This order can no longer be changed');
+    if (Date.now() > new Date(order.created_at).getTime() + ORDER_CHANGE_CONFIG.windowMinutes * 60000) {
+      refuse('The time to change this order has passed');
+    }
+
+    const { quantities, changes } = amendment;
+    const items = order.order_items || [];
+    const now = new Date().toISOString();
+    let saved: Order;
+
+    if (changes.status === 'cancelled') {
+      if (order.stock_reserved) {
+        await this.moveStock(items.map(item => ({ product_id: item.product_id, change: item.quantity })));
+      }
+      for (const payment of await this.payments.list({ order_id: orderId })) {
+        if (payment.status === 'pending' || payment.status === 'processing') {
+          await this.payments.update(payment.id, { status: 'cancelled', updated_at: now });
+        }
+      }
+      saved = await this.update(orderId, {
+        status: 'cancelled',
+        stock_reserved: false,
+        cancellation_reason: changes.cancellation_reason,
+        updated_at: now
+      });
+    } else {
+      let orderItems = items;
+      let totals = {};
+      if (quantities) {
+        if (order.payment_status === 'paid') refuse('A paid order can be cancelled but its items cannot be changed');
+        const quantityOf = (item: OrderItem): number => quantities[item.id] ?? item.quantity;
+        for (const item of items) {
+          if (quantityOf(item) < 0) refuse('Quantities cannot be negative');
+          if (!order.stock_reserved) continue;
+          const available = (await this.products.getById(item.product_id))?.stock_quantity ?? 0;
+          if (quantityOf(item) - item.quantity > available) refuse(`Only ${available} more of this item in stock`);
+        }
+        orderItems = items
+          .filter(item => quantityOf(item) > 0)
+          .map(item => ({ ...item, quantity: quantityOf(item), total_price: item.unit_price * quantityOf(item) }));
+        if (orderItems.length === 0) refuse('An order needs at least one item; cancel it instead');
+        // Repriced as place_order prices: the items keep the unit price they were placed at
+        totals = computeTotals(orderItems);
+        if (order.stock_reserved) {
+          await this.moveStock(items.map(item => ({ product_id: item.product_id, change: item.quantity - quantityOf(item) })));
+        }
+      }
+
+      saved = await this.update(orderId, {
+        ...totals,
+        shipping_address: changes.shipping_address ?? order.shipping_address,
+        order_items: orderItems,
+        updated_at: now
+      });
+      for (const payment of await this.payments.list({ order_id: orderId })) {
+        if (payment.status === 'pending') {
+          await this.payments.update(payment.id, { amount: Math.round(saved.total_amount * 100), updated_at: now });
+        }
+      }
+    }
+
+    const cancelled = saved.status === 'cancelled';
+    const roles = applyRoleOverrides(await this.rolePermissions.list());
+    const staff = (await this.users.list())
+      .filter(user => roleHasPermission(roles, user.role, 'orders.update_status') && user.status === 'active');
+    for (const member of staff) {
+      await this.notifications.create({
+        id: 'notif_' + generateId(),
+        user_id: member.id,
+        type: 'order',
+        title: cancelled ? 'Order Cancelled by Customer' : 'Order Changed by Customer',
+        content: `Order ${saved.order_number} was ${cancelled ? 'cancelled' : 'changed'} by the customer`,
+        data: { order_id: saved.id, order_number: saved.order_number },
+        status: 'unread',
+        created_at: now
+      });
+    }
+    return saved;
+  }
+
+  private async moveStock(moves: Array<{ product_id: string; change: number }>): Promise<void> {
+    for (const { product_id, change } of moves) {
+      const product = await this.products.getById(product_id);
+      if (product && change !== 0) {
+        await this.products.update(product_id, { stock_quantity: product.stock_quantity + change, updated_at: new Date().toISOString() });
+      }
+    }
+  }
+}
+
+class LocalMessageRepository extends LocalRepository<ChatMessage> implements MessageRepository {
+  async listForUser(userId: string): Promise<ChatMessage[]> {
+    const messages = await this.load();
+    return messages.filter(m => m.sender_id === userId || m.recipient_id === userId);
+  }
+
+  async removeForUser(userId: string): Promise<number> {
+    const messages = await this.load();
+    const kept = messages.filter(m => m.sender_id !== userId && m.recipient_id !== userId);
+    await this.save(kept);
+    return messages.length - kept.length;
+  }
+}
+
+class LocalPaymentRepository extends LocalRepository<PaymentIntent> implements PaymentRepository {
+  async listForOrders(orderIds: string[]): Promise<PaymentIntent[]> {
+    const intents = await this.load();
+    return intents.filter(intent => orderIds.includes(intent.order_id));
+  }
+}
+
+class LocalStaffInvitationRepository extends LocalRepository<StaffInvitation> implements StaffInvitationRepository {
+  private readonly users = new LocalRepository<UserRecord>('users');
+
+  async findByToken(id: string, tokenHash: string): Promise<StaffInvitation | null> {
+    const invitation = await this.getById(id);
+    return invitation?.token_hash === tokenHash ? invitation : null;
+  }
+
+  // As accept_staff_invitation checks it
+  async markAccepted(id: string, tokenHash: string, userId: string): Promise<void> {
+    const invitation = await this.findByToken(id, tokenHash);
+    const user = await this.users.getById(userId);
+    if (
+      !invitation || invitation.accepted_at || invitation.revoked_at ||
+      new Date(invitation.expires_at).getTime() <= Date.now() ||
+      user?.email !== invitation.email
+    ) {
+      throw new RequestError(`${this.key} accept failed: This invitation link is not valid`, 'validation');
+    }
+    await this.update(id, { accepted_at: new Date().toISOString(), accepted_user_id: userId });
+  }
+}
+
+export const createLocalRepositories = (): Repositories => ({
+  users: new LocalUserRepository('users'),
+  products: new LocalRepository('products'),
+  orders: new LocalOrderRepository('orders'),
+  cartItems: new LocalRepository('cart_items'),
+  messages: new LocalMessageRepository('messages'),
+  notifications: new LocalRepository('notifications'),
+  payments: new LocalPaymentRepository('payment_intents'),
+  paymentMethods: new LocalRepository('payment_methods'),
+  auditLogs: new LocalRepository('audit_logs'),
+  tokenFamilies: new LocalRepository('token_families'),
+  staffInvitations: new LocalStaffInvitationRepository('staff_invitations'),
+  rolePermissions: new LocalRepository('role_permissions')
+});
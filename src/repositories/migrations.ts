@@ -0,0 +1,304 @@
+/**
+ * Local Storage Migrations
+ * Upgrades data written by older app versions to the current record shapes; run once at startup
+ */
+
+import {
+  storage,
+  secureStorage,
+  store,
+  registerMigration,
+  runStorageMigrations,
+  encryptPlaintextKeys,
+  getStorageVersion,
+  namespacedKey,
+  StorageMigration
+} from '../../storageUtils';
+
+// Ad-hoc keys used before the versioned store, and where their data lives now
+const LEGACY_KEYS: Record<string, string> = {
+  '@zada_users': 'users',
+  '@zada_products': 'products',
+  '@zada_orders': 'orders',
+  '@zada_cart_items': 'cart_items',
+  '@zada_chat_messages': 'messages',
+  '@zada_notifications': 'notifications',
+  '@zada_payment_intents': 'payment_intents',
+  '@zada_payment_methods': 'payment_methods',
+  '@zada_audit_logs': 'audit_logs',
+  '@zada_cart': 'cart',
+  '@zada_current_user': 'current_user',
+  '@zada_outbox': 'outbox'
+};
+
+const readLegacy = async (key: string): Promise<any> => {
+  const data = await storage.getItem(key);
+  if (!data) return null;
+  try {
+    return JSON.parse(data);
+  } catch {
+    console.warn(`Skipping unreadable legacy data in ${key}`);
+    return null;
+  }
+};
+
+// Records already in the store win over legacy copies with the same id
+const mergeById = (current: any[], legacy: any[]): any[] => [
+  ...current,
+  ...legacy.filter(record => record?.id && !current.some(existing => existing.id === record.id))
+];
+
+const moveLegacyKey = async (legacyKey: string, key: string): Promise<void> => {
+  const legacy = await readLegacy(legacyKey);
+  if (legacy !== null) {
+    const existing = await store.get<any>(key);
+    if (existing === null) {
+      await store.set(key, legacy);
+    } else if (Array.isArray(existing) && Array.isArray(legacy)) {
+      await store.set(key, mergeById(existing, legacy));
+    }
+  }
+  await storage.removeItem(legacyKey);
+};
+
+const updateRecords = async (key: string, upgrade: (record: any) => any): Promise<void> => {
+  const records = await store.get<any[]>(key);
+  if (records && records.length > 0) {
+    await store.set(key, records.map(upgrade));
+  }
+};
+
+const toNumber = (value: any, fallback: number = 0): number =>
+  Number.isFinite(Number(value)) ? Number(value) : fallback;
+
+// Early builds stored 'cash_on_delivery' and 'online'
+const LEGACY_PAYMENT_METHODS: Record<string, string> = {
+  cash_on_delivery: 'cash',
+  online: 'card'
+};
+
+// Early notification types collapsed into the current set
+const LEGACY_NOTIFICATION_TYPES: Record<string, string> = {
+  order_update: 'order',
+  delivery_update: 'order',
+  payment: 'order'
+};
+
+const PLAINTEXT_SEALED_VERSION = 12;
+
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Move local records into the versioned store',
+    up: async () => {
+      for (const [legacyKey, key] of Object.entries(LEGACY_KEYS)) {
+        await moveLegacyKey(legacyKey, key);
+      }
+
+      // The first builds kept customers apart from users and the signed-in user under '@zada_user'
+      const customers = await readLegacy('@zada_customers');
+      if (Array.isArray(customers)) {
+        const users = (await store.get<any[]>('users')) || [];
+        const known = new Set(users.map(user => user.email?.toLowerCase()));
+        await store.set('users', [
+          ...users,
+          ...customers.filter(customer => customer?.email && !known.has(customer.email.toLowerCase()))
+        ]);
+      }
+      await storage.removeItem('@zada_customers');
+      await moveLegacyKey('@zada_user', 'current_user');
+    }
+  },
+  {
+    version: 2,
+    description: 'Fill in product fields missing from older records',
+    up: () => updateRecords('products', product => {
+      const created_at = product.created_at || new Date().toISOString();
+      return {
+        ...product,
+        description: product.description ?? '',
+        price: toNumber(product.price),
+        cost: toNumber(product.cost),
+        sku: product.sku || `SKU-${product.id}`,
+        category_id: product.category_id ?? '',
+        supplier_id: product.supplier_id ?? '',
+        stock_quantity: toNumber(product.stock_quantity ?? product.stock),
+        min_stock_level: toNumber(product.min_stock_level),
+        max_stock_level: toNumber(product.max_stock_level),
+        images: Array.isArray(product.images) ? product.images : [],
+        features: Array.isArray(product.features) ? product.features : [],
+        specifications: product.specifications || {},
+        status: product.status || 'active',
+        created_at,
+        updated_at: product.updated_at || created_at
+      };
+    })
+  },
+  {
+    version: 3,
+    description: 'Convert orders to order_items and the current payment methods',
+    up: () => updateRecords('orders', order => {
+      const { items, ...rest } = order;
+      const created_at = order.created_at || new Date().toISOString();
+
+      // { product, quantity, price } lines from the first builds
+      const order_items = order.order_items || (items || []).map((item: any, index: number) => {
+        const unitPrice = toNumber(item.unit_price ?? item.price ?? item.product?.price);
+        return {
+          id: `${order.id}_item_${index + 1}`,
+          order_id: order.id,
+          product_id: item.product_id ?? item.product?.id ?? '',
+          quantity: toNumber(item.quantity, 1),
+          unit_price: unitPrice,
+          total_price: toNumber(item.total_price, unitPrice * toNumber(item.quantity, 1))
+        };
+      });
+
+      const subtotal = toNumber(
+        order.subtotal,
+        order_items.reduce((sum: number, item: any) => sum + item.total_price, 0)
+      );
+
+      return {
+        ...rest,
+        order_number: order.order_number || `ORD-${order.id}`,
+        payment_method: LEGACY_PAYMENT_METHODS[order.payment_method] || order.payment_method || 'cash',
+        payment_status: order.payment_status || 'pending',
+        status: order.status || 'pending',
+        subtotal,
+        tax_amount: toNumber(order.tax_amount),
+        shipping_cost: toNumber(order.shipping_cost),
+        discount_amount: toNumber(order.discount_amount),
+        total_amount: toNumber(order.total_amount, subtotal),
+        shipping_address: order.shipping_address ?? '',
+        billing_address: order.billing_address ?? order.shipping_address ?? '',
+        order_items,
+        created_at,
+        updated_at: order.updated_at || created_at
+      };
+    })
+  },
+  {
+    version: 4,
+    description: 'Convert notifications to the shared notification shape',
+    up: () => updateRecords('notifications', notification => {
+      const { message, userId, read, ...rest } = notification;
+      return {
+        ...rest,
+        user_id: notification.user_id ?? userId ?? '',
+        type: LEGACY_NOTIFICATION_TYPES[notification.type] || notification.type || 'system',
+        content: notification.content ?? message ?? '',
+        data: notification.data || {},
+        status: notification.status || (read ? 'read' : 'unread'),
+        created_at: notification.created_at || new Date().toISOString()
+      };
+    })
+  },
+  {
+    version: 5,
+    description: 'Encrypt tokens, profiles and payment details at rest',
+    up: async () => {
+      const sealed = await encryptPlaintextKeys();
+      console.log(`🔐 Encrypted ${sealed} plaintext key(s)`);
+    }
+  },
+  {
+    version: 6,
+    description: 'Give orders the default priority so they match priority filters',
+    up: () => updateRecords('orders', order => ({ ...order, priority: order.priority || 'medium' }))
+  },
+  {
+    version: 7,
+    description: 'Start order histories from the timestamps orders already carry',
+    up: async () => {
+      const orders = (await store.get<any[]>('orders')) || [];
+      const existing = (await store.get<any[]>('order_events')) || [];
+      const event = (order: any, type: string, created_at?: string) =>
+        created_at ? [{ id: `${order.id}_evt_${type}`, order_id: order.id, type, actor_id: null, actor_name: 'System', created_at }] : [];
+
+      const backfilled = orders
+        .filter(order => !existing.some(e => e.order_id === order.id))
+        .flatMap(order => [
+          ...event(order, 'created', order.created_at),
+          ...event(order, 'out_for_delivery', order.shipped_at),
+          ...event(order, 'delivered', order.delivered_at),
+          ...(order.status === 'cancelled' ? event(order, 'cancelled', order.updated_at) : [])
+        ]);
+      if (backfilled.length > 0) {
+        await store.set('order_events', [...existing, ...backfilled]);
+      }
+    }
+  },
+  {
+    version: 8,
+    description: 'Encrypt queued and refused offline changes at rest',
+    up: async () => {
+      const sealed = await encryptPlaintextKeys([namespacedKey('outbox'), namespacedKey('outbox_rejected')]);
+      console.log(`🔐 Encrypted ${sealed} outbox list(s)`);
+    }
+  },
+  {
+    version: 9,
+    description: 'Move sign-in sessions into the token family repository',
+    up: async () => {
+      await encryptPlaintextKeys(['@zada_token_families']);
+      const data = await secureStorage.getItem('@zada_token_families');
+      if (data) {
+        const existing = (await store.get<any[]>('token_families')) || [];
+        await store.set('token_families', mergeById(existing, JSON.parse(data)));
+      }
+      await secureStorage.removeItem('@zada_token_families');
+    }
+  },
+  {
+    version: 10,
+    description: 'Move staff invitations into the invitation repository',
+    up: async () => {
+      await encryptPlaintextKeys(['@zada_staff_invitations']);
+      const data = await secureStorage.getItem('@zada_staff_invitations');
+      if (data) {
+        const existing = (await store.get<any[]>('staff_invitations')) || [];
+        await store.set('staff_invitations', mergeById(existing, JSON.parse(data)));
+      }
+      await secureStorage.removeItem('@zada_staff_invitations');
+    }
+  },
+  {
+    version: 11,
+    description: 'Drop the development message log, which kept sign-in codes in plaintext',
+    up: () => storage.removeItem('@zada_dev_outbox')
+  },
+  {
+    version: PLAINTEXT_SEALED_VERSION,
+    description: 'Encrypt any sensitive value still in plaintext, before reads stop accepting it',
+    up: async () => {
+      const sealed = await encryptPlaintextKeys();
+      console.log(`🔐 Encrypted ${sealed} plaintext key(s)`);
+    }
+  },
+  {
+    version: 13,
+    description: 'Move role permissions into the role permission repository',
+    up: async () => {
+      const overrides = await readLegacy('@zada_role_permissions');
+      if (overrides) {
+        const now = new Date().toISOString();
+        const existing = (await store.get<any[]>('role_permissions')) || [];
+        const records = Object.entries(overrides).map(([id, permissions]) => ({ id, permissions, created_at: now, updated_at: now }));
+        await store.set('role_permissions', mergeById(existing, records));
+      }
+      await storage.removeItem('@zada_role_permissions');
+    }
+  }
+];
+
+STORAGE_MIGRATIONS.forEach(registerMigration);
+
+// Reads of sensitive keys refuse plaintext, so until this migration has run whatever an older build left
+// unencrypted is sealed before the first migration reads it
+export const migrateLocalStorage = async (): Promise<number> => {
+  if ((await getStorageVersion()) < PLAINTEXT_SEALED_VERSION) {
+    await encryptPlaintextKeys();
+  }
+  return runStorageMigrations();
+};
@@ -0,0 +1,249 @@
+/**
+ * List Queries
+ * Typed filters, sorting and offset or cursor pagination, evaluated by the backend
+ */
+
+import { PAGINATION } from '../constants';
+import { base64Encode, base64Decode, utf8Encode, utf8Decode } from '../utils/crypto';
+import { parseOrderNumber } from '../utils/orderNumber';
+import type { UserRole } from '../services/permissions';
+import type { AuthUser, Product, Order, ChatMessage } from './types';
+
+export type SortDirection = 'asc' | 'desc';
+
+// The field must be set on every record; ties are broken by id so pages never overlap or skip records
+export interface Sort<T> {
+  field: keyof T & string;
+  direction: SortDirection;
+}
+
+// A condition on one field; nested JSON fields are written as paths such as 'profile.first_name'
+export type Condition =
+  | { op: 'eq'; field: string; value: string | number | boolean }
+  | { op: 'in'; field: string; values: Array<string | number> }
+  | { op: 'gte' | 'lte'; field: string; value: string | number }
+  | { op: 'search'; fields: string[]; text: string }; // case-insensitive substring in any of the fields
+
+export interface PageRequest {
+  limit?: number; // PAGINATION.defaultPageSize when omitted, never above PAGINATION.maxPageSize
+  offset?: number;
+  cursor?: string | null; // nextCursor of the previous page; takes precedence over offset
+}
+
+export interface Query<T> {
+  where?: Condition[];
+  sort?: Sort<T>;
+  page?: PageRequest;
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number; // records matching the conditions, across all pages
+  nextCursor: string | null; // null on the last page
+  hasMore: boolean;
+}
+
+// Inclusive bounds as ISO timestamps
+export interface DateRange {
+  from?: string;
+  to?: string;
+}
+
+export interface OrderFilter {
+  status?: Order['status'] | Order['status'][];
+  payment_status?: Order['payment_status'];
+  customer_id?: string;
+  delivery_zone?: string;
+  priority?: NonNullable<Order['priority']>;
+  created?: DateRange;
+  search?: string; // order number, customer name or email; a full order number is looked up exactly
+}
+
+export interface ProductFilter {
+  status?: Product['status'];
+  category_id?: string;
+  supplier_id?: string;
+  search?: string; // name or SKU
+}
+
+export interface CustomerFilter {
+  role?: UserRole | UserRole[];
+  status?: AuthUser['status'];
+  created?: DateRange;
+  search?: string; // name or email
+}
+
+export interface MessageFilter {
+  sender_id?: string;
+  type?: ChatMessage['type'];
+  status?: ChatMessage['status'];
+  priority?: ChatMessage['priority'];
+  created?: DateRange;
+}
+
+const oneOrMany = (field: string, value: string | string[] | undefined): Condition[] => {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? [{ op: 'in', field, values: value }] : [{ op: 'eq', field, value }];
+};
+
+const equals = (filter: Record<string, any>, fields: string[]): Condition[] =>
+  fields
+    .filter(field => filter[field] !== undefined && filter[field] !== '')
+    .map((field): Condition => ({ op: 'eq', field, value: filter[field] }));
+
+const dateRange = (field: string, range?: DateRange): Condition[] => [
+  ...(range?.from ? [{ op: 'gte' as const, field, value: range.from }] : []),
+  ...(range?.to ? [{ op: 'lte' as const, field, value: range.to }] : [])
+];
+
+const search = (fields: string[], text?: string): Condition[] =>
+  text?.trim() ? [{ op: 'search', fields, text: text.trim() }] : [];
+
+// A complete order number however it was typed, e.g. read out over the phone, finds that one order
+const orderSearch = (text?: string): Condition[] => {
+  const orderNumber = parseOrderNumber(text);
+  return orderNumber
+    ? [{ op: 'eq', field: 'order_number', value: orderNumber }]
+    : search(['order_number', 'customer_name', 'customer_email'], text);
+};
+
+export const orderQuery = (
+  filter: OrderFilter = {},
+  sort: Sort<Order> = { field: 'created_at', direction: 'desc' },
+  page?: PageRequest
+): Query<Order> => ({
+  where: [
+    ...oneOrMany('status', filter.status),
+    ...equals(filter, ['payment_status', 'customer_id', 'delivery_zone', 'priority']),
+    ...dateRange('created_at', filter.created),
+    ...orderSearch(filter.search)
+  ],
+  sort,
+  page
+});
+
+export const productQuery = (
+  filter: ProductFilter = {},
+  sort: Sort<Product> = { field: 'name', direction: 'asc' },
+  page?: PageRequest
+): Query<Product> => ({
+  where: [
+    ...equals(filter, ['status', 'category_id', 'supplier_id']),
+    ...search(['name', 'sku'], filter.search)
+  ],
+  sort,
+  page
+});
+
+export const customerQuery = (
+  filter: CustomerFilter = {},
+  sort: Sort<AuthUser> = { field: 'created_at', direction: 'desc' },
+  page?: PageRequest
+): Query<AuthUser> => ({
+  where: [
+    ...oneOrMany('role', filter.role),
+    ...equals(filter, ['status']),
+    ...dateRange('created_at', filter.created),
+    ...search(['email', 'profile.first_name', 'profile.last_name'], filter.search)
+  ],
+  sort,
+  page
+});
+
+export const messageQuery = (
+  filter: MessageFilter = {},
+  sort: Sort<ChatMessage> = { field: 'created_at', direction: 'desc' },
+  page?: PageRequest
+): Query<ChatMessage> => ({
+  where: [
+    ...equals(filter, ['sender_id', 'type', 'status', 'priority']),
+    ...dateRange('created_at', filter.created)
+  ],
+  sort,
+  page
+});
+
+// Unsorted queries come back oldest first, as list() does
+export const sortOf = <T>(query: Query<T>): Sort<T> =>
+  query.sort || ({ field: 'created_at', direction: 'asc' } as Sort<T>);
+
+export const pageLimit = (page?: PageRequest): number =>
+  Math.min(Math.max(Math.floor(page?.limit || PAGINATION.defaultPageSize), 1), PAGINATION.maxPageSize);
+
+// Cursors point just past the last record of a page: its sort value and id
+export interface CursorPosition {
+  value: string | number | null;
+  id: string;
+}
+
+export const encodeCursor = (position: CursorPosition): string =>
+  base64Encode(utf8Encode(JSON.stringify([position.value, position.id])));
+
+export const decodeCursor = (cursor: string): CursorPosition => {
+  try {
+    const [value, id] = JSON.parse(utf8Decode(base64Decode(cursor)));
+    if (typeof id !== 'string') throw new Error('missing id');
+    return { value, id };
+  } catch {
+    throw new Error('Invalid page cursor');
+  }
+};
+
+export const valueAt = (record: any, path: string): any =>
+  path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), record);
+
+const compareValues = (a: any, b: any): number => {
+  if (a === b) return 0;
+  if (a == null) return 1; // missing values sort last, as in Postgres ascending order
+  if (b == null) return -1;
+  return a < b ? -1 : 1;
+};
+
+const matchesCondition = (record: any, condition: Condition): boolean => {
+  switch (condition.op) {
+    case 'eq':
+      return valueAt(record, condition.field) === condition.value;
+    case 'in':
+      return condition.values.includes(valueAt(record, condition.field));
+    case 'gte':
+      return valueAt(record, condition.field) != null && valueAt(record, condition.field) >= condition.value;
+    case 'lte':
+      return valueAt(record, condition.field) != null && valueAt(record, condition.field) <= condition.value;
+    case 'search': {
+      const text = condition.text.toLowerCase();
+      return condition.fields.some(field => String(valueAt(record, field) ?? '').toLowerCase().includes(text));
+    }
+  }
+};
+
+// Evaluates a query over records already in memory, for backends without a query engine
+export const applyQuery = <T extends { id: string }>(records: T[], query: Query<T> = {}): Page<T> => {
+  const sort = sortOf(query);
+  const direction = sort.direction === 'desc' ? -1 : 1;
+  const order = (a: T, b: T) =>
+    (compareValues(a[sort.field], b[sort.field]) || compareValues(a.id, b.id)) * direction;
+
+  const matching = records
+    .filter(record => (query.where || []).every(condition => matchesCondition(record, condition)))
+    .sort(order);
+
+  let start = Math.max(query.page?.offset || 0, 0);
+  if (query.page?.cursor) {
+    const { value, id } = decodeCursor(query.page.cursor);
+    const after = { [sort.field]: value, id } as unknown as T;
+    start = matching.findIndex(record => order(record, after) > 0);
+    if (start === -1) start = matching.length;
+  }
+
+  const limit = pageLimit(query.page);
+  const items = matching.slice(start, start + limit);
+  const hasMore = start + items.length < matching.length;
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    total: matching.length,
+    nextCursor: hasMore && last ? encodeCursor({ value: (last as any)[sort.field] ?? null, id: last.id }) : null,
+    hasMore
+  };
+};
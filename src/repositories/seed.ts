@@ -0,0 +1,126 @@
+/**
+ * Sample Data
+ * Demo users and products written through the repositories on first launch
+ */
+
+import { repositories } from './index';
+import { Product, UserRecord } from './types';
+
+const sampleUser = (
+  id: string,
+  email: string,
+  role: UserRecord['role'],
+  profile: UserRecord['profile']
+): UserRecord => ({
+  id,
+  email,
+  role,
+  profile,
+  preferences: { notifications: true, marketing: false, theme: 'light' },
+  status: 'active',
+  created_at: new Date().toISOString(),
+  updated_at: new Date().toISOString()
+});
+
+const sampleProduct = (
+  product: Omit<Product, 'images' | 'status' | 'created_at' | 'updated_at'>
+): Product => ({
+  ...product,
+  images: [],
+  status: 'active',
+  created_at: new Date().toISOString(),
+  updated_at: new Date().toISOString()
+});
+
+// Seeded accounts have no password; on first sign-in they are emailed a code to set one
+const SAMPLE_USERS: UserRecord[] = [
+  sampleUser('user_sample_admin', 'admin@zadafoods.com', 'admin', {
+    first_name: 'Admin',
+    last_name: 'User',
+    phone: '+2348012345680',
+    address: 'ZADA Foods Headquarters'
+  }),
+  sampleUser('user_sample_john', 'john.doe@example.com', 'customer', {
+    first_name: 'John',
+    last_name: 'Doe',
+    phone: '+2348012345678',
+    address: '123 Main Street, Lagos'
+  }),
+  sampleUser('user_sample_jane', 'jane.smith@example.com', 'customer', {
+    first_name: 'Jane',
+    last_name: 'Smith',
+    phone: '+2348012345679',
+    address: '456 Oak Avenue, Abuja'
+  })
+];
+
+const SAMPLE_PRODUCTS: Product[] = [
+  sampleProduct({
+    id: 'prod_1',
+    name: 'Premium Water 20L',
+    description: 'Premium purified water in 20L container',
+    price: 1200,
+    cost: 800,
+    sku: 'WAT-20L-001',
+    category_id: 'cat_1',
+    supplier_id: 'sup_1',
+    stock_quantity: 50,
+    min_stock_level: 10,
+    max_stock_level: 100,
+    features: ['BPA Free', 'Purified', '20L Capacity'],
+    specifications: { volume: '20L', material: 'BPA Free' },
+    categories: { name: 'Water Products' },
+    suppliers: { name: 'AquaPure Nigeria', contact_person: 'John Smith' }
+  }),
+  sampleProduct({
+    id: 'prod_2',
+    name: 'Water Dispenser',
+    description: 'Electric water dispenser with hot and cold options',
+    price: 25000,
+    cost: 18000,
+    sku: 'DISP-001',
+    category_id: 'cat_2',
+    supplier_id: 'sup_2',
+    stock_quantity: 15,
+    min_stock_level: 5,
+    max_stock_level: 50,
+    features: ['Hot & Cold', 'Energy Efficient', 'Easy to Clean'],
+    specifications: { power: '100W', capacity: '5L' },
+    categories: { name: 'Dispensers' },
+    suppliers: { name: 'CoolTech Solutions', contact_person: 'Jane Doe' }
+  }),
+  sampleProduct({
+    id: 'prod_3',
+    name: 'Water Filter',
+    description: 'Advanced water filtration system',
+    price: 8500,
+    cost: 6000,
+    sku: 'FILT-001',
+    category_id: 'cat_3',
+    supplier_id: 'sup_3',
+    stock_quantity: 30,
+    min_stock_level: 8,
+    max_stock_level: 100,
+    features: ['Multi-stage Filtration', 'Long Lasting', 'Easy Installation'],
+    specifications: { stages: 5, lifespan: '6 months' },
+    categories: { name: 'Accessories' },
+    suppliers: { name: 'FilterPro Industries', contact_person: 'Mike Johnson' }
+  })
+];
+
+// Only fills an empty store; existing data is never touched
+export const seedSampleData = async (): Promise<void> => {
+  if ((await repositories.users.list()).length === 0) {
+    for (const user of SAMPLE_USERS) {
+      await repositories.users.create(user);
+    }
+    console.log('👤 Sample users created');
+  }
+
+  if ((await repositories.products.list()).length === 0) {
+    for (const product of SAMPLE_PRODUCTS) {
+      await repositories.products.create(product);
+    }
+    console.log('📦 Sample products created');
+  }
+};
@@ -0,0 +1,391 @@
+/**
+ * Supabase Repositories
+ * Each aggregate maps to its table in supabase/production_schema.sql
+ */
+
+import { supabase } from '../../supabaseClient';
+import {
+  Repository,
+  RecordFilter,
+  Repositories,
+  UpdateOptions,
+  UserRecord,
+  UserMfa,
+  UserRepository,
+  CustomerErasure,
+  Order,
+  OrderEvent,
+  OrderRepository,
+  OrderAmendment,
+  ChatMessage,
+  MessageRepository,
+  PaymentIntent,
+  PaymentRepository,
+  StaffInvitation,
+  StaffInvitationRepository
+} from './types';
+import { ConflictError } from './conflicts';
+import { requestService, RequestError, RequestOptions, BackendResponse, classifyError, isRequestError } from '../services/request';
+import { Query, Page, Condition, Sort, CursorPosition, sortOf, pageLimit, encodeCursor, decodeCursor } from './query';
+import type { UserRole } from '../utils/roles';
+
+// 'profile.first_name' is the JSON path profile->>first_name
+const columnFor = (field: string): string => {
+  const path = field.split('.');
+  return path.length === 1 ? field : `${path.slice(0, -1).join('->')}->>${path[path.length - 1]}`;
+};
+
+// Values inside or() strings are quoted so commas, dots and parentheses in them stay literal
+const quote = (value: unknown): string => `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+// Records after the cursor in sort order: a later sort value, or the same value and a later id
+const keysetFilter = <T>(sort: Sort<T>, cursor: CursorPosition): string => {
+  const operator = sort.direction === 'asc' ? 'gt' : 'lt';
+  const column = columnFor(sort.field);
+  return `${column}.${operator}.${quote(cursor.value)},and(${column}.eq.${quote(cursor.value)},id.${operator}.${quote(cursor.id)})`;
+};
+
+type FilterBuilder = ReturnType<ReturnType<typeof supabase.from>['select']>;
+
+const withConditions = (builder: FilterBuilder, conditions: Condition[] = []): FilterBuilder =>
+  conditions.reduce((query, condition) => {
+    switch (condition.op) {
+      case 'eq':
+        return query.eq(columnFor(condition.field), condition.value);
+      case 'in':
+        return query.in(columnFor(condition.field), condition.values);
+      case 'gte':
+        return query.gte(columnFor(condition.field), condition.value);
+      case 'lte':
+        return query.lte(columnFor(condition.field), condition.value);
+      case 'search':
+        return query.or(condition.fields.map(field => `${columnFor(field)}.ilike.${quote(`*${condition.text}*`)}`).join(','));
+    }
+  }, builder);
+
+class SupabaseRepository<T extends { id: string }> implements Repository<T> {
+  // list() and query() read from `listSource`, a view where a table has columns that must not be listed
+  constructor(
+    protected readonly table: string,
+    protected readonly columns: string = '*',
+    protected readonly listSource: string = table
+  ) {}
+
+  protected fail(operation: string, error: { message: string; code?: string }, status?: number): never {
+    throw new RequestError(`${this.table} ${operation} failed: ${error.message}`, classifyError(error, status), status, error.code);
+  }
+
+  // Each attempt builds the query afresh, bound to that attempt's abort signal
+  protected async send<R extends BackendResponse>(
+    operation: string,
+    build: (signal: AbortSignal) => PromiseLike<R>,
+    options: RequestOptions = {}
+  ): Promise<R> {
+    const { response } = await requestService.execute(`${this.table} ${operation}`, build, options);
+    if (response.error) this.fail(operation, response.error, response.status);
+    return response;
+  }
+
+  async list(filter?: RecordFilter<T>): Promise<T[]> {
+    const { data } = await this.send('list', signal => {
+      let query = supabase.from(this.listSource).select(this.columns);
+      if (filter && Object.keys(filter).length > 0) {
+        query = query.match(filter as Record<string, unknown>);
+      }
+      return query.order('created_at', { ascending: true }).abortSignal(signal);
+    }, { idempotent: true });
+    return (data || []) as unknown as T[];
+  }
+
+  async query(query: Query<T> = {}): Promise<Page<T>> {
+    const sort = sortOf(query);
+    const limit = pageLimit(query.page);
+    const ascending = sort.direction === 'asc';
+
+    // One row past the page tells whether another page follows
+    const rows = (signal: AbortSignal) => {
+      const ordered = withConditions(supabase.from(this.listSource).select(this.columns), query.where)
+        .order(columnFor(sort.field), { ascending })
+        .order('id', { ascending })
+        .abortSignal(signal);
+      if (query.page?.cursor) {
+        return ordered.or(keysetFilter(sort, decodeCursor(query.page.cursor))).limit(limit + 1);
+      }
+      const offset = Math.max(query.page?.offset || 0, 0);
+      return ordered.range(offset, offset + limit);
+    };
+    const count = (signal: AbortSignal) =>
+      withConditions(supabase.from(this.listSource).select('id', { count: 'exact', head: true }), query.where).abortSignal(signal);
+
+    const [{ data }, { count: total }] = await Promise.all([
+      this.send('query', rows, { idempotent: true }),
+      this.send('count', count, { idempotent: true })
+    ]);
+
+    const records = (data || []) as unknown as T[];
+    const items = records.slice(0, limit);
+    const hasMore = records.length > limit;
+    const last = items[items.length - 1];
+    return {
+      items,
+      total: total ?? items.length,
+      nextCursor: hasMore && last ? encodeCursor({ value: (last as any)[sort.field] ?? null, id: last.id }) : null,
+      hasMore
+    };
+  }
+
+  async getById(id: string): Promise<T | null> {
+    const { data } = await this.send('get', signal =>
+      supabase.from(this.table).select(this.columns).eq('id', id).abortSignal(signal).maybeSingle(), { idempotent: true });
+    return (data as unknown as T) || null;
+  }
+
+  // The client-generated id makes the insert safe to retry; a retry that finds it already stored has succeeded
+  async create(record: T): Promise<T> {
+    try {
+      const { data } = await this.send('insert', signal =>
+        supabase.from(this.table).insert([record]).select(this.columns).abortSignal(signal).single(), { idempotencyKey: record.id });
+      return data as unknown as T;
+    } catch (error) {
+      if (isRequestError(error) && error.kind === 'conflict') {
+        const existing = await this.getById(record.id);
+        if (existing) return existing;
+      }
+      throw error;
+    }
+  }
+
+  async update(id: string, changes: Partial<T>, options?: UpdateOptions): Promise<T> {
+    // JSON drops undefined, so a field cleared by the caller must be sent as null
+    const values = Object.fromEntries(
+      Object.entries(changes)
+        .filter(([key]) => key !== 'id')
+        .map(([key, value]) => [key, value === undefined ? null : value])
+    );
+    // Setting the same values again is harmless, so updates are retried
+    const { data } = await this.send('update', signal => {
+      let query = supabase.from(this.table).update(values).eq('id', id);
+      if (options?.expectedUpdatedAt) {
+        query = query.eq('updated_at', options.expectedUpdatedAt);
+      }
+      return query.select(this.columns).abortSignal(signal).maybeSingle();
+    }, { idempotent: true });
+
+    // No row matched: either it is gone or someone else updated it first
+    if (!data) {
+      const current = await this.getById(id);
+      if (!current) this.fail('update', { message: `Record ${id} not found` }, 404);
+      throw new ConflictError(current);
+    }
+    return data as unknown as T;
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.send('delete', signal => supabase.from(this.table).delete().eq('id', id).abortSignal(signal), { idempotent: true });
+  }
+
+  async removeWhere(filter: RecordFilter<T>): Promise<number> {
+    // Refuse to issue an unfiltered delete against a shared table
+    if (Object.keys(filter).length === 0) {
+      throw new Error(`${this.table} delete requires a filter`);
+    }
+    const { data } = await this.send('delete', signal =>
+      supabase.from(this.table).delete().match(filter as Record<string, unknown>).select('id').abortSignal(signal), { idempotent: true });
+    return data?.length || 0;
+  }
+}
+
+// Lists come from the user_profiles view, which leaves out password hashes and MFA secrets. A single
+// record still comes from users, where row level security limits it to the caller's own row.
+class SupabaseUserRepository extends SupabaseRepository<UserRecord> implements UserRepository {
+  constructor() {
+    super('users', '*', 'user_profiles');
+  }
+
+  async findByEmail(email: string): Promise<UserRecord | null> {
+    const { data } = await this.send('get', signal =>
+      supabase.from(this.table).select('*').eq('email', email.toLowerCase()).abortSignal(signal).maybeSingle(), { idempotent: true });
+    return data || null;
+  }
+
+  // The account functions check the caller themselves; the client may update only a user's own profile,
+  // preferences and sign-in time
+  private async callAccountFunction(operation: string, fn: string, args: Record<string, unknown>): Promise<void> {
+    await this.send(operation, signal => supabase.rpc(fn, args).abortSignal(signal), { idempotent: true });
+  }
+
+  async lockAccount(userId: string, lockedUntil: string): Promise<void> {
+    await this.callAccountFunction('lock', 'lock_account', { p_user_id: userId, p_locked_until: lockedUntil });
+  }
+
+  async unlockAccount(userId: string): Promise<void> {
+    await this.callAccountFunction('unlock', 'unlock_account', { p_user_id: userId });
+  }
+
+  async setRole(userId: string, role: UserRole): Promise<void> {
+    await this.callAccountFunction('set role', 'set_user_role', { p_user_id: userId, p_role: role });
+  }
+
+  async setMfa(userId: string, mfa: UserMfa | null): Promise<void> {
+    await this.callAccountFunction('set mfa', 'set_user_mfa', { p_user_id: userId, p_mfa: mfa });
+  }
+
+  async confirmEmail(userId: string): Promise<void> {
+    await this.callAccountFunction('confirm email', 'confirm_email', { p_user_id: userId });
+  }
+
+  async confirmPhone(userId: string): Promise<void> {
+    await this.callAccountFunction('confirm phone', 'confirm_phone', { p_user_id: userId });
+  }
+
+  async resetPassword(userId: string, passwordHash: string): Promise<void> {
+    await this.callAccountFunction('reset password', 'reset_password', { p_user_id: userId, p_password_hash: passwordHash });
+  }
+
+  // Runs as the customer signed in to Supabase Auth, who has no update or delete rights on most of
+  // these rows themselves. Not retried: the second run would find no open orders to report
+  async eraseCustomerData(userId: string): Promise<CustomerErasure> {
+    const { data } = await this.send('erase', signal => supabase
+      .rpc('erase_customer_data', { p_user_id: userId })
+      .abortSignal(signal));
+    return data as CustomerErasure;
+  }
+}
+
+// Order items live in their own table; they are written with the order and embedded on read
+class SupabaseOrderRepository extends SupabaseRepository<Order> implements OrderRepository {
+  constructor() {
+    super('orders', '*, order_items(*)');
+  }
+
+  async create(order: Order): Promise<Order> {
+    const { order_items, ...orderRow } = order;
+    // A replayed order finds its row already stored and goes on to the items
+    if (!(await this.getById(order.id))) {
+      await this.send('insert', signal => supabase.from(this.table).insert([orderRow]).abortSignal(signal), { idempotencyKey: order.id });
+    }
+
+    if (order_items && order_items.length > 0) {
+      const itemRows = order_items.map(({ products, ...item }) => ({ ...item, order_id: order.id }));
+      await this.send('insert items', signal => supabase.from('order_items').upsert(itemRows, { onConflict: 'id' }).abortSignal(signal), {
+        idempotencyKey: order.id
+      });
+    }
+
+    return (await this.getById(order.id))!;
+  }
+
+  async update(id: string, changes: Partial<Order>, options?: UpdateOptions): Promise<Order> {
+    const { order_items, ...orderChanges } = changes;
+    return super.update(id, orderChanges, options);
+  }
+
+  async listEvents(orderId: string): Promise<OrderEvent[]> {
+    const { data } = await this.send('list events', signal => supabase
+      .from('order_events')
+      .select('*')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: true })
+      .abortSignal(signal), { idempotent: true });
+    return data || [];
+  }
+
+  // Events cannot be updated, so a replayed append skips the stored row instead of overwriting it
+  async appendEvent(event: OrderEvent): Promise<OrderEvent> {
+    await this.send('append event', signal => supabase
+      .from('order_events')
+      .upsert([event], { onConflict: 'id', ignoreDuplicates: true })
+      .abortSignal(signal), { idempotencyKey: event.id });
+    return event;
+  }
+
+  // place_order runs as one transaction: it checks prices and stock, then writes the order, items and payment
+  // for the customer signed in to Supabase Auth, so it is refused without a session (see the README)
+  async place(order: Order, payment: PaymentIntent | null): Promise<Order> {
+    const { order_items, ...orderRow } = order;
+    const itemRows = (order_items || []).map(({ products, ...item }) => ({ ...item, order_id: order.id }));
+    await this.send('place', signal => supabase
+      .rpc('place_order', { p_order: orderRow, p_items: itemRows, p_payment: payment })
+      .abortSignal(signal), { idempotencyKey: order.id });
+    return (await this.getById(order.id))!;
+  }
+
+  // amend_order checks ownership and the window, and moves the stock, in the same transaction. Not
+  // retried: a cancellation that did go through would be refused the second time
+  async amend(orderId: string, amendment: OrderAmendment): Promise<Order> {
+    await this.send('amend', signal => supabase
+      .rpc('amend_order', {
+        p_order_id: orderId,
+        p_quantities: amendment.quantities ?? null,
+        p_changes: amendment.changes
+      })
+      .abortSignal(signal));
+    return (await this.getById(orderId))!;
+  }
+}
+
+class SupabaseMessageRepository extends SupabaseRepository<ChatMessage> implements MessageRepository {
+  async listForUser(userId: string): Promise<ChatMessage[]> {
+    const { data } = await this.send('list', signal => supabase
+      .from(this.table)
+      .select('*')
+      .or(`sender_id.eq.${userId},recipient_id.eq.${userId}`)
+      .order('created_at', { ascending: true })
+      .abortSignal(signal), { idempotent: true });
+    return data || [];
+  }
+
+  async removeForUser(userId: string): Promise<number> {
+    const { data } = await this.send('delete', signal => supabase
+      .from(this.table)
+      .delete()
+      .or(`sender_id.eq.${userId},recipient_id.eq.${userId}`)
+      .select('id')
+      .abortSignal(signal), { idempotent: true });
+    return data?.length || 0;
+  }
+}
+
+class SupabasePaymentRepository extends SupabaseRepository<PaymentIntent> implements PaymentRepository {
+  async listForOrders(orderIds: string[]): Promise<PaymentIntent[]> {
+    if (orderIds.length === 0) return [];
+    const { data } = await this.send('list', signal => supabase
+      .from(this.table)
+      .select('*')
+      .in('order_id', orderIds)
+      .order('created_at', { ascending: true })
+      .abortSignal(signal), { idempotent: true });
+    return data || [];
+  }
+}
+
+// The invitee has no session yet, so their link is checked by functions that need its id and hash
+class SupabaseStaffInvitationRepository extends SupabaseRepository<StaffInvitation> implements StaffInvitationRepository {
+  async findByToken(id: string, tokenHash: string): Promise<StaffInvitation | null> {
+    const { data } = await this.send('find', signal => supabase
+      .rpc('find_staff_invitation', { p_id: id, p_token_hash: tokenHash })
+      .abortSignal(signal), { idempotent: true });
+    return (data as StaffInvitation[] | null)?.[0] ?? null;
+  }
+
+  async markAccepted(id: string, tokenHash: string, userId: string): Promise<void> {
+    await this.send('accept', signal => supabase
+      .rpc('accept_staff_invitation', { p_id: id, p_token_hash: tokenHash, p_user_id: userId })
+      .abortSignal(signal));
+  }
+}
+
+export const createSupabaseRepositories = (): Repositories => ({
+  users: new SupabaseUserRepository(),
+  products: new SupabaseRepository('products'),
+  orders: new SupabaseOrderRepository(),
+  cartItems: new SupabaseRepository('cart_items'),
+  messages: new SupabaseMessageRepository('messages'),
+  notifications: new SupabaseRepository('notifications'),
+  payments: new SupabasePaymentRepository('payment_intents'),
+  paymentMethods: new SupabaseRepository('payment_methods'),
+  auditLogs: new SupabaseRepository('audit_logs'),
+  tokenFamilies: new SupabaseRepository('token_families'),
+  staffInvitations: new SupabaseStaffInvitationRepository('staff_invitations'),
+  rolePermissions: new SupabaseRepository('role_permissions')
+});
@@ -0,0 +1,411 @@
+/**
+ * Repository Types
+ * Canonical record shapes and the repository interface for each aggregate
+ */
+
+import type { Permission, StaffRole, UserRole } from '../utils/roles';
+import type { Query, Page } from './query';
+
+// Equality match on top-level fields; an empty filter matches every record
+export type RecordFilter<T> = Partial<T>;
+
+export interface UpdateOptions {
+  // Optimistic concurrency: the write is rejected with a ConflictError if the stored updated_at differs
+  expectedUpdatedAt?: string;
+}
+
+export interface Repository<T extends { id: string }> {
+  list(filter?: RecordFilter<T>): Promise<T[]>;
+  // One page of the records matching the query, with the total across all pages
+  query(query?: Query<T>): Promise<Page<T>>;
+  getById(id: string): Promise<T | null>;
+  create(record: T): Promise<T>;
+  update(id: string, changes: Partial<T>, options?: UpdateOptions): Promise<T>;
+  remove(id: string): Promise<void>;
+  removeWhere(filter: RecordFilter<T>): Promise<number>;
+}
+
+// Users
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  role: UserRole;
+  profile: {
+    first_name: string;
+    last_name: string;
+    phone?: string;
+    address?: string;
+    avatar_url?: string;
+  };
+  preferences: {
+    notifications: boolean;
+    marketing: boolean;
+    theme: 'light' | 'dark';
+  };
+  status: 'active' | 'inactive' | 'suspended' | 'pending_verification';
+  created_at: string;
+  updated_at?: string;
+  email_verified_at?: string;
+  phone_verified_at?: string | null; // cleared when the profile phone changes
+  mfa_enabled?: boolean;
+  has_password?: boolean; // false for phone-only customers
+  last_login_at?: string;
+  locked_until?: string; // set while suspended by the failed-login lockout
+  deleted_at?: string; // anonymized tombstone kept so retained orders still resolve
+}
+
+// Second-factor state. The secret exists before `enabled` flips, while enrollment is pending.
+export interface UserMfa {
+  secret: string;
+  enabled: boolean;
+  enrolled_at?: string;
+  backup_code_hashes: string[];
+  last_used_step?: number; // rejects replay of a TOTP code within its window
+}
+
+// Stored user record. The password hash and MFA secrets never leave the auth service.
+export interface UserRecord extends AuthUser {
+  password_hash?: string;
+  mfa?: UserMfa;
+}
+
+// update() covers the profile, preferences and sign-in time. Status, role, MFA, lockouts and verification
+// change only through the methods below, which the Supabase backend runs as functions that check who is
+// asking (see supabase/production_schema.sql)
+export interface UserRepository extends Repository<UserRecord> {
+  findByEmail(email: string): Promise<UserRecord | null>;
+  // Suspends the account after failed sign-ins; the backend caps how long
+  lockAccount(userId: string, lockedUntil: string): Promise<void>;
+  // By staff who may unlock accounts, or by anyone once the lockout has passed
+  unlockAccount(userId: string): Promise<void>;
+  setRole(userId: string, role: UserRole): Promise<void>;
+  // The user's own enrollment, or null from staff resetting someone else's
+  setMfa(userId: string, mfa: UserMfa | null): Promise<void>;
+  // Also activates an account waiting on it
+  confirmEmail(userId: string): Promise<void>;
+  confirmPhone(userId: string): Promise<void>;
+  // Also lifts a lockout, and confirms an unconfirmed email since the code went to that inbox
+  resetPassword(userId: string, passwordHash: string): Promise<void>;
+  // Account deletion, as erase_customer_data does it for the signed-in customer: cancels their open
+  // orders, strips personal data from the orders kept for accounting, deletes everything else and
+  // leaves the account an anonymized tombstone
+  eraseCustomerData(userId: string): Promise<CustomerErasure>;
+}
+
+// What eraseCustomerData did; refunds for cancelled paid orders are left to the caller
+export interface CustomerErasure {
+  cancelled_order_ids: string[];
+  pseudonymized_order_count: number;
+  removed_message_count: number;
+  removed_notification_count: number;
+  removed_payment_method_count: number;
+  removed_cart_item_count: number;
+}
+
+// Products
+
+export interface Product {
+  id: string;
+  name: string;
+  description: string;
+  price: number;
+  cost: number;
+  sku: string;
+  category_id: string;
+  supplier_id: string;
+  stock_quantity: number;
+  min_stock_level: number;
+  max_stock_level: number;
+  images: string[];
+  features: string[];
+  specifications: Record<string, any>;
+  status: 'active' | 'inactive' | 'discontinued';
+  created_at: string;
+  updated_at: string;
+  categories?: { name: string };
+  suppliers?: { name: string; contact_person: string };
+}
+
+export interface ProductRepository extends Repository<Product> {}
+
+// Orders
+
+export interface OrderItem {
+  id: string;
+  order_id: string;
+  product_id: string;
+  quantity: number;
+  unit_price: number;
+  total_price: number;
+  products?: Product;
+}
+
+// Moves between statuses are governed by src/services/orderLifecycle.ts
+export type OrderStatus = 'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled' | 'refunded';
+
+export interface Order {
+  id: string;
+  customer_id: string;
+  order_number: string;
+  status: OrderStatus;
+  payment_status: 'pending' | 'paid' | 'failed' | 'refunded';
+  payment_method: 'cash' | 'card' | 'bank_transfer' | 'mobile_money';
+  delivery_status?: string;
+  subtotal: number;
+  tax_amount: number;
+  shipping_cost: number;
+  discount_amount: number;
+  total_amount: number;
+  customer_name?: string;
+  customer_email?: string;
+  customer_phone?: string;
+  notes?: string;
+  shipping_address: any;
+  billing_address: any;
+  cancellation_reason?: string;
+  created_at: string;
+  updated_at: string;
+  shipped_at?: string;
+  delivered_at?: string;
+  pseudonymized_at?: string;
+  delivery_zone?: string;
+  priority?: 'low' | 'medium' | 'high';
+  driver_name?: string;
+  stock_reserved?: boolean; // holds stock taken at checkout, until a cancellation puts it back
+  order_items?: OrderItem[];
+}
+
+export type OrderEventType =
+  | 'created'
+  | 'paid'
+  | 'confirmed'
+  | 'processing'
+  | 'assigned' // handed to a driver
+  | 'out_for_delivery'
+  | 'delivery_update' // the free-form delivery status changed
+  | 'delivered'
+  | 'cancelled'
+  | 'refunded'
+  | 'modified'; // quantities or delivery address changed by the customer
+
+// One entry in an order's history; events are only ever appended
+export interface OrderEvent {
+  id: string;
+  order_id: string;
+  type: OrderEventType;
+  actor_id: string | null; // null when the system acted, e.g. on account deletion
+  actor_name: string;
+  note?: string;
+  created_at: string;
+}
+
+export interface OrderRepository extends Repository<Order> {
+  // Oldest first
+  listEvents(orderId: string): Promise<OrderEvent[]>;
+  // Appending an event whose id is already stored is a no-op, so replays are safe
+  appendEvent(event: OrderEvent): Promise<OrderEvent>;
+  // Stores the order, its items and its payment intent together or not at all, checking prices and
+  // stock where the backend can; placing an order that is already stored returns it unchanged
+  place(order: Order, payment: PaymentIntent | null): Promise<Order>;
+  // A customer's own change inside the grace window, applied with its stock movements and a notice to
+  // the staff who process orders; refused once the order is no longer pending or the window has closed
+  amend(orderId: string, amendment: OrderAmendment): Promise<Order>;
+}
+
+// See src/services/orderChanges.ts. The backend takes only the fields a customer may change and reprices the order itself
+export interface OrderAmendment {
+  quantities?: Record<string, number>; // by order item id; 0 removes the item
+  changes: Partial<Pick<Order,
+    | 'status' // only to 'cancelled'
+    | 'cancellation_reason'
+    | 'shipping_address'
+  >>;
+}
+
+// Carts
+
+export interface CartItemRecord {
+  id: string;
+  user_id: string;
+  product_id: string;
+  quantity: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CartRepository extends Repository<CartItemRecord> {}
+
+// Messages
+
+export interface ChatMessage {
+  id: string;
+  sender_id: string;
+  recipient_id?: string | null; // empty for customer messages to the support team
+  type: 'support' | 'order' | 'general';
+  subject: string;
+  content: string;
+  status: 'unread' | 'read' | 'archived';
+  priority: 'low' | 'medium' | 'high' | 'urgent';
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MessageRepository extends Repository<ChatMessage> {
+  // Messages the user sent or received
+  listForUser(userId: string): Promise<ChatMessage[]>;
+  removeForUser(userId: string): Promise<number>;
+}
+
+// Notifications
+
+export interface Notification {
+  id: string;
+  user_id: string;
+  type: 'order' | 'message' | 'system' | 'promotion';
+  title: string;
+  content: string;
+  data: Record<string, any>;
+  status: 'unread' | 'read' | 'dismissed';
+  created_at: string;
+  read_at?: string;
+}
+
+export interface NotificationRepository extends Repository<Notification> {}
+
+// Payments
+
+export interface PaymentIntent {
+  id: string;
+  order_id: string;
+  amount: number; // minor units (kobo)
+  currency: string;
+  status: 'pending' | 'processing' | 'succeeded' | 'failed' | 'cancelled' | 'refunded';
+  payment_method: string;
+  provider_transaction_id?: string;
+  failure_reason?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PaymentMethod {
+  id: string;
+  user_id: string;
+  type: 'card' | 'bank_transfer' | 'mobile_money' | 'cash';
+  provider: 'stripe' | 'paystack' | 'flutterwave' | 'cash';
+  details: {
+    last4?: string;
+    brand?: string;
+    expiry_month?: number;
+    expiry_year?: number;
+    bank_name?: string;
+    account_number?: string;
+    phone_number?: string;
+  };
+  is_default: boolean;
+  created_at: string;
+}
+
+export interface PaymentRepository extends Repository<PaymentIntent> {
+  listForOrders(orderIds: string[]): Promise<PaymentIntent[]>;
+}
+
+export interface PaymentMethodRepository extends Repository<PaymentMethod> {}
+
+// Audit log
+
+export interface AuditLogEntry {
+  id: string;
+  user_id: string;
+  action: string;
+  resource_type: string;
+  resource_id: string;
+  old_values?: Record<string, any>;
+  new_values?: Record<string, any>;
+  ip_address: string;
+  user_agent: string;
+  created_at: string;
+}
+
+export interface AuditLogRepository extends Repository<AuditLogEntry> {}
+
+// Sessions
+
+// Every sign-in starts a family; each refresh replaces both of its tokens. Presenting any older refresh
+// token of the family means it was replayed. A family is also the user's session on one device, and
+// only hashes of its tokens are stored. See src/services/token.ts
+export interface TokenFamily {
+  id: string;
+  user_id: string;
+  access_hash?: string;
+  access_expires_at?: string;
+  refresh_hash?: string;
+  refresh_expires_at?: string;
+  device_id?: string;
+  device_name?: string;
+  platform?: string;
+  ip_address?: string;
+  created_at: string;
+  last_seen_at?: string;
+  rotated_at?: string;
+  revoked_at?: string;
+  revoked_reason?: string;
+}
+
+export interface TokenFamilyRepository extends Repository<TokenFamily> {}
+
+// Staff invitations
+
+// Issued by a super_admin and delivered as a link; only a hash of the link's secret is stored.
+// See src/services/invitations.ts
+export interface StaffInvitation {
+  id: string;
+  email: string;
+  role: StaffRole;
+  invited_by: string;
+  token_hash: string;
+  created_at: string;
+  expires_at: string;
+  accepted_at?: string;
+  accepted_user_id?: string;
+  revoked_at?: string;
+  revoked_by?: string;
+}
+
+// The invitee has no account yet, so they reach their invitation only through the link's id and hash
+export interface StaffInvitationRepository extends Repository<StaffInvitation> {
+  findByToken(id: string, tokenHash: string): Promise<StaffInvitation | null>;
+  // Refused unless the invitation is still pending and was sent to the new user's email
+  markAccepted(id: string, tokenHash: string, userId: string): Promise<void>;
+}
+
+// Roles
+
+// The permission set a super_admin saved for a role, in place of its default in src/utils/roles.ts. The
+// backend's row level security reads the same records
+export interface RolePermissionRecord {
+  id: UserRole;
+  permissions: Permission[];
+  updated_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RolePermissionRepository extends Repository<RolePermissionRecord> {}
+
+export interface Repositories {
+  users: UserRepository;
+  products: ProductRepository;
+  orders: OrderRepository;
+  cartItems: CartRepository;
+  messages: MessageRepository;
+  notifications: NotificationRepository;
+  payments: PaymentRepository;
+  paymentMethods: PaymentMethodRepository;
+  auditLogs: AuditLogRepository;
+  tokenFamilies: TokenFamilyRepository;
+  staffInvitations: StaffInvitationRepository;
+  rolePermissions: RolePermissionRepository;
+}
+
+export type DataBackend = 'local' | 'supabase';
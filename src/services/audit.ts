@@ -0,0 +1,35 @@
+/**
+ * Audit Service
+ * Append-only record of security-relevant actions
+ */
+
+import { auditLogRepository, AuditLogEntry } from '../repositories';
+import { generateId } from '../utils';
+
+export type AuditEvent = Omit<AuditLogEntry, 'id' | 'created_at'>;
+
+class AuditService {
+  private static instance: AuditService;
+
+  public static getInstance(): AuditService {
+    if (!AuditService.instance) {
+      AuditService.instance = new AuditService();
+    }
+    return AuditService.instance;
+  }
+
+  // Never fails the action being audited
+  async logEvent(event: AuditEvent): Promise<void> {
+    try {
+      await auditLogRepository.create({
+        ...event,
+        id: 'audit_' + generateId(),
+        created_at: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Error logging audit event:', error);
+    }
+  }
+}
+
+export const auditService = AuditService.getInstance();
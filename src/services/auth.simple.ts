@@ -3,28 +3,24 @@
  * Web-compatible authentication without external dependencies
  */
 
-import { storage } from '../../storageUtils';
+import bcrypt from 'bcryptjs';
+import { Platform } from 'react-native';
+import { secureStorage, store, isUnreadableStorageError } from '../../storageUtils';
+import { userRepository, AuthUser, UserRecord, UserMfa } from '../repositories';
+import { tokenService, TokenPair, MFA_CHALLENGE_TTL_SECONDS } from './token';
+import { totpService } from './totp';
+import { permissionService, Permission, UserRole } from './permissions';
+import { config } from '../config/environment';
+import { loginThrottle, MAX_FAILED_LOGIN_ATTEMPTS, LOCKOUT_DURATION_MINUTES } from './loginThrottle';
+import { auditService } from './audit';
+import { messagingService } from './messaging';
+import { invitationService } from './invitations';
+import { deviceService } from './device';
+import { privacyService, UserDataExport } from './privacy';
+import { syncService } from './sync';
+import { generateCode, normalizeNigerianPhone } from '../utils';
 
-export interface AuthUser {
-  id: string;
-  email: string;
-  role: 'customer' | 'admin' | 'super_admin';
-  profile: {
-    first_name: string;
-    last_name: string;
-    phone?: string;
-    address?: string;
-    avatar_url?: string;
-  };
-  preferences: {
-    notifications: boolean;
-    marketing: boolean;
-    theme: 'light' | 'dark';
-  };
-  status: 'active' | 'inactive' | 'suspended';
-  created_at: string;
-  last_login_at?: string;
-}
+export type { AuthUser };
 
 export interface LoginCredentials {
   email: string;
@@ -39,15 +35,122 @@ export interface RegisterData {
   last_name: string;
   phone?: string;
   address?: string;
-  role: 'customer' | 'admin';
   terms_accepted: boolean;
 }
 
+// Staff accounts are only created from a super_admin invitation
+export interface AcceptInvitationData {
+  password: string;
+  first_name: string;
+  last_name: string;
+  phone?: string;
+}
+
 export interface AuthResponse {
   user: AuthUser;
   token: string;
   refresh_token: string;
   expires_in: number;
+  backup_codes?: string[]; // only returned once, when MFA enrollment completes
+}
+
+// Returned instead of a session when the account needs a second factor
+export interface MfaChallenge {
+  mfa_required: true;
+  challenge_token: string;
+  expires_in: number;
+  // Present until an authenticator app has been confirmed for the account
+  enrollment?: {
+    secret: string;
+    otpauth_uri: string;
+  };
+}
+
+export type LoginResult = AuthResponse | MfaChallenge;
+
+export const isMfaChallenge = (result: LoginResult): result is MfaChallenge =>
+  (result as MfaChallenge).mfa_required === true;
+
+const PASSWORD_SALT_ROUNDS = 10;
+
+const MFA_BACKUP_CODE_COUNT = 10;
+const MFA_BACKUP_CODE_LENGTH = 8;
+
+const PASSWORD_RESET_CODE_LENGTH = 8;
+const PASSWORD_RESET_CODE_TTL_MINUTES = 15;
+// No 0/O or 1/I so codes survive being read aloud or retyped (also used for MFA backup codes)
+const PASSWORD_RESET_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+const EMAIL_VERIFICATION_CODE_LENGTH = 6;
+const EMAIL_VERIFICATION_TTL_HOURS = 24;
+const EMAIL_VERIFICATION_MAX_ATTEMPTS = 5;
+const EMAIL_VERIFICATION_RESEND_COOLDOWN_SECONDS = 60;
+const EMAIL_VERIFICATION_MAX_SENDS_PER_HOUR = 5;
+
+// Shape of a record in '@zada_email_verifications'. Only the newest record per user is redeemable.
+interface EmailVerificationRecord {
+  id: string;
+  user_id: string;
+  code_hash: string;
+  created_at: string;
+  expires_at: string;
+  failed_attempts: number;
+  verified_at?: string;
+}
+
+const PHONE_OTP_LENGTH = 6;
+const PHONE_OTP_TTL_MINUTES = 5;
+const PHONE_OTP_MAX_ATTEMPTS = 5;
+const PHONE_OTP_RESEND_COOLDOWN_SECONDS = 60;
+const PHONE_OTP_MAX_SENDS_PER_HOUR = 5;
+
+// Shape of a record in '@zada_phone_otps'. Only the newest record per phone is redeemable.
+interface PhoneOtpRecord {
+  id: string;
+  phone: string; // E.164
+  code_hash: string;
+  created_at: string;
+  expires_at: string;
+  failed_attempts: number;
+  used_at?: string;
+}
+
+// A staff member viewing the app as a customer. Nothing here grants the customer's session.
+export interface ImpersonationSession {
+  id: string;
+  actor: AuthUser;
+  customer: AuthUser;
+  reason: string;
+  started_at: string;
+  read_only: boolean;
+}
+
+const IMPERSONATION_REASON_MIN_LENGTH = 10;
+
+// One signed-in device, as shown under "Your devices"
+export interface SessionInfo {
+  id: string;
+  device_name: string;
+  platform: string;
+  ip_address: string;
+  created_at: string;
+  last_seen_at: string;
+  current: boolean;
+}
+
+export interface PhoneOtpRequest {
+  phone: string; // normalized E.164 number the code was sent to
+  expires_in: number; // seconds
+}
+
+// Shape of a record in '@zada_password_resets'. Only the hash of the code is kept.
+interface PasswordResetRecord {
+  id: string;
+  user_id: string;
+  code_hash: string;
+  created_at: string;
+  expires_at: string;
+  used_at?: string;
 }
 
 class AuthService {
@@ -74,34 +177,265 @@ class AuthService {
     };
   }
   
-  // Validate admin email domain
-  private validateAdminEmail(email: string): boolean {
-    const allowedDomains = ['@zadafoods.com', '@zada.com'];
-    const allowedEmails = [
-      'admin@zada.com',
-      'manager@zada.com',
-      'supervisor@zada.com',
-      'ceo@zadafoods.com',
-      'cto@zadafoods.com'
-    ];
+  // Validate email format
+  private isValidEmail(email: string): boolean {
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    return emailRegex.test(email);
+  }
+  
+  // Users created before passwords were stored have no status either.
+  // Unverified accounts may sign in; only checkout is gated on verification.
+  private isActive(user: UserRecord): boolean {
+    const status = user.status ?? 'active';
+    return status === 'active' || status === 'pending_verification';
+  }
+  
+  // Only a number proven by a one-time code identifies an account; one typed into a profile does not
+  private async findUserByPhone(phone: string): Promise<UserRecord | undefined> {
+    const users = await userRepository.list();
+    const match = users.find(u =>
+      !!u.phone_verified_at && !!u.profile?.phone && normalizeNigerianPhone(u.profile.phone) === phone
+    );
+    // Listed users come without credentials; the full record is read on its own
+    return match ? (await userRepository.getById(match.id)) || undefined : undefined;
+  }
+  
+  // Strip credentials before a user object is returned or cached
+  private toAuthUser(user: UserRecord): AuthUser {
+    const { password_hash, mfa, ...authUser } = user;
+    // Rows listed from the Supabase user_profiles view carry both flags instead of the credentials
+    return {
+      ...authUser,
+      mfa_enabled: mfa ? mfa.enabled : !!user.mfa_enabled,
+      has_password: password_hash ? true : !!user.has_password
+    };
+  }
+  
+  private hashPassword(password: string): Promise<string> {
+    return bcrypt.hash(password, PASSWORD_SALT_ROUNDS);
+  }
+  
+  private async loadPasswordResets(): Promise<PasswordResetRecord[]> {
+    const resetsData = await secureStorage.getItem('@zada_password_resets');
+    return resetsData ? JSON.parse(resetsData) : [];
+  }
+  
+  private async savePasswordResets(resets: PasswordResetRecord[]): Promise<void> {
+    await secureStorage.setItem('@zada_password_resets', JSON.stringify(resets));
+  }
+  
+  private isResetUsable(reset: PasswordResetRecord): boolean {
+    return !reset.used_at && new Date(reset.expires_at).getTime() > Date.now();
+  }
+  
+  private normalizeCode(code: string): string {
+    return code.replace(/[\s-]/g, '').toUpperCase();
+  }
+  
+  private async loadPhoneOtps(): Promise<PhoneOtpRecord[]> {
+    const otpsData = await secureStorage.getItem('@zada_phone_otps');
+    return otpsData ? JSON.parse(otpsData) : [];
+  }
+  
+  private async savePhoneOtps(otps: PhoneOtpRecord[]): Promise<void> {
+    await secureStorage.setItem('@zada_phone_otps', JSON.stringify(otps));
+  }
+  
+  private requireNigerianPhone(phone: string): string {
+    const normalizedPhone = normalizeNigerianPhone(phone);
+    if (!normalizedPhone) {
+      throw new Error('Please enter a valid Nigerian mobile number');
+    }
+    return normalizedPhone;
+  }
+  
+  private async loadEmailVerifications(): Promise<EmailVerificationRecord[]> {
+    const verificationsData = await secureStorage.getItem('@zada_email_verifications');
+    return verificationsData ? JSON.parse(verificationsData) : [];
+  }
+  
+  private async saveEmailVerifications(verifications: EmailVerificationRecord[]): Promise<void> {
+    await secureStorage.setItem('@zada_email_verifications', JSON.stringify(verifications));
+  }
+  
+  // Issue a fresh verification code, enforcing the resend cooldown and hourly cap
+  private async sendVerificationCode(user: UserRecord): Promise<void> {
+    const now = Date.now();
+    const verifications = (await this.loadEmailVerifications()).filter(v =>
+      now - new Date(v.created_at).getTime() < EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000
+    );
+    const userSends = verifications
+      .filter(v => v.user_id === user.id)
+      .map(v => new Date(v.created_at).getTime());
     
-    const normalizedEmail = email.toLowerCase();
-    const isAllowedDomain = allowedDomains.some(domain => 
-      normalizedEmail.endsWith(domain)
+    const lastSentAt = userSends.length > 0 ? Math.max(...userSends) : 0;
+    const cooldownLeft = Math.ceil((lastSentAt + EMAIL_VERIFICATION_RESEND_COOLDOWN_SECONDS * 1000 - now) / 1000);
+    if (cooldownLeft > 0) {
+      throw new Error(`Please wait ${cooldownLeft} seconds before requesting another code`);
+    }
+    
+    const sendsLastHour = userSends.filter(sentAt => now - sentAt < 60 * 60 * 1000).length;
+    if (sendsLastHour >= EMAIL_VERIFICATION_MAX_SENDS_PER_HOUR) {
+      throw new Error('Too many verification emails requested. Please try again later.');
+    }
+    
+    const code = generateCode(EMAIL_VERIFICATION_CODE_LENGTH);
+    verifications.push({
+      id: 'verify_' + now,
+      user_id: user.id,
+      code_hash: await bcrypt.hash(code, PASSWORD_SALT_ROUNDS),
+      created_at: new Date(now).toISOString(),
+      expires_at: new Date(now + EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000).toISOString(),
+      failed_attempts: 0
+    });
+    await this.saveEmailVerifications(verifications);
+    
+    await messagingService.send({
+      channel: 'email',
+      to: user.email,
+      subject: 'Verify your ZADA email address',
+      body: `Welcome to ZADA! Your verification code is ${code}. Enter it in the app to confirm your email before placing your first order. It expires in ${EMAIL_VERIFICATION_TTL_HOURS} hours.`
+    });
+  }
+  
+  private async logAuditEvent(
+    actorId: string,
+    action: string,
+    userId: string,
+    oldValues?: Record<string, any>,
+    newValues?: Record<string, any>
+  ): Promise<void> {
+    await auditService.logEvent({
+      user_id: actorId,
+      action,
+      resource_type: 'user',
+      resource_id: userId,
+      old_values: oldValues,
+      new_values: newValues,
+      ip_address: 'unknown',
+      user_agent: Platform.OS
+    });
+  }
+  
+  // Suspend an account until the lockout period has passed
+  private async lockAccount(user: UserRecord, failures: number): Promise<void> {
+    const previousStatus = user.status;
+    user.status = 'suspended';
+    user.locked_until = new Date(Date.now() + LOCKOUT_DURATION_MINUTES * 60 * 1000).toISOString();
+    user.updated_at = new Date().toISOString();
+    await userRepository.lockAccount(user.id, user.locked_until);
+    
+    console.warn('🔒 Account locked after failed logins:', user.email);
+    await this.logAuditEvent(user.id, 'account_locked', user.id,
+      { status: previousStatus },
+      { status: user.status, locked_until: user.locked_until, failed_attempts: failures }
     );
-    const isAllowedEmail = allowedEmails.includes(normalizedEmail);
+  }
+  
+  private async handleFailedLogin(email: string, user?: UserRecord): Promise<void> {
+    const failures = await loginThrottle.recordFailure(email);
+    if (user && failures >= MAX_FAILED_LOGIN_ATTEMPTS) {
+      await this.lockAccount(user, failures);
+    }
+  }
+  
+  // Lift a lockout whose period has passed
+  private async releaseExpiredLock(user: UserRecord): Promise<void> {
+    if (user.status !== 'suspended' || !user.locked_until) return;
+    if (new Date(user.locked_until).getTime() > Date.now()) return;
+    
+    const lockedUntil = user.locked_until;
+    user.status = 'active';
+    user.locked_until = undefined;
+    user.updated_at = new Date().toISOString();
+    await userRepository.unlockAccount(user.id);
+    await loginThrottle.reset(user.email);
     
-    return isAllowedDomain || isAllowedEmail;
+    await this.logAuditEvent(user.id, 'account_unlocked', user.id,
+      { status: 'suspended', locked_until: lockedUntil },
+      { status: 'active', reason: 'lockout_expired' }
+    );
   }
   
-  // Validate email format
-  private isValidEmail(email: string): boolean {
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    return emailRegex.test(email);
+  // Every staff role needs a second factor before a session is issued
+  private requiresMfa(user: UserRecord): boolean {
+    return permissionService.isStaffRole(user.role);
+  }
+  
+  // Finish a sign-in: a session for customers, an MFA challenge for staff
+  private async beginSession(user: UserRecord): Promise<LoginResult> {
+    if (!this.requiresMfa(user)) {
+      return this.createSession(user);
+    }
+    
+    if (!user.mfa?.enabled && !user.mfa?.secret) {
+      user.mfa = { secret: totpService.generateSecret(), enabled: false, backup_code_hashes: [] };
+      await userRepository.setMfa(user.id, user.mfa);
+    }
+    
+    return {
+      mfa_required: true,
+      challenge_token: tokenService.issueMfaChallenge(user.id),
+      expires_in: MFA_CHALLENGE_TTL_SECONDS,
+      enrollment: user.mfa!.enabled ? undefined : {
+        secret: user.mfa!.secret,
+        otpauth_uri: totpService.buildOtpAuthUri(user.mfa!.secret, user.email)
+      }
+    };
+  }
+  
+  private async generateBackupCodes(): Promise<{ codes: string[]; hashes: string[] }> {
+    const codes = Array.from({ length: MFA_BACKUP_CODE_COUNT }, () => {
+      const code = generateCode(MFA_BACKUP_CODE_LENGTH, PASSWORD_RESET_CODE_ALPHABET);
+      return `${code.slice(0, 4)}-${code.slice(4)}`;
+    });
+    const hashes = await Promise.all(codes.map(code => bcrypt.hash(this.normalizeCode(code), PASSWORD_SALT_ROUNDS)));
+    return { codes, hashes };
+  }
+  
+  // Consume a matching backup code; each one works once
+  private async useBackupCode(mfa: UserMfa, code: string): Promise<boolean> {
+    const normalizedCode = this.normalizeCode(code);
+    if (normalizedCode.length !== MFA_BACKUP_CODE_LENGTH) return false;
+    
+    for (let i = 0; i < mfa.backup_code_hashes.length; i++) {
+      if (await bcrypt.compare(normalizedCode, mfa.backup_code_hashes[i])) {
+        mfa.backup_code_hashes.splice(i, 1);
+        return true;
+      }
+    }
+    return false;
+  }
+  
+  // Issue a new token family and persist the session for a signed-in user
+  private async createSession(user: UserRecord): Promise<AuthResponse> {
+    const tokens = await tokenService.createFamily(user, await deviceService.getDeviceInfo());
+    return this.storeSession(user, tokens);
+  }
+  
+  private async storeSession(user: UserRecord, tokens: TokenPair): Promise<AuthResponse> {
+    const authUser = this.toAuthUser(user);
+    
+    await secureStorage.setItem('@zada_auth_token', tokens.token);
+    await secureStorage.setItem('@zada_refresh_token', tokens.refresh_token);
+    await store.set('current_user', authUser);
+    
+    return {
+      user: authUser,
+      token: tokens.token,
+      refresh_token: tokens.refresh_token,
+      expires_in: tokens.expires_in
+    };
+  }
+  
+  private async clearSession(): Promise<void> {
+    await secureStorage.removeItem('@zada_auth_token');
+    await secureStorage.removeItem('@zada_refresh_token');
+    await store.remove('current_user');
   }
   
   // Register new user
-  async register(data: RegisterData): Promise<AuthResponse> {
+  async register(data: RegisterData): Promise<LoginResult> {
     try {
       // Validate input
       if (!this.isValidEmail(data.email)) {
@@ -117,25 +451,24 @@ class AuthService {
         throw new Error('Terms and conditions must be accepted');
       }
       
-      // Validate admin email for admin role
-      if (data.role === 'admin' && !this.validateAdminEmail(data.email)) {
-        throw new Error('Admin accounts require @zadafoods.com or @zada.com email addresses');
-      }
-      
       // Check if user already exists
-      const usersData = await storage.getItem('@zada_users');
-      const users: AuthUser[] = usersData ? JSON.parse(usersData) : [];
-      
+      const users = await userRepository.list();
       const existingUser = users.find(u => u.email.toLowerCase() === data.email.toLowerCase());
       if (existingUser) {
         throw new Error('User with this email already exists');
       }
       
+      // Self-registration creates customers; the configured owner address becomes the first super_admin
+      const isBootstrapSuperAdmin = !!config.SUPER_ADMIN_EMAIL
+        && data.email.toLowerCase() === config.SUPER_ADMIN_EMAIL.toLowerCase()
+        && !users.some(u => u.role === 'super_admin');
+      
       // Create user
-      const userData: AuthUser = {
+      const userData: UserRecord = {
         id: 'user_' + Date.now(),
         email: data.email.toLowerCase(),
-        role: data.role,
+        password_hash: await this.hashPassword(data.password),
+        role: isBootstrapSuperAdmin ? 'super_admin' : 'customer',
         profile: {
           first_name: data.first_name,
           last_name: data.last_name,
@@ -147,37 +480,87 @@ class AuthService {
           marketing: false,
           theme: 'light' as const
         },
-        status: 'active' as const,
+        status: 'pending_verification' as const,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString()
       };
       
-      users.push(userData);
-      await storage.setItem('@zada_users', JSON.stringify(users));
+      await userRepository.create(userData);
       
-      // Generate simple tokens
-      const token = 'token_' + Date.now();
-      const refresh_token = 'refresh_' + Date.now();
+      // The account is usable without the email; the user can resend from their profile
+      try {
+        await this.sendVerificationCode(userData);
+      } catch (error) {
+        console.warn('⚠️ Could not send verification email:', error);
+      }
+      
+      return await this.beginSession(userData);
       
-      // Store tokens
-      await storage.setItem('@zada_auth_token', token);
-      await storage.setItem('@zada_refresh_token', refresh_token);
-      await storage.setItem('@zada_current_user', JSON.stringify(userData));
+    } catch (error) {
+      throw new Error(`Registration failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  // Create a staff account from an invitation link; the role comes from the invitation
+  async acceptInvitation(inviteToken: string, data: AcceptInvitationData): Promise<LoginResult> {
+    try {
+      const invitation = await invitationService.verifyInvitation(invitationService.extractToken(inviteToken));
+      
+      const passwordValidation = this.validatePasswordStrength(data.password);
+      if (!passwordValidation.valid) {
+        throw new Error(`Password validation failed: ${passwordValidation.errors.join(', ')}`);
+      }
+      
+      if (!data.first_name.trim() || !data.last_name.trim()) {
+        throw new Error('First and last name are required');
+      }
       
-      return {
-        user: userData,
-        token,
-        refresh_token,
-        expires_in: 24 * 60 * 60 // 24 hours in seconds
+      if (await userRepository.findByEmail(invitation.email)) {
+        throw new Error('An account with this email already exists');
+      }
+      
+      // Opening the emailed link proves the address, so no separate verification step
+      const now = new Date().toISOString();
+      const userData: UserRecord = {
+        id: 'user_' + Date.now(),
+        email: invitation.email,
+        password_hash: await this.hashPassword(data.password),
+        role: invitation.role,
+        profile: {
+          first_name: data.first_name.trim(),
+          last_name: data.last_name.trim(),
+          phone: data.phone
+        },
+        preferences: {
+          notifications: true,
+          marketing: false,
+          theme: 'light' as const
+        },
+        status: 'active' as const,
+        email_verified_at: now,
+        created_at: now,
+        updated_at: now
       };
       
+      await userRepository.create(userData);
+      // Spent or revoked since it was checked: the account goes again rather than keep a staff role
+      try {
+        await invitationService.markAccepted(invitation, userData.id);
+      } catch (error) {
+        await userRepository.remove(userData.id).catch(() => undefined);
+        throw error;
+      }
+      
+      // Staff always go through MFA enrollment before their first session
+      return await this.beginSession(userData);
+      
     } catch (error) {
-      throw new Error(`Registration failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Invitation acceptance failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
   // Login user
-  async login(credentials: LoginCredentials): Promise<AuthResponse> {
+  async login(credentials: LoginCredentials): Promise<LoginResult> {
     try {
       // Validate input
       if (!this.isValidEmail(credentials.email)) {
@@ -188,99 +571,920 @@ class AuthService {
         throw new Error('Password is required');
       }
       
+      const throttle = await loginThrottle.check(credentials.email);
+      if (!throttle.allowed) {
+        throw new Error(`Too many failed attempts. Try again in ${throttle.retry_after_seconds} seconds.`);
+      }
+      
       // Get user from storage
-      const usersData = await storage.getItem('@zada_users');
-      if (!usersData) {
-        throw new Error('No users found. Please register first.');
+      const foundUser = await userRepository.findByEmail(credentials.email);
+      
+      if (foundUser) {
+        await this.releaseExpiredLock(foundUser);
       }
       
-      const users: AuthUser[] = JSON.parse(usersData);
-      const foundUser = users.find(
-        u => u.email.toLowerCase() === credentials.email.toLowerCase() && 
-             u.status === 'active'
-      );
+      if (foundUser?.status === 'suspended' && foundUser.locked_until) {
+        const minutesLeft = Math.ceil((new Date(foundUser.locked_until).getTime() - Date.now()) / 60000);
+        throw new Error(`Account temporarily locked after too many failed attempts. Try again in ${minutesLeft} minutes.`);
+      }
       
-      if (!foundUser) {
+      if (!foundUser || !this.isActive(foundUser)) {
+        if (!foundUser) {
+          await this.handleFailedLogin(credentials.email);
+        }
+        throw new Error('Invalid credentials or account not active');
+      }
+      
+      // Accounts created before passwords were stored set one through an emailed reset code,
+      // so knowing the address alone is not enough to claim them
+      if (!foundUser.password_hash) {
+        await this.requestPasswordReset(foundUser.email);
+        throw new Error('Password setup required. We have emailed you a code to set your password.');
+      }
+      
+      const passwordMatches = await bcrypt.compare(credentials.password, foundUser.password_hash);
+      if (!passwordMatches) {
+        await this.handleFailedLogin(credentials.email, foundUser);
         throw new Error('Invalid credentials or account not active');
       }
       
+      // Throttling stays in place until the second factor has also passed
+      if (this.requiresMfa(foundUser)) {
+        return await this.beginSession(foundUser);
+      }
+      
+      await loginThrottle.recordSuccess(credentials.email);
+      
       // Update last login
       foundUser.last_login_at = new Date().toISOString();
-      await storage.setItem('@zada_users', JSON.stringify(users));
-      
-      // Generate tokens
-      const token = 'token_' + Date.now();
-      const refresh_token = 'refresh_' + Date.now();
-      
-      // Store tokens
-      await storage.setItem('@zada_auth_token', token);
-      await storage.setItem('@zada_refresh_token', refresh_token);
-      await storage.setItem('@zada_current_user', JSON.stringify(foundUser));
-      
-      return {
-        user: foundUser,
-        token,
-        refresh_token,
-        expires_in: 24 * 60 * 60
-      };
+      await userRepository.update(foundUser.id, { last_login_at: foundUser.last_login_at });
+      
+      return await this.createSession(foundUser);
       
     } catch (error) {
       throw new Error(`Login failed: ${error instanceof Error ? error.message : 'Invalid credentials'}`);
     }
   }
   
+  // Second step of an admin sign-in: confirm enrollment or check a TOTP/backup code
+  async verifyMfa(challengeToken: string, code: string): Promise<AuthResponse> {
+    try {
+      let userId: string;
+      try {
+        userId = tokenService.verifyMfaChallenge(challengeToken).sub;
+      } catch (error) {
+        throw new Error('Verification timed out. Please sign in again.');
+      }
+      
+      const foundUser = await userRepository.getById(userId);
+      if (!foundUser || !this.isActive(foundUser) || !foundUser.mfa) {
+        throw new Error('Account not found or not active');
+      }
+      
+      const throttle = await loginThrottle.check(foundUser.email);
+      if (!throttle.allowed) {
+        throw new Error(`Too many failed attempts. Try again in ${throttle.retry_after_seconds} seconds.`);
+      }
+      
+      const mfa = foundUser.mfa;
+      const now = new Date().toISOString();
+      const timeStep = totpService.verifyCode(mfa.secret, code);
+      const totpAccepted = timeStep !== null && timeStep > (mfa.last_used_step ?? -1);
+      let backupCodes: string[] | undefined;
+      
+      if (!mfa.enabled) {
+        if (!totpAccepted) {
+          await this.handleFailedLogin(foundUser.email, foundUser);
+          throw new Error('Invalid authentication code. Check the code in your authenticator app.');
+        }
+        
+        const generated = await this.generateBackupCodes();
+        backupCodes = generated.codes;
+        mfa.enabled = true;
+        mfa.enrolled_at = now;
+        mfa.backup_code_hashes = generated.hashes;
+        mfa.last_used_step = timeStep!;
+        
+        await this.logAuditEvent(foundUser.id, 'mfa_enrolled', foundUser.id, undefined, { method: 'totp' });
+      } else if (totpAccepted) {
+        mfa.last_used_step = timeStep!;
+      } else if (await this.useBackupCode(mfa, code)) {
+        await this.logAuditEvent(foundUser.id, 'mfa_backup_code_used', foundUser.id, undefined, {
+          remaining_backup_codes: mfa.backup_code_hashes.length
+        });
+      } else {
+        await this.handleFailedLogin(foundUser.email, foundUser);
+        throw new Error('Invalid authentication code');
+      }
+      
+      await loginThrottle.recordSuccess(foundUser.email);
+      tokenService.consumeMfaChallenge(challengeToken);
+      foundUser.last_login_at = now;
+      await userRepository.setMfa(foundUser.id, mfa);
+      await userRepository.update(foundUser.id, { last_login_at: now });
+      
+      const session = await this.createSession(foundUser);
+      return backupCodes ? { ...session, backup_codes: backupCodes } : session;
+      
+    } catch (error) {
+      throw new Error(`Two-factor verification failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  // Admin action: clear a lost authenticator so the user re-enrolls on next sign-in
+  async resetMfa(admin: AuthUser, userId: string): Promise<void> {
+    try {
+      if (!this.hasPermission(admin, 'staff.reset_mfa')) {
+        throw new Error('You do not have permission to reset two-factor authentication');
+      }
+      
+      if (admin.id === userId) {
+        throw new Error('Another administrator must reset your two-factor authentication');
+      }
+      
+      const foundUser = await userRepository.getById(userId);
+      if (!foundUser) {
+        throw new Error('User not found');
+      }
+      
+      foundUser.mfa = undefined;
+      foundUser.updated_at = new Date().toISOString();
+      await userRepository.setMfa(foundUser.id, null);
+      await tokenService.revokeAllForUser(foundUser.id, 'mfa_reset');
+      
+      await this.logAuditEvent(admin.id, 'mfa_reset', foundUser.id);
+      
+    } catch (error) {
+      throw new Error(`MFA reset failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  // Accounts that predate verification have no pending status and count as verified
+  isEmailVerified(user: Pick<AuthUser, 'status'>): boolean {
+    return user.status !== 'pending_verification';
+  }
+  
+  // Send a new verification code to an unverified account
+  async resendEmailVerification(userId: string): Promise<void> {
+    try {
+      const foundUser = await userRepository.getById(userId);
+      if (!foundUser) {
+        throw new Error('User not found');
+      }
+      
+      if (foundUser.status !== 'pending_verification') {
+        throw new Error('Email address is already verified');
+      }
+      
+      await this.sendVerificationCode(foundUser);
+      
+    } catch (error) {
+      throw new Error(`Verification resend failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  // Redeem the latest verification code and activate the account
+  async confirmEmailVerification(userId: string, code: string): Promise<AuthUser> {
+    try {
+      const foundUser = await userRepository.getById(userId);
+      if (!foundUser) {
+        throw new Error('User not found');
+      }
+      
+      if (foundUser.status !== 'pending_verification') {
+        throw new Error('Email address is already verified');
+      }
+      
+      const verifications = await this.loadEmailVerifications();
+      const latest = verifications
+        .filter(v => v.user_id === userId)
+        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0];
+      
+      if (!latest || latest.verified_at || new Date(latest.expires_at).getTime() <= Date.now()) {
+        throw new Error('Verification code has expired. Please request a new one.');
+      }
+      
+      if (latest.failed_attempts >= EMAIL_VERIFICATION_MAX_ATTEMPTS) {
+        throw new Error('Too many incorrect codes. Please request a new one.');
+      }
+      
+      if (!(await bcrypt.compare(code.trim(), latest.code_hash))) {
+        latest.failed_attempts += 1;
+        await this.saveEmailVerifications(verifications);
+        throw new Error('Incorrect verification code');
+      }
+      
+      latest.verified_at = new Date().toISOString();
+      await this.saveEmailVerifications(verifications);
+      
+      foundUser.status = 'active';
+      foundUser.email_verified_at = latest.verified_at;
+      foundUser.updated_at = latest.verified_at;
+      await userRepository.confirmEmail(foundUser.id);
+      
+      await this.logAuditEvent(foundUser.id, 'email_verified', foundUser.id,
+        { status: 'pending_verification' },
+        { status: 'active' }
+      );
+      
+      const authUser = this.toAuthUser(foundUser);
+      const currentUser = await this.getCurrentUser();
+      if (currentUser?.id === authUser.id) {
+        await store.set('current_user', authUser);
+      }
+      
+      return authUser;
+      
+    } catch (error) {
+      throw new Error(`Email verification failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  // Passwordless customer sign-in: text a one-time code to the phone number
+  async requestPhoneOtp(phone: string): Promise<PhoneOtpRequest> {
+    try {
+      const normalizedPhone = this.requireNigerianPhone(phone);
+      
+      const foundUser = await this.findUserByPhone(normalizedPhone);
+      if (foundUser && foundUser.role !== 'customer') {
+        throw new Error('Phone sign-in is only available for customer accounts');
+      }
+      
+      const now = Date.now();
+      const otps = (await this.loadPhoneOtps()).filter(otp =>
+        now - new Date(otp.created_at).getTime() < 60 * 60 * 1000
+      );
+      const phoneSends = otps
+        .filter(otp => otp.phone === normalizedPhone)
+        .map(otp => new Date(otp.created_at).getTime());
+      
+      const lastSentAt = phoneSends.length > 0 ? Math.max(...phoneSends) : 0;
+      const cooldownLeft = Math.ceil((lastSentAt + PHONE_OTP_RESEND_COOLDOWN_SECONDS * 1000 - now) / 1000);
+      if (cooldownLeft > 0) {
+        throw new Error(`Please wait ${cooldownLeft} seconds before requesting another code`);
+      }
+      
+      if (phoneSends.length >= PHONE_OTP_MAX_SENDS_PER_HOUR) {
+        throw new Error('Too many codes requested for this number. Please try again later.');
+      }
+      
+      const code = generateCode(PHONE_OTP_LENGTH);
+      otps.push({
+        id: 'otp_' + now,
+        phone: normalizedPhone,
+        code_hash: await bcrypt.hash(code, PASSWORD_SALT_ROUNDS),
+        created_at: new Date(now).toISOString(),
+        expires_at: new Date(now + PHONE_OTP_TTL_MINUTES * 60 * 1000).toISOString(),
+        failed_attempts: 0
+      });
+      await this.savePhoneOtps(otps);
+      
+      await messagingService.send({
+        channel: 'sms',
+        to: normalizedPhone,
+        body: `Your ZADA sign-in code is ${code}. It expires in ${PHONE_OTP_TTL_MINUTES} minutes. Do not share it with anyone.`
+      });
+      
+      return { phone: normalizedPhone, expires_in: PHONE_OTP_TTL_MINUTES * 60 };
+      
+    } catch (error) {
+      throw new Error(`Could not send code: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  // Spend the latest code sent to a number; returns when it was used
+  private async redeemPhoneOtp(normalizedPhone: string, code: string): Promise<string> {
+    const otps = await this.loadPhoneOtps();
+    const latest = otps
+      .filter(otp => otp.phone === normalizedPhone)
+      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0];
+    
+    if (!latest || latest.used_at || new Date(latest.expires_at).getTime() <= Date.now()) {
+      throw new Error('Code has expired. Please request a new one.');
+    }
+    
+    if (latest.failed_attempts >= PHONE_OTP_MAX_ATTEMPTS) {
+      throw new Error('Too many incorrect codes. Please request a new one.');
+    }
+    
+    if (!(await bcrypt.compare(code.trim(), latest.code_hash))) {
+      latest.failed_attempts += 1;
+      await this.savePhoneOtps(otps);
+      const attemptsLeft = PHONE_OTP_MAX_ATTEMPTS - latest.failed_attempts;
+      throw new Error(attemptsLeft > 0
+        ? `Incorrect code. ${attemptsLeft} attempts left.`
+        : 'Too many incorrect codes. Please request a new one.');
+    }
+    
+    latest.used_at = new Date().toISOString();
+    await this.savePhoneOtps(otps);
+    return latest.used_at;
+  }
+  
+  // Redeem a phone code, signing in the matching customer or creating one
+  async verifyPhoneOtp(phone: string, code: string): Promise<AuthResponse> {
+    try {
+      const normalizedPhone = this.requireNigerianPhone(phone);
+      const usedAt = await this.redeemPhoneOtp(normalizedPhone, code);
+      
+      let foundUser = await this.findUserByPhone(normalizedPhone);
+      
+      if (foundUser) {
+        await this.releaseExpiredLock(foundUser);
+        
+        if (foundUser.role !== 'customer') {
+          throw new Error('Phone sign-in is only available for customer accounts');
+        }
+        if (foundUser.status === 'suspended' && foundUser.locked_until) {
+          const minutesLeft = Math.ceil((new Date(foundUser.locked_until).getTime() - Date.now()) / 60000);
+          throw new Error(`Account temporarily locked after too many failed attempts. Try again in ${minutesLeft} minutes.`);
+        }
+        if (!this.isActive(foundUser)) {
+          throw new Error('Account not active');
+        }
+        
+        if (!foundUser.phone_verified_at) {
+          foundUser.phone_verified_at = usedAt;
+          await userRepository.confirmPhone(foundUser.id);
+        }
+        foundUser.last_login_at = usedAt;
+        await userRepository.update(foundUser.id, { last_login_at: usedAt });
+      } else {
+        // First sign-in with this number creates a customer; name and email can be added from the profile
+        foundUser = {
+          id: 'user_' + Date.now(),
+          email: '',
+          role: 'customer',
+          profile: {
+            first_name: 'Customer',
+            last_name: '',
+            phone: normalizedPhone
+          },
+          preferences: {
+            notifications: true,
+            marketing: false,
+            theme: 'light' as const
+          },
+          status: 'active' as const,
+          created_at: usedAt,
+          updated_at: usedAt,
+          last_login_at: usedAt,
+          phone_verified_at: usedAt
+        };
+        await userRepository.create(foundUser);
+        
+        await this.logAuditEvent(foundUser.id, 'user_registered', foundUser.id, undefined, { method: 'phone_otp' });
+      }
+      
+      return await this.createSession(foundUser);
+      
+    } catch (error) {
+      throw new Error(`Phone sign-in failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  // Confirm the signed-in user's profile phone with a code sent to it through requestPhoneOtp, after which
+  // it can be used for phone sign-in
+  async confirmProfilePhone(code: string): Promise<AuthUser> {
+    try {
+      const currentUser = await this.getCurrentUser();
+      const foundUser = currentUser && (await userRepository.getById(currentUser.id));
+      if (!foundUser) {
+        throw new Error('Not signed in');
+      }
+      const normalizedPhone = this.requireNigerianPhone(foundUser.profile?.phone || '');
+      
+      const owner = await this.findUserByPhone(normalizedPhone);
+      if (owner && owner.id !== foundUser.id) {
+        throw new Error('This number is already verified on another account');
+      }
+      
+      foundUser.phone_verified_at = await this.redeemPhoneOtp(normalizedPhone, code);
+      foundUser.updated_at = foundUser.phone_verified_at;
+      await userRepository.confirmPhone(foundUser.id);
+      await this.logAuditEvent(foundUser.id, 'phone_verified', foundUser.id);
+      
+      const authUser = this.toAuthUser(foundUser);
+      await store.set('current_user', authUser);
+      return authUser;
+      
+    } catch (error) {
+      throw new Error(`Phone verification failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  // Send a single-use reset code. Unknown emails get no code but the same response.
+  async requestPasswordReset(email: string): Promise<void> {
+    try {
+      if (!this.isValidEmail(email)) {
+        throw new Error('Invalid email format');
+      }
+      
+      const foundUser = await userRepository.findByEmail(email);
+      
+      if (!foundUser || foundUser.status === 'inactive') {
+        console.log('🔑 Password reset requested for unknown or inactive account');
+        return;
+      }
+      
+      const code = generateCode(PASSWORD_RESET_CODE_LENGTH, PASSWORD_RESET_CODE_ALPHABET);
+      const now = Date.now();
+      
+      // Issuing a new code invalidates any earlier ones for this user
+      const resets = (await this.loadPasswordResets()).filter(reset =>
+        reset.user_id !== foundUser.id && this.isResetUsable(reset)
+      );
+      resets.push({
+        id: 'reset_' + now,
+        user_id: foundUser.id,
+        code_hash: await bcrypt.hash(code, PASSWORD_SALT_ROUNDS),
+        created_at: new Date(now).toISOString(),
+        expires_at: new Date(now + PASSWORD_RESET_CODE_TTL_MINUTES * 60 * 1000).toISOString()
+      });
+      await this.savePasswordResets(resets);
+      
+      await messagingService.send({
+        channel: 'email',
+        to: foundUser.email,
+        subject: 'Your ZADA password reset code',
+        body: `Your password reset code is ${code}. It expires in ${PASSWORD_RESET_CODE_TTL_MINUTES} minutes and can only be used once. If you did not request this, you can ignore this message.`
+      });
+      
+      await this.logAuditEvent(foundUser.id, 'password_reset_requested', foundUser.id);
+      
+    } catch (error) {
+      throw new Error(`Password reset request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  // Redeem a reset code, set the new password and sign out every existing session
+  async confirmPasswordReset(code: string, newPassword: string): Promise<void> {
+    try {
+      const normalizedCode = this.normalizeCode(code);
+      if (normalizedCode.length !== PASSWORD_RESET_CODE_LENGTH) {
+        throw new Error('Invalid or expired reset code');
+      }
+      
+      const passwordValidation = this.validatePasswordStrength(newPassword);
+      if (!passwordValidation.valid) {
+        throw new Error(`Password validation failed: ${passwordValidation.errors.join(', ')}`);
+      }
+      
+      const resets = await this.loadPasswordResets();
+      let matchedReset: PasswordResetRecord | undefined;
+      for (const reset of resets.filter(r => this.isResetUsable(r))) {
+        if (await bcrypt.compare(normalizedCode, reset.code_hash)) {
+          matchedReset = reset;
+          break;
+        }
+      }
+      
+      if (!matchedReset) {
+        throw new Error('Invalid or expired reset code');
+      }
+      
+      matchedReset.used_at = new Date().toISOString();
+      await this.savePasswordResets(resets);
+      
+      const foundUser = await userRepository.getById(matchedReset!.user_id);
+      if (!foundUser || foundUser.status === 'inactive') {
+        throw new Error('Account not found or not active');
+      }
+      
+      // Proving ownership of the account also lifts a failed-login lockout
+      const wasLockedOut = foundUser.status === 'suspended' && !!foundUser.locked_until;
+      if (wasLockedOut) {
+        foundUser.status = 'active';
+        foundUser.locked_until = undefined;
+      }
+      
+      // A code delivered to the inbox also confirms the address
+      if (foundUser.status === 'pending_verification') {
+        foundUser.status = 'active';
+        foundUser.email_verified_at = new Date().toISOString();
+      }
+      
+      foundUser.password_hash = await this.hashPassword(newPassword);
+      foundUser.updated_at = new Date().toISOString();
+      await userRepository.resetPassword(foundUser.id, foundUser.password_hash);
+      
+      await loginThrottle.reset(foundUser.email);
+      await tokenService.revokeAllForUser(foundUser.id, 'password_reset');
+      
+      await this.logAuditEvent(foundUser.id, 'password_reset', foundUser.id, undefined, {
+        reset_id: matchedReset.id,
+        lockout_cleared: wasLockedOut
+      });
+      
+    } catch (error) {
+      throw new Error(`Password reset failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
   // Logout user
   async logout(): Promise<void> {
     try {
-      // Clear stored tokens
-      await storage.removeItem('@zada_auth_token');
-      await storage.removeItem('@zada_refresh_token');
-      await storage.removeItem('@zada_current_user');
+      const refreshToken = await secureStorage.getItem('@zada_refresh_token');
+      if (refreshToken) {
+        await tokenService.revokeByRefreshToken(refreshToken, 'logout');
+      }
+    } catch (error) {
+      console.error('Logout error:', error);
+    }
+    
+    // Clear stored tokens, even ones that could no longer be read
+    try {
+      await this.clearSession();
     } catch (error) {
       console.error('Logout error:', error);
     }
   }
   
+  // Devices the current user is signed in on, this one first
+  async getSessions(): Promise<SessionInfo[]> {
+    const currentUser = await this.getCurrentUser();
+    if (!currentUser) return [];
+    
+    const token = await secureStorage.getItem('@zada_auth_token');
+    const currentFamilyId = token ? tokenService.getFamilyId(token) : null;
+    const families = await tokenService.getActiveFamilies(currentUser.id);
+    
+    return families
+      .map(family => ({
+        id: family.id,
+        device_name: family.device_name || 'Unknown device',
+        platform: family.platform || 'unknown',
+        ip_address: family.ip_address || 'unknown',
+        created_at: family.created_at,
+        last_seen_at: family.last_seen_at || family.rotated_at || family.created_at,
+        current: family.id === currentFamilyId
+      }))
+      .sort((a, b) => Number(b.current) - Number(a.current)
+        || new Date(b.last_seen_at).getTime() - new Date(a.last_seen_at).getTime());
+  }
+  
+  // Sign out one of the current user's devices
+  async revokeSession(sessionId: string): Promise<void> {
+    try {
+      const currentUser = await this.getCurrentUser();
+      if (!currentUser) {
+        throw new Error('Not signed in');
+      }
+      
+      const families = await tokenService.getActiveFamilies(currentUser.id);
+      const family = families.find(f => f.id === sessionId);
+      if (!family) {
+        throw new Error('Session not found');
+      }
+      
+      await tokenService.revokeFamily(family.id, 'user_revoked');
+      await this.logAuditEvent(currentUser.id, 'session_revoked', currentUser.id, undefined,
+        { session_id: family.id, device_name: family.device_name });
+      
+      const token = await secureStorage.getItem('@zada_auth_token');
+      if (token && tokenService.getFamilyId(token) === family.id) {
+        await this.clearSession();
+      }
+    } catch (error) {
+      throw new Error(`Sign out failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  // Revoke every session of the current user, including this one
+  async signOutEverywhere(): Promise<void> {
+    try {
+      const currentUser = await this.getCurrentUser();
+      if (!currentUser) {
+        throw new Error('Not signed in');
+      }
+      
+      await tokenService.revokeAllForUser(currentUser.id, 'sign_out_everywhere');
+      await this.logAuditEvent(currentUser.id, 'signed_out_everywhere', currentUser.id);
+      await this.clearSession();
+    } catch (error) {
+      throw new Error(`Sign out failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  // Profile edits from the signed-in user. A new phone number is unverified until a code sent to it is entered
+  async updateProfile(changes: Pick<AuthUser['profile'], 'first_name' | 'last_name' | 'phone' | 'address'>): Promise<AuthUser> {
+    try {
+      const currentUser = await this.getCurrentUser();
+      if (!currentUser) {
+        throw new Error('Not signed in');
+      }
+      
+      const phoneKey = (phone?: string): string => (phone ? normalizeNigerianPhone(phone) ?? phone.trim() : '');
+      const phoneChanged = changes.phone !== undefined && phoneKey(changes.phone) !== phoneKey(currentUser.profile?.phone);
+      
+      // Built from the signed-in copy so an edit made offline is kept and queued for sync
+      const authUser: AuthUser = {
+        ...currentUser,
+        profile: { ...currentUser.profile, ...changes },
+        ...(phoneChanged ? { phone_verified_at: null } : {}),
+        updated_at: new Date().toISOString()
+      };
+      await syncService.execute('profile.update', authUser.id, {
+        profile: authUser.profile,
+        ...(phoneChanged ? { phone_verified_at: null } : {}),
+        updated_at: authUser.updated_at
+      });
+      
+      await store.set('current_user', authUser);
+      return authUser;
+      
+    } catch (error) {
+      throw new Error(`Profile update failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  // "Download my data": profile, addresses, orders, messages and notifications as one JSON document
+  async exportMyData(): Promise<UserDataExport> {
+    const currentUser = await this.getCurrentUser();
+    if (!currentUser) {
+      throw new Error('Data export failed: Not signed in');
+    }
+    
+    const foundUser = await userRepository.getById(currentUser.id);
+    if (!foundUser) {
+      throw new Error('Data export failed: User not found');
+    }
+    
+    const dataExport = await privacyService.buildExport(this.toAuthUser(foundUser));
+    await this.logAuditEvent(foundUser.id, 'data_exported', foundUser.id);
+    return dataExport;
+  }
+  
+  // Customer self-service deletion. The user record becomes an anonymized tombstone so
+  // orders and payments kept for accounting still point at a (pseudonymous) customer.
+  async deleteAccount(password?: string): Promise<void> {
+    try {
+      const currentUser = await this.getCurrentUser();
+      if (!currentUser) {
+        throw new Error('Not signed in');
+      }
+      
+      const foundUser = await userRepository.getById(currentUser.id);
+      if (!foundUser || foundUser.deleted_at) {
+        throw new Error('User not found');
+      }
+      if (foundUser.role !== 'customer') {
+        throw new Error('Staff accounts are removed by a super admin');
+      }
+      
+      // Phone-only customers proved possession of the number when signing in
+      if (foundUser.password_hash) {
+        if (!password || !(await bcrypt.compare(password, foundUser.password_hash))) {
+          throw new Error('Incorrect password');
+        }
+      }
+      
+      // Also turns the user record into the tombstone
+      const result = await privacyService.pseudonymizeUserData(foundUser.id);
+      
+      // Outstanding codes would let someone act on the account
+      const resets = await this.loadPasswordResets();
+      await this.savePasswordResets(resets.filter(r => r.user_id !== foundUser.id));
+      const verifications = await this.loadEmailVerifications();
+      await this.saveEmailVerifications(verifications.filter(v => v.user_id !== foundUser.id));
+      if (foundUser.profile.phone) {
+        const phone = normalizeNigerianPhone(foundUser.profile.phone);
+        const otps = await this.loadPhoneOtps();
+        await this.savePhoneOtps(otps.filter(o => o.phone !== phone));
+      }
+      
+      await tokenService.revokeAllForUser(foundUser.id, 'account_deleted');
+      await loginThrottle.reset(foundUser.email);
+      
+      // Only what accounting needs; no personal data in the audit trail either
+      await this.logAuditEvent(foundUser.id, 'account_deleted', foundUser.id, undefined, {
+        cancelled_orders: result.cancelled_order_ids,
+        pseudonymized_orders: result.pseudonymized_order_count,
+        removed_messages: result.removed_message_count,
+        removed_notifications: result.removed_notification_count,
+        removed_payment_methods: result.removed_payment_method_count,
+        removed_cart_items: result.removed_cart_item_count
+      });
+      
+      await this.clearSession();
+      await store.remove('cart');
+    } catch (error) {
+      throw new Error(`Account deletion failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  // Support tool: open a read-only view of a customer's account. The reason is kept in the audit log.
+  async startImpersonation(actor: AuthUser, customerId: string, reason: string): Promise<ImpersonationSession> {
+    try {
+      if (!this.hasPermission(actor, 'customers.impersonate')) {
+        throw new Error('You do not have permission to view the app as a customer');
+      }
+      
+      const trimmedReason = reason.trim();
+      if (trimmedReason.length < IMPERSONATION_REASON_MIN_LENGTH) {
+        throw new Error(`Please describe why you need to view this account (at least ${IMPERSONATION_REASON_MIN_LENGTH} characters)`);
+      }
+      
+      const customer = await userRepository.getById(customerId);
+      if (!customer || customer.deleted_at) {
+        throw new Error('Customer not found');
+      }
+      if (customer.role !== 'customer') {
+        throw new Error('Only customer accounts can be viewed');
+      }
+      
+      const session: ImpersonationSession = {
+        id: 'imp_' + Date.now(),
+        actor,
+        customer: this.toAuthUser(customer),
+        reason: trimmedReason,
+        started_at: new Date().toISOString(),
+        read_only: true
+      };
+      await secureStorage.setItem('@zada_impersonation', JSON.stringify(session));
+      
+      await this.logAuditEvent(actor.id, 'impersonation_started', customer.id, undefined, {
+        session_id: session.id,
+        reason: session.reason,
+        read_only: session.read_only
+      });
+      
+      return session;
+    } catch (error) {
+      throw new Error(`View as customer failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async endImpersonation(session: ImpersonationSession, endedBy: 'staff' | 'app_restart' = 'staff'): Promise<void> {
+    await secureStorage.removeItem('@zada_impersonation');
+    await this.logAuditEvent(session.actor.id, 'impersonation_ended', session.customer.id, undefined, {
+      session_id: session.id,
+      ended_by: endedBy,
+      duration_seconds: Math.round((Date.now() - new Date(session.started_at).getTime()) / 1000)
+    });
+  }
+  
+  // A view left open when the app closed is ended on the next launch so every start has an end
+  async closeStaleImpersonation(): Promise<void> {
+    try {
+      const sessionData = await secureStorage.getItem('@zada_impersonation');
+      if (sessionData) {
+        await this.endImpersonation(JSON.parse(sessionData), 'app_restart');
+      }
+    } catch (error) {
+      console.error('Error closing stale impersonation:', error);
+    }
+  }
+  
   // Get current user
   async getCurrentUser(): Promise<AuthUser | null> {
     try {
-      const userData = await storage.getItem('@zada_current_user');
-      if (!userData) return null;
-      
-      return JSON.parse(userData);
+      return await store.get<AuthUser>('current_user');
     } catch (error) {
       console.error('Error getting current user:', error);
       return null;
     }
   }
   
-  // Validate session
+  // Validate session, refreshing it once the access token has expired
   async validateSession(): Promise<AuthUser | null> {
     try {
-      const token = await storage.getItem('@zada_auth_token');
+      const token = await secureStorage.getItem('@zada_auth_token');
       if (!token) return null;
       
+      try {
+        const family = await tokenService.verifyAccessToken(token);
+        await tokenService.touchFamily(family.id);
+      } catch (error) {
+        // Revoked, signed out elsewhere or not a token this device issued
+        if (!tokenService.isExpiredError(error)) {
+          await this.clearSession();
+          return null;
+        }
+        
+        const refreshed = await this.refreshSession();
+        return refreshed.user;
+      }
+      
       const user = await this.getCurrentUser();
       return user;
       
     } catch (error) {
       console.error('Session validation failed:', error);
+      // A session that can no longer be decrypted is over; clearing it lets the next sign-in store a new one
+      if (isUnreadableStorageError(error)) {
+        await this.clearSession().catch(() => undefined);
+      }
       return null;
     }
   }
   
+  // Exchange the stored refresh token for a rotated token pair
+  async refreshSession(): Promise<AuthResponse> {
+    try {
+      const refreshToken = await secureStorage.getItem('@zada_refresh_token');
+      if (!refreshToken) {
+        throw new Error('No refresh token found');
+      }
+      
+      let user: UserRecord | null = null;
+      const tokens = await tokenService.rotate(refreshToken, async userId => {
+        user = await userRepository.getById(userId);
+        return user && this.isActive(user) ? user : null;
+      });
+      
+      return await this.storeSession(user!, tokens);
+      
+    } catch (error) {
+      await this.clearSession();
+      throw new Error(`Session refresh failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  // Admin action: lift a suspension, including failed-login lockouts
+  async unlockAccount(admin: AuthUser, userId: string): Promise<AuthUser> {
+    try {
+      if (!this.hasPermission(admin, 'customers.unlock')) {
+        throw new Error('You do not have permission to unlock accounts');
+      }
+      
+      const foundUser = await userRepository.getById(userId);
+      if (!foundUser) {
+        throw new Error('User not found');
+      }
+      
+      if (foundUser.status !== 'suspended') {
+        throw new Error('Account is not locked');
+      }
+      
+      const lockedUntil = foundUser.locked_until;
+      foundUser.status = 'active';
+      foundUser.locked_until = undefined;
+      foundUser.updated_at = new Date().toISOString();
+      await userRepository.unlockAccount(foundUser.id);
+      await loginThrottle.reset(foundUser.email);
+      
+      await this.logAuditEvent(admin.id, 'account_unlocked', foundUser.id,
+        { status: 'suspended', locked_until: lockedUntil },
+        { status: 'active', reason: 'admin_unlock' }
+      );
+      
+      return this.toAuthUser(foundUser);
+      
+    } catch (error) {
+      throw new Error(`Unlock failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  // super_admin action: list everyone with a staff role
+  async getStaffUsers(actor: AuthUser): Promise<AuthUser[]> {
+    if (!this.hasPermission(actor, 'roles.manage')) {
+      return [];
+    }
+    const users = await userRepository.list();
+    return users
+      .filter(u => permissionService.isStaffRole(u.role))
+      .map(u => this.toAuthUser(u));
+  }
+  
+  // super_admin action: move a user to another role and sign them out so new permissions apply
+  async assignUserRole(actor: AuthUser, userId: string, role: UserRole): Promise<AuthUser> {
+    try {
+      if (!this.hasPermission(actor, 'roles.manage')) {
+        throw new Error('Only a super admin can assign roles');
+      }
+      
+      if (actor.id === userId) {
+        throw new Error('You cannot change your own role');
+      }
+      
+      if (!permissionService.getRole(role)) {
+        throw new Error('Role not found');
+      }
+      
+      const foundUser = await userRepository.getById(userId);
+      if (!foundUser) {
+        throw new Error('User not found');
+      }
+      
+      const previousRole = foundUser.role;
+      foundUser.role = role;
+      foundUser.updated_at = new Date().toISOString();
+      await userRepository.setRole(foundUser.id, role);
+      await tokenService.revokeAllForUser(foundUser.id, 'role_changed');
+      
+      await this.logAuditEvent(actor.id, 'role_assigned', foundUser.id, { role: previousRole }, { role });
+      
+      return this.toAuthUser(foundUser);
+      
+    } catch (error) {
+      throw new Error(`Role assignment failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
   // Check if user has permission
-  hasPermission(user: AuthUser, permission: string): boolean {
-    const permissions = {
-      customer: ['view_products', 'create_order', 'view_own_orders', 'update_profile'],
-      admin: ['view_products', 'create_order', 'view_own_orders', 'update_profile', 'manage_products', 'manage_orders', 'view_analytics', 'manage_users'],
-      super_admin: ['*'] // All permissions
-    };
-    
-    if (user.role === 'super_admin') return true;
-    
-    const userPermissions = permissions[user.role] || [];
-    return userPermissions.includes(permission) || userPermissions.includes('*');
+  hasPermission(user: AuthUser | null | undefined, permission: Permission): boolean {
+    return permissionService.can(user, permission);
   }
 }
 
@@ -0,0 +1,198 @@
+/**
+ * Checkout Service
+ * Turns a cart into a placed order: checks it against current prices and stock, prices it and stores it in one step
+ */
+
+import { productRepository, orderRepository, AuthUser, Order, OrderItem, PaymentIntent, Product } from '../repositories';
+import { CHECKOUT_CONFIG } from '../constants';
+import { generateId } from '../utils';
+import { provisionalOrderNumber } from '../utils/orderNumber';
+import { computeTotals, roundMoney } from '../utils/orderTotals';
+import { customerContact } from '../utils/orderCustomer';
+import { authService } from './auth.simple';
+import { syncService, SyncState } from './sync';
+import { isOfflineError, isRequestError } from './request';
+
+// A cart line as the customer saw it; the product is the copy held in the cart
+export interface CheckoutLine {
+  product: Product;
+  quantity: number;
+}
+
+export interface CheckoutRequest {
+  customer: Pick<AuthUser, 'id' | 'email' | 'profile' | 'status'>;
+  lines: CheckoutLine[];
+  payment_method: Order['payment_method'];
+  notes?: string;
+}
+
+export type CheckoutIssue =
+  | { kind: 'empty_cart' }
+  | { kind: 'email_unverified' }
+  | { kind: 'ordering_unavailable' } // the backend cannot tell who is ordering; see the README's Supabase notes
+  | { kind: 'invalid_quantity'; product_id: string; name: string; quantity: number }
+  | { kind: 'unavailable'; product_id: string; name: string }
+  | { kind: 'price_changed'; product_id: string; name: string; previous_price: number; price: number }
+  | { kind: 'insufficient_stock'; product_id: string; name: string; requested: number; available: number }
+  | { kind: 'declined'; message: string }; // refused by the backend after the checks here passed
+
+export type CheckoutResult =
+  | { status: 'placed'; order: Order; payment_intent: PaymentIntent | null; sync_state: SyncState }
+  // `products` are the current copies of the cart's products, for bringing the cart up to date
+  | { status: 'rejected'; issues: CheckoutIssue[]; products: Product[] };
+
+// Re-exported so screens keep importing totals alongside the rest of checkout
+export { computeTotals } from '../utils/orderTotals';
+export type { CheckoutTotals } from '../utils/orderTotals';
+
+export const describeCheckoutIssue = (issue: CheckoutIssue): string => {
+  switch (issue.kind) {
+    case 'empty_cart':
+      return 'Your cart is empty';
+    case 'email_unverified':
+      return 'Please confirm your email address before placing an order';
+    case 'ordering_unavailable':
+      return 'Ordering is not available on this server yet';
+    case 'invalid_quantity':
+      return `${issue.name}: choose between 1 and ${CHECKOUT_CONFIG.maxQuantityPerItem}`;
+    case 'unavailable':
+      return `${issue.name} is no longer available`;
+    case 'price_changed':
+      return `${issue.name} now costs ₦${issue.price.toLocaleString()} (was ₦${issue.previous_price.toLocaleString()})`;
+    case 'insufficient_stock':
+      return issue.available > 0
+        ? `Only ${issue.available} of ${issue.name} left in stock`
+        : `${issue.name} is out of stock`;
+    case 'declined':
+      return issue.message;
+  }
+};
+
+class CheckoutService {
+  private static instance: CheckoutService;
+
+  public static getInstance(): CheckoutService {
+    if (!CheckoutService.instance) {
+      CheckoutService.instance = new CheckoutService();
+    }
+    return CheckoutService.instance;
+  }
+
+  /**
+   * Places the order, or explains why not. The order, its items and its payment intent are written
+   * together by the repository; offline they wait in the outbox as a single entry.
+   */
+  async placeOrder(request: CheckoutRequest): Promise<CheckoutResult> {
+    if (request.lines.length === 0) {
+      return { status: 'rejected', issues: [{ kind: 'empty_cart' }], products: [] };
+    }
+    // The backend refuses these too, including when a queued order replays
+    if (!authService.isEmailVerified(request.customer)) {
+      return { status: 'rejected', issues: [{ kind: 'email_unverified' }], products: [] };
+    }
+
+    const current = await this.currentProducts(request.lines);
+    const issues = this.validate(request.lines, current);
+    const products = current.filter((product): product is Product => product !== null);
+    if (issues.length > 0) {
+      return { status: 'rejected', issues, products };
+    }
+
+    const { order, payment } = this.buildOrder(request, products);
+    try {
+      const sync_state = await syncService.execute('order.place', order.id, { order, payment });
+      // The stored copy carries the number the backend assigned; a queued order keeps its provisional one until sync
+      const stored = sync_state === 'synced' ? await orderRepository.getById(order.id).catch(() => null) : null;
+      return { status: 'placed', order: stored || order, payment_intent: payment, sync_state };
+    } catch (error) {
+      // Prices or stock moved between the checks here and the transaction
+      if (isRequestError(error) && error.kind === 'validation') {
+        return { status: 'rejected', issues: [{ kind: 'declined', message: error.message.replace(/^.* failed: /, '') }], products };
+      }
+      if (isRequestError(error) && error.code === '42501') {
+        return { status: 'rejected', issues: [{ kind: 'ordering_unavailable' }], products };
+      }
+      throw error;
+    }
+  }
+
+  // Fresh copies from the backend. Offline, the cart's own copies stand in and the server checks again on replay
+  private async currentProducts(lines: CheckoutLine[]): Promise<Array<Product | null>> {
+    try {
+      return await Promise.all(lines.map(line => productRepository.getById(line.product.id)));
+    } catch (error) {
+      if (!isOfflineError(error)) throw error;
+      return lines.map(line => line.product);
+    }
+  }
+
+  private validate(lines: CheckoutLine[], current: Array<Product | null>): CheckoutIssue[] {
+    const issues: CheckoutIssue[] = [];
+    lines.forEach((line, index) => {
+      const product = current[index];
+      const { id: product_id, name } = line.product;
+      if (!Number.isInteger(line.quantity) || line.quantity < 1 || line.quantity > CHECKOUT_CONFIG.maxQuantityPerItem) {
+        issues.push({ kind: 'invalid_quantity', product_id, name, quantity: line.quantity });
+      } else if (!product || product.status !== 'active') {
+        issues.push({ kind: 'unavailable', product_id, name });
+      } else if (product.price !== line.product.price) {
+        issues.push({ kind: 'price_changed', product_id, name, previous_price: line.product.price, price: product.price });
+      } else if (product.stock_quantity < line.quantity) {
+        issues.push({ kind: 'insufficient_stock', product_id, name, requested: line.quantity, available: product.stock_quantity });
+      }
+    });
+    return issues;
+  }
+
+  // Priced from the current products, which validation has just matched against the cart
+  private buildOrder(request: CheckoutRequest, products: Product[]): { order: Order; payment: PaymentIntent | null } {
+    const now = new Date().toISOString();
+    const orderId = 'order_' + generateId();
+    const items: OrderItem[] = request.lines.map(line => {
+      const product = products.find(p => p.id === line.product.id)!;
+      return {
+        id: 'item_' + generateId(),
+        order_id: orderId,
+        product_id: product.id,
+        quantity: line.quantity,
+        unit_price: product.price,
+        total_price: roundMoney(product.price * line.quantity)
+      };
+    });
+    const address = request.customer.profile?.address || '';
+
+    const order: Order = {
+      id: orderId,
+      customer_id: request.customer.id,
+      ...customerContact(request.customer),
+      order_number: provisionalOrderNumber(new Date(now)),
+      status: 'pending',
+      payment_status: 'pending',
+      payment_method: request.payment_method,
+      ...computeTotals(items),
+      shipping_address: address,
+      billing_address: address,
+      notes: request.notes || '',
+      priority: 'medium',
+      order_items: items,
+      created_at: now,
+      updated_at: now
+    };
+
+    // Cash is collected on delivery; everything else is charged against an intent in kobo
+    const payment: PaymentIntent | null = request.payment_method === 'cash' ? null : {
+      id: 'pi_' + generateId(),
+      order_id: orderId,
+      amount: Math.round(order.total_amount * 100),
+      currency: 'NGN',
+      status: 'pending',
+      payment_method: request.payment_method,
+      created_at: now,
+      updated_at: now
+    };
+
+    return { order, payment };
+  }
+}
+
+export const checkoutService = CheckoutService.getInstance();
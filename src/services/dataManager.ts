@@ -3,15 +3,51 @@
  * Handles all data operations with proper synchronization and consistency
  */
 
-import { databaseService } from './database';
-import { storage } from '../../storageUtils';
+import { store, OutboxEntry } from '../../storageUtils';
+import {
+  productRepository,
+  orderRepository,
+  userRepository,
+  cartRepository,
+  notificationRepository,
+  updateWithMerge,
+  baseFor,
+  isConflictError,
+  ORDER_MERGE_RULES,
+  PRODUCT_MERGE_RULES,
+  AuthUser,
+  Product,
+  Order,
+  OrderStatus,
+  OrderEvent,
+  OrderEventType,
+  Notification
+} from '../repositories';
+import { syncService, SyncState, CartSnapshot, RecordUpdate, PlacedOrder } from './sync';
+import { checkoutService, CheckoutRequest, CheckoutResult } from './checkout';
+import { orderChangeService, OrderChangeRequest } from './orderChanges';
+import { requestService } from './request';
+import {
+  orderLifecycle,
+  planTransition,
+  assertTransition,
+  orderEvent,
+  eventsForChange,
+  OrderActor,
+  OrderTransitionRequest
+} from './orderLifecycle';
+import { generateId } from '../utils';
 
 export interface DataManagerState {
-  products: any[];
-  orders: any[];
-  customers: any[];
+  products: Product[];
+  orders: Order[];
+  customers: AuthUser[];
   cart: any[];
-  notifications: any[];
+  notifications: Notification[];
+  outbox: OutboxEntry[]; // changes made offline that have not reached the server yet
+  rejectedChanges: OutboxEntry[]; // queued changes the server refused, until dismissed
+  offline: boolean; // the backend is unreachable and requests are not being sent
+  orderEvents: Record<string, OrderEvent[]>; // histories loaded so far, by order id
 }
 
 class DataManager {
@@ -21,8 +57,16 @@ class DataManager {
     orders: [],
     customers: [],
     cart: [],
-    notifications: []
+    notifications: [],
+    outbox: [],
+    rejectedChanges: [],
+    offline: false,
+    orderEvents: {}
   };
+  private cartOwnerId: string | null = null;
+  private actor: OrderActor | null = null;
+  private unsubscribeSync: (() => void) | null = null;
+  private unsubscribeCircuit: (() => void) | null = null;
 
   // Subscribe to state changes
   subscribe(listener: (state: DataManagerState) => void): () => void {
@@ -45,8 +89,32 @@ class DataManager {
     try {
       console.log('🔄 Initializing Data Manager...');
       
+      // Track the outbox, and reload once queued changes reach the server
+      if (!this.unsubscribeSync) {
+        this.unsubscribeSync = syncService.subscribe((entries, synced, rejected) => {
+          this.state.outbox = entries;
+          this.state.rejectedChanges = rejected;
+          this.notifyListeners();
+          if (synced > 0) {
+            this.loadAllData().catch(error => console.error('❌ Error reloading after sync:', error));
+          }
+        });
+      }
+      this.state.outbox = await syncService.getEntries();
+      this.state.rejectedChanges = await syncService.getRejected();
+
+      // The request layer stops sending once the backend keeps failing; reflect that in the UI
+      if (!this.unsubscribeCircuit) {
+        this.unsubscribeCircuit = requestService.subscribe(circuit => {
+          this.state.offline = circuit === 'open';
+          this.notifyListeners();
+        });
+      }
+      this.state.offline = requestService.isOffline();
+      
       // Load all data from database
       await this.loadAllData();
+      syncService.start();
       
       console.log('✅ Data Manager initialized');
     } catch (error) {
@@ -61,25 +129,24 @@ class DataManager {
       console.log('📊 Loading all data...');
       
       // Load products
-      const products = await databaseService.getAllProducts();
+      const products = await productRepository.list();
       this.state.products = products;
       console.log('📦 Products loaded:', products.map(p => ({ id: p.id, name: p.name })));
       
-      // Load orders
-      const orders = await databaseService.getAllOrders();
+      // Load orders, keeping changes that are still waiting in the outbox
+      const orders = this.withQueuedOrderChanges(await orderRepository.list());
       this.state.orders = orders;
       
-      // Load customers
-      const customers = await databaseService.getAllUsers();
+      // Load customers; credentials stay with the auth service
+      const users = await userRepository.list();
+      const customers = users.map(({ password_hash, mfa, ...user }) => user);
       this.state.customers = customers;
       
-      // Load cart from local storage
-      const cartData = await storage.getItem('@zada_cart');
-      this.state.cart = cartData ? JSON.parse(cartData) : [];
+      // The cart belongs to this device, not to an account
+      this.state.cart = (await store.get<any[]>('cart')) || [];
       
       // Load notifications
-      const notificationsData = await storage.getItem('@zada_notifications');
-      this.state.notifications = notificationsData ? JSON.parse(notificationsData) : [];
+      this.state.notifications = await notificationRepository.list();
       
       console.log('📊 Data loaded:', {
         products: products.length,
@@ -97,14 +164,18 @@ class DataManager {
   }
 
   // Product Management
-  async addProduct(productData: any): Promise<void> {
+  async addProduct(productData: Omit<Product, 'id' | 'created_at' | 'updated_at'>): Promise<void> {
     try {
       console.log('➕ Adding product:', productData.name);
       
-      const newProduct = await databaseService.createProduct(productData);
+      const now = new Date().toISOString();
+      const newProduct = await productRepository.create({
+        ...productData,
+        id: 'prod_' + generateId(),
+        created_at: now,
+        updated_at: now
+      });
       this.state.products = [...this.state.products, newProduct];
-      
-      await this.saveProductsToStorage();
       this.notifyListeners();
       
       console.log('✅ Product added successfully. Total products:', this.state.products.length);
@@ -115,20 +186,30 @@ class DataManager {
     }
   }
 
-  async updateProduct(productId: string, productData: any): Promise<void> {
+  // `base` is the version the edit was made against; it defaults to the copy in state
+  async updateProduct(productId: string, productData: Partial<Product>, base?: Product): Promise<void> {
     try {
       console.log('✏️ Updating product:', productId);
       
-      const updatedProducts = this.state.products.map(p => 
-        p.id === productId ? { ...p, ...productData, updated_at: new Date().toISOString() } : p
+      const changes: Partial<Product> = {
+        ...productData,
+        updated_at: new Date().toISOString()
+      };
+      const original = base || this.state.products.find(p => p.id === productId);
+      const updatedProduct = await updateWithMerge(
+        productRepository, productId, baseFor(original, changes), changes, PRODUCT_MERGE_RULES
       );
       
-      this.state.products = updatedProducts;
-      await this.saveProductsToStorage();
+      this.state.products = this.state.products.map(p => p.id === productId ? updatedProduct : p);
       this.notifyListeners();
       
       console.log('✅ Product updated successfully');
     } catch (error) {
+      if (isConflictError(error)) {
+        // Show the stored version so the conflict prompt compares against it
+        this.state.products = this.state.products.map(p => p.id === productId ? error.current : p);
+        this.notifyListeners();
+      }
       console.error('❌ Error updating product:', error);
       throw error;
     }
@@ -138,8 +219,8 @@ class DataManager {
     try {
       console.log('🗑️ Deleting product:', productId);
       
+      await productRepository.remove(productId);
       this.state.products = this.state.products.filter(p => p.id !== productId);
-      await this.saveProductsToStorage();
       this.notifyListeners();
       
       console.log('✅ Product deleted successfully');
@@ -150,42 +231,239 @@ class DataManager {
   }
 
   // Order Management
-  async addOrder(orderData: any): Promise<void> {
+  async addOrder(orderData: Omit<Order, 'id' | 'created_at' | 'updated_at'>): Promise<void> {
     try {
       console.log('📦 Adding order:', orderData.order_number);
       
-      const newOrder = await databaseService.createOrder(orderData);
+      const now = new Date().toISOString();
+      const orderId = 'order_' + generateId();
+      const newOrder: Order = {
+        ...orderData,
+        id: orderId,
+        order_items: orderData.order_items?.map(item => ({ ...item, order_id: orderId })),
+        created_at: now,
+        updated_at: now
+      };
+      const syncState = await syncService.execute('order.create', newOrder.id, newOrder);
       this.state.orders = [...this.state.orders, newOrder];
-      
-      await this.saveOrdersToStorage();
       this.notifyListeners();
+      await this.recordOrderEvents(orderId, [{ type: 'created' }]);
       
-      console.log('✅ Order added successfully');
+      console.log(`✅ Order added successfully (${syncState})`);
     } catch (error) {
       console.error('❌ Error adding order:', error);
       throw error;
     }
   }
 
-  async updateOrder(orderId: string, orderData: any): Promise<void> {
+  // Checkout of the current cart. A placed order joins state and empties the cart; a rejected one
+  // brings the cart's products up to date so the customer sees what changed
+  async placeOrder(request: Omit<CheckoutRequest, 'lines'>): Promise<CheckoutResult> {
+    try {
+      console.log('📦 Placing order for', this.state.cart.length, 'cart lines');
+
+      const lines = this.state.cart.map(item => ({ product: item.product, quantity: item.quantity }));
+      const result = await checkoutService.placeOrder({ ...request, lines });
+      if (result.status === 'rejected') {
+        await this.refreshCartProducts(result.products);
+        console.log('⚠️ Checkout rejected:', result.issues.map(issue => issue.kind).join(', '));
+        return result;
+      }
+
+      this.state.orders = [...this.state.orders, result.order];
+      this.notifyListeners();
+      await this.recordOrderEvents(result.order.id, [{ type: 'created' }]);
+      await this.clearCart();
+
+      console.log(`✅ Order placed successfully (${result.sync_state})`);
+      return result;
+    } catch (error) {
+      console.error('❌ Error placing order:', error);
+      throw error;
+    }
+  }
+
+  private async refreshCartProducts(products: Product[]): Promise<void> {
+    if (products.length === 0) return;
+    this.state.products = this.state.products.map(p => products.find(current => current.id === p.id) || p);
+    this.state.cart = this.state.cart.map(item => {
+      const product = products.find(current => current.id === item.product.id);
+      return product
+        ? { ...item, product, unit_price: product.price, total_price: product.price * item.quantity }
+        : item;
+    });
+    await this.saveCartToStorage();
+    this.notifyListeners();
+  }
+
+  // `base` is the version the edit was made against; it defaults to the copy in state
+  async updateOrder(orderId: string, orderData: Partial<Order>, base?: Order): Promise<void> {
     try {
       console.log('✏️ Updating order:', orderId);
       
-      const updatedOrders = this.state.orders.map(o => 
-        o.id === orderId ? { ...o, ...orderData, updated_at: new Date().toISOString() } : o
-      );
+      const changes: Partial<Order> = {
+        ...orderData,
+        updated_at: new Date().toISOString()
+      };
+      const original = base || this.state.orders.find(o => o.id === orderId);
+      if (original && orderData.status) {
+        assertTransition(original, orderData.status);
+      }
+      const update: RecordUpdate<Order> = { base: baseFor(original, changes), changes };
+      const syncState = await syncService.execute('order.update', orderId, update);
       
-      this.state.orders = updatedOrders;
-      await this.saveOrdersToStorage();
+      // A merged write may differ from what was sent, so read back what was stored
+      const saved = syncState === 'synced' ? await orderRepository.getById(orderId) : null;
+      this.state.orders = this.state.orders.map(o => o.id === orderId ? saved || { ...o, ...changes } : o);
       this.notifyListeners();
+      if (original) {
+        await this.recordOrderEvents(orderId, eventsForChange(original, orderData));
+      }
       
-      console.log('✅ Order updated successfully');
+      console.log(`✅ Order updated successfully (${syncState})`);
     } catch (error) {
+      if (isConflictError(error)) {
+        this.state.orders = this.state.orders.map(o => o.id === orderId ? error.current : o);
+        this.notifyListeners();
+      }
       console.error('❌ Error updating order:', error);
       throw error;
     }
   }
 
+  // Status changes go through the order lifecycle, which refuses illegal moves. It stores the move and runs
+  // its side effects and history when the change reaches the server; offline, that waits for the outbox
+  async transitionOrder(orderId: string, status: OrderStatus, reason?: string): Promise<void> {
+    const order = this.state.orders.find(o => o.id === orderId) || await orderRepository.getById(orderId);
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    const { changes, effects } = planTransition(order, status, reason);
+    const request: OrderTransitionRequest = { from: order.status, to: status, reason, actor: this.actor };
+    let syncState: SyncState;
+    try {
+      syncState = await syncService.execute('order.transition', orderId, request);
+    } catch (error) {
+      // Moved on by someone else: show the order as it is now
+      await this.reloadOrder(orderId);
+      throw error;
+    }
+
+    if (syncState !== 'synced') {
+      this.state.orders = this.state.orders.map(o => o.id === orderId ? { ...o, ...changes } : o);
+      this.notifyListeners();
+      console.log(`✅ Order ${status} queued (${syncState})`);
+      return;
+    }
+
+    // Read back what was stored, which shows whether a refund went through
+    await this.reloadOrder(orderId);
+    if (this.state.orderEvents[orderId]) {
+      await this.loadOrderEvents(orderId).catch(error => console.error('❌ Error reloading order history:', error));
+    }
+    if (effects.includes('restock')) {
+      this.state.products = await productRepository.list();
+      this.notifyListeners();
+    }
+  }
+
+  // Another attempt at a refund that failed when the order was cancelled or refunded; throws if it fails again
+  async retryRefund(orderId: string): Promise<void> {
+    const order = await orderRepository.getById(orderId);
+    if (!order) {
+      throw new Error('Order not found');
+    }
+    await orderLifecycle.retryRefund(order);
+    await this.reloadOrder(orderId);
+  }
+
+  private async reloadOrder(orderId: string): Promise<void> {
+    try {
+      const current = await orderRepository.getById(orderId);
+      if (current) {
+        this.state.orders = this.state.orders.map(o => o.id === orderId ? current : o);
+        this.notifyListeners();
+      }
+    } catch (error) {
+      console.error('❌ Error reloading order:', error);
+    }
+  }
+
+  // A customer cancelling their own order inside the grace window
+  async cancelOwnOrder(orderId: string, reason?: string): Promise<void> {
+    const order = this.state.orders.find(o => o.id === orderId) || await orderRepository.getById(orderId);
+    if (!order) {
+      throw new Error('Order not found');
+    }
+    const saved = await orderChangeService.cancel(order, reason);
+    await this.applyOwnOrderChange(saved, eventsForChange(order, saved));
+  }
+
+  // A customer changing quantities or the delivery address of their own order inside the grace window
+  async changeOwnOrder(orderId: string, request: OrderChangeRequest): Promise<void> {
+    const order = this.state.orders.find(o => o.id === orderId) || await orderRepository.getById(orderId);
+    if (!order) {
+      throw new Error('Order not found');
+    }
+    const saved = await orderChangeService.modify(order, request);
+    const changed = [request.quantities && 'quantities', request.shipping_address !== undefined && 'delivery address'].filter(Boolean);
+    await this.applyOwnOrderChange(saved, [{ type: 'modified', note: `Changed ${changed.join(' and ')}` }]);
+  }
+
+  // The backend moved stock along with the change, so products are reloaded too
+  private async applyOwnOrderChange(saved: Order, events: Array<{ type: OrderEventType; note?: string }>): Promise<void> {
+    this.state.orders = this.state.orders.map(o => o.id === saved.id ? saved : o);
+    this.notifyListeners();
+    await this.recordOrderEvents(saved.id, events);
+    try {
+      this.state.products = await productRepository.list();
+      this.notifyListeners();
+    } catch (error) {
+      console.error('❌ Error reloading products after order change:', error);
+    }
+  }
+
+  // Order history: stored events plus any still waiting in the outbox
+  async loadOrderEvents(orderId: string): Promise<void> {
+    const stored = await orderRepository.listEvents(orderId);
+    const queued = this.state.outbox
+      .filter(entry => entry.type === 'order.event' && entry.payload.order_id === orderId)
+      .map(entry => entry.payload as OrderEvent)
+      .filter(event => !stored.some(existing => existing.id === event.id));
+    this.state.orderEvents = {
+      ...this.state.orderEvents,
+      [orderId]: [...stored, ...queued].sort((a, b) => a.created_at.localeCompare(b.created_at))
+    };
+    this.notifyListeners();
+  }
+
+  // Who is making changes, for the order history; set on sign-in
+  setActor(actor: OrderActor | null): void {
+    this.actor = actor;
+  }
+
+  // Never fails the order change being recorded; offline events wait in the outbox like any write
+  private async recordOrderEvents(orderId: string, events: Array<{ type: OrderEventType; note?: string }>): Promise<void> {
+    for (const { type, note } of events) {
+      const event = orderEvent(orderId, type, this.actor, note);
+      try {
+        await syncService.execute('order.event', event.id, event);
+        if (this.state.orderEvents[orderId]) {
+          this.state.orderEvents = {
+            ...this.state.orderEvents,
+            [orderId]: [...this.state.orderEvents[orderId], event]
+          };
+        }
+      } catch (error) {
+        console.error(`❌ Error recording ${type} for order ${orderId}:`, error);
+      }
+    }
+    if (events.length > 0) {
+      this.notifyListeners();
+    }
+  }
+
   // Cart Management
   async addToCart(product: any, quantity: number = 1): Promise<void> {
     try {
@@ -269,12 +547,17 @@ class DataManager {
   }
 
   // Notification Management
-  async addNotification(notification: any): Promise<void> {
+  async addNotification(notification: Omit<Notification, 'id' | 'status' | 'created_at'>): Promise<void> {
     try {
       console.log('🔔 Adding notification:', notification.title);
       
-      this.state.notifications = [notification, ...this.state.notifications];
-      await this.saveNotificationsToStorage();
+      const newNotification = await notificationRepository.create({
+        ...notification,
+        id: 'notif_' + generateId(),
+        status: 'unread',
+        created_at: new Date().toISOString()
+      });
+      this.state.notifications = [newNotification, ...this.state.notifications];
       this.notifyListeners();
       
       console.log('✅ Notification added successfully');
@@ -288,12 +571,12 @@ class DataManager {
     try {
       console.log('✅ Marking notification as read:', notificationId);
       
-      const notification = this.state.notifications.find(n => n.id === notificationId);
-      if (notification) {
-        notification.read = true;
-        await this.saveNotificationsToStorage();
-        this.notifyListeners();
-      }
+      const updatedNotification = await notificationRepository.update(notificationId, {
+        status: 'read',
+        read_at: new Date().toISOString()
+      });
+      this.state.notifications = this.state.notifications.map(n => n.id === notificationId ? updatedNotification : n);
+      this.notifyListeners();
       
       console.log('✅ Notification marked as read');
     } catch (error) {
@@ -302,21 +585,96 @@ class DataManager {
     }
   }
 
+  // The signed-in customer's cart is mirrored to the server; null signs the cart out
+  async setCartOwner(userId: string | null): Promise<void> {
+    this.cartOwnerId = userId;
+    if (!userId) return;
+
+    if (this.state.cart.length > 0) {
+      await this.queueCartSync();
+      return;
+    }
+
+    // Restore the cart saved from another session or device
+    try {
+      const saved = await cartRepository.list({ user_id: userId });
+      const cart = saved
+        .map(item => {
+          const product = this.state.products.find(p => p.id === item.product_id);
+          return product && {
+            product,
+            quantity: item.quantity,
+            unit_price: product.price,
+            total_price: product.price * item.quantity
+          };
+        })
+        .filter(Boolean);
+      if (cart.length > 0) {
+        this.state.cart = cart;
+        await store.set('cart', this.state.cart);
+        this.notifyListeners();
+      }
+    } catch (error) {
+      console.error('❌ Error restoring cart:', error);
+    }
+  }
+
   // Storage persistence methods
-  private async saveProductsToStorage(): Promise<void> {
-    await storage.setItem('@zada_products', JSON.stringify(this.state.products));
+  private async saveCartToStorage(): Promise<void> {
+    await store.set('cart', this.state.cart);
+    await this.queueCartSync();
   }
 
-  private async saveOrdersToStorage(): Promise<void> {
-    await storage.setItem('@zada_orders', JSON.stringify(this.state.orders));
+  // The device copy is already saved, so a failed server write never fails the cart change
+  private async queueCartSync(): Promise<void> {
+    if (!this.cartOwnerId) return;
+    const snapshot: CartSnapshot = {
+      user_id: this.cartOwnerId,
+      items: this.state.cart.map(item => ({ product_id: item.product.id, quantity: item.quantity }))
+    };
+    try {
+      await syncService.execute('cart.replace', this.cartOwnerId, snapshot);
+    } catch (error) {
+      console.error('❌ Error syncing cart:', error);
+    }
   }
 
-  private async saveCartToStorage(): Promise<void> {
-    await storage.setItem('@zada_cart', JSON.stringify(this.state.cart));
+  // Queued creates are appended and queued updates reapplied, oldest first
+  private withQueuedOrderChanges(orders: Order[]): Order[] {
+    return this.state.outbox.reduce((result, entry) => {
+      if (entry.type === 'order.create' && !result.some(o => o.id === entry.entity_id)) {
+        return [...result, entry.payload as Order];
+      }
+      if (entry.type === 'order.place' && !result.some(o => o.id === entry.entity_id)) {
+        return [...result, (entry.payload as PlacedOrder).order];
+      }
+      if (entry.type === 'order.update') {
+        return result.map(o => o.id === entry.entity_id ? { ...o, ...entry.payload.changes } : o);
+      }
+      return result;
+    }, orders);
+  }
+
+  // A retry while offline probes the backend straight away rather than after the circuit cooldown
+  async retrySync(): Promise<void> {
+    const wasOffline = this.state.offline;
+    requestService.resetCircuit();
+    await syncService.flush();
+    if (wasOffline) {
+      await this.loadAllData();
+    }
+  }
+
+  async discardQueuedChange(entryId: string): Promise<void> {
+    await syncService.discard(entryId);
   }
 
-  private async saveNotificationsToStorage(): Promise<void> {
-    await storage.setItem('@zada_notifications', JSON.stringify(this.state.notifications));
+  // A refused or failed change outranks the ones queued behind it
+  getSyncState(entityId: string): SyncState {
+    if (this.state.rejectedChanges.some(entry => entry.entity_id === entityId)) return 'rejected';
+    const entries = this.state.outbox.filter(entry => entry.entity_id === entityId);
+    if (entries.length === 0) return 'synced';
+    return entries.some(entry => entry.status === 'failed') ? 'failed' : entries[entries.length - 1].status;
   }
 
   // Data consistency methods
@@ -332,15 +690,15 @@ class DataManager {
   }
 
   // Get filtered data
-  getProducts(): any[] {
+  getProducts(): Product[] {
     return [...this.state.products];
   }
 
-  getOrders(): any[] {
+  getOrders(): Order[] {
     return [...this.state.orders];
   }
 
-  getCustomers(): any[] {
+  getCustomers(): AuthUser[] {
     return [...this.state.customers];
   }
 
@@ -348,19 +706,17 @@ class DataManager {
     return [...this.state.cart];
   }
 
-  getNotifications(): any[] {
+  getNotifications(): Notification[] {
     return [...this.state.notifications];
   }
 
   // Get data by user
-  getOrdersByUser(userId: string): any[] {
+  getOrdersByUser(userId: string): Order[] {
     return this.state.orders.filter(order => order.customer_id === userId);
   }
 
-  getNotificationsByUser(userId: string): any[] {
-    return this.state.notifications.filter(notification => 
-      !notification.userId || notification.userId === userId
-    );
+  getNotificationsByUser(userId: string): Notification[] {
+    return this.state.notifications.filter(notification => notification.user_id === userId);
   }
 
   // Calculate totals
@@ -374,7 +730,7 @@ class DataManager {
 
   getUnreadNotificationCount(userId?: string): number {
     const userNotifications = userId ? this.getNotificationsByUser(userId) : this.state.notifications;
-    return userNotifications.filter(n => !n.read).length;
+    return userNotifications.filter(n => n.status === 'unread').length;
   }
 }
 
@@ -0,0 +1,71 @@
+/**
+ * Device Service
+ * Identifies this install so sessions and sign-in throttling can be tied to a device
+ */
+
+import { Platform } from 'react-native';
+import { storage } from '../../storageUtils';
+import { generateId } from '../utils';
+
+export interface DeviceInfo {
+  device_id: string;
+  device_name: string;
+  platform: string;
+  ip_address: string;
+}
+
+class DeviceService {
+  private static instance: DeviceService;
+
+  public static getInstance(): DeviceService {
+    if (!DeviceService.instance) {
+      DeviceService.instance = new DeviceService();
+    }
+    return DeviceService.instance;
+  }
+
+  // Stable identifier for this install
+  async getDeviceId(): Promise<string> {
+    const existingId = await storage.getItem('@zada_device_id');
+    if (existingId) return existingId;
+
+    const deviceId = 'device_' + generateId();
+    await storage.setItem('@zada_device_id', deviceId);
+    return deviceId;
+  }
+
+  // Human-readable name shown in the "Your devices" list
+  getDeviceName(): string {
+    if (Platform.OS === 'web') {
+      const userAgent: string = (globalThis as any).navigator?.userAgent || '';
+      const browser = /Edg\//.test(userAgent) ? 'Edge'
+        : /Chrome\//.test(userAgent) ? 'Chrome'
+        : /Firefox\//.test(userAgent) ? 'Firefox'
+        : /Safari\//.test(userAgent) ? 'Safari'
+        : 'Web browser';
+      return `${browser} on the web`;
+    }
+
+    const constants = Platform.constants as Record<string, any>;
+    if (Platform.OS === 'android') {
+      const model = [constants.Brand, constants.Model].filter(Boolean).join(' ');
+      return model || 'Android device';
+    }
+    if (Platform.OS === 'ios') {
+      return `${constants.interfaceIdiom === 'pad' ? 'iPad' : 'iPhone'} (iOS ${Platform.Version})`;
+    }
+    return Platform.OS;
+  }
+
+  // The app has no way to learn its public IP; a backend fills this in from the request
+  async getDeviceInfo(): Promise<DeviceInfo> {
+    return {
+      device_id: await this.getDeviceId(),
+      device_name: this.getDeviceName(),
+      platform: Platform.OS,
+      ip_address: 'unknown'
+    };
+  }
+}
+
+export const deviceService = DeviceService.getInstance();
@@ -0,0 +1,178 @@
+/**
+ * Invitation Service
+ * super_admin-issued staff invitations delivered as expiring single-purpose links
+ */
+
+import { Platform } from 'react-native';
+import { staffInvitationRepository, StaffInvitation } from '../repositories';
+import { tokenService } from './token';
+import { permissionService, StaffRole, UserRole } from './permissions';
+import { messagingService } from './messaging';
+import { auditService } from './audit';
+import { validateEmail } from '../utils';
+
+export const INVITATION_TTL_DAYS = 7;
+const INVITE_LINK_BASE = 'zada://invite';
+
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+export type { StaffInvitation } from '../repositories';
+
+export interface InvitationSummary extends StaffInvitation {
+  status: InvitationStatus;
+}
+
+interface InvitationActor {
+  id: string;
+  role: UserRole;
+}
+
+class InvitationService {
+  private static instance: InvitationService;
+
+  public static getInstance(): InvitationService {
+    if (!InvitationService.instance) {
+      InvitationService.instance = new InvitationService();
+    }
+    return InvitationService.instance;
+  }
+
+  private getStatus(invitation: StaffInvitation): InvitationStatus {
+    if (invitation.accepted_at) return 'accepted';
+    if (invitation.revoked_at) return 'revoked';
+    if (new Date(invitation.expires_at).getTime() <= Date.now()) return 'expired';
+    return 'pending';
+  }
+
+  private requireManager(actor: InvitationActor): void {
+    if (!permissionService.can(actor, 'roles.manage')) {
+      throw new Error('Only a super admin can manage staff invitations');
+    }
+  }
+
+  private async logAuditEvent(actorId: string, action: string, invitation: StaffInvitation): Promise<void> {
+    await auditService.logEvent({
+      user_id: actorId,
+      action,
+      resource_type: 'staff_invitation',
+      resource_id: invitation.id,
+      new_values: { email: invitation.email, role: invitation.role },
+      ip_address: 'unknown',
+      user_agent: Platform.OS
+    });
+  }
+
+  buildInviteLink(token: string): string {
+    return `${INVITE_LINK_BASE}?token=${encodeURIComponent(token)}`;
+  }
+
+  // Accept either a full invite link or the bare token pasted from it
+  extractToken(linkOrToken: string): string {
+    const match = linkOrToken.match(/[?&]token=([^&\s]+)/);
+    return match ? decodeURIComponent(match[1]) : linkOrToken.trim();
+  }
+
+  async createInvitation(actor: InvitationActor, email: string, role: StaffRole): Promise<InvitationSummary> {
+    try {
+      this.requireManager(actor);
+
+      const normalizedEmail = email.trim().toLowerCase();
+      if (!validateEmail(normalizedEmail)) {
+        throw new Error('Invalid email format');
+      }
+      if (!permissionService.getRole(role) || !permissionService.isStaffRole(role)) {
+        throw new Error('Invitations must be for a staff role');
+      }
+
+      const invitations = await staffInvitationRepository.list({ email: normalizedEmail });
+      const pending = invitations.find(i => this.getStatus(i) === 'pending');
+      if (pending) {
+        throw new Error('A pending invitation already exists for this email. Revoke it to send a new one.');
+      }
+
+      const now = Date.now();
+      const id = 'invite_' + now;
+      const { token, hash } = tokenService.issueToken(id);
+      const invitation: StaffInvitation = {
+        id,
+        email: normalizedEmail,
+        role,
+        invited_by: actor.id,
+        created_at: new Date(now).toISOString(),
+        expires_at: new Date(now + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+        token_hash: hash
+      };
+      await staffInvitationRepository.create(invitation);
+
+      const roleName = permissionService.getRole(role)?.name || role;
+
+      await messagingService.send({
+        channel: 'email',
+        to: invitation.email,
+        subject: 'You have been invited to ZADA',
+        body: `You have been invited to join ZADA as a ${roleName}. Open this link in the ZADA app to create your account:\n\n${this.buildInviteLink(token)}\n\nThe invitation expires in ${INVITATION_TTL_DAYS} days.`
+      });
+
+      await this.logAuditEvent(actor.id, 'staff_invited', invitation);
+
+      return { ...invitation, status: 'pending' };
+    } catch (error) {
+      throw new Error(`Invitation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async listInvitations(actor: InvitationActor): Promise<InvitationSummary[]> {
+    this.requireManager(actor);
+    const invitations = await staffInvitationRepository.list();
+    return invitations
+      .map(invitation => ({ ...invitation, status: this.getStatus(invitation) }))
+      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+  }
+
+  async revokeInvitation(actor: InvitationActor, invitationId: string): Promise<void> {
+    try {
+      this.requireManager(actor);
+
+      const invitation = await staffInvitationRepository.getById(invitationId);
+      if (!invitation) {
+        throw new Error('Invitation not found');
+      }
+      if (this.getStatus(invitation) !== 'pending') {
+        throw new Error('Only pending invitations can be revoked');
+      }
+
+      await staffInvitationRepository.update(invitationId, { revoked_at: new Date().toISOString(), revoked_by: actor.id });
+
+      await this.logAuditEvent(actor.id, 'staff_invitation_revoked', invitation);
+    } catch (error) {
+      throw new Error(`Revoke failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Check a token from an invite link against its still-pending invitation record
+  async verifyInvitation(token: string): Promise<StaffInvitation> {
+    const parsed = tokenService.parseToken(token);
+    const invitation = parsed && (await staffInvitationRepository.findByToken(parsed.id, tokenService.hashToken(parsed)));
+    if (!invitation || !tokenService.matchesToken(parsed!, invitation.token_hash)) {
+      throw new Error('This invitation link is not valid');
+    }
+
+    const status = this.getStatus(invitation);
+    if (status === 'expired') {
+      throw new Error('This invitation has expired. Ask for a new one.');
+    }
+    if (status !== 'pending') {
+      throw new Error(`This invitation has been ${status === 'accepted' ? 'used already' : status}`);
+    }
+
+    return invitation;
+  }
+
+  // For an invitation verifyInvitation returned; refused if it was spent or revoked in the meantime
+  async markAccepted(invitation: StaffInvitation, userId: string): Promise<void> {
+    await staffInvitationRepository.markAccepted(invitation.id, invitation.token_hash, userId);
+    await this.logAuditEvent(userId, 'staff_invitation_accepted', invitation);
+  }
+}
+
+export const invitationService = InvitationService.getInstance();
@@ -0,0 +1,117 @@
+/**
+ * Login Throttle Service
+ * Tracks failed sign-in attempts per email and per device with exponential backoff
+ */
+
+import { storage } from '../../storageUtils';
+import { deviceService } from './device';
+
+export const MAX_FAILED_LOGIN_ATTEMPTS = 5;
+export const LOCKOUT_DURATION_MINUTES = 15; // lock_account caps lockouts at app_settings 'sign_in', so keep the two in step
+
+const BACKOFF_BASE_SECONDS = 1;
+const BACKOFF_MAX_SECONDS = 5 * 60;
+// Failures older than this no longer count towards backoff or lockout
+const ATTEMPT_WINDOW_MINUTES = 60;
+
+interface AttemptRecord {
+  failures: number;
+  last_failure_at: string;
+  next_attempt_at: string;
+}
+
+export interface ThrottleStatus {
+  allowed: boolean;
+  retry_after_seconds: number;
+}
+
+class LoginThrottleService {
+  private static instance: LoginThrottleService;
+
+  public static getInstance(): LoginThrottleService {
+    if (!LoginThrottleService.instance) {
+      LoginThrottleService.instance = new LoginThrottleService();
+    }
+    return LoginThrottleService.instance;
+  }
+
+  private async loadAttempts(): Promise<Record<string, AttemptRecord>> {
+    const attemptsData = await storage.getItem('@zada_login_attempts');
+    return attemptsData ? JSON.parse(attemptsData) : {};
+  }
+
+  private async saveAttempts(attempts: Record<string, AttemptRecord>): Promise<void> {
+    await storage.setItem('@zada_login_attempts', JSON.stringify(attempts));
+  }
+
+  private async getKeys(email: string): Promise<string[]> {
+    const deviceId = await deviceService.getDeviceId();
+    return [`email:${email.toLowerCase()}`, `device:${deviceId}`];
+  }
+
+  private isStale(record: AttemptRecord): boolean {
+    const age = Date.now() - new Date(record.last_failure_at).getTime();
+    return age > ATTEMPT_WINDOW_MINUTES * 60 * 1000;
+  }
+
+  // First failure is free, then 1s, 2s, 4s... capped at BACKOFF_MAX_SECONDS
+  private getBackoffSeconds(failures: number): number {
+    if (failures < 2) return 0;
+    return Math.min(BACKOFF_BASE_SECONDS * Math.pow(2, failures - 2), BACKOFF_MAX_SECONDS);
+  }
+
+  // Check whether another attempt is allowed yet for this email and device
+  async check(email: string): Promise<ThrottleStatus> {
+    const attempts = await this.loadAttempts();
+    const keys = await this.getKeys(email);
+
+    const waitUntil = keys.reduce((latest, key) => {
+      const record = attempts[key];
+      if (!record || this.isStale(record)) return latest;
+      return Math.max(latest, new Date(record.next_attempt_at).getTime());
+    }, 0);
+
+    const retryAfterMs = waitUntil - Date.now();
+    return {
+      allowed: retryAfterMs <= 0,
+      retry_after_seconds: retryAfterMs > 0 ? Math.ceil(retryAfterMs / 1000) : 0
+    };
+  }
+
+  // Record a failed attempt and return the failure count for the email
+  async recordFailure(email: string): Promise<number> {
+    const attempts = await this.loadAttempts();
+    const keys = await this.getKeys(email);
+    const now = Date.now();
+
+    keys.forEach(key => {
+      const previous = attempts[key];
+      const failures = previous && !this.isStale(previous) ? previous.failures + 1 : 1;
+      attempts[key] = {
+        failures,
+        last_failure_at: new Date(now).toISOString(),
+        next_attempt_at: new Date(now + this.getBackoffSeconds(failures) * 1000).toISOString()
+      };
+    });
+
+    await this.saveAttempts(attempts);
+    return attempts[keys[0]].failures;
+  }
+
+  // Clear failures for the email and this device after a successful sign-in
+  async recordSuccess(email: string): Promise<void> {
+    const attempts = await this.loadAttempts();
+    const keys = await this.getKeys(email);
+    keys.forEach(key => delete attempts[key]);
+    await this.saveAttempts(attempts);
+  }
+
+  // Forget failures for an email, e.g. when an admin unlocks the account
+  async reset(email: string): Promise<void> {
+    const attempts = await this.loadAttempts();
+    delete attempts[`email:${email.toLowerCase()}`];
+    await this.saveAttempts(attempts);
+  }
+}
+
+export const loginThrottle = LoginThrottleService.getInstance();
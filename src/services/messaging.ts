@@ -0,0 +1,65 @@
+/**
+ * Messaging Service
+ * Delivers transactional email and SMS through a pluggable sender. Development builds log messages to
+ * the console; a release build sends nothing until a real provider is set with setSender
+ */
+
+export type MessageChannel = 'email' | 'sms';
+
+export interface OutgoingMessage {
+  channel: MessageChannel;
+  to: string;
+  subject?: string;
+  body: string;
+}
+
+export interface MessageSender {
+  send(message: OutgoingMessage): Promise<void>;
+}
+
+// Development only: messages carry sign-in codes and links, so they are logged and never kept
+export class ConsoleMessageSender implements MessageSender {
+  async send(message: OutgoingMessage): Promise<void> {
+    if (!__DEV__) {
+      throw new Error('The console sender is for development builds only');
+    }
+    console.log(`📨 [${message.channel}] to ${message.to}${message.subject ? ` - ${message.subject}` : ''}\n${message.body}`);
+  }
+}
+
+class MessagingService {
+  private static instance: MessagingService;
+  private senders: Partial<Record<MessageChannel, MessageSender>> = __DEV__
+    ? { email: new ConsoleMessageSender(), sms: new ConsoleMessageSender() }
+    : {};
+
+  public static getInstance(): MessagingService {
+    if (!MessagingService.instance) {
+      MessagingService.instance = new MessagingService();
+    }
+    return MessagingService.instance;
+  }
+
+  // Swap in a real provider at startup, for one channel or for both
+  setSender(sender: MessageSender, channel?: MessageChannel): void {
+    if (channel) {
+      this.senders[channel] = sender;
+    } else {
+      this.senders = { email: sender, sms: sender };
+    }
+  }
+
+  async send(message: OutgoingMessage): Promise<void> {
+    const sender = this.senders[message.channel];
+    if (!sender) {
+      throw new Error(`Message delivery failed: no ${message.channel} provider is configured`);
+    }
+    try {
+      await sender.send(message);
+    } catch (error) {
+      throw new Error(`Message delivery failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+export const messagingService = MessagingService.getInstance();
@@ -3,19 +3,10 @@
  * Web-compatible notification system
  */
 
-import { storage } from '../../storageUtils';
+import { notificationRepository, Notification } from '../repositories';
+import { generateId } from '../utils';
 
-export interface Notification {
-  id: string;
-  user_id: string;
-  type: 'order' | 'message' | 'system' | 'promotion';
-  title: string;
-  content: string;
-  data: Record<string, any>;
-  status: 'unread' | 'read' | 'dismissed';
-  created_at: string;
-  read_at?: string;
-}
+export type { Notification };
 
 class NotificationService {
   private static instance: NotificationService;
@@ -38,7 +29,7 @@ class NotificationService {
   ): Promise<Notification> {
     try {
       const notification: Notification = {
-        id: 'notif_' + Date.now(),
+        id: 'notif_' + generateId(),
         user_id: userId,
         type,
         title,
@@ -48,11 +39,7 @@ class NotificationService {
         created_at: new Date().toISOString()
       };
       
-      // Store notification
-      const notificationsData = await storage.getItem('@zada_notifications');
-      const notifications: Notification[] = notificationsData ? JSON.parse(notificationsData) : [];
-      notifications.push(notification);
-      await storage.setItem('@zada_notifications', JSON.stringify(notifications));
+      await notificationRepository.create(notification);
       
       // Notify listeners
       this.notifyListeners(notification);
@@ -75,13 +62,7 @@ class NotificationService {
     }
   ): Promise<Notification[]> {
     try {
-      const notificationsData = await storage.getItem('@zada_notifications');
-      if (!notificationsData) return [];
-      
-      let notifications: Notification[] = JSON.parse(notificationsData);
-      
-      // Filter by user
-      notifications = notifications.filter(n => n.user_id === userId);
+      let notifications = await notificationRepository.list({ user_id: userId });
       
       // Apply filters
       if (filters?.type) {
@@ -114,17 +95,10 @@ class NotificationService {
   // Mark notification as read
   async markAsRead(notificationId: string): Promise<void> {
     try {
-      const notificationsData = await storage.getItem('@zada_notifications');
-      if (!notificationsData) return;
-      
-      const notifications: Notification[] = JSON.parse(notificationsData);
-      const notification = notifications.find(n => n.id === notificationId);
-      
-      if (notification) {
-        notification.status = 'read';
-        notification.read_at = new Date().toISOString();
-        await storage.setItem('@zada_notifications', JSON.stringify(notifications));
-      }
+      await notificationRepository.update(notificationId, {
+        status: 'read',
+        read_at: new Date().toISOString()
+      });
     } catch (error) {
       console.error('Error marking notification as read:', error);
     }
@@ -133,18 +107,11 @@ class NotificationService {
   // Mark all notifications as read
   async markAllAsRead(userId: string): Promise<void> {
     try {
-      const notificationsData = await storage.getItem('@zada_notifications');
-      if (!notificationsData) return;
-      
-      const notifications: Notification[] = JSON.parse(notificationsData);
-      const userNotifications = notifications.filter(n => n.user_id === userId && n.status === 'unread');
-      
-      userNotifications.forEach(notification => {
-        notification.status = 'read';
-        notification.read_at = new Date().toISOString();
-      });
-      
-      await storage.setItem('@zada_notifications', JSON.stringify(notifications));
+      const unread = await notificationRepository.list({ user_id: userId, status: 'unread' });
+      const readAt = new Date().toISOString();
+      for (const notification of unread) {
+        await notificationRepository.update(notification.id, { status: 'read', read_at: readAt });
+      }
     } catch (error) {
       console.error('Error marking all notifications as read:', error);
     }
@@ -153,11 +120,8 @@ class NotificationService {
   // Get unread count
   async getUnreadCount(userId: string): Promise<number> {
     try {
-      const notificationsData = await storage.getItem('@zada_notifications');
-      if (!notificationsData) return 0;
-      
-      const notifications: Notification[] = JSON.parse(notificationsData);
-      return notifications.filter(n => n.user_id === userId && n.status === 'unread').length;
+      const unread = await notificationRepository.list({ user_id: userId, status: 'unread' });
+      return unread.length;
     } catch (error) {
       console.error('Error getting unread count:', error);
       return 0;
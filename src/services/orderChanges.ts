@@ -0,0 +1,120 @@
+/**
+ * Order Changes
+ * The grace window after checkout in which a customer may cancel a pending order or change its quantities and delivery address
+ */
+
+import { orderRepository, Order, OrderAmendment } from '../repositories';
+import { ORDER_CHANGE_CONFIG } from '../constants';
+import { orderLifecycle, planTransition } from './orderLifecycle';
+import { isOfflineError, isRequestError } from './request';
+
+export interface OrderChangeRequest {
+  quantities?: Record<string, number>; // by order item id; 0 removes the item
+  shipping_address?: string;
+}
+
+export const changeWindowEndsAt = (order: Order): Date =>
+  new Date(new Date(order.created_at).getTime() + ORDER_CHANGE_CONFIG.windowMinutes * 60000);
+
+// Why the customer can no longer change the order, or null while they still can
+export const changeBlockedReason = (order: Order, now: number = Date.now()): string | null => {
+  if (order.status !== 'pending') {
+    return 'This order can no longer be changed';
+  }
+  if (now > changeWindowEndsAt(order).getTime()) {
+    return `Orders can only be changed within ${ORDER_CHANGE_CONFIG.windowMinutes} minutes of being placed`;
+  }
+  return null;
+};
+
+export const canCustomerChange = (order: Order, now?: number): boolean => changeBlockedReason(order, now) === null;
+
+// Raised for a change the customer may not make; the message is meant for them
+export class OrderChangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OrderChangeError';
+  }
+}
+
+export const isOrderChangeError = (error: unknown): error is OrderChangeError => error instanceof OrderChangeError;
+
+class OrderChangeService {
+  private static instance: OrderChangeService;
+
+  public static getInstance(): OrderChangeService {
+    if (!OrderChangeService.instance) {
+      OrderChangeService.instance = new OrderChangeService();
+    }
+    return OrderChangeService.instance;
+  }
+
+  // The backend releases the reserved stock and tells the staff who process orders; money already taken is refunded from
+  // here, and the order read back shows whether that refund went through
+  async cancel(order: Order, reason?: string): Promise<Order> {
+    this.assertChangeable(order);
+    const { changes, effects } = planTransition(order, 'cancelled', reason || 'Cancelled by customer');
+    const saved = await this.amend(order, {
+      changes: { status: 'cancelled', cancellation_reason: changes.cancellation_reason }
+    });
+    if (!effects.includes('refund_payment')) return saved;
+    await orderLifecycle.runEffects(saved, 'cancelled', ['refund_payment']);
+    return (await orderRepository.getById(order.id).catch(() => null)) || saved;
+  }
+
+  // Quantities keep the price the order was placed at; the backend moves stock by the difference and reprices the order
+  async modify(order: Order, request: OrderChangeRequest): Promise<Order> {
+    this.assertChangeable(order);
+    const amendment: OrderAmendment = { changes: {} };
+
+    if (request.quantities) {
+      if (order.payment_status === 'paid') {
+        throw new OrderChangeError('A paid order can be cancelled but its items cannot be changed');
+      }
+      const items = (order.order_items || [])
+        .map(item => ({ ...item, quantity: request.quantities![item.id] ?? item.quantity }))
+        .filter(item => item.quantity > 0);
+      if (items.length === 0) {
+        throw new OrderChangeError('An order needs at least one item; cancel it instead');
+      }
+      amendment.quantities = request.quantities;
+    }
+
+    if (request.shipping_address !== undefined) {
+      const address = request.shipping_address.trim();
+      if (!address) {
+        throw new OrderChangeError('Please enter a delivery address');
+      }
+      amendment.changes.shipping_address = address;
+    }
+
+    return this.amend(order, amendment);
+  }
+
+  private assertChangeable(order: Order): void {
+    const blocked = changeBlockedReason(order);
+    if (blocked) {
+      throw new OrderChangeError(blocked);
+    }
+  }
+
+  // Not queued offline: the window may have closed by the time it replays, and stock is checked as the change is made
+  private async amend(order: Order, amendment: OrderAmendment): Promise<Order> {
+    try {
+      return await orderRepository.amend(order.id, amendment);
+    } catch (error) {
+      if (isOfflineError(error)) {
+        throw new OrderChangeError('You need to be online to change an order');
+      }
+      if (isRequestError(error) && error.kind === 'validation') {
+        throw new OrderChangeError(error.message.replace(/^.* failed: /, ''));
+      }
+      if (isRequestError(error) && error.code === '42501') {
+        throw new OrderChangeError('Orders cannot be changed on this server yet');
+      }
+      throw error;
+    }
+  }
+}
+
+export const orderChangeService = OrderChangeService.getInstance();
@@ -0,0 +1,333 @@
+/**
+ * Order Lifecycle
+ * The order state machine: which status changes are allowed, what must hold first and what follows them
+ */
+
+import {
+  productRepository,
+  orderRepository,
+  paymentRepository,
+  updateWithMerge,
+  isConflictError,
+  PRODUCT_MERGE_RULES,
+  ORDER_MERGE_RULES,
+  Order,
+  OrderStatus,
+  OrderEvent,
+  OrderEventType
+} from '../repositories';
+import { notificationService } from './notification.simple';
+import { paymentService } from './payment';
+import { generateId } from '../utils';
+
+export type OrderEffect =
+  | 'notify_customer'
+  | 'restock' // stock reserved at checkout goes back on the shelf
+  | 'refund_payment'; // money received for the order is returned, and only then is the order marked refunded
+
+interface Transition {
+  to: OrderStatus;
+  effects: OrderEffect[];
+  guard?: (order: Order) => string | null; // why the move is refused, or null when it is allowed
+}
+
+const paidOrCashOnDelivery = (order: Order): string | null =>
+  order.payment_status === 'paid' || order.payment_method === 'cash'
+    ? null
+    : 'Payment must be received before the order ships';
+
+const paid = (order: Order): string | null =>
+  order.payment_status === 'paid' ? null : 'Only paid orders can be refunded';
+
+// Cancelled and refunded are final; a delivered order can only be refunded. Any cancellation puts back
+// the stock the order reserved at checkout, if it reserved any
+const TRANSITIONS: Record<OrderStatus, Transition[]> = {
+  pending: [
+    { to: 'confirmed', effects: ['notify_customer'] },
+    { to: 'processing', effects: ['notify_customer'] },
+    { to: 'cancelled', effects: ['notify_customer', 'restock', 'refund_payment'] }
+  ],
+  confirmed: [
+    { to: 'processing', effects: ['notify_customer'] },
+    { to: 'cancelled', effects: ['notify_customer', 'restock', 'refund_payment'] }
+  ],
+  processing: [
+    { to: 'shipped', effects: ['notify_customer'], guard: paidOrCashOnDelivery },
+    { to: 'cancelled', effects: ['notify_customer', 'restock', 'refund_payment'] }
+  ],
+  shipped: [
+    { to: 'delivered', effects: ['notify_customer'] },
+    { to: 'cancelled', effects: ['notify_customer', 'restock', 'refund_payment'] } // returned undelivered
+  ],
+  delivered: [
+    { to: 'refunded', effects: ['notify_customer', 'refund_payment'], guard: paid }
+  ],
+  cancelled: [],
+  refunded: []
+};
+
+export const ORDER_STATUSES = Object.keys(TRANSITIONS) as OrderStatus[];
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  processing: 'Processing',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+  refunded: 'Refunded'
+};
+
+export const ORDER_EVENT_LABELS: Record<OrderEventType, string> = {
+  created: 'Order placed',
+  paid: 'Payment received',
+  confirmed: 'Confirmed',
+  processing: 'Being prepared',
+  assigned: 'Assigned to driver',
+  out_for_delivery: 'Out for delivery',
+  delivery_update: 'Delivery update',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+  refunded: 'Refunded',
+  modified: 'Changed by customer'
+};
+
+// The history entry each status records; shipped orders are on the road
+const STATUS_EVENTS: Partial<Record<OrderStatus, OrderEventType>> = {
+  confirmed: 'confirmed',
+  processing: 'processing',
+  shipped: 'out_for_delivery',
+  delivered: 'delivered',
+  cancelled: 'cancelled',
+  refunded: 'refunded'
+};
+
+// Who made a change, as shown in the order history
+export interface OrderActor {
+  id: string;
+  name: string;
+}
+
+export const orderEvent = (orderId: string, type: OrderEventType, actor: OrderActor | null, note?: string): OrderEvent => ({
+  id: 'evt_' + generateId(),
+  order_id: orderId,
+  type,
+  actor_id: actor?.id ?? null,
+  actor_name: actor?.name ?? 'System',
+  ...(note ? { note } : {}),
+  created_at: new Date().toISOString()
+});
+
+// The history entries an update to an order calls for, with the note each one carries
+export const eventsForChange = (order: Order, changes: Partial<Order>): Array<{ type: OrderEventType; note?: string }> => {
+  const events: Array<{ type: OrderEventType; note?: string }> = [];
+  const changed = <K extends keyof Order>(field: K) => changes[field] !== undefined && changes[field] !== order[field];
+
+  if (changed('payment_status') && changes.payment_status === 'paid') {
+    events.push({ type: 'paid' });
+  }
+  if (changed('driver_name') && changes.driver_name) {
+    events.push({ type: 'assigned', note: changes.driver_name });
+  }
+  if (changed('status') && STATUS_EVENTS[changes.status!]) {
+    events.push({ type: STATUS_EVENTS[changes.status!]!, note: changes.status === 'cancelled' ? changes.cancellation_reason : undefined });
+  }
+  if (changed('delivery_status') && changes.delivery_status) {
+    events.push({ type: 'delivery_update', note: changes.delivery_status });
+  }
+  return events;
+};
+
+// Raised for a move the state machine does not allow, or one whose guard refuses it
+export class OrderTransitionError extends Error {
+  constructor(readonly from: OrderStatus, readonly to: OrderStatus, reason?: string) {
+    super(reason || `An order cannot go from ${ORDER_STATUS_LABELS[from] || from} to ${ORDER_STATUS_LABELS[to] || to}`);
+    this.name = 'OrderTransitionError';
+  }
+}
+
+export const isOrderTransitionError = (error: unknown): error is OrderTransitionError =>
+  error instanceof OrderTransitionError;
+
+// Statuses the order may move to next; a guarded move is listed even while its guard refuses it
+export const nextStatuses = (order: Order): OrderStatus[] =>
+  (TRANSITIONS[order.status] || []).map(transition => transition.to);
+
+export const canTransition = (order: Order, to: OrderStatus): boolean => {
+  const transition = (TRANSITIONS[order.status] || []).find(t => t.to === to);
+  return !!transition && !transition.guard?.(order);
+};
+
+export interface TransitionPlan {
+  changes: Partial<Order>;
+  effects: OrderEffect[];
+}
+
+// The field changes for a move and the effects to run once they are stored; throws if the move is not allowed
+export const planTransition = (order: Order, to: OrderStatus, reason?: string): TransitionPlan => {
+  const transition = (TRANSITIONS[order.status] || []).find(t => t.to === to);
+  if (!transition) {
+    throw new OrderTransitionError(order.status, to);
+  }
+  const refused = transition.guard?.(order);
+  if (refused) {
+    throw new OrderTransitionError(order.status, to, refused);
+  }
+
+  const now = new Date().toISOString();
+  const changes: Partial<Order> = { status: to };
+  if (to === 'shipped') changes.shipped_at = now;
+  if (to === 'delivered') changes.delivered_at = now;
+  if (to === 'cancelled' && reason) changes.cancellation_reason = reason;
+  // Orders from before checkout reserved stock never took any, so there is nothing to put back
+  const effects = transition.effects.filter(effect => effect !== 'restock' || order.stock_reserved);
+  if (effects.includes('restock')) changes.stock_reserved = false;
+  return { changes, effects };
+};
+
+// Cancelled or refunded while still marked paid: the refund has not gone through yet
+export const isRefundOwed = (order: Order): boolean =>
+  order.payment_status === 'paid' && (order.status === 'cancelled' || order.status === 'refunded');
+
+// For writes that carry a status: an unchanged status passes, anything else must be an allowed move
+export const assertTransition = (order: Order, to: OrderStatus): void => {
+  if (order.status !== to) {
+    planTransition(order, to);
+  }
+};
+
+// A status change as planned on the device: `from` is the status it was planned against
+export interface OrderTransitionRequest {
+  from: OrderStatus;
+  to: OrderStatus;
+  reason?: string;
+  actor: OrderActor | null;
+}
+
+// A write that lands between reading the order and storing the move is read again, this many times
+const TRANSITION_ATTEMPTS = 3;
+
+class OrderLifecycleService {
+  private static instance: OrderLifecycleService;
+
+  public static getInstance(): OrderLifecycleService {
+    if (!OrderLifecycleService.instance) {
+      OrderLifecycleService.instance = new OrderLifecycleService();
+    }
+    return OrderLifecycleService.instance;
+  }
+
+  /**
+   * Stores a planned status change and then runs what follows it. The status is written against the
+   * updated_at just read, so it only ever moves from `request.from`; an order someone else has already
+   * moved to `request.to` is left alone, and their change ran the effects. History is recorded from the
+   * stored result. Returns the stored order, or null when there was nothing to do.
+   */
+  async applyTransition(orderId: string, request: OrderTransitionRequest): Promise<Order | null> {
+    for (let attempt = 1; ; attempt++) {
+      const current = await orderRepository.getById(orderId);
+      if (!current) {
+        throw new OrderTransitionError(request.from, request.to, 'Order not found');
+      }
+      if (current.status === request.to) return null;
+      if (current.status !== request.from) {
+        throw new OrderTransitionError(current.status, request.to);
+      }
+
+      const { changes, effects } = planTransition(current, request.to, request.reason);
+      let stored: Order;
+      try {
+        stored = await orderRepository.update(
+          orderId,
+          { ...changes, updated_at: new Date().toISOString() },
+          { expectedUpdatedAt: current.updated_at }
+        );
+      } catch (error) {
+        if (isConflictError(error) && attempt < TRANSITION_ATTEMPTS) continue;
+        throw error;
+      }
+
+      // The move is stored, so from here failures are logged: a retry would find it already made
+      for (const { type, note } of eventsForChange(current, stored)) {
+        await orderRepository.appendEvent(orderEvent(orderId, type, request.actor, note))
+          .catch(error => console.error(`❌ Order ${stored.order_number}: recording ${type} failed:`, error));
+      }
+      await this.runEffects(stored, request.to, effects);
+      return stored;
+    }
+  }
+
+  // Runs after the status change is stored; a failed effect is logged and does not undo the change.
+  // A refund that fails leaves the order paid, where isRefundOwed picks it up for retryRefund
+  async runEffects(order: Order, to: OrderStatus, effects: OrderEffect[]): Promise<void> {
+    for (const effect of effects) {
+      try {
+        await this.runEffect(order, to, effect);
+      } catch (error) {
+        console.error(`❌ Order ${order.order_number}: ${effect} failed:`, error);
+      }
+    }
+  }
+
+  private async runEffect(order: Order, to: OrderStatus, effect: OrderEffect): Promise<void> {
+    switch (effect) {
+      case 'notify_customer':
+        await notificationService.createNotification(
+          order.customer_id,
+          'order',
+          'Order Status Updated',
+          `Your order ${order.order_number} is now ${ORDER_STATUS_LABELS[to].toLowerCase()}`,
+          { order_id: order.id, status: to }
+        );
+        return;
+      case 'restock':
+        return this.restock(order);
+      case 'refund_payment':
+        return this.refund(order);
+    }
+  }
+
+  private async restock(order: Order): Promise<void> {
+    const items = order.order_items || (await orderRepository.getById(order.id))?.order_items || [];
+    for (const item of items) {
+      const product = await productRepository.getById(item.product_id);
+      if (!product) continue;
+      // Stock merges as a delta, so a concurrent stock edit is kept rather than overwritten
+      await updateWithMerge(
+        productRepository,
+        product.id,
+        { stock_quantity: product.stock_quantity, updated_at: product.updated_at },
+        { stock_quantity: product.stock_quantity + item.quantity, updated_at: new Date().toISOString() },
+        PRODUCT_MERGE_RULES
+      );
+    }
+  }
+
+  // Tries again to return the money for a cancelled or refunded order whose refund failed
+  async retryRefund(order: Order): Promise<void> {
+    if (!isRefundOwed(order)) return;
+    await this.refund(order);
+  }
+
+  // Cash is handed back in person; card and transfer payments are refunded through the provider. Payments
+  // already refunded are skipped, so a retry picks up where a failed attempt stopped
+  private async refund(order: Order): Promise<void> {
+    if (order.payment_status !== 'paid') return;
+    const payments = await paymentRepository.listForOrders([order.id]);
+    for (const payment of payments.filter(p => p.status === 'succeeded')) {
+      const result = await paymentService.refundPayment(payment.id);
+      if (!result.success) {
+        throw new Error(result.error || 'Refund failed');
+      }
+    }
+    await updateWithMerge(
+      orderRepository,
+      order.id,
+      { payment_status: order.payment_status, updated_at: order.updated_at },
+      { payment_status: 'refunded', updated_at: new Date().toISOString() },
+      ORDER_MERGE_RULES
+    );
+  }
+}
+
+export const orderLifecycle = OrderLifecycleService.getInstance();
@@ -3,37 +3,16 @@
  * Comprehensive payment processing with multiple providers
  */
 
-import { db } from '../config/database';
+import {
+  paymentRepository,
+  paymentMethodRepository,
+  orderRepository,
+  PaymentIntent,
+  PaymentMethod
+} from '../repositories';
+import { generateId } from '../utils';
 
-export interface PaymentMethod {
-  id: string;
-  type: 'card' | 'bank_transfer' | 'mobile_money' | 'cash';
-  provider: 'stripe' | 'paystack' | 'flutterwave' | 'cash';
-  details: {
-    last4?: string;
-    brand?: string;
-    expiry_month?: number;
-    expiry_year?: number;
-    bank_name?: string;
-    account_number?: string;
-    phone_number?: string;
-  };
-  is_default: boolean;
-  created_at: string;
-}
-
-export interface PaymentIntent {
-  id: string;
-  order_id: string;
-  amount: number;
-  currency: string;
-  status: 'pending' | 'processing' | 'succeeded' | 'failed' | 'cancelled' | 'refunded';
-  payment_method: string;
-  provider_transaction_id?: string;
-  failure_reason?: string;
-  created_at: string;
-  updated_at: string;
-}
+export type { PaymentIntent, PaymentMethod };
 
 export interface PaymentResult {
   success: boolean;
@@ -93,25 +72,20 @@ class PaymentService {
     currency: string,
     paymentMethod: string
   ): Promise<PaymentIntent> {
-    const paymentIntentData = {
-      order_id: orderId,
-      amount: Math.round(amount * 100), // Convert to kobo/cents
-      currency: currency.toUpperCase(),
-      status: 'pending' as const,
-      payment_method: paymentMethod,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
-    };
-    
-    const { data, error } = await db.supabase
-      .from('payment_intents')
-      .insert([paymentIntentData])
-      .select()
-      .single();
-    
-    if (error) throw new Error(`Failed to create payment intent: ${error.message}`);
-    
-    return data;
+    try {
+      return await paymentRepository.create({
+        id: 'pi_' + generateId(),
+        order_id: orderId,
+        amount: Math.round(amount * 100), // Convert to kobo/cents
+        currency: currency.toUpperCase(),
+        status: 'pending',
+        payment_method: paymentMethod,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      });
+    } catch (error) {
+      throw new Error(`Failed to create payment intent: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   }
   
   // Process card payment (Stripe/Paystack)
@@ -219,7 +193,7 @@ class PaymentService {
     providerTransactionId?: string,
     failureReason?: string
   ): Promise<void> {
-    const updateData: any = {
+    const updateData: Partial<PaymentIntent> = {
       status,
       updated_at: new Date().toISOString()
     };
@@ -232,26 +206,18 @@ class PaymentService {
       updateData.failure_reason = failureReason;
     }
     
-    const { error } = await db.supabase
-      .from('payment_intents')
-      .update(updateData)
-      .eq('id', paymentIntentId);
-    
-    if (error) throw new Error(`Failed to update payment status: ${error.message}`);
+    try {
+      await paymentRepository.update(paymentIntentId, updateData);
+    } catch (error) {
+      throw new Error(`Failed to update payment status: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   }
   
   // Get payment methods for user
   async getUserPaymentMethods(userId: string): Promise<PaymentMethod[]> {
     try {
-      const { data, error } = await db.supabase
-        .from('payment_methods')
-        .select('*')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false });
-      
-      if (error) throw new Error(`Failed to get payment methods: ${error.message}`);
-      
-      return data || [];
+      const methods = await paymentMethodRepository.list({ user_id: userId });
+      return methods.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
     } catch (error) {
       console.error('Error getting payment methods:', error);
       return [];
@@ -269,30 +235,21 @@ class PaymentService {
     try {
       // If this is set as default, unset other defaults
       if (isDefault) {
-        await db.supabase
-          .from('payment_methods')
-          .update({ is_default: false })
-          .eq('user_id', userId);
+        const defaults = await paymentMethodRepository.list({ user_id: userId, is_default: true });
+        for (const method of defaults) {
+          await paymentMethodRepository.update(method.id, { is_default: false });
+        }
       }
       
-      const paymentMethodData = {
+      return await paymentMethodRepository.create({
+        id: 'pm_' + generateId(),
         user_id: userId,
         type,
         provider,
         details,
         is_default: isDefault,
         created_at: new Date().toISOString()
-      };
-      
-      const { data, error } = await db.supabase
-        .from('payment_methods')
-        .insert([paymentMethodData])
-        .select()
-        .single();
-      
-      if (error) throw new Error(`Failed to add payment method: ${error.message}`);
-      
-      return data;
+      });
     } catch (error) {
       console.error('Error adding payment method:', error);
       throw error;
@@ -302,12 +259,7 @@ class PaymentService {
   // Remove payment method
   async removePaymentMethod(paymentMethodId: string): Promise<void> {
     try {
-      const { error } = await db.supabase
-        .from('payment_methods')
-        .delete()
-        .eq('id', paymentMethodId);
-      
-      if (error) throw new Error(`Failed to remove payment method: ${error.message}`);
+      await paymentMethodRepository.remove(paymentMethodId);
     } catch (error) {
       console.error('Error removing payment method:', error);
       throw error;
@@ -317,13 +269,8 @@ class PaymentService {
   // Refund payment
   async refundPayment(paymentIntentId: string, amount?: number): Promise<PaymentResult> {
     try {
-      const { data: paymentIntent, error: fetchError } = await db.supabase
-        .from('payment_intents')
-        .select('*')
-        .eq('id', paymentIntentId)
-        .single();
-      
-      if (fetchError) throw new Error(`Failed to get payment intent: ${fetchError.message}`);
+      const paymentIntent = await paymentRepository.getById(paymentIntentId);
+      if (!paymentIntent) throw new Error('Payment intent not found');
       
       if (paymentIntent.status !== 'succeeded') {
         throw new Error('Can only refund successful payments');
@@ -364,39 +311,25 @@ class PaymentService {
     }
   ): Promise<PaymentIntent[]> {
     try {
-      let query = db.supabase
-        .from('payment_intents')
-        .select(`
-          *,
-          orders(order_number, total_amount)
-        `)
-        .eq('orders.customer_id', userId);
+      const orders = await orderRepository.list({ customer_id: userId });
+      let payments = await paymentRepository.listForOrders(orders.map(o => o.id));
       
       if (filters?.status) {
-        query = query.eq('status', filters.status);
+        payments = payments.filter(p => p.status === filters.status);
       }
       
       if (filters?.date_from) {
-        query = query.gte('created_at', filters.date_from);
+        payments = payments.filter(p => p.created_at >= filters.date_from!);
       }
       
       if (filters?.date_to) {
-        query = query.lte('created_at', filters.date_to);
-      }
-      
-      if (filters?.limit) {
-        query = query.limit(filters.limit);
+        payments = payments.filter(p => p.created_at <= filters.date_to!);
       }
       
-      if (filters?.offset) {
-        query = query.range(filters.offset, filters.offset + (filters.limit || 10) - 1);
-      }
-      
-      const { data, error } = await query.order('created_at', { ascending: false });
-      
-      if (error) throw new Error(`Failed to get payment history: ${error.message}`);
+      payments.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
       
-      return data || [];
+      const offset = filters?.offset || 0;
+      return payments.slice(offset, filters?.limit ? offset + filters.limit : undefined);
     } catch (error) {
       console.error('Error getting payment history:', error);
       return [];
@@ -0,0 +1,116 @@
+/**
+ * Permission Service
+ * Role-to-permission assignments, kept in the role permission repository so the backend enforces the same
+ * sets; the registry and defaults are in src/utils/roles.ts
+ */
+
+import { Platform } from 'react-native';
+import { rolePermissionRepository } from '../repositories';
+import { auditService } from './audit';
+import {
+  PERMISSIONS,
+  RESERVED_PERMISSIONS,
+  DEFAULT_ROLES,
+  Permission,
+  RoleDefinition,
+  UserRole,
+  applyRoleOverrides,
+  roleHasPermission
+} from '../utils/roles';
+
+export { PERMISSIONS, DEFAULT_ROLES } from '../utils/roles';
+export type { Permission, StaffRole, UserRole, RoleDefinition } from '../utils/roles';
+
+interface RoleActor {
+  id: string;
+  role: UserRole;
+}
+
+class PermissionService {
+  private static instance: PermissionService;
+  private roles: RoleDefinition[] = DEFAULT_ROLES;
+
+  public static getInstance(): PermissionService {
+    if (!PermissionService.instance) {
+      PermissionService.instance = new PermissionService();
+    }
+    return PermissionService.instance;
+  }
+
+  // Load role assignments saved by a super_admin; defaults apply until this runs
+  async initialize(): Promise<void> {
+    try {
+      this.roles = applyRoleOverrides(await rolePermissionRepository.list());
+    } catch (error) {
+      console.error('Error loading role permissions:', error);
+      this.roles = DEFAULT_ROLES;
+    }
+  }
+
+  getRoles(): RoleDefinition[] {
+    return this.roles;
+  }
+
+  getRole(roleId: UserRole): RoleDefinition | undefined {
+    return this.roles.find(role => role.id === roleId);
+  }
+
+  getStaffRoles(): RoleDefinition[] {
+    return this.roles.filter(role => role.id !== 'customer');
+  }
+
+  isStaffRole(roleId: UserRole): boolean {
+    return roleId !== 'customer';
+  }
+
+  can(user: { role: UserRole } | null | undefined, permission: Permission): boolean {
+    if (!user) return false;
+    return roleHasPermission(this.roles, user.role, permission);
+  }
+
+  // super_admin only: replace the permission set of one role
+  async updateRolePermissions(actor: RoleActor, roleId: UserRole, permissions: Permission[]): Promise<RoleDefinition> {
+    try {
+      if (!this.can(actor, 'roles.manage')) {
+        throw new Error('Only a super admin can change role permissions');
+      }
+
+      const role = this.getRole(roleId);
+      if (!role) {
+        throw new Error('Role not found');
+      }
+      if (!role.editable) {
+        throw new Error(`${role.name} permissions cannot be changed`);
+      }
+
+      const nextPermissions = Array.from(new Set(permissions)).filter(p =>
+        p in PERMISSIONS && !RESERVED_PERMISSIONS.includes(p)
+      );
+
+      const saved = { permissions: nextPermissions, updated_by: actor.id, updated_at: new Date().toISOString() };
+      if (await rolePermissionRepository.getById(roleId)) {
+        await rolePermissionRepository.update(roleId, saved);
+      } else {
+        await rolePermissionRepository.create({ id: roleId, ...saved, created_at: saved.updated_at });
+      }
+      this.roles = applyRoleOverrides(await rolePermissionRepository.list());
+
+      await auditService.logEvent({
+        user_id: actor.id,
+        action: 'role_permissions_updated',
+        resource_type: 'role',
+        resource_id: roleId,
+        old_values: { permissions: role.permissions },
+        new_values: { permissions: nextPermissions },
+        ip_address: 'unknown',
+        user_agent: Platform.OS
+      });
+
+      return this.getRole(roleId)!;
+    } catch (error) {
+      throw new Error(`Role update failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+export const permissionService = PermissionService.getInstance();
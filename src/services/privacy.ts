@@ -0,0 +1,94 @@
+/**
+ * Privacy Service
+ * Customer data export and pseudonymization of records kept after account deletion
+ */
+
+import {
+  userRepository,
+  orderRepository,
+  messageRepository,
+  notificationRepository,
+  Order,
+  OrderEvent,
+  ChatMessage,
+  Notification,
+  CustomerErasure
+} from '../repositories';
+import { orderLifecycle } from './orderLifecycle';
+
+export const DATA_EXPORT_FORMAT_VERSION = 2;
+
+export interface UserDataExport {
+  format_version: number;
+  exported_at: string;
+  profile: Record<string, any>;
+  addresses: any[];
+  orders: Order[];
+  order_events: OrderEvent[]; // added in format version 2
+  messages: ChatMessage[];
+  notifications: Notification[];
+}
+
+export type PseudonymizationResult = CustomerErasure;
+
+class PrivacyService {
+  private static instance: PrivacyService;
+
+  public static getInstance(): PrivacyService {
+    if (!PrivacyService.instance) {
+      PrivacyService.instance = new PrivacyService();
+    }
+    return PrivacyService.instance;
+  }
+
+  // Everything we hold about a customer; `profile` must already be free of credentials
+  async buildExport(profile: { id: string; profile?: { address?: string } } & Record<string, any>): Promise<UserDataExport> {
+    try {
+      const userId = profile.id;
+      const orders = await orderRepository.list({ customer_id: userId });
+      const orderEvents = (await Promise.all(orders.map(order => orderRepository.listEvents(order.id)))).flat();
+      const messages = await messageRepository.listForUser(userId);
+      const notifications = await notificationRepository.list({ user_id: userId });
+
+      // Profile address first, then every distinct address an order was delivered to
+      const addresses: any[] = [];
+      const seen = new Set<string>();
+      [profile.profile?.address, ...orders.map(o => o.shipping_address)].forEach(address => {
+        if (!address || (typeof address === 'object' && Object.keys(address).length === 0)) return;
+        const key = JSON.stringify(address);
+        if (!seen.has(key)) {
+          seen.add(key);
+          addresses.push(address);
+        }
+      });
+
+      return {
+        format_version: DATA_EXPORT_FORMAT_VERSION,
+        exported_at: new Date().toISOString(),
+        profile,
+        addresses,
+        orders,
+        order_events: orderEvents,
+        messages,
+        notifications
+      };
+    } catch (error) {
+      throw new Error(`Data export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Cancel open orders, strip personal data from the orders kept for accounting, delete the rest and leave
+  // the account a tombstone. The backend puts back the stock; paid orders it cancelled are refunded here, and there is no one left to notify
+  async pseudonymizeUserData(userId: string): Promise<PseudonymizationResult> {
+    const result = await userRepository.eraseCustomerData(userId);
+    for (const orderId of result.cancelled_order_ids) {
+      const order = await orderRepository.getById(orderId);
+      if (order) {
+        await orderLifecycle.runEffects(order, 'cancelled', ['refund_payment']);
+      }
+    }
+    return result;
+  }
+}
+
+export const privacyService = PrivacyService.getInstance();
@@ -0,0 +1,237 @@
+/**
+ * Request Service
+ * Timeouts, retries with backoff and a circuit breaker around every call to the backend
+ */
+
+import { API_CONFIG } from '../constants';
+
+export type RequestErrorKind =
+  | 'network' // no response: offline, DNS, connection reset
+  | 'timeout'
+  | 'circuit_open' // not sent; the backend is considered unreachable
+  | 'server' // 5xx or rate limited
+  | 'auth' // missing session or not allowed by row level security
+  | 'validation' // rejected by a constraint or a malformed request
+  | 'conflict' // unique violation or a concurrent change
+  | 'not_found'
+  | 'unknown';
+
+// Transient kinds may succeed if the same request is sent again
+const TRANSIENT_KINDS: RequestErrorKind[] = ['network', 'timeout', 'server'];
+
+export class RequestError extends Error {
+  constructor(
+    message: string,
+    readonly kind: RequestErrorKind,
+    readonly status?: number,
+    readonly code?: string
+  ) {
+    super(message);
+    this.name = 'RequestError';
+  }
+
+  get transient(): boolean {
+    return TRANSIENT_KINDS.includes(this.kind);
+  }
+}
+
+export const isRequestError = (error: unknown): error is RequestError => error instanceof RequestError;
+
+// True when the server could not be reached, so a write should wait in the outbox rather than fail
+export const isOfflineError = (error: unknown): boolean =>
+  isRequestError(error) && (error.kind === 'network' || error.kind === 'timeout' || error.kind === 'circuit_open');
+
+interface BackendError {
+  message: string;
+  code?: string;
+}
+
+// The shape PostgREST builders resolve to
+export interface BackendResponse {
+  data: any;
+  error: BackendError | null;
+  status?: number;
+  count?: number | null;
+}
+
+// Postgres SQLSTATE and PostgREST codes, then HTTP status
+export const classifyError = (error: BackendError, status?: number): RequestErrorKind => {
+  const code = error.code || '';
+  if (/^AbortError/.test(error.message)) return 'timeout';
+  if (status === 0 || (!status && /fetch|network/i.test(error.message))) return 'network';
+  if (code === '23505' || status === 409) return 'conflict';
+  if (code === 'PGRST116' || status === 404) return 'not_found';
+  if (code === '42501' || code.startsWith('PGRST3') || status === 401 || status === 403) return 'auth';
+  if (code.startsWith('22') || code.startsWith('23') || code.startsWith('PGRST1') || status === 400 || status === 422) return 'validation';
+  if (status === 429 || (status !== undefined && status >= 500)) return 'server';
+  return 'unknown';
+};
+
+export interface RequestOptions {
+  // Reads, keyed updates and deletes can be repeated without changing the outcome
+  idempotent?: boolean;
+  // Makes a write safe to repeat, e.g. an insert with a client-generated primary key
+  idempotencyKey?: string;
+  timeout?: number;
+  retries?: number;
+}
+
+export interface RequestResult<R> {
+  response: R;
+  attempts: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+type CircuitListener = (state: CircuitState) => void;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+class RequestService {
+  private static instance: RequestService;
+  private circuit: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private listeners: Set<CircuitListener> = new Set();
+
+  public static getInstance(): RequestService {
+    if (!RequestService.instance) {
+      RequestService.instance = new RequestService();
+    }
+    return RequestService.instance;
+  }
+
+  subscribe(listener: CircuitListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getCircuitState(): CircuitState {
+    return this.circuit;
+  }
+
+  isOffline(): boolean {
+    return this.circuit === 'open';
+  }
+
+  private setCircuit(state: CircuitState): void {
+    if (this.circuit === state) return;
+    this.circuit = state;
+    console.log(state === 'open' ? '📴 Backend unreachable, working offline' : `🔌 Circuit ${state.replace('_', ' ')}`);
+    this.listeners.forEach(listener => listener(state));
+  }
+
+  // After the cooldown one trial request is let through; its outcome closes or reopens the circuit
+  private admit(): boolean {
+    if (this.circuit === 'open' && Date.now() - this.openedAt >= API_CONFIG.circuitCooldown) {
+      this.setCircuit('half_open');
+    }
+    if (this.circuit === 'open') return false;
+    if (this.circuit === 'half_open') {
+      if (this.trialInFlight) return false;
+      this.trialInFlight = true;
+    }
+    return true;
+  }
+
+  private recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+    this.setCircuit('closed');
+  }
+
+  private recordFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+    if (this.circuit === 'half_open' || this.consecutiveFailures >= API_CONFIG.circuitFailureThreshold) {
+      this.openedAt = Date.now();
+      this.setCircuit('open');
+    }
+  }
+
+  // Re-probes immediately, e.g. when the user taps retry, instead of waiting out the cooldown
+  resetCircuit(): void {
+    if (this.circuit === 'open') {
+      this.openedAt = 0;
+    }
+  }
+
+  // Full jitter: a random delay up to the exponential bound, so clients that failed together retry apart
+  private backoff(attempt: number): number {
+    const bound = Math.min(API_CONFIG.retryDelay * 2 ** (attempt - 1), API_CONFIG.maxRetryDelay);
+    return Math.round(Math.random() * bound);
+  }
+
+  private async attempt<R extends BackendResponse>(
+    send: (signal: AbortSignal) => PromiseLike<R>,
+    timeout: number
+  ): Promise<R> {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new RequestError(`Request timed out after ${timeout}ms`, 'timeout'));
+      }, timeout);
+    });
+
+    try {
+      return await Promise.race([send(controller.signal), timedOut]);
+    } catch (error) {
+      if (isRequestError(error)) throw error;
+      // Builders report failures in the response; a throw here means the request never completed
+      throw new RequestError(error instanceof Error ? error.message : 'Request failed', 'network');
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Sends a request built by `send`, which is called again for each attempt with a fresh abort signal.
+   * Backend errors come back in the response as usual; only transient failures are retried, and only
+   * when the request is idempotent or carries an idempotency key.
+   */
+  async execute<R extends BackendResponse>(
+    operation: string,
+    send: (signal: AbortSignal) => PromiseLike<R>,
+    options: RequestOptions = {}
+  ): Promise<RequestResult<R>> {
+    const timeout = options.timeout ?? API_CONFIG.timeout;
+    const retryable = options.idempotent === true || !!options.idempotencyKey;
+    const maxAttempts = retryable ? 1 + (options.retries ?? API_CONFIG.retryAttempts) : 1;
+
+    for (let attempts = 1; ; attempts++) {
+      if (!this.admit()) {
+        throw new RequestError(`${operation} not sent: working offline`, 'circuit_open');
+      }
+
+      let failure: RequestError;
+      try {
+        const response = await this.attempt(send, timeout);
+        if (!response.error) {
+          this.recordSuccess();
+          return { response, attempts };
+        }
+        failure = new RequestError(response.error.message, classifyError(response.error, response.status), response.status, response.error.code);
+        if (!failure.transient) {
+          // The backend answered, so it is reachable even though it refused the request
+          this.recordSuccess();
+          return { response, attempts };
+        }
+      } catch (error) {
+        failure = isRequestError(error) ? error : new RequestError('Request failed', 'unknown');
+      }
+
+      this.recordFailure();
+      if (attempts >= maxAttempts || this.isOffline()) {
+        throw new RequestError(`${operation} failed: ${failure.message}`, failure.kind, failure.status, failure.code);
+      }
+      const delay = this.backoff(attempts);
+      console.warn(`⏳ ${operation} failed (${failure.kind}), retrying in ${delay}ms`);
+      await sleep(delay);
+    }
+  }
+}
+
+export const requestService = RequestService.getInstance();
@@ -0,0 +1,279 @@
+/**
+ * Sync Service
+ * Offline-first writes: applied directly when the server is reachable, queued in the outbox otherwise
+ */
+
+import { outbox, OutboxEntry, OutboxStatus } from '../../storageUtils';
+import { testSupabaseConnection } from '../../supabaseClient';
+import { config } from '../config/environment';
+import { FEATURE_FLAGS, REFRESH_INTERVALS } from '../constants';
+import {
+  orderRepository,
+  cartRepository,
+  messageRepository,
+  userRepository,
+  updateWithMerge,
+  ORDER_MERGE_RULES,
+  Order,
+  OrderEvent,
+  PaymentIntent,
+  ChatMessage,
+  AuthUser,
+  isConflictError
+} from '../repositories';
+import { generateId } from '../utils';
+import { requestService, isOfflineError, isRequestError } from './request';
+import { orderLifecycle, assertTransition, isOrderTransitionError, OrderTransitionRequest } from './orderLifecycle';
+
+export type SyncOperation =
+  | 'order.create'
+  | 'order.place'
+  | 'order.update'
+  | 'order.transition'
+  | 'order.event'
+  | 'cart.replace'
+  | 'message.create'
+  | 'profile.update';
+
+// 'synced' means the write is on the server; anything else is still in the outbox
+export type SyncState = OutboxStatus | 'synced';
+
+// An edit plus the field values it was made against, so a replay can merge with newer server changes
+export interface RecordUpdate<T> {
+  base: Partial<T>;
+  changes: Partial<T>;
+}
+
+// A checkout: the order and its payment intent are stored together or not at all
+export interface PlacedOrder {
+  order: Order;
+  payment: PaymentIntent | null;
+}
+
+export interface CartSnapshot {
+  user_id: string;
+  items: Array<{ product_id: string; quantity: number }>;
+}
+
+// `rejected` are the entries the server refused outright, kept until the user dismisses them
+type SyncListener = (entries: OutboxEntry[], synced: number, rejected: OutboxEntry[]) => void;
+
+// Failures that sending the same entry again cannot fix: the server refused the change itself.
+// 42501 is a database function or policy saying no, unlike an expired session
+const isRejection = (error: unknown): boolean =>
+  isOrderTransitionError(error) ||
+  isConflictError(error) ||
+  (isRequestError(error) && (
+    error.kind === 'validation' || error.kind === 'conflict' || error.kind === 'not_found' || error.code === '42501'
+  ));
+
+// Replays are idempotent so an entry that reached the server before a crash is safe to send again
+const HANDLERS: Record<SyncOperation, (entry: OutboxEntry) => Promise<void>> = {
+  'order.create': async entry => {
+    if (!(await orderRepository.getById(entry.entity_id))) {
+      await orderRepository.create(entry.payload as Order);
+    }
+  },
+  'order.place': async entry => {
+    const { order, payment } = entry.payload as PlacedOrder;
+    await orderRepository.place(order, payment);
+  },
+  'order.update': async entry => {
+    const { base, changes } = entry.payload as RecordUpdate<Order>;
+    // The order may have moved on while this change was queued
+    const current = changes.status ? await orderRepository.getById(entry.entity_id) : null;
+    if (current && changes.status) {
+      assertTransition(current, changes.status);
+    }
+    await updateWithMerge(orderRepository, entry.entity_id, base, changes, ORDER_MERGE_RULES);
+  },
+  // Its effects run here, once the move is on the server, so a queued one runs them on replay
+  'order.transition': async entry => {
+    await orderLifecycle.applyTransition(entry.entity_id, entry.payload as OrderTransitionRequest);
+  },
+  'order.event': async entry => {
+    await orderRepository.appendEvent(entry.payload as OrderEvent);
+  },
+  'cart.replace': async entry => {
+    const { user_id, items } = entry.payload as CartSnapshot;
+    const now = new Date().toISOString();
+    await cartRepository.removeWhere({ user_id });
+    for (const item of items) {
+      await cartRepository.create({
+        id: 'cart_' + generateId(),
+        user_id,
+        product_id: item.product_id,
+        quantity: item.quantity,
+        created_at: now,
+        updated_at: now
+      });
+    }
+  },
+  'message.create': async entry => {
+    if (!(await messageRepository.getById(entry.entity_id))) {
+      await messageRepository.create(entry.payload as ChatMessage);
+    }
+  },
+  'profile.update': async entry => {
+    await userRepository.update(entry.entity_id, entry.payload as Partial<AuthUser>);
+  }
+};
+
+// Only the latest snapshot matters for these, so a queued entry is overwritten instead of appended
+const COALESCED: SyncOperation[] = ['cart.replace'];
+
+class SyncService {
+  private static instance: SyncService;
+  private listeners: Set<SyncListener> = new Set();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private flushing = false;
+
+  public static getInstance(): SyncService {
+    if (!SyncService.instance) {
+      SyncService.instance = new SyncService();
+    }
+    return SyncService.instance;
+  }
+
+  subscribe(listener: SyncListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private async publish(synced: number = 0): Promise<void> {
+    const [entries, rejected] = await Promise.all([outbox.list(), outbox.listRejected()]);
+    this.listeners.forEach(listener => listener(entries, synced, rejected));
+  }
+
+  // Local storage is always reachable; Supabase is probed with a lightweight query
+  async checkConnection(): Promise<boolean> {
+    if (config.DATA_BACKEND === 'local') return true;
+    const reachable = await testSupabaseConnection();
+    if (reachable) {
+      // Lets the next request through as a trial instead of waiting out the circuit cooldown
+      requestService.resetCircuit();
+    }
+    return reachable;
+  }
+
+  async execute(type: SyncOperation, entityId: string, payload: any): Promise<SyncState> {
+    if (!FEATURE_FLAGS.enableOfflineMode) {
+      await HANDLERS[type]({ id: '', type, entity_id: entityId, payload, status: 'syncing', attempts: 0, created_at: '' });
+      return 'synced';
+    }
+
+    // Anything already queued must reach the server first, so later writes queue behind it
+    const queued = await outbox.list();
+    if (queued.length > 0) {
+      await this.enqueue(type, entityId, payload, queued);
+      this.flush().catch(error => console.error('Error syncing outbox:', error));
+      return 'pending';
+    }
+
+    try {
+      await HANDLERS[type]({ id: '', type, entity_id: entityId, payload, status: 'syncing', attempts: 0, created_at: '' });
+      return 'synced';
+    } catch (error) {
+      if (!isOfflineError(error) && (await this.checkConnection())) {
+        throw error;
+      }
+      console.log(`📴 Offline, queued ${type} for ${entityId}`);
+      await this.enqueue(type, entityId, payload, queued);
+      return 'pending';
+    }
+  }
+
+  private async enqueue(type: SyncOperation, entityId: string, payload: any, queued: OutboxEntry[]): Promise<void> {
+    const existing = COALESCED.includes(type)
+      ? queued.find(entry => entry.type === type && entry.entity_id === entityId && entry.status !== 'syncing')
+      : undefined;
+
+    if (existing) {
+      await outbox.update(existing.id, { payload, status: 'pending' });
+    } else {
+      await outbox.enqueue(type, entityId, payload);
+    }
+    await this.publish();
+  }
+
+  /**
+   * Replays the outbox oldest first. A change the server refuses is set aside along with any later
+   * changes to the same record, and the rest carry on; any other failure stops the replay there so
+   * writes still reach the server in order.
+   */
+  async flush(): Promise<number> {
+    if (this.flushing) return 0;
+    this.flushing = true;
+    let synced = 0;
+
+    try {
+      const entries = await outbox.list();
+      if (entries.length === 0 || !(await this.checkConnection())) {
+        return 0;
+      }
+
+      console.log(`🔄 Replaying ${entries.length} queued change(s)`);
+      const rejectedEntities = new Set<string>();
+      for (const entry of entries) {
+        if (rejectedEntities.has(entry.entity_id)) {
+          await outbox.reject(entry.id, 'An earlier change to the same record was refused');
+          continue;
+        }
+        await outbox.update(entry.id, { status: 'syncing' });
+        await this.publish(synced);
+        try {
+          await HANDLERS[entry.type as SyncOperation](entry);
+          await outbox.remove(entry.id);
+          synced++;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          if (isRejection(error)) {
+            console.warn(`⛔ Server refused queued ${entry.type} for ${entry.entity_id}: ${message}`);
+            await outbox.reject(entry.id, message);
+            rejectedEntities.add(entry.entity_id);
+            continue;
+          }
+          await outbox.update(entry.id, { status: 'failed', attempts: entry.attempts + 1, last_error: message });
+          break;
+        }
+      }
+    } finally {
+      this.flushing = false;
+      await this.publish(synced);
+    }
+
+    return synced;
+  }
+
+  // Drops a change that keeps failing so the rest of the queue can proceed, or dismisses a refused one
+  async discard(entryId: string): Promise<void> {
+    await outbox.remove(entryId);
+    await outbox.removeRejected(entryId);
+    await this.publish();
+  }
+
+  getEntries(): Promise<OutboxEntry[]> {
+    return outbox.list();
+  }
+
+  getRejected(): Promise<OutboxEntry[]> {
+    return outbox.listRejected();
+  }
+
+  start(): void {
+    if (this.timer || !FEATURE_FLAGS.enableOfflineMode) return;
+    this.timer = setInterval(() => {
+      this.flush().catch(error => console.error('Error syncing outbox:', error));
+    }, REFRESH_INTERVALS.dataSync);
+    this.flush().catch(error => console.error('Error syncing outbox:', error));
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export const syncService = SyncService.getInstance();
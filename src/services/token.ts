@@ -0,0 +1,264 @@
+/**
+ * Token Service
+ * Opaque access and refresh tokens backed by stored session records, with refresh-token rotation.
+ * A token is "<record id>.<random secret>" and only a hash of the secret is kept. Nothing is signed:
+ * any key shipped in the app bundle could be used to forge a token, so a token is only good for
+ * the record it matches. The records are token families in their own repository, so a session
+ * revoked from one device is refused on every other. These tokens do not sign anyone in to a server.
+ */
+
+import { tokenFamilyRepository, TokenFamily } from '../repositories';
+import { generateId, getRandomBytes } from '../utils';
+import { constantTimeEqual, sha256, utf8Encode } from '../utils/crypto';
+import { DeviceInfo } from './device';
+
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60; // 15 minutes
+export const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60; // 30 days
+export const MFA_CHALLENGE_TTL_SECONDS = 5 * 60; // 5 minutes
+const TOKEN_SECRET_BYTES = 32;
+// Avoid rewriting the family on every app focus
+const LAST_SEEN_UPDATE_INTERVAL_MS = 60 * 1000;
+
+export interface TokenSubject {
+  id: string;
+}
+
+export interface TokenPair {
+  token: string;
+  refresh_token: string;
+  expires_in: number;
+  family_id: string;
+}
+
+// A freshly issued token and the hash to store on its record
+export interface IssuedToken {
+  token: string;
+  hash: string;
+}
+
+export interface ParsedToken {
+  id: string;
+  secret: string;
+}
+
+// Held in memory only: a challenge outlives neither its five minutes nor the app process
+interface MfaChallenge {
+  id: string;
+  user_id: string;
+  hash: string;
+  expires_at: number;
+}
+
+export class TokenExpiredError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TokenExpiredError';
+  }
+}
+
+const toHex = (bytes: Uint8Array): string => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+const hashSecret = (secret: string): string => toHex(sha256(utf8Encode(secret)));
+
+const expiresAt = (ttlSeconds: number): string => new Date(Date.now() + ttlSeconds * 1000).toISOString();
+
+const isPast = (timestamp?: string): boolean => !timestamp || new Date(timestamp).getTime() <= Date.now();
+
+class TokenService {
+  private static instance: TokenService;
+  private mfaChallenges: MfaChallenge[] = [];
+
+  public static getInstance(): TokenService {
+    if (!TokenService.instance) {
+      TokenService.instance = new TokenService();
+    }
+    return TokenService.instance;
+  }
+
+  // A new token for the record with this id; store the hash on the record and hand out the token
+  issueToken(recordId: string): IssuedToken {
+    const secret = toHex(getRandomBytes(TOKEN_SECRET_BYTES));
+    return { token: `${recordId}.${secret}`, hash: hashSecret(secret) };
+  }
+
+  // The record id and secret of a token, or null when the text is not one
+  parseToken(token: string): ParsedToken | null {
+    const separator = token.lastIndexOf('.');
+    if (separator <= 0 || separator === token.length - 1) return null;
+    return { id: token.slice(0, separator), secret: token.slice(separator + 1) };
+  }
+
+  // The hash a record stores for this token, for looking the record up by it
+  hashToken(parsed: ParsedToken): string {
+    return hashSecret(parsed.secret);
+  }
+
+  matchesToken(parsed: ParsedToken, hash?: string): boolean {
+    return !!hash && constantTimeEqual(utf8Encode(hashSecret(parsed.secret)), utf8Encode(hash));
+  }
+
+  // Replace both tokens of a family; the caller saves the family
+  private issueTokens(family: Pick<TokenFamily, 'id' | 'access_hash' | 'access_expires_at' | 'refresh_hash' | 'refresh_expires_at'>): TokenPair {
+    const access = this.issueToken(family.id);
+    const refresh = this.issueToken(family.id);
+    family.access_hash = access.hash;
+    family.access_expires_at = expiresAt(ACCESS_TOKEN_TTL_SECONDS);
+    family.refresh_hash = refresh.hash;
+    family.refresh_expires_at = expiresAt(REFRESH_TOKEN_TTL_SECONDS);
+
+    return {
+      token: access.token,
+      refresh_token: refresh.token,
+      expires_in: ACCESS_TOKEN_TTL_SECONDS,
+      family_id: family.id
+    };
+  }
+
+  // Start a new token family for a fresh sign-in
+  async createFamily(subject: TokenSubject, device?: DeviceInfo): Promise<TokenPair> {
+    const now = new Date().toISOString();
+    const family: TokenFamily = {
+      id: 'fam_' + generateId(),
+      user_id: subject.id,
+      device_id: device?.device_id,
+      device_name: device?.device_name,
+      platform: device?.platform,
+      ip_address: device?.ip_address,
+      created_at: now,
+      last_seen_at: now
+    };
+    const tokens = this.issueTokens(family);
+    await tokenFamilyRepository.create(family);
+    return tokens;
+  }
+
+  // The live session an access token belongs to. Throws TokenExpiredError once it only needs a refresh.
+  async verifyAccessToken(token: string): Promise<TokenFamily> {
+    const parsed = this.parseToken(token);
+    const family = parsed && (await tokenFamilyRepository.getById(parsed.id));
+    if (!family || !this.matchesToken(parsed!, family.access_hash)) {
+      throw new Error('Not a valid access token');
+    }
+    // Signed out remotely from another device, or by a password change
+    if (family.revoked_at) {
+      throw new Error('Session has been revoked');
+    }
+    if (isPast(family.access_expires_at)) {
+      throw new TokenExpiredError('Access token has expired');
+    }
+    return family;
+  }
+
+  issueMfaChallenge(userId: string): string {
+    const now = Date.now();
+    const id = 'mfa_' + generateId();
+    const { token, hash } = this.issueToken(id);
+    this.mfaChallenges = this.mfaChallenges.filter(challenge => challenge.expires_at > now);
+    this.mfaChallenges.push({ id, user_id: userId, hash, expires_at: now + MFA_CHALLENGE_TTL_SECONDS * 1000 });
+    return token;
+  }
+
+  // The user a challenge was issued to, while it is still valid
+  verifyMfaChallenge(token: string): { sub: string } {
+    const parsed = this.parseToken(token);
+    const challenge = parsed && this.mfaChallenges.find(c => c.id === parsed.id);
+    if (!challenge || !this.matchesToken(parsed!, challenge.hash)) {
+      throw new Error('Not a valid MFA challenge');
+    }
+    if (challenge.expires_at <= Date.now()) {
+      throw new TokenExpiredError('MFA challenge has expired');
+    }
+    return { sub: challenge.user_id };
+  }
+
+  // Spent once the second factor has passed, so a challenge cannot start a second session
+  consumeMfaChallenge(token: string): void {
+    const id = this.parseToken(token)?.id;
+    this.mfaChallenges = this.mfaChallenges.filter(challenge => challenge.id !== id);
+  }
+
+  isExpiredError(error: unknown): boolean {
+    return error instanceof TokenExpiredError;
+  }
+
+  // Read the family id from a token without verifying it, e.g. to mark the current session
+  getFamilyId(token: string): string | null {
+    return this.parseToken(token)?.id || null;
+  }
+
+  // Record activity on a session; writes at most once per LAST_SEEN_UPDATE_INTERVAL_MS
+  async touchFamily(familyId: string): Promise<void> {
+    const family = await tokenFamilyRepository.getById(familyId);
+    if (!family || family.revoked_at) return;
+
+    const lastSeen = family.last_seen_at ? new Date(family.last_seen_at).getTime() : 0;
+    if (Date.now() - lastSeen < LAST_SEEN_UPDATE_INTERVAL_MS) return;
+
+    await tokenFamilyRepository.update(familyId, { last_seen_at: new Date().toISOString() });
+  }
+
+  async getActiveFamilies(userId: string): Promise<TokenFamily[]> {
+    const families = await tokenFamilyRepository.list({ user_id: userId });
+    return families.filter(f => !f.revoked_at);
+  }
+
+  // Exchange a refresh token for a new pair, revoking the family on reuse
+  async rotate(
+    refreshToken: string,
+    loadSubject: (userId: string) => Promise<TokenSubject | null>
+  ): Promise<TokenPair & { user_id: string }> {
+    const parsed = this.parseToken(refreshToken);
+    const family = parsed && (await tokenFamilyRepository.getById(parsed.id));
+
+    if (!family || family.revoked_at) {
+      throw new Error('Session has been revoked');
+    }
+
+    if (!this.matchesToken(parsed!, family.refresh_hash)) {
+      await this.revokeFamily(family.id, 'refresh_token_reuse');
+      console.warn('⚠️ Refresh token reuse detected, revoked token family:', family.id);
+      throw new Error('Refresh token reuse detected. Please sign in again.');
+    }
+
+    if (isPast(family.refresh_expires_at)) {
+      throw new TokenExpiredError('Session has expired. Please sign in again.');
+    }
+
+    const subject = await loadSubject(family.user_id);
+    if (!subject) {
+      await this.revokeFamily(family.id, 'account_unavailable');
+      throw new Error('Account not found or not active');
+    }
+
+    const rotated = { id: family.id, rotated_at: new Date().toISOString() };
+    const tokens = this.issueTokens(rotated);
+    await tokenFamilyRepository.update(family.id, { ...rotated, last_seen_at: rotated.rotated_at });
+
+    return { ...tokens, user_id: subject.id };
+  }
+
+  async revokeFamily(familyId: string, reason: string): Promise<void> {
+    const family = await tokenFamilyRepository.getById(familyId);
+    if (family && !family.revoked_at) {
+      await tokenFamilyRepository.update(familyId, { revoked_at: new Date().toISOString(), revoked_reason: reason });
+    }
+  }
+
+  // Sign a user out everywhere, e.g. after a password change
+  async revokeAllForUser(userId: string, reason: string): Promise<void> {
+    const revokedAt = new Date().toISOString();
+    for (const family of await this.getActiveFamilies(userId)) {
+      await tokenFamilyRepository.update(family.id, { revoked_at: revokedAt, revoked_reason: reason });
+    }
+  }
+
+  // Revoke the family a refresh token belongs to, without requiring it to be valid
+  async revokeByRefreshToken(refreshToken: string, reason: string): Promise<void> {
+    const familyId = this.getFamilyId(refreshToken);
+    if (familyId) {
+      await this.revokeFamily(familyId, reason);
+    }
+  }
+}
+
+export const tokenService = TokenService.getInstance();
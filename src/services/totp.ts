@@ -0,0 +1,119 @@
+/**
+ * TOTP Service
+ * RFC 6238 time-based one-time passwords (HMAC-SHA1, 6 digits, 30s steps)
+ */
+
+import { getRandomBytes } from '../utils';
+import { hmacSha1 } from '../utils/crypto';
+
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_SECRET_BYTES = 20;
+// Accept codes from one step either side to tolerate clock drift
+const TOTP_DRIFT_STEPS = 1;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const base32Encode = (bytes: Uint8Array): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  bytes.forEach(byte => {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  });
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+};
+
+const base32Decode = (input: string): Uint8Array => {
+  const cleaned = input.replace(/[\s=-]/g, '').toUpperCase();
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 secret');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+class TotpService {
+  private static instance: TotpService;
+
+  public static getInstance(): TotpService {
+    if (!TotpService.instance) {
+      TotpService.instance = new TotpService();
+    }
+    return TotpService.instance;
+  }
+
+  // New base32 secret for an authenticator app
+  generateSecret(): string {
+    return base32Encode(getRandomBytes(TOTP_SECRET_BYTES));
+  }
+
+  // otpauth:// URI understood by Google Authenticator, Authy, 1Password, etc.
+  buildOtpAuthUri(secret: string, accountName: string, issuer = 'ZADA'): string {
+    const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+    const params = [
+      `secret=${secret}`,
+      `issuer=${encodeURIComponent(issuer)}`,
+      'algorithm=SHA1',
+      `digits=${TOTP_DIGITS}`,
+      `period=${TOTP_PERIOD_SECONDS}`
+    ].join('&');
+    return `otpauth://totp/${label}?${params}`;
+  }
+
+  getTimeStep(timestamp = Date.now()): number {
+    return Math.floor(timestamp / 1000 / TOTP_PERIOD_SECONDS);
+  }
+
+  generateCode(secret: string, timeStep = this.getTimeStep()): string {
+    const counter = new Uint8Array(8);
+    const counterView = new DataView(counter.buffer);
+    counterView.setUint32(0, Math.floor(timeStep / 0x100000000));
+    counterView.setUint32(4, timeStep >>> 0);
+
+    const hmac = hmacSha1(base32Decode(secret), counter);
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary =
+      ((hmac[offset] & 0x7f) << 24) |
+      (hmac[offset + 1] << 16) |
+      (hmac[offset + 2] << 8) |
+      hmac[offset + 3];
+
+    return (binary % Math.pow(10, TOTP_DIGITS)).toString().padStart(TOTP_DIGITS, '0');
+  }
+
+  // Returns the matching time step, or null. Callers reject steps they have already accepted.
+  verifyCode(secret: string, code: string, timestamp = Date.now()): number | null {
+    const normalizedCode = code.replace(/\s/g, '');
+    if (!/^\d{6}$/.test(normalizedCode)) return null;
+
+    const currentStep = this.getTimeStep(timestamp);
+    for (let drift = -TOTP_DRIFT_STEPS; drift <= TOTP_DRIFT_STEPS; drift++) {
+      if (this.generateCode(secret, currentStep + drift) === normalizedCode) {
+        return currentStep + drift;
+      }
+    }
+    return null;
+  }
+}
+
+export const totpService = TotpService.getInstance();
@@ -3,6 +3,8 @@
  * Centralized type definitions for better maintainability and reusability
  */
 
+import type { OrderStatus } from '../repositories';
+
 // User and Authentication Types
 export interface AppUser {
   id: string;
@@ -51,7 +53,7 @@ export interface CustomerOrder {
   customerId: string;
   items: OrderItem[];
   total: number;
-  status: 'pending' | 'confirmed' | 'out_for_delivery' | 'delivered' | 'cancelled';
+  status: OrderStatus;
   priority: 'low' | 'medium' | 'high';
   notes?: string;
   orderDate: Date;
@@ -71,7 +73,7 @@ export interface AdminOrder {
   deliveryAddress: string;
   deliveryZone: string;
   total: number;
-  status: 'pending' | 'confirmed' | 'out_for_delivery' | 'delivered' | 'cancelled';
+  status: OrderStatus;
   priority: 'low' | 'medium' | 'high';
   notes?: string;
   items: OrderItem[];
@@ -176,13 +178,7 @@ export interface AppError {
 }
 
 // Constants
-export const ORDER_STATUSES = [
-  'pending',
-  'confirmed', 
-  'out_for_delivery',
-  'delivered',
-  'cancelled'
-] as const;
+// Order statuses and the moves between them live in src/services/orderLifecycle.ts
 
 export const ORDER_PRIORITIES = [
   'low',
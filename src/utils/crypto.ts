@@ -0,0 +1,108 @@
+/**
+ * Crypto for data kept on the device
+ * SHA-256, HMAC, HKDF (RFC 5869) and ChaCha20 (RFC 8439) from the audited @noble libraries, which run
+ * anywhere the app does without a native module. SHA-1 is only here for TOTP, which RFC 6238 defines with it
+ */
+
+import { chacha20 as chacha20Stream } from '@noble/ciphers/chacha';
+import { hkdf } from '@noble/hashes/hkdf';
+import { hmac } from '@noble/hashes/hmac';
+import { sha1 } from '@noble/hashes/legacy';
+import { sha256 as sha256Hash } from '@noble/hashes/sha2';
+
+export const sha256 = (message: Uint8Array): Uint8Array => sha256Hash(message);
+
+export const hmacSha256 = (key: Uint8Array, message: Uint8Array): Uint8Array => hmac(sha256Hash, key, message);
+
+export const hmacSha1 = (key: Uint8Array, message: Uint8Array): Uint8Array => hmac(sha1, key, message);
+
+export const hkdfSha256 = (ikm: Uint8Array, salt: Uint8Array, info: Uint8Array, length: number): Uint8Array =>
+  hkdf(sha256Hash, ikm, salt, info, length);
+
+// RFC 8439 block counter starts at 1 for data, block 0 being kept for an AEAD one-time key
+export const chacha20 = (key: Uint8Array, nonce: Uint8Array, data: Uint8Array, counter: number = 1): Uint8Array =>
+  chacha20Stream(key, nonce, data, undefined, counter);
+
+// Compares MACs without leaking where the first difference is
+export const constantTimeEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a[i] ^ b[i];
+  }
+  return difference === 0;
+};
+
+export const utf8Encode = (text: string): Uint8Array => {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 63));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 63), 0x80 | (code & 63));
+    } else {
+      bytes.push(0xf0 | (code >> 18), 0x80 | ((code >> 12) & 63), 0x80 | ((code >> 6) & 63), 0x80 | (code & 63));
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+export const utf8Decode = (bytes: Uint8Array): string => {
+  let text = '';
+  for (let i = 0; i < bytes.length;) {
+    const byte = bytes[i];
+    let code: number;
+    if (byte < 0x80) {
+      code = byte;
+      i += 1;
+    } else if (byte < 0xe0) {
+      code = ((byte & 31) << 6) | (bytes[i + 1] & 63);
+      i += 2;
+    } else if (byte < 0xf0) {
+      code = ((byte & 15) << 12) | ((bytes[i + 1] & 63) << 6) | (bytes[i + 2] & 63);
+      i += 3;
+    } else {
+      code = ((byte & 7) << 18) | ((bytes[i + 1] & 63) << 12) | ((bytes[i + 2] & 63) << 6) | (bytes[i + 3] & 63);
+      i += 4;
+    }
+    text += String.fromCodePoint(code);
+  }
+  return text;
+};
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+export const base64Encode = (bytes: Uint8Array): string => {
+  let output = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    output += BASE64_ALPHABET[(chunk >> 18) & 63] + BASE64_ALPHABET[(chunk >> 12) & 63];
+    output += i + 1 < bytes.length ? BASE64_ALPHABET[(chunk >> 6) & 63] : '=';
+    output += i + 2 < bytes.length ? BASE64_ALPHABET[chunk & 63] : '=';
+  }
+  return output;
+};
+
+export const base64Decode = (text: string): Uint8Array => {
+  const clean = text.replace(/=+$/, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let bits = 0;
+  let value = 0;
+  let index = 0;
+  for (const char of clean) {
+    const digit = BASE64_ALPHABET.indexOf(char);
+    if (digit === -1) {
+      throw new Error('Invalid base64 data');
+    }
+    value = (value << 6) | digit;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[index++] = (value >> bits) & 0xff;
+    }
+  }
+  return bytes;
+};
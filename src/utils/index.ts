@@ -3,6 +3,7 @@
  * Reusable utility functions for common operations
  */
 
+import * as ExpoCrypto from 'expo-crypto';
 import { Alert } from 'react-native';
 import { VALIDATION_RULES } from '../constants';
 
@@ -19,6 +20,30 @@ export const validatePhone = (phone: string): boolean => {
   return VALIDATION_RULES.phone.pattern.test(phone);
 };
 
+// Normalize a Nigerian mobile number (0803..., 803..., 234803..., +234 803...) to E.164.
+// Returns null when the input is not a Nigerian mobile number.
+export const normalizeNigerianPhone = (phone: string): string | null => {
+  const digits = phone.replace(/[\s\-().]/g, '').replace(/^\+/, '');
+  if (!/^\d+$/.test(digits)) return null;
+
+  let national: string;
+  if (digits.startsWith('234') && digits.length === 13) {
+    national = digits.slice(3);
+  } else if (digits.startsWith('0') && digits.length === 11) {
+    national = digits.slice(1);
+  } else if (digits.length === 10) {
+    national = digits;
+  } else {
+    return null;
+  }
+
+  // Mobile ranges start with 7, 8 or 9 (070x, 080x, 081x, 090x, 091x...)
+  if (!/^[789][01]\d{8}$/.test(national)) return null;
+
+  const e164 = `+234${national}`;
+  return validatePhone(e164) ? e164 : null;
+};
+
 // Format utilities
 export const formatCurrency = (amount: number, currency = 'NGN'): string => {
   return new Intl.NumberFormat('en-NG', {
@@ -65,6 +90,22 @@ export const generateId = (): string => {
   return Date.now().toString(36) + Math.random().toString(36).substr(2);
 };
 
+// Random bytes for codes and secrets from the platform CSPRNG. Throws where there is none rather than
+// falling back to anything predictable.
+export const getRandomBytes = (length: number): Uint8Array => ExpoCrypto.getRandomBytes(length);
+
+// Bytes past the last whole multiple of the alphabet size are drawn again, so every character is equally likely
+export const generateCode = (length: number, alphabet = '0123456789'): string => {
+  const limit = 256 - (256 % alphabet.length);
+  let code = '';
+  while (code.length < length) {
+    Array.from(getRandomBytes(length - code.length))
+      .filter(byte => byte < limit)
+      .forEach(byte => { code += alphabet[byte % alphabet.length]; });
+  }
+  return code;
+};
+
 // Array utilities
 export const groupBy = <T>(array: T[], key: keyof T): Record<string, T[]> => {
   return array.reduce((groups, item) => {
@@ -187,9 +228,11 @@ export const getOrderStatusColor = (status: string): string => {
   const statusColors = {
     pending: '#F59E0B',
     confirmed: '#3B82F6',
-    out_for_delivery: '#8B5CF6',
+    processing: '#0EA5E9',
+    shipped: '#8B5CF6',
     delivered: '#10B981',
     cancelled: '#EF4444',
+    refunded: '#6B7280',
   };
   return statusColors[status as keyof typeof statusColors] || '#6B7280';
 };
@@ -0,0 +1,22 @@
+/**
+ * Order customers
+ * Who an order is for: the contact details copied from the account when it is placed, and the pseudonym
+ * left in their place after the account is deleted. place_order and erase_customer_data in
+ * supabase/production_schema.sql build the same ones
+ */
+
+interface CustomerAccount {
+  email?: string;
+  profile?: { first_name?: string; last_name?: string; phone?: string };
+}
+
+// Empty values are left unset; phone-only customers have no email
+export const customerContact = (account: CustomerAccount): { customer_name?: string; customer_email?: string; customer_phone?: string } => ({
+  customer_name: [account.profile?.first_name, account.profile?.last_name].filter(Boolean).join(' ') || undefined,
+  customer_email: account.email || undefined,
+  customer_phone: account.profile?.phone || undefined
+});
+
+// Stable for a customer, with no way back to the person once the account is anonymized
+export const customerPseudonym = (userId: string): string =>
+  `Customer ${userId.replace(/^user_/, '').slice(-6).toUpperCase()}`;
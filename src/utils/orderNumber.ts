@@ -0,0 +1,71 @@
+/**
+ * Order numbers
+ * ZD-YYMM-NNNNNC: the month the order was placed, a sequence counter and a Luhn check digit over both,
+ * so a number read out over the phone with a digit wrong or two digits swapped is caught
+ */
+
+import { getRandomBytes } from 'expo-crypto';
+
+export const ORDER_NUMBER_PREFIX = 'ZD';
+
+const COUNTER_DIGITS = 5; // grows past 99999 rather than wrapping
+
+// Luhn: doubling every second digit from the right catches single-digit errors and most adjacent swaps
+export const luhnCheckDigit = (digits: string): number => {
+  let total = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    total += digit;
+  }
+  return (10 - (total % 10)) % 10;
+};
+
+// Months are counted in Lagos time, UTC+1 all year round, so an order placed just after midnight on the
+// 1st belongs to the new month
+const LAGOS_UTC_OFFSET_MS = 60 * 60 * 1000;
+
+const monthPart = (date: Date): string => {
+  const lagos = new Date(date.getTime() + LAGOS_UTC_OFFSET_MS);
+  return String(lagos.getUTCFullYear() % 100).padStart(2, '0') + String(lagos.getUTCMonth() + 1).padStart(2, '0');
+};
+
+// Must stay in step with next_order_number() in supabase/production_schema.sql
+export const formatOrderNumber = (placedAt: Date, sequence: number): string => {
+  const month = monthPart(placedAt);
+  const counter = String(sequence).padStart(COUNTER_DIGITS, '0');
+  return `${ORDER_NUMBER_PREFIX}-${month}-${counter}${luhnCheckDigit(month + counter)}`;
+};
+
+/**
+ * Stands in until the server assigns the real number, for orders placed while offline. The P marks it
+ * as provisional and keeps it from ever passing the check digit test.
+ */
+export const provisionalOrderNumber = (placedAt: Date): string => {
+  // 32 of the 36 symbols, so each byte maps to one evenly
+  const suffix = Array.from(getRandomBytes(COUNTER_DIGITS), byte => (byte % 32).toString(36)).join('');
+  return `${ORDER_NUMBER_PREFIX}-${monthPart(placedAt)}-P${suffix.toUpperCase()}`;
+};
+
+export const isProvisionalOrderNumber = (orderNumber: string): boolean =>
+  new RegExp(`^${ORDER_NUMBER_PREFIX}-\\d{4}-P[0-9A-Z]+$`).test(orderNumber);
+
+/**
+ * The canonical form of a full order number however it was typed ("zd 2610 000123", "2610000123"),
+ * or null when the text is not one or its check digit is wrong
+ */
+export const parseOrderNumber = (text?: string): string | null => {
+  const compact = (text || '').toUpperCase().replace(/[\s-]/g, '');
+  const match = compact.match(new RegExp(`^(?:${ORDER_NUMBER_PREFIX})?(\\d{4})(\\d{${COUNTER_DIGITS},})(\\d)$`));
+  if (!match) return null;
+  const [, month, counter, check] = match;
+  if (luhnCheckDigit(month + counter) !== Number(check)) return null;
+  return `${ORDER_NUMBER_PREFIX}-${month}-${counter}${check}`;
+};
+
+// A provisional number means nothing to staff or on a phone call, so it reads as pending until the server numbers the order
+export const displayOrderNumber = (orderNumber: string): string =>
+  isProvisionalOrderNumber(orderNumber) ? 'number pending' : orderNumber;
@@ -0,0 +1,35 @@
+/**
+ * Order totals
+ * The one place order totals are worked out: the cart summary, checkout, customer changes and the
+ * device's stand-in for place_order / amend_order. Must stay in step with those functions in
+ * supabase/production_schema.sql, which recompute them from app_settings
+ */
+
+import { CHECKOUT_CONFIG } from '../constants';
+
+export interface CheckoutTotals {
+  subtotal: number;
+  tax_amount: number;
+  shipping_cost: number;
+  discount_amount: number;
+  total_amount: number;
+}
+
+export const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+export const computeTotals = (lines: Array<{ unit_price: number; quantity: number }>): CheckoutTotals => {
+  const subtotal = roundMoney(lines.reduce((sum, line) => sum + line.unit_price * line.quantity, 0));
+  const tax_amount = roundMoney(subtotal * CHECKOUT_CONFIG.taxRate);
+  const shipping_cost = lines.length > 0 ? CHECKOUT_CONFIG.shippingCost : 0;
+  const discount_amount = 0;
+  return {
+    subtotal,
+    tax_amount,
+    shipping_cost,
+    discount_amount,
+    total_amount: roundMoney(subtotal + tax_amount + shipping_cost - discount_amount)
+  };
+};
+
+// Whether two amounts agree to the kobo
+export const sameAmount = (a: number, b: number): boolean => Math.abs(Number(a) - Number(b)) < 0.005;
@@ -0,0 +1,117 @@
+/**
+ * Roles
+ * The permission registry and each role's default permission set. Free of app dependencies so the
+ * in-memory Supabase client can check permissions as role_has_permission does in
+ * supabase/production_schema.sql, where the defaults are seeded into role_permissions
+ */
+
+export const PERMISSIONS = {
+  'products.view': { label: 'Browse products', group: 'Shopping' },
+  'orders.create': { label: 'Place orders', group: 'Shopping' },
+  'orders.view_own': { label: 'View own orders', group: 'Shopping' },
+  'profile.update': { label: 'Update own profile', group: 'Shopping' },
+
+  'analytics.view': { label: 'View sales analytics', group: 'Operations' },
+  'support.chat': { label: 'Answer customer support chats', group: 'Operations' },
+
+  'orders.view': { label: 'View all orders', group: 'Orders' },
+  'orders.update_status': { label: 'Move orders through processing and shipping', group: 'Orders' },
+  'orders.update_delivery': { label: 'Update delivery progress', group: 'Orders' },
+  'orders.cancel': { label: 'Cancel orders', group: 'Orders' },
+
+  'payments.update_status': { label: 'Mark payments as received', group: 'Payments' },
+  'payments.refund': { label: 'Refund payments', group: 'Payments' },
+
+  'inventory.view': { label: 'View inventory', group: 'Inventory' },
+  'inventory.create': { label: 'Add products', group: 'Inventory' },
+  'inventory.edit': { label: 'Edit product details and prices', group: 'Inventory' },
+  'inventory.adjust': { label: 'Adjust stock levels', group: 'Inventory' },
+  'inventory.delete': { label: 'Delete products', group: 'Inventory' },
+
+  'customers.view': { label: 'View customers', group: 'Customers' },
+  'customers.unlock': { label: 'Unlock locked accounts', group: 'Customers' },
+  'customers.impersonate': { label: 'View the app as a customer (read-only)', group: 'Customers' },
+
+  'staff.reset_mfa': { label: "Reset a staff member's two-factor authentication", group: 'Administration' },
+  'roles.manage': { label: 'Edit roles and assign them to staff', group: 'Administration' },
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export type StaffRole = 'admin' | 'super_admin' | 'dispatcher' | 'warehouse_clerk' | 'support_agent';
+export type UserRole = 'customer' | StaffRole;
+
+export interface RoleDefinition {
+  id: UserRole;
+  name: string;
+  description: string;
+  permissions: Permission[];
+  editable: boolean; // super_admin always keeps every permission
+}
+
+// Only super_admin may change who can do what; this is never granted through the editor
+export const RESERVED_PERMISSIONS: Permission[] = ['roles.manage'];
+
+const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+export const DEFAULT_ROLES: RoleDefinition[] = [
+  {
+    id: 'customer',
+    name: 'Customer',
+    description: 'Orders water for delivery',
+    permissions: ['products.view', 'orders.create', 'orders.view_own', 'profile.update'],
+    editable: true
+  },
+  {
+    id: 'admin',
+    name: 'Admin',
+    description: 'Runs day-to-day operations',
+    permissions: ALL_PERMISSIONS.filter(p => !RESERVED_PERMISSIONS.includes(p) && p !== 'orders.create' && p !== 'orders.view_own'),
+    editable: true
+  },
+  {
+    id: 'super_admin',
+    name: 'Super Admin',
+    description: 'Full access, including roles and permissions',
+    permissions: ALL_PERMISSIONS,
+    editable: false
+  },
+  {
+    id: 'dispatcher',
+    name: 'Dispatcher',
+    description: 'Schedules and tracks deliveries',
+    permissions: ['orders.view', 'orders.update_status', 'orders.update_delivery', 'customers.view', 'support.chat'],
+    editable: true
+  },
+  {
+    id: 'warehouse_clerk',
+    name: 'Warehouse Clerk',
+    description: 'Keeps stock levels accurate',
+    permissions: ['inventory.view', 'inventory.adjust', 'orders.view'],
+    editable: true
+  },
+  {
+    id: 'support_agent',
+    name: 'Support Agent',
+    description: 'Helps customers with orders and accounts',
+    permissions: ['orders.view', 'orders.cancel', 'customers.view', 'customers.unlock', 'customers.impersonate', 'support.chat'],
+    editable: true
+  }
+];
+
+// A role's saved permission set, as stored in role_permissions
+export interface RoleOverride {
+  id: string;
+  permissions: string[];
+}
+
+// The default roles with the sets a super admin saved in their place; super_admin keeps its own
+export const applyRoleOverrides = (overrides: RoleOverride[]): RoleDefinition[] =>
+  DEFAULT_ROLES.map(role => {
+    const override = overrides.find(o => o.id === role.id);
+    if (!role.editable || !override) return role;
+    return { ...role, permissions: override.permissions.filter((p): p is Permission => p in PERMISSIONS) };
+  });
+
+export const roleHasPermission = (roles: RoleDefinition[], roleId: UserRole, permission: Permission): boolean =>
+  roleId === 'super_admin' || !!roles.find(role => role.id === roleId)?.permissions.includes(permission);
@@ -1,6 +1,19 @@
 // Cross-platform storage utility for web and mobile
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
 import { Platform } from 'react-native';
+import { config } from './src/config/environment';
+import { getRandomBytes } from './src/utils';
+import {
+  hkdfSha256,
+  hmacSha256,
+  chacha20,
+  constantTimeEqual,
+  utf8Encode,
+  utf8Decode,
+  base64Encode,
+  base64Decode
+} from './src/utils/crypto';
 
 // Web storage fallback using localStorage
 const webStorage = {
@@ -53,3 +66,333 @@ export const storage = {
     return AsyncStorage.removeItem(key);
   }
 };
+
+// Namespaced JSON store for app records; the layout is versioned and upgraded by registered migrations
+export const STORAGE_NAMESPACE = '@zada';
+const SCHEMA_VERSION_KEY = `${STORAGE_NAMESPACE}/schema_version`;
+
+export const namespacedKey = (key: string): string => `${STORAGE_NAMESPACE}/${key}`;
+
+// Keys holding tokens, profiles, payment details or one-time codes; always read and written through secureStorage
+export const SENSITIVE_STORAGE_KEYS = [
+  '@zada_auth_token',
+  '@zada_refresh_token',
+  '@zada_impersonation',
+  '@zada_password_resets',
+  '@zada_phone_otps',
+  '@zada_email_verifications',
+  namespacedKey('users'),
+  namespacedKey('current_user'),
+  namespacedKey('payment_methods'),
+  namespacedKey('token_families'),
+  namespacedKey('staff_invitations'),
+  namespacedKey('outbox'),
+  namespacedKey('outbox_rejected')
+];
+
+// Encrypted values are 'enc:v1:' + base64(nonce | ciphertext | tag); anything else is plaintext, which only
+// the storage migrations accept
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const KEYSTORE_SECRET_KEY = 'zada_install_secret'; // SecureStore allows only letters, digits, '.', '-' and '_'
+const STORAGE_SECRET_KEY = namespacedKey('install_secret'); // where earlier builds kept it, and where web still does
+const NONCE_LENGTH = 12;
+const TAG_LENGTH = 32;
+
+interface StorageKeys {
+  encryption: Uint8Array;
+  authentication: Uint8Array;
+}
+
+let storageKeys: Promise<StorageKeys> | null = null;
+
+/**
+ * The per-install secret lives in the Keychain / Keystore on native, away from the values it protects.
+ * The web has no equivalent: there it sits in localStorage beside the ciphertext, so encryption on web
+ * gives no protection against anyone who can read localStorage.
+ */
+const readInstallSecret = (): Promise<string | null> =>
+  Platform.OS === 'web' ? storage.getItem(STORAGE_SECRET_KEY) : SecureStore.getItemAsync(KEYSTORE_SECRET_KEY);
+
+const writeInstallSecret = (secret: string): Promise<void> =>
+  Platform.OS === 'web' ? storage.setItem(STORAGE_SECRET_KEY, secret) : SecureStore.setItemAsync(KEYSTORE_SECRET_KEY, secret);
+
+// A secret left in AsyncStorage by an earlier build moves into the keystore and the plaintext copy is dropped
+const loadInstallSecret = async (): Promise<string> => {
+  let secret = await readInstallSecret();
+  if (!secret && Platform.OS !== 'web') {
+    secret = await storage.getItem(STORAGE_SECRET_KEY);
+    if (secret) {
+      await writeInstallSecret(secret);
+      await storage.removeItem(STORAGE_SECRET_KEY);
+    }
+  }
+  if (!secret) {
+    secret = base64Encode(getRandomBytes(32));
+    await writeInstallSecret(secret);
+  }
+  return secret;
+};
+
+// ENCRYPTION_KEY alone is shared by every build, so it is mixed with a random secret created on first launch
+const getStorageKeys = (): Promise<StorageKeys> => {
+  if (!storageKeys) {
+    storageKeys = (async () => {
+      const secret = await loadInstallSecret();
+      const material = hkdfSha256(utf8Encode(config.ENCRYPTION_KEY), base64Decode(secret), utf8Encode('zada-storage-v1'), 64);
+      return { encryption: material.slice(0, 32), authentication: material.slice(32) };
+    })();
+    storageKeys.catch(() => { storageKeys = null; });
+  }
+  return storageKeys;
+};
+
+export const isEncryptedValue = (value: string): boolean => value.startsWith(ENCRYPTED_PREFIX);
+
+// A stored value that is there but cannot be decrypted: a lost install secret, a changed ENCRYPTION_KEY or tampering
+export class UnreadableStorageError extends Error {
+  constructor(public readonly key: string, cause: unknown) {
+    super(`Secure storage could not read ${key}: ${cause instanceof Error ? cause.message : 'unknown error'}`);
+    this.name = 'UnreadableStorageError';
+  }
+}
+
+export const isUnreadableStorageError = (error: unknown): error is UnreadableStorageError =>
+  error instanceof UnreadableStorageError;
+
+const authenticationTag = (authentication: Uint8Array, key: string, body: Uint8Array): Uint8Array => {
+  const label = utf8Encode(key + '\0');
+  const message = new Uint8Array(label.length + body.length);
+  message.set(label);
+  message.set(body, label.length);
+  return hmacSha256(authentication, message);
+};
+
+// ChaCha20 then HMAC-SHA256 over nonce and ciphertext; the key name is bound in so values cannot be swapped between keys
+const encryptValue = async (key: string, value: string): Promise<string> => {
+  const { encryption, authentication } = await getStorageKeys();
+  const nonce = getRandomBytes(NONCE_LENGTH);
+  const ciphertext = chacha20(encryption, nonce, utf8Encode(value));
+
+  const sealed = new Uint8Array(NONCE_LENGTH + ciphertext.length + TAG_LENGTH);
+  sealed.set(nonce);
+  sealed.set(ciphertext, NONCE_LENGTH);
+  sealed.set(authenticationTag(authentication, key, sealed.subarray(0, NONCE_LENGTH + ciphertext.length)), NONCE_LENGTH + ciphertext.length);
+  return ENCRYPTED_PREFIX + base64Encode(sealed);
+};
+
+const decryptValue = async (key: string, value: string): Promise<string> => {
+  const { encryption, authentication } = await getStorageKeys();
+  const sealed = base64Decode(value.slice(ENCRYPTED_PREFIX.length));
+  if (sealed.length < NONCE_LENGTH + TAG_LENGTH) {
+    throw new Error('Encrypted value is truncated');
+  }
+
+  const body = sealed.subarray(0, sealed.length - TAG_LENGTH);
+  if (!constantTimeEqual(authenticationTag(authentication, key, body), sealed.subarray(sealed.length - TAG_LENGTH))) {
+    throw new Error('Encrypted value failed authentication');
+  }
+  return utf8Decode(chacha20(encryption, body.subarray(0, NONCE_LENGTH), body.subarray(NONCE_LENGTH)));
+};
+
+const readSealed = async (key: string, data: string): Promise<string> => {
+  try {
+    return await decryptValue(key, data);
+  } catch (error) {
+    throw new UnreadableStorageError(key, error);
+  }
+};
+
+/**
+ * Same interface as storage, with values encrypted at rest. A value that cannot be decrypted, or that was
+ * never encrypted, is reported as UnreadableStorageError rather than as absent, and is never written
+ * over; removeItem discards it, and resetUnreadableKeys clears every such value at startup.
+ */
+export const secureStorage = {
+  getItem: async (key: string): Promise<string | null> => {
+    const data = await storage.getItem(key);
+    if (data === null) return null;
+    // Plaintext from before encryption is sealed by encryptPlaintextKeys in the storage migrations;
+    // found any later, it was not written by this app
+    if (!isEncryptedValue(data)) {
+      throw new UnreadableStorageError(key, new Error('value is not encrypted'));
+    }
+    return readSealed(key, data);
+  },
+  setItem: async (key: string, value: string): Promise<void> => {
+    const existing = await storage.getItem(key);
+    if (existing !== null && isEncryptedValue(existing)) {
+      await readSealed(key, existing);
+    }
+    await storage.setItem(key, await encryptValue(key, value));
+  },
+  removeItem: (key: string): Promise<void> =>
+    storage.removeItem(key)
+};
+
+// Encrypts sensitive values still stored as plaintext; returns how many were sealed. For storage migrations only
+export const encryptPlaintextKeys = async (keys: string[] = SENSITIVE_STORAGE_KEYS): Promise<number> => {
+  let sealed = 0;
+  for (const key of keys) {
+    const data = await storage.getItem(key);
+    if (data !== null && !isEncryptedValue(data)) {
+      await secureStorage.setItem(key, data);
+      sealed++;
+    }
+  }
+  return sealed;
+};
+
+/**
+ * Removes sealed values this install can no longer decrypt, so the app starts without them instead of
+ * failing on every read; returns their keys so the user can be told. Run at startup before the storage
+ * migrations. A keystore that cannot be read at all throws here rather than having everything cleared.
+ */
+export const resetUnreadableKeys = async (keys: string[] = SENSITIVE_STORAGE_KEYS): Promise<string[]> => {
+  await getStorageKeys();
+  const reset: string[] = [];
+  for (const key of keys) {
+    const data = await storage.getItem(key);
+    if (data === null || !isEncryptedValue(data)) continue;
+    try {
+      await decryptValue(key, data);
+    } catch (error) {
+      console.warn(`⚠️ Clearing unreadable ${key}:`, error instanceof Error ? error.message : error);
+      await storage.removeItem(key);
+      reset.push(key);
+    }
+  }
+  return reset;
+};
+
+const backendFor = (fullKey: string) =>
+  SENSITIVE_STORAGE_KEYS.includes(fullKey) ? secureStorage : storage;
+
+export const store = {
+  get: async <T>(key: string): Promise<T | null> => {
+    const fullKey = namespacedKey(key);
+    const data = await backendFor(fullKey).getItem(fullKey);
+    return data ? JSON.parse(data) : null;
+  },
+  set: <T>(key: string, value: T): Promise<void> => {
+    const fullKey = namespacedKey(key);
+    return backendFor(fullKey).setItem(fullKey, JSON.stringify(value));
+  },
+  remove: (key: string): Promise<void> =>
+    storage.removeItem(namespacedKey(key))
+};
+
+// Durable outbox of writes waiting to reach the server, replayed oldest first.
+// A write the server refuses outright is moved to a separate rejected list so it no longer holds up the queue.
+export type OutboxStatus = 'pending' | 'syncing' | 'failed' | 'rejected';
+
+export interface OutboxEntry {
+  id: string;
+  type: string;
+  entity_id: string;
+  payload: any;
+  status: OutboxStatus;
+  attempts: number;
+  last_error?: string;
+  created_at: string;
+}
+
+const OUTBOX_KEY = namespacedKey('outbox');
+const REJECTED_KEY = namespacedKey('outbox_rejected');
+
+// Queued payloads carry orders, addresses and payment details, so the lists are encrypted like other sensitive keys
+const readEntries = async (key: string): Promise<OutboxEntry[]> => {
+  const data = await secureStorage.getItem(key);
+  return data ? JSON.parse(data) : [];
+};
+
+// Every outbox write goes through this chain so concurrent callers never overwrite each other
+let outboxQueue: Promise<unknown> = Promise.resolve();
+
+const inOutboxQueue = <T>(operation: () => Promise<T>): Promise<T> => {
+  const next = outboxQueue.then(operation);
+  outboxQueue = next.catch(() => undefined);
+  return next;
+};
+
+const withEntries = <T>(key: string, operation: (entries: OutboxEntry[]) => { entries: OutboxEntry[]; result: T }): Promise<T> =>
+  inOutboxQueue(async () => {
+    const { entries, result } = operation(await readEntries(key));
+    await secureStorage.setItem(key, JSON.stringify(entries));
+    return result;
+  });
+
+export const outbox = {
+  list: async (): Promise<OutboxEntry[]> => {
+    await outboxQueue;
+    return readEntries(OUTBOX_KEY);
+  },
+  enqueue: (type: string, entityId: string, payload: any): Promise<OutboxEntry> =>
+    withEntries(OUTBOX_KEY, entries => {
+      const entry: OutboxEntry = {
+        id: 'outbox_' + Date.now().toString(36) + Math.random().toString(36).substr(2, 6),
+        type,
+        entity_id: entityId,
+        payload,
+        status: 'pending',
+        attempts: 0,
+        created_at: new Date().toISOString()
+      };
+      return { entries: [...entries, entry], result: entry };
+    }),
+  update: (id: string, changes: Partial<OutboxEntry>): Promise<void> =>
+    withEntries(OUTBOX_KEY, entries => ({
+      entries: entries.map(entry => entry.id === id ? { ...entry, ...changes, id } : entry),
+      result: undefined
+    })),
+  remove: (id: string): Promise<void> =>
+    withEntries(OUTBOX_KEY, entries => ({ entries: entries.filter(entry => entry.id !== id), result: undefined })),
+
+  listRejected: async (): Promise<OutboxEntry[]> => {
+    await outboxQueue;
+    return readEntries(REJECTED_KEY);
+  },
+  // Written to the rejected list before it leaves the queue, so a crash in between cannot lose it
+  reject: (id: string, error: string): Promise<void> =>
+    inOutboxQueue(async () => {
+      const entries = await readEntries(OUTBOX_KEY);
+      const entry = entries.find(candidate => candidate.id === id);
+      if (!entry) return;
+      const rejected = (await readEntries(REJECTED_KEY)).filter(candidate => candidate.id !== id);
+      rejected.push({ ...entry, status: 'rejected', attempts: entry.attempts + 1, last_error: error });
+      await secureStorage.setItem(REJECTED_KEY, JSON.stringify(rejected));
+      await secureStorage.setItem(OUTBOX_KEY, JSON.stringify(entries.filter(candidate => candidate.id !== id)));
+    }),
+  removeRejected: (id: string): Promise<void> =>
+    withEntries(REJECTED_KEY, entries => ({ entries: entries.filter(entry => entry.id !== id), result: undefined }))
+};
+
+export interface StorageMigration {
+  version: number;
+  description: string;
+  up: () => Promise<void>;
+}
+
+const migrations: StorageMigration[] = [];
+
+export const registerMigration = (migration: StorageMigration): void => {
+  if (migrations.some(m => m.version === migration.version)) {
+    throw new Error(`Storage migration ${migration.version} is already registered`);
+  }
+  migrations.push(migration);
+  migrations.sort((a, b) => a.version - b.version);
+};
+
+export const getStorageVersion = async (): Promise<number> =>
+  Number(await storage.getItem(SCHEMA_VERSION_KEY)) || 0;
+
+// Runs pending migrations in order; the version is saved after each step so an interrupted upgrade resumes there
+export const runStorageMigrations = async (): Promise<number> => {
+  let version = await getStorageVersion();
+  for (const migration of migrations.filter(m => m.version > version)) {
+    console.log(`🗄️ Storage migration ${migration.version}: ${migration.description}`);
+    await migration.up();
+    version = migration.version;
+    await storage.setItem(SCHEMA_VERSION_KEY, String(version));
+  }
+  return version;
+};
@@ -92,7 +92,7 @@ CREATE TABLE products (
 CREATE TABLE orders (
     id TEXT PRIMARY KEY DEFAULT 'ord_' || substr(md5(random()::text), 1, 12),
     customer_id TEXT NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
-    order_number TEXT UNIQUE NOT NULL DEFAULT 'ZADA-' || to_char(NOW(), 'YYYYMMDD') || '-' || substr(md5(random()::text), 1, 6),
+    order_number TEXT UNIQUE NOT NULL, -- assigned by the assign_order_number trigger
     status order_status NOT NULL DEFAULT 'pending',
     payment_status payment_status NOT NULL DEFAULT 'pending',
     payment_method payment_method_type,
@@ -102,12 +102,15 @@ CREATE TABLE orders (
     discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (discount_amount >= 0),
     total_amount DECIMAL(10,2) NOT NULL CHECK (total_amount >= 0),
     notes TEXT,
+    delivery_zone TEXT,
+    priority TEXT NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high')),
     shipping_address JSONB NOT NULL,
     billing_address JSONB NOT NULL,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     shipped_at TIMESTAMP WITH TIME ZONE,
-    delivered_at TIMESTAMP WITH TIME ZONE
+    delivered_at TIMESTAMP WITH TIME ZONE,
+    driver_name TEXT
 );
 
 -- Order items table
@@ -121,6 +124,17 @@ CREATE TABLE order_items (
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Order events table (append-only history; there are no update or delete policies)
+CREATE TABLE order_events (
+    id TEXT PRIMARY KEY DEFAULT 'evt_' || substr(md5(random()::text), 1, 12),
+    order_id TEXT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    type TEXT NOT NULL CHECK (type IN ('created', 'paid', 'confirmed', 'processing', 'assigned', 'out_for_delivery', 'delivery_update', 'delivered', 'cancelled', 'refunded', 'modified')),
+    actor_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+    actor_name TEXT NOT NULL,
+    note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Cart items table
 CREATE TABLE cart_items (
     id TEXT PRIMARY KEY DEFAULT 'cart_' || substr(md5(random()::text), 1, 12),
@@ -208,18 +222,153 @@ CREATE TABLE audit_logs (
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Auth model migration: phone-only customers, email verification, failed-login lockouts, staff MFA,
+-- staff roles and account deletion. Safe to run again, including on a database created before it.
+ALTER TYPE user_role ADD VALUE IF NOT EXISTS 'dispatcher';
+ALTER TYPE user_role ADD VALUE IF NOT EXISTS 'warehouse_clerk';
+ALTER TYPE user_role ADD VALUE IF NOT EXISTS 'support_agent';
+ALTER TYPE user_status ADD VALUE IF NOT EXISTS 'pending_verification';
+
+-- Phone-only customers have no password, and an empty email until they add one
+ALTER TABLE users ALTER COLUMN password_hash DROP NOT NULL;
+ALTER TABLE users ALTER COLUMN email SET DEFAULT '';
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_email_key;
+CREATE UNIQUE INDEX IF NOT EXISTS users_email_key ON users(email) WHERE email <> '';
+
+ALTER TABLE users
+    ADD COLUMN IF NOT EXISTS email_verified_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS phone_verified_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP WITH TIME ZONE, -- set while suspended by the failed-login lockout
+    ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE, -- anonymized tombstone kept for retained orders
+    ADD COLUMN IF NOT EXISTS mfa JSONB; -- TOTP secret, enabled, enrolled_at, backup_code_hashes, last_used_step
+
+-- Whether an order holds stock taken by place_order. Orders from before reservation hold none, so
+-- cancelling them puts nothing back
+ALTER TABLE orders
+    ADD COLUMN IF NOT EXISTS cancellation_reason TEXT,
+    ADD COLUMN IF NOT EXISTS stock_reserved BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Who the order is for, as given at checkout. On account deletion the name becomes a pseudonym, the rest
+-- is cleared and pseudonymized_at is set
+ALTER TABLE orders
+    ADD COLUMN IF NOT EXISTS customer_name TEXT,
+    ADD COLUMN IF NOT EXISTS customer_email TEXT,
+    ADD COLUMN IF NOT EXISTS customer_phone TEXT,
+    ADD COLUMN IF NOT EXISTS pseudonymized_at TIMESTAMP WITH TIME ZONE;
+
+-- Sign-in sessions, one per device: see TokenFamily in src/repositories/types.ts. Only hashes of the
+-- tokens are stored, so a revocation made on one device is seen by every other
+CREATE TABLE IF NOT EXISTS token_families (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    access_hash TEXT,
+    access_expires_at TIMESTAMP WITH TIME ZONE,
+    refresh_hash TEXT,
+    refresh_expires_at TIMESTAMP WITH TIME ZONE,
+    device_id TEXT,
+    device_name TEXT,
+    platform TEXT,
+    ip_address TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_seen_at TIMESTAMP WITH TIME ZONE,
+    rotated_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    revoked_reason TEXT
+);
+CREATE INDEX IF NOT EXISTS idx_token_families_user ON token_families(user_id);
+
+-- Staff invitations: see StaffInvitation in src/repositories/types.ts. token_hash is the SHA-256 of the
+-- secret in the invite link; the secret itself is never stored
+CREATE TABLE IF NOT EXISTS staff_invitations (
+    id TEXT PRIMARY KEY,
+    email TEXT NOT NULL,
+    role user_role NOT NULL,
+    invited_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+    token_hash TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    accepted_at TIMESTAMP WITH TIME ZONE,
+    accepted_user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    revoked_by TEXT REFERENCES users(id) ON DELETE SET NULL
+);
+CREATE INDEX IF NOT EXISTS idx_staff_invitations_email ON staff_invitations(email);
+
+-- Business settings the database functions price and police orders by. The app's copies in
+-- src/constants (CHECKOUT_CONFIG, ORDER_CHANGE_CONFIG) only drive what it shows; these decide
+CREATE TABLE IF NOT EXISTS app_settings (
+    key TEXT PRIMARY KEY,
+    value JSONB NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+INSERT INTO app_settings (key, value) VALUES
+    ('checkout', '{"tax_rate": 0.1, "shipping_cost": 500, "max_quantity_per_item": 100}'),
+    ('order_changes', '{"window_minutes": 15}'),
+    ('sign_in', '{"lockout_minutes": 15}')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION app_setting(p_key TEXT, p_field TEXT)
+RETURNS JSONB AS $$
+    SELECT value->p_field FROM app_settings WHERE key = p_key;
+$$ LANGUAGE sql STABLE;
+
+-- Each role's permission set, which row level security checks through has_permission. Seeded with the
+-- defaults in src/utils/roles.ts, which must stay in step; a super_admin's edits replace a row. super_admin
+-- itself has no row and every permission
+CREATE TABLE IF NOT EXISTS role_permissions (
+    id TEXT PRIMARY KEY, -- the role
+    permissions TEXT[] NOT NULL DEFAULT '{}',
+    updated_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+INSERT INTO role_permissions (id, permissions) VALUES
+    ('customer', ARRAY['products.view', 'orders.create', 'orders.view_own', 'profile.update']),
+    ('admin', ARRAY[
+        'products.view', 'profile.update', 'analytics.view', 'support.chat',
+        'orders.view', 'orders.update_status', 'orders.update_delivery', 'orders.cancel',
+        'payments.update_status', 'payments.refund',
+        'inventory.view', 'inventory.create', 'inventory.edit', 'inventory.adjust', 'inventory.delete',
+        'customers.view', 'customers.unlock', 'customers.impersonate', 'staff.reset_mfa'
+    ]),
+    ('dispatcher', ARRAY['orders.view', 'orders.update_status', 'orders.update_delivery', 'customers.view', 'support.chat']),
+    ('warehouse_clerk', ARRAY['inventory.view', 'inventory.adjust', 'orders.view']),
+    ('support_agent', ARRAY['orders.view', 'orders.cancel', 'customers.view', 'customers.unlock', 'customers.impersonate', 'support.chat'])
+ON CONFLICT (id) DO NOTHING;
+
+-- Whether a role has any of the permissions, as permissionService.can decides it in the app
+CREATE OR REPLACE FUNCTION role_has_permission(p_role user_role, VARIADIC p_permissions TEXT[])
+RETURNS BOOLEAN AS $$
+    SELECT p_role = 'super_admin'
+        OR EXISTS (SELECT 1 FROM role_permissions WHERE id = p_role::TEXT AND permissions && p_permissions);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whether the signed-in user has any of the permissions. Reads users past row level security, so
+-- policies on users and the views over it can call it
+CREATE OR REPLACE FUNCTION has_permission(VARIADIC p_permissions TEXT[])
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM users WHERE id = auth.uid()::text AND role_has_permission(role, VARIADIC p_permissions)
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
 -- Create indexes for performance
 CREATE INDEX idx_users_email ON users(email);
 CREATE INDEX idx_users_role ON users(role);
 CREATE INDEX idx_users_status ON users(status);
+CREATE INDEX idx_users_created_at ON users(created_at, id);
 CREATE INDEX idx_products_category ON products(category_id);
 CREATE INDEX idx_products_supplier ON products(supplier_id);
 CREATE INDEX idx_products_status ON products(status);
+CREATE INDEX idx_products_name ON products(name, id);
 CREATE INDEX idx_orders_customer ON orders(customer_id);
 CREATE INDEX idx_orders_status ON orders(status);
-CREATE INDEX idx_orders_created_at ON orders(created_at);
+CREATE INDEX idx_orders_created_at ON orders(created_at, id);
+CREATE INDEX idx_orders_delivery_zone ON orders(delivery_zone);
+CREATE INDEX idx_orders_priority ON orders(priority);
 CREATE INDEX idx_order_items_order ON order_items(order_id);
 CREATE INDEX idx_order_items_product ON order_items(product_id);
+CREATE INDEX idx_order_events_order ON order_events(order_id, created_at);
 CREATE INDEX idx_cart_items_user ON cart_items(user_id);
 CREATE INDEX idx_payment_intents_order ON payment_intents(order_id);
 CREATE INDEX idx_payment_intents_status ON payment_intents(status);
@@ -252,10 +401,78 @@ CREATE TRIGGER update_cart_items_updated_at BEFORE UPDATE ON cart_items FOR EACH
 CREATE TRIGGER update_payment_intents_updated_at BEFORE UPDATE ON payment_intents FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_messages_updated_at BEFORE UPDATE ON messages FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+-- Order status may only move along the lifecycle in src/services/orderLifecycle.ts
+CREATE OR REPLACE FUNCTION enforce_order_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status = OLD.status THEN
+        RETURN NEW;
+    END IF;
+    IF NOT (
+        (OLD.status = 'pending' AND NEW.status IN ('confirmed', 'processing', 'cancelled')) OR
+        (OLD.status = 'confirmed' AND NEW.status IN ('processing', 'cancelled')) OR
+        (OLD.status = 'processing' AND NEW.status IN ('shipped', 'cancelled')) OR
+        (OLD.status = 'shipped' AND NEW.status IN ('delivered', 'cancelled')) OR
+        (OLD.status = 'delivered' AND NEW.status = 'refunded')
+    ) THEN
+        RAISE EXCEPTION 'An order cannot go from % to %', OLD.status, NEW.status USING ERRCODE = 'check_violation';
+    END IF;
+    IF NEW.status = 'shipped' AND OLD.payment_status <> 'paid' AND OLD.payment_method IS DISTINCT FROM 'cash' THEN
+        RAISE EXCEPTION 'Payment must be received before the order ships' USING ERRCODE = 'check_violation';
+    END IF;
+    IF NEW.status = 'refunded' AND OLD.payment_status <> 'paid' THEN
+        RAISE EXCEPTION 'Only paid orders can be refunded' USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER enforce_order_status_transition BEFORE UPDATE OF status ON orders FOR EACH ROW EXECUTE FUNCTION enforce_order_status_transition();
+
+-- Order numbers: ZD-YYMM-NNNNNC, the month placed and a counter followed by a Luhn check digit over both.
+-- Must stay in step with src/utils/orderNumber.ts
+CREATE SEQUENCE order_number_seq;
+
+CREATE OR REPLACE FUNCTION next_order_number(placed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW())
+RETURNS TEXT AS $$
+DECLARE
+    counter TEXT := nextval('order_number_seq')::TEXT;
+    digits TEXT;
+    total INTEGER := 0;
+    digit INTEGER;
+BEGIN
+    -- lpad would truncate, so a counter past 99999 keeps its extra digits
+    digits := to_char(placed_at AT TIME ZONE 'Africa/Lagos', 'YYMM') || lpad(counter, GREATEST(5, length(counter)), '0');
+    FOR i IN 0..length(digits) - 1 LOOP
+        digit := substr(digits, length(digits) - i, 1)::INTEGER;
+        IF i % 2 = 0 THEN
+            digit := digit * 2;
+            IF digit > 9 THEN
+                digit := digit - 9;
+            END IF;
+        END IF;
+        total := total + digit;
+    END LOOP;
+    RETURN 'ZD-' || substr(digits, 1, 4) || '-' || substr(digits, 5) || ((10 - total % 10) % 10)::TEXT;
+END;
+$$ language 'plpgsql';
+
+-- The server numbers every order, replacing the provisional number an offline client gave it
+CREATE OR REPLACE FUNCTION assign_order_number()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.order_number := next_order_number(COALESCE(NEW.created_at, NOW()));
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER assign_order_number BEFORE INSERT ON orders FOR EACH ROW EXECUTE FUNCTION assign_order_number();
+
 -- Row Level Security (RLS) Policies
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE orders ENABLE ROW LEVEL SECURITY;
 ALTER TABLE order_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_events ENABLE ROW LEVEL SECURITY;
 ALTER TABLE cart_items ENABLE ROW LEVEL SECURITY;
 ALTER TABLE payment_methods ENABLE ROW LEVEL SECURITY;
 ALTER TABLE payment_intents ENABLE ROW LEVEL SECURITY;
@@ -264,24 +481,35 @@ ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
 
 -- Users can only see their own data
 CREATE POLICY "Users can view own profile" ON users FOR SELECT USING (id = auth.uid()::text);
-CREATE POLICY "Users can update own profile" ON users FOR UPDATE USING (id = auth.uid()::text);
+-- Only the columns granted at the end of this file; the rest change through the account functions
+CREATE POLICY "Users can update own profile" ON users FOR UPDATE USING (id = auth.uid()::text) WITH CHECK (id = auth.uid()::text);
 
 -- Orders policies
 CREATE POLICY "Users can view own orders" ON orders FOR SELECT USING (customer_id = auth.uid()::text);
-CREATE POLICY "Admins can view all orders" ON orders FOR SELECT USING (
-    EXISTS (SELECT 1 FROM users WHERE id = auth.uid()::text AND role IN ('admin', 'super_admin'))
-);
+CREATE POLICY "Staff can view all orders" ON orders FOR SELECT USING (has_permission('orders.view'));
 
 -- Order items policies
 CREATE POLICY "Users can view own order items" ON order_items FOR SELECT USING (
     EXISTS (SELECT 1 FROM orders WHERE id = order_items.order_id AND customer_id = auth.uid()::text)
 );
-CREATE POLICY "Admins can view all order items" ON order_items FOR SELECT USING (
-    EXISTS (SELECT 1 FROM users WHERE id = auth.uid()::text AND role IN ('admin', 'super_admin'))
+CREATE POLICY "Staff can view all order items" ON order_items FOR SELECT USING (has_permission('orders.view'));
+
+-- Order events policies
+CREATE POLICY "Users can view own order events" ON order_events FOR SELECT USING (
+    EXISTS (SELECT 1 FROM orders WHERE id = order_events.order_id AND customer_id = auth.uid()::text)
+);
+CREATE POLICY "Users can add events to own orders" ON order_events FOR INSERT WITH CHECK (
+    actor_id = auth.uid()::text AND
+    EXISTS (SELECT 1 FROM orders WHERE id = order_events.order_id AND customer_id = auth.uid()::text)
+);
+CREATE POLICY "Staff can view all order events" ON order_events FOR SELECT USING (has_permission('orders.view'));
+CREATE POLICY "Staff can add order events" ON order_events FOR INSERT WITH CHECK (
+    has_permission('orders.update_status', 'orders.update_delivery', 'orders.cancel', 'payments.update_status', 'payments.refund')
 );
 
 -- Cart items policies
 CREATE POLICY "Users can manage own cart" ON cart_items FOR ALL USING (user_id = auth.uid()::text);
+CREATE POLICY "Support can view carts when viewing as a customer" ON cart_items FOR SELECT USING (has_permission('customers.impersonate'));
 
 -- Payment methods policies
 CREATE POLICY "Users can manage own payment methods" ON payment_methods FOR ALL USING (user_id = auth.uid()::text);
@@ -290,8 +518,8 @@ CREATE POLICY "Users can manage own payment methods" ON payment_methods FOR ALL
 CREATE POLICY "Users can view own payment intents" ON payment_intents FOR SELECT USING (
     EXISTS (SELECT 1 FROM orders WHERE id = payment_intents.order_id AND customer_id = auth.uid()::text)
 );
-CREATE POLICY "Admins can view all payment intents" ON payment_intents FOR SELECT USING (
-    EXISTS (SELECT 1 FROM users WHERE id = auth.uid()::text AND role IN ('admin', 'super_admin'))
+CREATE POLICY "Staff can view all payment intents" ON payment_intents FOR SELECT USING (
+    has_permission('orders.view', 'payments.update_status', 'payments.refund')
 );
 
 -- Messages policies
@@ -299,14 +527,46 @@ CREATE POLICY "Users can view own messages" ON messages FOR SELECT USING (
     sender_id = auth.uid()::text OR recipient_id = auth.uid()::text
 );
 CREATE POLICY "Users can create messages" ON messages FOR INSERT WITH CHECK (sender_id = auth.uid()::text);
-CREATE POLICY "Admins can view all messages" ON messages FOR SELECT USING (
-    EXISTS (SELECT 1 FROM users WHERE id = auth.uid()::text AND role IN ('admin', 'super_admin'))
-);
+CREATE POLICY "Support staff can view all messages" ON messages FOR SELECT USING (has_permission('support.chat'));
 
 -- Notifications policies
 CREATE POLICY "Users can view own notifications" ON notifications FOR SELECT USING (user_id = auth.uid()::text);
 CREATE POLICY "Users can update own notifications" ON notifications FOR UPDATE USING (user_id = auth.uid()::text);
 
+-- Sessions policies: a user sees and revokes their own sessions on every device
+ALTER TABLE token_families ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can manage own sessions" ON token_families FOR ALL USING (user_id = auth.uid()::text);
+
+-- Staff invitations policies: whoever manages roles manages them; invitees go through the functions below
+ALTER TABLE staff_invitations ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Role managers can manage invitations" ON staff_invitations FOR ALL USING (has_permission('roles.manage'));
+
+-- Settings are public; only the service role changes them
+ALTER TABLE app_settings ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Anyone can read settings" ON app_settings FOR SELECT USING (TRUE);
+
+-- Role permissions are public, since the app reads them before anyone signs in; only role managers change them
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Anyone can read role permissions" ON role_permissions FOR SELECT USING (TRUE);
+CREATE POLICY "Role managers can change role permissions" ON role_permissions FOR INSERT WITH CHECK (has_permission('roles.manage'));
+CREATE POLICY "Role managers can update role permissions" ON role_permissions FOR UPDATE USING (has_permission('roles.manage'));
+
+-- Users as clients may list them: no password hash or MFA secrets, only whether each is set.
+-- The view reads past row level security, so it applies the same rule itself: your own row, or
+-- every row for staff who view customers or manage roles. users itself stays readable only by its owner.
+CREATE OR REPLACE VIEW user_profiles WITH (security_barrier) AS
+SELECT
+    id, email, role, profile, preferences, status, created_at, updated_at, last_login_at,
+    email_verified_at, phone_verified_at, locked_until, deleted_at,
+    password_hash IS NOT NULL AS has_password,
+    COALESCE((mfa->>'enabled')::BOOLEAN, FALSE) AS mfa_enabled
+FROM users
+WHERE id = auth.uid()::text
+    OR has_permission('customers.view', 'roles.manage');
+
+REVOKE ALL ON user_profiles FROM anon;
+GRANT SELECT ON user_profiles TO authenticated;
+
 -- Insert sample data
 INSERT INTO categories (name, description, sort_order) VALUES
 ('Water Products', 'Various types of water products', 1),
@@ -414,6 +674,460 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
+-- Checkout: stores an order with its items and payment intent in one transaction, after checking
+-- the prices and stock the customer saw against the current products, and reserves the stock.
+-- Every amount is worked out here from the products and app_settings; the client's figures must
+-- match them, so a tampered total or discount is refused rather than stored.
+-- Placing the same order again returns the stored one, so a replayed request is harmless; an id
+-- already used by another customer's order is refused without revealing it.
+-- The customer is auth.uid(), so the caller needs a Supabase Auth session whose user id is the
+-- customer's users.id; with only the anon key every order is refused. amend_order is the same.
+-- Only the columns a customer may choose are read from p_order: status, payment status, the number,
+-- the contact details and the timestamps are the server's, and anything left out takes the column default.
+CREATE OR REPLACE FUNCTION place_order(p_order JSONB, p_items JSONB, p_payment JSONB DEFAULT NULL)
+RETURNS orders AS $$
+DECLARE
+    placed orders;
+    customer users;
+    item JSONB;
+    product products;
+    item_quantity INTEGER;
+    max_quantity INTEGER := app_setting('checkout', 'max_quantity_per_item')::INTEGER;
+    order_subtotal DECIMAL(10,2) := 0;
+    order_tax DECIMAL(10,2);
+    order_shipping DECIMAL(10,2) := app_setting('checkout', 'shipping_cost')::DECIMAL;
+    order_total DECIMAL(10,2);
+BEGIN
+    IF auth.uid() IS NULL OR p_order->>'customer_id' IS DISTINCT FROM auth.uid()::text THEN
+        RAISE EXCEPTION 'Orders can only be placed for yourself' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT * INTO placed FROM orders WHERE id = p_order->>'id' AND customer_id = auth.uid()::text;
+    IF FOUND THEN
+        RETURN placed;
+    END IF;
+    IF EXISTS (SELECT 1 FROM orders WHERE id = p_order->>'id') THEN
+        RAISE EXCEPTION 'Order id is already in use' USING ERRCODE = 'unique_violation';
+    END IF;
+
+    SELECT * INTO customer FROM users WHERE id = auth.uid()::text;
+    IF customer.status = 'pending_verification' THEN
+        RAISE EXCEPTION 'Please confirm your email address before placing an order' USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF jsonb_array_length(p_items) = 0 THEN
+        RAISE EXCEPTION 'An order needs at least one item' USING ERRCODE = 'check_violation';
+    END IF;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+        item_quantity := (item->>'quantity')::INTEGER;
+        IF item_quantity < 1 OR item_quantity > max_quantity THEN
+            RAISE EXCEPTION 'Quantities must be between 1 and %', max_quantity USING ERRCODE = 'check_violation';
+        END IF;
+        -- Locked until commit, so two checkouts cannot both take the last units
+        SELECT * INTO product FROM products WHERE id = item->>'product_id' FOR UPDATE;
+        IF NOT FOUND OR product.status <> 'active' THEN
+            RAISE EXCEPTION 'Product % is not available', item->>'product_id' USING ERRCODE = 'check_violation';
+        END IF;
+        IF product.price <> (item->>'unit_price')::DECIMAL THEN
+            RAISE EXCEPTION 'The price of % has changed', product.name USING ERRCODE = 'check_violation';
+        END IF;
+        IF (item->>'total_price')::DECIMAL <> product.price * item_quantity THEN
+            RAISE EXCEPTION 'The line total for % does not match its price', product.name USING ERRCODE = 'check_violation';
+        END IF;
+        IF product.stock_quantity < item_quantity THEN
+            RAISE EXCEPTION 'Only % of % left in stock', product.stock_quantity, product.name USING ERRCODE = 'check_violation';
+        END IF;
+        order_subtotal := order_subtotal + product.price * item_quantity;
+    END LOOP;
+
+    -- The same sums as computeTotals in src/utils/orderTotals.ts; there are no discounts yet
+    order_tax := ROUND(order_subtotal * app_setting('checkout', 'tax_rate')::DECIMAL, 2);
+    order_total := order_subtotal + order_tax + order_shipping;
+    IF (p_order->>'subtotal')::DECIMAL IS DISTINCT FROM order_subtotal
+        OR COALESCE((p_order->>'tax_amount')::DECIMAL, 0) <> order_tax
+        OR COALESCE((p_order->>'shipping_cost')::DECIMAL, 0) <> order_shipping
+        OR COALESCE((p_order->>'discount_amount')::DECIMAL, 0) <> 0
+        OR (p_order->>'total_amount')::DECIMAL IS DISTINCT FROM order_total THEN
+        RAISE EXCEPTION 'Order totals do not match current prices' USING ERRCODE = 'check_violation';
+    END IF;
+    IF p_payment IS NOT NULL AND (
+        (p_payment->>'amount')::INTEGER IS DISTINCT FROM ROUND(order_total * 100)::INTEGER
+        OR p_payment->>'currency' IS DISTINCT FROM 'NGN'
+        OR p_payment->>'payment_method' IS DISTINCT FROM p_order->>'payment_method'
+    ) THEN
+        RAISE EXCEPTION 'Payment does not match the order total' USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Contact details come from the account, as customerContact in src/utils/orderCustomer.ts builds them
+    INSERT INTO orders (
+        id, customer_id, customer_name, customer_email, customer_phone,
+        payment_method, subtotal, tax_amount, shipping_cost, discount_amount, total_amount,
+        notes, delivery_zone, priority, shipping_address, billing_address, stock_reserved
+    ) VALUES (
+        p_order->>'id',
+        auth.uid()::text,
+        NULLIF(CONCAT_WS(' ', NULLIF(customer.profile->>'first_name', ''), NULLIF(customer.profile->>'last_name', '')), ''),
+        NULLIF(customer.email, ''),
+        NULLIF(customer.profile->>'phone', ''),
+        (p_order->>'payment_method')::payment_method_type,
+        order_subtotal,
+        order_tax,
+        order_shipping,
+        0,
+        order_total,
+        p_order->>'notes',
+        p_order->>'delivery_zone',
+        COALESCE(p_order->>'priority', 'medium'),
+        COALESCE(p_order->'shipping_address', '""'::JSONB),
+        COALESCE(p_order->'billing_address', p_order->'shipping_address', '""'::JSONB),
+        TRUE
+    ) RETURNING * INTO placed;
+
+    INSERT INTO order_items (id, order_id, product_id, quantity, unit_price, total_price)
+    SELECT i->>'id', placed.id, i->>'product_id', (i->>'quantity')::INTEGER, p.price, p.price * (i->>'quantity')::INTEGER
+    FROM jsonb_array_elements(p_items) i
+    JOIN products p ON p.id = i->>'product_id';
+
+    -- Reserved until the order is cancelled
+    UPDATE products p SET stock_quantity = p.stock_quantity - (i->>'quantity')::INTEGER
+    FROM jsonb_array_elements(p_items) i
+    WHERE p.id = i->>'product_id';
+
+    IF p_payment IS NOT NULL THEN
+        INSERT INTO payment_intents (id, order_id, amount, currency, status, payment_method)
+        VALUES (p_payment->>'id', placed.id, ROUND(order_total * 100)::INTEGER, 'NGN', 'pending', placed.payment_method);
+    END IF;
+
+    RETURN placed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- A customer's change to their own pending order within the order_changes window of placing it: cancel
+-- it, releasing any stock it reserved, or change quantities (p_quantities, by item id; 0 removes the item)
+-- and the delivery address. Paid orders can be cancelled but their items are fixed. Staff with
+-- orders.update_status are told either way. Only status, cancellation_reason and shipping_address are read from p_changes: the totals
+-- are repriced here from the items and app_settings, and payment_status is left to the payment flow.
+DROP FUNCTION IF EXISTS amend_order(TEXT, JSONB, JSONB);
+DROP FUNCTION IF EXISTS amend_order(TEXT, INTEGER, JSONB, JSONB);
+CREATE OR REPLACE FUNCTION amend_order(p_order_id TEXT, p_quantities JSONB DEFAULT NULL, p_changes JSONB DEFAULT '{}')
+RETURNS orders AS $$
+DECLARE
+    target orders;
+    item order_items;
+    new_quantity INTEGER;
+    available INTEGER;
+    order_subtotal DECIMAL(10,2);
+    order_tax DECIMAL(10,2);
+    order_shipping DECIMAL(10,2) := app_setting('checkout', 'shipping_cost')::DECIMAL;
+BEGIN
+    SELECT * INTO target FROM orders WHERE id = p_order_id FOR UPDATE;
+    IF NOT FOUND OR target.customer_id IS DISTINCT FROM auth.uid()::text THEN
+        RAISE EXCEPTION 'You can only change your own orders' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    IF target.status <> 'pending' THEN
+        RAISE EXCEPTION 'This order can no longer be changed' USING ERRCODE = 'check_violation';
+    END IF;
+    IF NOW() > target.created_at + make_interval(mins => app_setting('order_changes', 'window_minutes')::INTEGER) THEN
+        RAISE EXCEPTION 'The time to change this order has passed' USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF p_changes->>'status' = 'cancelled' THEN
+        IF target.stock_reserved THEN
+            UPDATE products p SET stock_quantity = p.stock_quantity + oi.quantity
+            FROM order_items oi
+            WHERE oi.order_id = target.id AND p.id = oi.product_id;
+        END IF;
+        -- Unpaid intents are dropped; a paid one is refunded by the app through the payment provider
+        UPDATE payment_intents SET status = 'cancelled' WHERE order_id = target.id AND status IN ('pending', 'processing');
+        UPDATE orders SET
+            status = 'cancelled',
+            stock_reserved = FALSE,
+            cancellation_reason = p_changes->>'cancellation_reason'
+        WHERE id = target.id
+        RETURNING * INTO target;
+    ELSE
+        IF p_quantities IS NOT NULL THEN
+            IF target.payment_status = 'paid' THEN
+                RAISE EXCEPTION 'A paid order can be cancelled but its items cannot be changed' USING ERRCODE = 'check_violation';
+            END IF;
+            FOR item IN SELECT * FROM order_items WHERE order_id = target.id LOOP
+                new_quantity := COALESCE((p_quantities->>item.id)::INTEGER, item.quantity);
+                IF new_quantity < 0 THEN
+                    RAISE EXCEPTION 'Quantities cannot be negative' USING ERRCODE = 'check_violation';
+                END IF;
+                -- Stock moves by the difference only for an order that reserved it in the first place
+                IF target.stock_reserved THEN
+                    SELECT stock_quantity INTO available FROM products WHERE id = item.product_id FOR UPDATE;
+                    IF new_quantity - item.quantity > available THEN
+                        RAISE EXCEPTION 'Only % more of this item in stock', available USING ERRCODE = 'check_violation';
+                    END IF;
+                    UPDATE products SET stock_quantity = stock_quantity - (new_quantity - item.quantity) WHERE id = item.product_id;
+                END IF;
+                IF new_quantity = 0 THEN
+                    DELETE FROM order_items WHERE id = item.id;
+                ELSE
+                    UPDATE order_items SET quantity = new_quantity, total_price = unit_price * new_quantity WHERE id = item.id;
+                END IF;
+            END LOOP;
+            IF NOT EXISTS (SELECT 1 FROM order_items WHERE order_id = target.id) THEN
+                RAISE EXCEPTION 'An order needs at least one item; cancel it instead' USING ERRCODE = 'check_violation';
+            END IF;
+            -- Repriced as place_order prices: the items keep the unit price they were placed at
+            SELECT SUM(total_price) INTO order_subtotal FROM order_items WHERE order_id = target.id;
+            order_tax := ROUND(order_subtotal * app_setting('checkout', 'tax_rate')::DECIMAL, 2);
+            UPDATE orders SET
+                subtotal = order_subtotal,
+                tax_amount = order_tax,
+                shipping_cost = order_shipping,
+                total_amount = order_subtotal + order_tax + order_shipping - discount_amount
+            WHERE id = target.id;
+        END IF;
+
+        UPDATE orders SET shipping_address = COALESCE(p_changes->'shipping_address', shipping_address)
+        WHERE id = target.id
+        RETURNING * INTO target;
+        UPDATE payment_intents SET amount = ROUND(target.total_amount * 100) WHERE order_id = target.id AND status = 'pending';
+    END IF;
+
+    INSERT INTO notifications (user_id, type, title, content, data)
+    SELECT id, 'order',
+        CASE WHEN target.status = 'cancelled' THEN 'Order Cancelled by Customer' ELSE 'Order Changed by Customer' END,
+        'Order ' || target.order_number || CASE WHEN target.status = 'cancelled' THEN ' was cancelled' ELSE ' was changed' END || ' by the customer',
+        jsonb_build_object('order_id', target.id, 'order_number', target.order_number)
+    FROM users
+    WHERE role_has_permission(role, 'orders.update_status') AND status = 'active';
+
+    RETURN target;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Account deletion for the signed-in customer, who has no update or delete rights on most of these rows.
+-- Open orders are cancelled and their stock put back; unpaid intents are dropped, and a paid one is
+-- refunded by the app through the payment provider. Orders stay for accounting under a pseudonym (see
+-- src/utils/orderCustomer.ts) with nothing else identifying; messages, notifications, saved payment methods
+-- and the cart are deleted.
+CREATE OR REPLACE FUNCTION erase_customer_data(p_user_id TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    cancelled_ids TEXT[];
+    pseudonymized_count INTEGER;
+    message_count INTEGER;
+    notification_count INTEGER;
+    payment_method_count INTEGER;
+    cart_item_count INTEGER;
+BEGIN
+    IF auth.uid() IS NULL OR p_user_id IS DISTINCT FROM auth.uid()::text THEN
+        RAISE EXCEPTION 'You can only delete your own account' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM users WHERE id = p_user_id AND role = 'customer') THEN
+        RAISE EXCEPTION 'Staff accounts are removed by a super admin' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT COALESCE(array_agg(id), '{}') INTO cancelled_ids FROM (
+        SELECT id FROM orders
+        WHERE customer_id = p_user_id AND status IN ('pending', 'confirmed', 'processing')
+        FOR UPDATE
+    ) open_orders;
+
+    UPDATE products p SET stock_quantity = p.stock_quantity + reserved.quantity
+    FROM (
+        SELECT oi.product_id, SUM(oi.quantity) AS quantity
+        FROM order_items oi
+        JOIN orders o ON o.id = oi.order_id
+        WHERE o.id = ANY(cancelled_ids) AND o.stock_reserved
+        GROUP BY oi.product_id
+    ) reserved
+    WHERE p.id = reserved.product_id;
+    UPDATE payment_intents SET status = 'cancelled' WHERE order_id = ANY(cancelled_ids) AND status IN ('pending', 'processing');
+    UPDATE orders SET status = 'cancelled', stock_reserved = FALSE, cancellation_reason = 'account_deleted'
+    WHERE id = ANY(cancelled_ids);
+    INSERT INTO order_events (order_id, type, actor_id, actor_name, note)
+    SELECT id, 'cancelled', NULL, 'System', 'Account deleted' FROM unnest(cancelled_ids) AS id;
+
+    -- Amounts, items, payment method and status stay; anything identifying goes
+    UPDATE orders SET
+        customer_name = 'Customer ' || UPPER(RIGHT(regexp_replace(p_user_id, '^user_', ''), 6)),
+        customer_email = NULL,
+        customer_phone = NULL,
+        shipping_address = '"[removed]"'::JSONB,
+        billing_address = '"[removed]"'::JSONB,
+        notes = '',
+        pseudonymized_at = NOW()
+    WHERE customer_id = p_user_id;
+    GET DIAGNOSTICS pseudonymized_count = ROW_COUNT;
+
+    DELETE FROM messages WHERE sender_id = p_user_id OR recipient_id = p_user_id;
+    GET DIAGNOSTICS message_count = ROW_COUNT;
+    DELETE FROM notifications WHERE user_id = p_user_id;
+    GET DIAGNOSTICS notification_count = ROW_COUNT;
+    DELETE FROM payment_methods WHERE user_id = p_user_id;
+    GET DIAGNOSTICS payment_method_count = ROW_COUNT;
+    DELETE FROM cart_items WHERE user_id = p_user_id;
+    GET DIAGNOSTICS cart_item_count = ROW_COUNT;
+
+    -- The account stays as an anonymized tombstone for the retained orders to point at
+    UPDATE users SET
+        email = 'deleted_' || p_user_id,
+        password_hash = NULL,
+        profile = '{"first_name": "Deleted", "last_name": "Customer"}',
+        preferences = '{"notifications": false, "marketing": false, "theme": "light"}',
+        status = 'inactive',
+        last_login_at = NULL,
+        email_verified_at = NULL,
+        phone_verified_at = NULL,
+        locked_until = NULL,
+        mfa = NULL,
+        deleted_at = NOW()
+    WHERE id = p_user_id;
+
+    RETURN jsonb_build_object(
+        'cancelled_order_ids', to_jsonb(cancelled_ids),
+        'pseudonymized_order_count', pseudonymized_count,
+        'removed_message_count', message_count,
+        'removed_notification_count', notification_count,
+        'removed_payment_method_count', payment_method_count,
+        'removed_cart_item_count', cart_item_count
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Account functions: the only way a client changes a user's status, role, MFA, lockout or verification.
+-- Each checks the caller. Passwords and codes are checked on the device before these run, so on a live
+-- project those checks belong to Supabase Auth; see the README
+
+-- Failed sign-ins come before any session, so anyone may lock an account, for no longer than the sign_in
+-- lockout; loginThrottle's LOCKOUT_DURATION_MINUTES must stay in step
+CREATE OR REPLACE FUNCTION lock_account(p_user_id TEXT, p_locked_until TIMESTAMP WITH TIME ZONE)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE users SET
+        status = 'suspended',
+        locked_until = LEAST(p_locked_until, NOW() + make_interval(mins => app_setting('sign_in', 'lockout_minutes')::INTEGER))
+    WHERE id = p_user_id AND status IN ('active', 'pending_verification');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Staff who may unlock accounts lift any suspension; anyone may lift a lockout that has run out
+CREATE OR REPLACE FUNCTION unlock_account(p_user_id TEXT)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE users SET status = 'active', locked_until = NULL
+    WHERE id = p_user_id AND status = 'suspended'
+        AND (has_permission('customers.unlock') OR (locked_until IS NOT NULL AND locked_until <= NOW()));
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'This account cannot be unlocked' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION set_user_role(p_user_id TEXT, p_role user_role)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT has_permission('roles.manage') OR p_user_id = auth.uid()::text THEN
+        RAISE EXCEPTION 'You cannot change this role' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    UPDATE users SET role = p_role WHERE id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- A user saves their own enrollment; staff who may reset it only clear someone else's
+CREATE OR REPLACE FUNCTION set_user_mfa(p_user_id TEXT, p_mfa JSONB)
+RETURNS VOID AS $$
+BEGIN
+    IF auth.uid() IS NULL OR NOT (
+        p_user_id = auth.uid()::text
+        OR (p_mfa IS NULL AND has_permission('staff.reset_mfa'))
+    ) THEN
+        RAISE EXCEPTION 'You cannot change this two-factor authentication' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    UPDATE users SET mfa = p_mfa WHERE id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION confirm_email(p_user_id TEXT)
+RETURNS VOID AS $$
+BEGIN
+    IF auth.uid() IS NULL OR p_user_id IS DISTINCT FROM auth.uid()::text THEN
+        RAISE EXCEPTION 'You can only confirm your own email' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    UPDATE users SET
+        email_verified_at = NOW(),
+        status = CASE WHEN status = 'pending_verification' THEN 'active' ELSE status END
+    WHERE id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION confirm_phone(p_user_id TEXT)
+RETURNS VOID AS $$
+BEGIN
+    IF auth.uid() IS NULL OR p_user_id IS DISTINCT FROM auth.uid()::text THEN
+        RAISE EXCEPTION 'You can only confirm your own phone number' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    UPDATE users SET phone_verified_at = NOW() WHERE id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The reset code went to the account's inbox, so it also confirms the email and lifts a lockout
+CREATE OR REPLACE FUNCTION reset_password(p_user_id TEXT, p_password_hash TEXT)
+RETURNS VOID AS $$
+BEGIN
+    IF auth.uid() IS NULL OR p_user_id IS DISTINCT FROM auth.uid()::text THEN
+        RAISE EXCEPTION 'You can only reset your own password' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    UPDATE users SET
+        password_hash = p_password_hash,
+        email_verified_at = CASE WHEN status = 'pending_verification' THEN NOW() ELSE email_verified_at END,
+        status = CASE WHEN status = 'pending_verification' OR (status = 'suspended' AND locked_until IS NOT NULL) THEN 'active' ELSE status END,
+        locked_until = CASE WHEN status = 'suspended' THEN NULL ELSE locked_until END
+    WHERE id = p_user_id AND status <> 'inactive';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- A client may clear phone_verified_at, as a profile edit that changes the number does, but only
+-- confirm_phone sets it; and a number changed without clearing it is no longer verified
+CREATE OR REPLACE FUNCTION guard_phone_verification()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_user IN ('anon', 'authenticated') AND NEW.phone_verified_at IS NOT NULL
+        AND NEW.phone_verified_at IS DISTINCT FROM OLD.phone_verified_at THEN
+        RAISE EXCEPTION 'A phone number is confirmed with a code' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    IF NEW.profile->>'phone' IS DISTINCT FROM OLD.profile->>'phone' THEN
+        NEW.phone_verified_at := NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_phone_verification ON users;
+CREATE TRIGGER guard_phone_verification BEFORE UPDATE ON users FOR EACH ROW EXECUTE FUNCTION guard_phone_verification();
+
+-- An invitee has no session yet, so they reach their invitation only with the id and hash from the link
+CREATE OR REPLACE FUNCTION find_staff_invitation(p_id TEXT, p_token_hash TEXT)
+RETURNS SETOF staff_invitations AS $$
+    SELECT * FROM staff_invitations WHERE id = p_id AND token_hash = p_token_hash;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Spends an invitation on the account created from it: it must still be pending, and the account must
+-- have the email it was sent to
+CREATE OR REPLACE FUNCTION accept_staff_invitation(p_id TEXT, p_token_hash TEXT, p_user_id TEXT)
+RETURNS staff_invitations AS $$
+DECLARE
+    accepted staff_invitations;
+BEGIN
+    UPDATE staff_invitations i SET accepted_at = NOW(), accepted_user_id = p_user_id
+    WHERE i.id = p_id AND i.token_hash = p_token_hash
+        AND i.accepted_at IS NULL AND i.revoked_at IS NULL AND i.expires_at > NOW()
+        AND EXISTS (SELECT 1 FROM users u WHERE u.id = p_user_id AND u.email = i.email)
+    RETURNING * INTO accepted;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'This invitation link is not valid' USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN accepted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
 -- Create view for analytics
 CREATE VIEW order_analytics AS
 SELECT 
@@ -432,3 +1146,8 @@ GRANT USAGE ON SCHEMA public TO anon, authenticated;
 GRANT ALL ON ALL TABLES IN SCHEMA public TO anon, authenticated;
 GRANT ALL ON ALL SEQUENCES IN SCHEMA public TO anon, authenticated;
 GRANT EXECUTE ON ALL FUNCTIONS IN SCHEMA public TO anon, authenticated;
+
+-- Users update only these columns of their own row directly (see "Users can update own profile"); status,
+-- role, MFA, lockouts, verification and passwords go through the account functions
+REVOKE UPDATE ON users FROM anon, authenticated;
+GRANT UPDATE (profile, preferences, phone_verified_at, last_login_at, updated_at) ON users TO authenticated;
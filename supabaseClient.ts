@@ -1,26 +1,29 @@
 import { createClient } from '@supabase/supabase-js';
 import { config, logConfigStatus } from './src/config/environment';
+import { createMemorySupabaseClient, asSupabaseClient } from './supabaseMemoryClient';
 
 // Log configuration status
 logConfigStatus();
 
-// Create Supabase client with proper configuration
-export const supabase = createClient(
-  config.SUPABASE_URL, 
-  config.SUPABASE_ANON_KEY,
-  {
-    auth: {
-      autoRefreshToken: true,
-      persistSession: true,
-      detectSessionInUrl: false
-    },
-    realtime: {
-      params: {
-        eventsPerSecond: 10
+// Create Supabase client with proper configuration, or the in-memory stand-in for offline work
+export const supabase = config.SUPABASE_CLIENT === 'memory'
+  ? asSupabaseClient(createMemorySupabaseClient())
+  : createClient(
+    config.SUPABASE_URL, 
+    config.SUPABASE_ANON_KEY,
+    {
+      auth: {
+        autoRefreshToken: true,
+        persistSession: true,
+        detectSessionInUrl: false
+      },
+      realtime: {
+        params: {
+          eventsPerSecond: 10
+        }
       }
     }
-  }
-);
+  );
 
 // Test connection
 export const testSupabaseConnection = async (): Promise<boolean> => {
@@ -0,0 +1,1273 @@
+/**
+ * In-memory Supabase Client
+ * Offline stand-in for the query builder and realtime channels, seeded from supabase/production_schema.sql
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { formatOrderNumber } from './src/utils/orderNumber';
+import { customerContact, customerPseudonym } from './src/utils/orderCustomer';
+import { applyRoleOverrides, roleHasPermission, Permission, RoleOverride } from './src/utils/roles';
+
+type Row = Record<string, any>;
+
+interface MemoryError {
+  message: string;
+  details: string | null;
+  hint: string | null;
+  code: string;
+}
+
+interface MemoryResponse {
+  data: any;
+  error: MemoryError | null;
+  count: number | null;
+  status: number;
+  statusText: string;
+}
+
+type ChangeEvent = 'INSERT' | 'UPDATE' | 'DELETE';
+
+interface ChangePayload {
+  schema: string;
+  table: string;
+  commit_timestamp: string;
+  eventType: ChangeEvent;
+  new: Row;
+  old: Row;
+  errors: null;
+}
+
+interface TableDefinition {
+  idPrefix: string;
+  defaults?: () => Row;
+  unique?: string[];
+  // Unique among non-blank values only, like the partial index on users.email
+  uniqueUnlessBlank?: string[];
+  timestamps?: Array<'created_at' | 'updated_at'>;
+  cascade?: Array<{ table: string; column: string }>;
+  // Columns a BEFORE INSERT trigger sets, overriding whatever the client sent
+  assign?: (db: MemoryDatabase, row: Row) => Row;
+}
+
+const randomSuffix = (length: number): string =>
+  Array.from({ length }, () => Math.floor(Math.random() * 16).toString(16)).join('');
+
+// Column defaults and constraints mirrored from production_schema.sql
+const TABLES: Record<string, TableDefinition> = {
+  users: {
+    idPrefix: 'user_',
+    uniqueUnlessBlank: ['email'],
+    defaults: () => ({
+      role: 'customer',
+      profile: { first_name: '', last_name: '', phone: null, address: null, avatar_url: null },
+      preferences: { notifications: true, marketing: false, theme: 'light' },
+      status: 'active'
+    })
+  },
+  categories: { idPrefix: 'cat_', defaults: () => ({ sort_order: 0, status: 'active' }) },
+  suppliers: { idPrefix: 'sup_', defaults: () => ({ status: 'active' }) },
+  products: {
+    idPrefix: 'prod_',
+    unique: ['sku'],
+    defaults: () => ({
+      stock_quantity: 0,
+      min_stock_level: 0,
+      max_stock_level: 0,
+      images: [],
+      features: [],
+      specifications: {},
+      status: 'active'
+    })
+  },
+  orders: {
+    idPrefix: 'ord_',
+    unique: ['order_number'],
+    defaults: () => ({
+      status: 'pending',
+      payment_status: 'pending',
+      tax_amount: 0,
+      shipping_cost: 0,
+      discount_amount: 0,
+      priority: 'medium',
+      stock_reserved: false
+    }),
+    cascade: [
+      { table: 'order_items', column: 'order_id' },
+      { table: 'order_events', column: 'order_id' }
+    ],
+    assign: (db, row) => ({ order_number: formatOrderNumber(new Date(row.created_at), db.nextval('order_number_seq')) })
+  },
+  order_items: { idPrefix: 'item_', timestamps: ['created_at'] },
+  order_events: { idPrefix: 'evt_', timestamps: ['created_at'] },
+  cart_items: { idPrefix: 'cart_' },
+  payment_methods: { idPrefix: 'pm_', defaults: () => ({ is_default: false }), timestamps: ['created_at'] },
+  payment_intents: { idPrefix: 'pi_', defaults: () => ({ currency: 'NGN', status: 'pending' }) },
+  messages: { idPrefix: 'msg_', defaults: () => ({ type: 'general', status: 'unread', priority: 'medium' }) },
+  notifications: { idPrefix: 'notif_', defaults: () => ({ data: {}, status: 'unread' }), timestamps: ['created_at'] },
+  analytics: {
+    idPrefix: 'analytics_',
+    defaults: () => ({ dimensions: {}, date: new Date().toISOString().slice(0, 10) }),
+    timestamps: ['created_at']
+  },
+  audit_logs: { idPrefix: 'audit_', timestamps: ['created_at'] },
+  token_families: { idPrefix: 'fam_', timestamps: ['created_at'] },
+  staff_invitations: { idPrefix: 'invite_', timestamps: ['created_at'] },
+  role_permissions: { idPrefix: '' }, // keyed by role
+  app_settings: { idPrefix: '', timestamps: ['updated_at'] } // keyed by name; id mirrors key
+};
+
+// app_settings as the schema seeds it; functions fall back to these when a test seeds its own data
+const DEFAULT_SETTINGS: Record<string, Row> = {
+  checkout: { tax_rate: 0.1, shipping_cost: 500, max_quantity_per_item: 100 },
+  order_changes: { window_minutes: 15 },
+  sign_in: { lockout_minutes: 15 }
+};
+
+// The schema's sample data, with the sub-selects resolved to fixed ids
+const SEED_DATA: Record<string, Row[]> = {
+  app_settings: Object.entries(DEFAULT_SETTINGS).map(([key, value]) => ({ id: key, key, value })),
+  categories: [
+    { id: 'cat_water', name: 'Water Products', description: 'Various types of water products', sort_order: 1 },
+    { id: 'cat_dispensers', name: 'Dispensers', description: 'Water dispensers and coolers', sort_order: 2 },
+    { id: 'cat_accessories', name: 'Accessories', description: 'Water-related accessories and filters', sort_order: 3 }
+  ],
+  suppliers: [
+    { id: 'sup_aquapure', name: 'AquaPure Nigeria', contact_person: 'John Smith', email: 'contact@aquapure.ng', phone: '+2348012345678', address: 'Lagos, Nigeria', payment_terms: 'Net 30' },
+    { id: 'sup_cooltech', name: 'CoolTech Solutions', contact_person: 'Jane Doe', email: 'info@cooltech.ng', phone: '+2348098765432', address: 'Abuja, Nigeria', payment_terms: 'Net 15' },
+    { id: 'sup_filterpro', name: 'FilterPro Industries', contact_person: 'Mike Johnson', email: 'sales@filterpro.ng', phone: '+2348055566677', address: 'Port Harcourt, Nigeria', payment_terms: 'Net 45' }
+  ],
+  products: [
+    {
+      id: 'prod_water20l', name: 'Premium Water 20L', description: 'Premium purified water in 20L container',
+      price: 1200, cost: 800, sku: 'WAT-20L-001', category_id: 'cat_water', supplier_id: 'sup_aquapure',
+      stock_quantity: 50, min_stock_level: 10, max_stock_level: 100,
+      images: ['https://example.com/water20l.jpg'], features: ['BPA Free', 'Purified', '20L Capacity']
+    },
+    {
+      id: 'prod_dispenser', name: 'Water Dispenser', description: 'Electric water dispenser with hot and cold options',
+      price: 25000, cost: 18000, sku: 'DISP-001', category_id: 'cat_dispensers', supplier_id: 'sup_cooltech',
+      stock_quantity: 15, min_stock_level: 5, max_stock_level: 50,
+      images: ['https://example.com/dispenser.jpg'], features: ['Hot & Cold', 'Energy Efficient', 'Easy to Clean']
+    },
+    {
+      id: 'prod_filter', name: 'Water Filter', description: 'Advanced water filtration system',
+      price: 8500, cost: 6000, sku: 'FILT-001', category_id: 'cat_accessories', supplier_id: 'sup_filterpro',
+      stock_quantity: 30, min_stock_level: 8, max_stock_level: 100,
+      images: ['https://example.com/filter.jpg'], features: ['Multi-stage Filtration', 'Long Lasting', 'Easy Installation']
+    }
+  ],
+  users: [
+    {
+      id: 'user_superadmin', email: 'admin@zadafoods.com',
+      password_hash: '$2a$12$LQv3c1yqBWVHxkd0LHAkCOYz6TtxMQJqhN8/LewdBPj4J/8KzK8K2', role: 'super_admin',
+      profile: { first_name: 'Super', last_name: 'Admin', phone: '+2348000000000', address: 'ZADA Foods HQ' },
+      status: 'active'
+    }
+  ]
+};
+
+const clone = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+// Read-only views from production_schema.sql, computed from their table on every read
+const VIEWS: Record<string, { table: string; select: (row: Row) => Row }> = {
+  user_profiles: {
+    table: 'users',
+    select: ({ password_hash, mfa, ...profile }) => ({
+      ...profile,
+      has_password: password_hash != null,
+      mfa_enabled: !!mfa?.enabled
+    })
+  }
+};
+
+// The unique columns a row has a value in; NULL never collides, and neither does blank where the index skips it
+const uniqueColumns = (definition: TableDefinition | undefined, row: Row): string[] => [
+  ...(definition?.unique || []).filter(column => row[column] != null),
+  ...(definition?.uniqueUnlessBlank || []).filter(column => row[column] != null && row[column] !== '')
+];
+
+const memoryError = (message: string, code: string): MemoryError => ({ message, details: null, hint: null, code });
+
+// 'categories' -> 'category', 'orders' -> 'order'
+const singular = (table: string): string =>
+  table.endsWith('ies') ? table.slice(0, -3) + 'y' : table.replace(/s$/, '');
+
+/**
+ * In-memory tables shared by every query builder and channel of one client
+ */
+export class MemoryDatabase {
+  private tables: Record<string, Row[]> = {};
+  private sequences: Record<string, number> = {};
+  private channels = new Set<MemoryChannel>();
+  // What auth.uid() returns: the user a Supabase Auth session names. The app never signs in to
+  // Supabase Auth, so it stays null there and the functions that need it refuse, as on a live project
+  authUserId: string | null = null;
+
+  constructor(seed: Record<string, Row[]> = SEED_DATA) {
+    this.reset(seed);
+  }
+
+  reset(seed: Record<string, Row[]> = SEED_DATA): void {
+    this.tables = {};
+    this.sequences = {};
+    Object.keys(TABLES).forEach(table => {
+      this.tables[table] = [];
+    });
+    Object.entries(seed).forEach(([table, rows]) => {
+      rows.forEach(row => {
+        const { error } = this.insertRow(table, row);
+        if (error) throw new Error(`Seeding ${table} failed: ${error.message}`);
+      });
+    });
+  }
+
+  rows(table: string): Row[] {
+    const view = VIEWS[table];
+    if (view) {
+      return this.rows(view.table).map(row => clone(view.select(row)));
+    }
+    if (!this.tables[table]) {
+      this.tables[table] = [];
+    }
+    return this.tables[table];
+  }
+
+  nextval(sequence: string): number {
+    this.sequences[sequence] = (this.sequences[sequence] || 0) + 1;
+    return this.sequences[sequence];
+  }
+
+  insertRow(table: string, values: Row): { row?: Row; error?: MemoryError } {
+    const definition = TABLES[table];
+    const rows = this.rows(table);
+    const now = new Date().toISOString();
+    const timestamps = definition?.timestamps || ['created_at', 'updated_at'];
+
+    const row: Row = {
+      id: (definition?.idPrefix || '') + randomSuffix(12),
+      ...definition?.defaults?.(),
+      ...Object.fromEntries(timestamps.map(column => [column, now])),
+      ...clone(values)
+    };
+    Object.assign(row, definition?.assign?.(this, row));
+
+    for (const column of ['id', ...uniqueColumns(definition, row)]) {
+      if (rows.some(existing => existing[column] === row[column])) {
+        return {
+          error: memoryError(`duplicate key value violates unique constraint "${table}_${column}_key"`, '23505')
+        };
+      }
+    }
+
+    rows.push(row);
+    this.emit(table, 'INSERT', row, {});
+    return { row };
+  }
+
+  updateRow(table: string, row: Row, values: Row): { row?: Row; error?: MemoryError } {
+    const definition = TABLES[table];
+    const rows = this.rows(table);
+    const next = { ...row, ...clone(values) };
+
+    for (const column of uniqueColumns(definition, next)) {
+      if (rows.some(existing => existing !== row && existing[column] === next[column])) {
+        return {
+          error: memoryError(`duplicate key value violates unique constraint "${table}_${column}_key"`, '23505')
+        };
+      }
+    }
+
+    const old = { ...row };
+    Object.assign(row, next);
+    this.emit(table, 'UPDATE', row, old);
+    return { row };
+  }
+
+  deleteRow(table: string, row: Row): void {
+    this.tables[table] = this.rows(table).filter(existing => existing !== row);
+    (TABLES[table]?.cascade || []).forEach(({ table: child, column }) => {
+      this.rows(child)
+        .filter(childRow => childRow[column] === row.id)
+        .forEach(childRow => this.deleteRow(child, childRow));
+    });
+    this.emit(table, 'DELETE', {}, row);
+  }
+
+  addChannel(channel: MemoryChannel): void {
+    this.channels.add(channel);
+  }
+
+  removeChannel(channel: MemoryChannel): void {
+    this.channels.delete(channel);
+  }
+
+  getChannels(): MemoryChannel[] {
+    return Array.from(this.channels);
+  }
+
+  private emit(table: string, eventType: ChangeEvent, newRow: Row, oldRow: Row): void {
+    const payload: ChangePayload = {
+      schema: 'public',
+      table,
+      commit_timestamp: new Date().toISOString(),
+      eventType,
+      new: clone(newRow),
+      old: clone(oldRow),
+      errors: null
+    };
+    this.channels.forEach(channel => channel.deliver(payload));
+  }
+}
+
+type RowFilter = (row: Row) => boolean;
+
+// Double-quoted values may contain reserved characters; \" and \\ are escapes
+const parseFilterValue = (value: string): any => {
+  if (/^".*"$/.test(value)) return value.slice(1, -1).replace(/\\(.)/g, '$1');
+  if (value === 'null') return null;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return value;
+};
+
+// JSON columns are read with 'profile->>first_name'
+const readColumn = (row: Row, column: string): any =>
+  column.split(/->>?/).reduce((value, key) => (value == null ? undefined : value[key]), row);
+
+// Loose equality so '5' from a filter string matches a numeric column
+const sameValue = (a: any, b: any): boolean => a === b || (a != null && b != null && String(a) === String(b));
+
+// Numbers compare as numbers, everything else (ISO timestamps included) as strings
+const compare = (a: any, b: any): number => {
+  if (typeof a === 'number' || typeof b === 'number') return Number(a) - Number(b);
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+};
+
+// '*' and '%' match any run of characters; a backslash makes the next character literal
+const likePattern = (pattern: string): RegExp => {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    } else if (char === '*' || char === '%') {
+      source += '.*';
+    } else if (char === '_') {
+      source += '.';
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 'is');
+};
+
+const buildFilter = (column: string, operator: string, value: any): RowFilter => {
+  switch (operator) {
+    case 'eq':
+      return row => sameValue(readColumn(row, column), value);
+    case 'neq':
+      return row => !sameValue(readColumn(row, column), value);
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte':
+      return row => {
+        const current = readColumn(row, column);
+        if (current == null || value == null) return false;
+        const order = compare(current, value);
+        return operator === 'gt' ? order > 0 : operator === 'gte' ? order >= 0 : operator === 'lt' ? order < 0 : order <= 0;
+      };
+    case 'ilike': {
+      const pattern = likePattern(String(value));
+      return row => readColumn(row, column) != null && pattern.test(String(readColumn(row, column)));
+    }
+    case 'in':
+      return row => (value as any[]).some(candidate => sameValue(readColumn(row, column), candidate));
+    case 'is':
+      return row => readColumn(row, column) === value || (value === null && readColumn(row, column) === undefined);
+    default:
+      throw new Error(`Unsupported filter operator: ${operator}`);
+  }
+};
+
+// Splits 'a, b, rel(x, y)' on top-level commas only, leaving quoted values intact
+const splitTopLevel = (expression: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+  for (let i = 0; i < expression.length; i++) {
+    const char = expression[i];
+    if (quoted && char === '\\') {
+      current += char + (expression[++i] ?? '');
+      continue;
+    }
+    if (char === '"') quoted = !quoted;
+    if (!quoted && char === '(') depth++;
+    if (!quoted && char === ')') depth--;
+    if (char === ',' && depth === 0 && !quoted) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+};
+
+// One PostgREST condition such as 'sender_id.eq.abc', or a group such as 'and(status.eq.paid,total.gt.5)'
+const parseCondition = (part: string): RowFilter => {
+  const group = part.match(/^(and|or)\((.*)\)$/);
+  if (group) {
+    const conditions = splitTopLevel(group[2]).map(parseCondition);
+    return group[1] === 'and'
+      ? row => conditions.every(condition => condition(row))
+      : row => conditions.some(condition => condition(row));
+  }
+
+  const [column, operator, ...rest] = part.split('.');
+  const raw = rest.join('.');
+  const value = operator === 'in'
+    ? splitTopLevel(raw.replace(/^\(|\)$/g, '')).map(parseFilterValue)
+    : parseFilterValue(raw);
+  return buildFilter(column, operator, value);
+};
+
+// PostgREST filter strings such as 'sender_id.eq.abc,recipient_id.eq.abc'
+const parseOrFilter = (expression: string): RowFilter => parseCondition(`or(${expression})`);
+
+/**
+ * Chainable, awaitable query over one table; mirrors the PostgREST builder subset the repositories use
+ */
+class MemoryQueryBuilder implements PromiseLike<MemoryResponse> {
+  private action: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select';
+  private columns = '*';
+  private returning = false;
+  private values: Row[] = [];
+  private filters: RowFilter[] = [];
+  private ordering: Array<{ column: string; ascending: boolean }> = [];
+  private rowLimit?: number;
+  private rowOffset = 0;
+  private headOnly = false;
+  private cardinality: 'many' | 'single' | 'maybeSingle' = 'many';
+  private countRows = false;
+  private signal?: AbortSignal;
+  private conflictColumn = 'id';
+  private ignoreDuplicates = false;
+
+  constructor(private readonly db: MemoryDatabase, private readonly table: string) {}
+
+  select(columns: string = '*', options?: { count?: 'exact'; head?: boolean }): this {
+    this.columns = columns;
+    if (this.action === 'select') {
+      this.countRows = options?.count === 'exact';
+      this.headOnly = options?.head === true;
+    } else {
+      this.returning = true;
+    }
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.action = 'insert';
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  // Rows whose conflict column matches an existing row update it, or are skipped with ignoreDuplicates
+  upsert(values: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}): this {
+    this.action = 'upsert';
+    this.values = Array.isArray(values) ? values : [values];
+    this.conflictColumn = options.onConflict || 'id';
+    this.ignoreDuplicates = options.ignoreDuplicates === true;
+    return this;
+  }
+
+  update(values: Row): this {
+    this.action = 'update';
+    this.values = [values];
+    return this;
+  }
+
+  delete(): this {
+    this.action = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: any): this {
+    this.filters.push(buildFilter(column, 'eq', value));
+    return this;
+  }
+
+  neq(column: string, value: any): this {
+    this.filters.push(buildFilter(column, 'neq', value));
+    return this;
+  }
+
+  in(column: string, values: any[]): this {
+    this.filters.push(buildFilter(column, 'in', values));
+    return this;
+  }
+
+  gt(column: string, value: any): this {
+    this.filters.push(buildFilter(column, 'gt', value));
+    return this;
+  }
+
+  gte(column: string, value: any): this {
+    this.filters.push(buildFilter(column, 'gte', value));
+    return this;
+  }
+
+  lt(column: string, value: any): this {
+    this.filters.push(buildFilter(column, 'lt', value));
+    return this;
+  }
+
+  lte(column: string, value: any): this {
+    this.filters.push(buildFilter(column, 'lte', value));
+    return this;
+  }
+
+  ilike(column: string, pattern: string): this {
+    this.filters.push(buildFilter(column, 'ilike', pattern));
+    return this;
+  }
+
+  is(column: string, value: null | boolean): this {
+    this.filters.push(buildFilter(column, 'is', value));
+    return this;
+  }
+
+  match(query: Row): this {
+    Object.entries(query).forEach(([column, value]) => this.eq(column, value));
+    return this;
+  }
+
+  or(expression: string): this {
+    this.filters.push(parseOrFilter(expression));
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.ordering.push({ column, ascending: options.ascending !== false });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.rowLimit = count;
+    return this;
+  }
+
+  // Inclusive row bounds, as in supabase-js
+  range(from: number, to: number): this {
+    this.rowOffset = from;
+    this.rowLimit = to - from + 1;
+    return this;
+  }
+
+  single(): this {
+    this.cardinality = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.cardinality = 'maybeSingle';
+    return this;
+  }
+
+  abortSignal(signal: AbortSignal): this {
+    this.signal = signal;
+    return this;
+  }
+
+  then<TResult1 = MemoryResponse, TResult2 = never>(
+    onfulfilled?: ((value: MemoryResponse) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    // Resolve on a later tick, like a network round trip
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private execute(): MemoryResponse {
+    // supabase-js reports an aborted fetch in the response rather than throwing
+    if (this.signal?.aborted) {
+      return this.respond(null, { message: 'AbortError: The operation was aborted.', details: '', hint: '', code: '' }, 0);
+    }
+
+    const matching = () => this.db.rows(this.table).filter(row => this.filters.every(filter => filter(row)));
+
+    let affected: Row[];
+    switch (this.action) {
+      case 'insert': {
+        affected = [];
+        for (const values of this.values) {
+          const { row, error } = this.db.insertRow(this.table, values);
+          if (error) return this.respond(null, error, 409);
+          affected.push(row!);
+        }
+        if (!this.returning) return this.respond(null, null, 201);
+        break;
+      }
+      case 'upsert': {
+        affected = [];
+        for (const values of this.values) {
+          const existing = this.db.rows(this.table).find(row => row[this.conflictColumn] === values[this.conflictColumn]);
+          if (existing && this.ignoreDuplicates) continue;
+          const { row, error } = existing
+            ? this.db.updateRow(this.table, existing, values)
+            : this.db.insertRow(this.table, values);
+          if (error) return this.respond(null, error, 409);
+          affected.push(row!);
+        }
+        if (!this.returning) return this.respond(null, null, 201);
+        break;
+      }
+      case 'update': {
+        affected = [];
+        for (const row of matching()) {
+          const { row: updated, error } = this.db.updateRow(this.table, row, this.values[0]);
+          if (error) return this.respond(null, error, 409);
+          affected.push(updated!);
+        }
+        if (!this.returning) return this.respond(null, null, 204);
+        break;
+      }
+      case 'delete': {
+        affected = matching();
+        affected.forEach(row => this.db.deleteRow(this.table, row));
+        if (!this.returning) return this.respond(null, null, 204);
+        break;
+      }
+      default:
+        affected = matching();
+    }
+
+    let rows = [...affected];
+    if (this.ordering.length > 0) {
+      rows.sort((a, b) => {
+        for (const { column, ascending } of this.ordering) {
+          if (a[column] === b[column]) continue;
+          if (a[column] == null) return 1;
+          if (b[column] == null) return -1;
+          return (a[column] < b[column] ? -1 : 1) * (ascending ? 1 : -1);
+        }
+        return 0;
+      });
+    }
+    const total = rows.length;
+    if (this.headOnly) {
+      return this.respond(null, null, 200, total);
+    }
+    rows = rows.slice(this.rowOffset, this.rowLimit === undefined ? undefined : this.rowOffset + this.rowLimit);
+
+    const data = rows.map(row => this.project(this.table, row, this.columns));
+
+    if (this.cardinality !== 'many') {
+      if (data.length > 1 || (data.length === 0 && this.cardinality === 'single')) {
+        return this.respond(
+          null,
+          memoryError('JSON object requested, multiple (or no) rows returned', 'PGRST116'),
+          406
+        );
+      }
+      return this.respond(data[0] ?? null, null, 200, total);
+    }
+
+    return this.respond(data, null, 200, total);
+  }
+
+  // Applies the column list, including embedded relations such as 'order_items(*)' or 'categories(name)'
+  private project(table: string, row: Row, columns: string): Row {
+    const projected: Row = {};
+    for (const column of splitTopLevel(columns)) {
+      const relation = column.match(/^(\w+)\((.*)\)$/);
+      if (relation) {
+        const [, related, relatedColumns] = relation;
+        const foreignKey = `${singular(related)}_id`;
+        if (foreignKey in row) {
+          const parent = this.db.rows(related).find(candidate => candidate.id === row[foreignKey]);
+          projected[related] = parent ? this.project(related, parent, relatedColumns) : null;
+        } else {
+          const backReference = `${singular(table)}_id`;
+          projected[related] = this.db.rows(related)
+            .filter(child => child[backReference] === row.id)
+            .map(child => this.project(related, child, relatedColumns));
+        }
+      } else if (column === '*') {
+        Object.assign(projected, clone(row));
+      } else if (column in row) {
+        projected[column] = clone(row[column]);
+      }
+    }
+    return projected;
+  }
+
+  private respond(data: any, error: MemoryError | null, status: number, total?: number): MemoryResponse {
+    return {
+      data: error ? null : data,
+      error,
+      count: this.countRows && total !== undefined ? total : null,
+      status,
+      statusText: error ? 'Error' : 'OK'
+    };
+  }
+}
+
+interface ChangeListener {
+  event: ChangeEvent | '*';
+  table?: string;
+  filter?: RowFilter;
+  callback: (payload: ChangePayload) => void;
+}
+
+/**
+ * Realtime channel emulator; delivers postgres_changes for rows written through the same client
+ */
+export class MemoryChannel {
+  private listeners: ChangeListener[] = [];
+  private broadcastListeners: Array<{ event: string; callback: (payload: any) => void }> = [];
+  private subscribed = false;
+
+  constructor(private readonly db: MemoryDatabase, readonly topic: string) {}
+
+  on(
+    type: 'postgres_changes' | 'broadcast',
+    options: { event: string; schema?: string; table?: string; filter?: string },
+    callback: (payload: any) => void
+  ): this {
+    if (type === 'broadcast') {
+      this.broadcastListeners.push({ event: options.event, callback });
+      return this;
+    }
+
+    let filter: RowFilter | undefined;
+    if (options.filter) {
+      // 'customer_id=eq.user_123'
+      const [column, condition] = options.filter.split('=');
+      const [operator, ...rest] = condition.split('.');
+      const raw = rest.join('.');
+      const value = operator === 'in'
+        ? raw.replace(/^\(|\)$/g, '').split(',').map(parseFilterValue)
+        : parseFilterValue(raw);
+      filter = buildFilter(column, operator, value);
+    }
+
+    this.listeners.push({ event: options.event as ChangeEvent | '*', table: options.table, filter, callback });
+    return this;
+  }
+
+  subscribe(callback?: (status: 'SUBSCRIBED' | 'CLOSED') => void): this {
+    this.subscribed = true;
+    this.db.addChannel(this);
+    callback?.('SUBSCRIBED');
+    return this;
+  }
+
+  async unsubscribe(): Promise<'ok'> {
+    this.subscribed = false;
+    this.db.removeChannel(this);
+    return 'ok';
+  }
+
+  // Broadcasts reach every subscribed channel on the same topic, including this one
+  async send(message: { type: 'broadcast'; event: string; payload?: any }): Promise<'ok'> {
+    this.db.getChannels()
+      .filter(channel => channel.topic === this.topic)
+      .forEach(channel => channel.deliverBroadcast(message.event, message));
+    return 'ok';
+  }
+
+  deliver(payload: ChangePayload): void {
+    if (!this.subscribed) return;
+    const record = payload.eventType === 'DELETE' ? payload.old : payload.new;
+    this.listeners
+      .filter(listener =>
+        (listener.event === '*' || listener.event === payload.eventType) &&
+        (!listener.table || listener.table === payload.table) &&
+        (!listener.filter || listener.filter(record))
+      )
+      .forEach(listener => listener.callback(payload));
+  }
+
+  deliverBroadcast(event: string, message: any): void {
+    if (!this.subscribed) return;
+    this.broadcastListeners
+      .filter(listener => listener.event === event || listener.event === '*')
+      .forEach(listener => listener.callback(message));
+  }
+}
+
+type MemoryFunction = (db: MemoryDatabase, args: Row) => { data: any; error: MemoryError | null };
+
+// The order columns place_order reads from p_order; the amounts are the server's own, the rest take their defaults
+const ORDER_INPUT_COLUMNS = ['id', 'customer_id', 'payment_method', 'notes', 'delivery_zone', 'priority', 'shipping_address', 'billing_address'];
+
+const setting = (db: MemoryDatabase, key: string, field: string): any =>
+  (db.rows('app_settings').find(row => row.key === key)?.value ?? DEFAULT_SETTINGS[key])?.[field];
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+const sameAmount = (a: unknown, b: number): boolean => Math.abs(Number(a) - b) < 0.005;
+
+// The sums place_order and amend_order price an order with, from app_settings; no discounts yet
+const orderTotals = (db: MemoryDatabase, subtotal: number): Row => {
+  const tax_amount = roundMoney(subtotal * Number(setting(db, 'checkout', 'tax_rate')));
+  const shipping_cost = Number(setting(db, 'checkout', 'shipping_cost'));
+  return {
+    subtotal: roundMoney(subtotal),
+    tax_amount,
+    shipping_cost,
+    discount_amount: 0,
+    total_amount: roundMoney(subtotal + tax_amount + shipping_cost)
+  };
+};
+
+const checkViolation = (message: string): { data: null; error: MemoryError } => ({ data: null, error: memoryError(message, '23514') });
+
+const insufficientPrivilege = (message: string): { data: null; error: MemoryError } => ({ data: null, error: memoryError(message, '42501') });
+
+// has_permission: whether the auth.uid() user's role has any of the permissions
+const callerHas = (db: MemoryDatabase, ...permissions: Permission[]): boolean => {
+  const caller = db.rows('users').find(row => row.id === db.authUserId);
+  if (!caller) return false;
+  const roles = applyRoleOverrides(db.rows('role_permissions') as RoleOverride[]);
+  return permissions.some(permission => roleHasPermission(roles, caller.role, permission));
+};
+
+// For the account functions: the user, as long as the caller is that user
+const ownUser = (db: MemoryDatabase, userId: string): Row | undefined =>
+  db.authUserId && userId === db.authUserId ? db.rows('users').find(row => row.id === userId) : undefined;
+
+// Functions from production_schema.sql. Each runs to completion before any other query, which stands in for its transaction
+const FUNCTIONS: Record<string, MemoryFunction> = {
+  place_order: (db, { p_order, p_items = [], p_payment = null }) => {
+    if (!db.authUserId || p_order.customer_id !== db.authUserId) {
+      return { data: null, error: memoryError('Orders can only be placed for yourself', '42501') };
+    }
+    const existing = db.rows('orders').find(row => row.id === p_order.id);
+    if (existing && existing.customer_id === db.authUserId) return { data: clone(existing), error: null };
+    if (existing) {
+      return { data: null, error: memoryError('Order id is already in use', '23505') };
+    }
+
+    const customer = db.rows('users').find(row => row.id === p_order.customer_id);
+    if (customer?.status === 'pending_verification') {
+      return checkViolation('Please confirm your email address before placing an order');
+    }
+    if (p_items.length === 0) {
+      return checkViolation('An order needs at least one item');
+    }
+
+    const maxQuantity = Number(setting(db, 'checkout', 'max_quantity_per_item'));
+    let subtotal = 0;
+    for (const item of p_items as Row[]) {
+      if (!Number.isInteger(item.quantity) || item.quantity < 1 || item.quantity > maxQuantity) {
+        return checkViolation(`Quantities must be between 1 and ${maxQuantity}`);
+      }
+      const product = db.rows('products').find(row => row.id === item.product_id);
+      if (!product || product.status !== 'active') {
+        return checkViolation(`Product ${item.product_id} is not available`);
+      }
+      if (Number(product.price) !== Number(item.unit_price)) {
+        return checkViolation(`The price of ${product.name} has changed`);
+      }
+      if (!sameAmount(item.total_price, Number(product.price) * item.quantity)) {
+        return checkViolation(`The line total for ${product.name} does not match its price`);
+      }
+      if (product.stock_quantity < item.quantity) {
+        return checkViolation(`Only ${product.stock_quantity} of ${product.name} left in stock`);
+      }
+      subtotal += Number(product.price) * item.quantity;
+    }
+
+    const totals = orderTotals(db, subtotal);
+    if (
+      !sameAmount(p_order.subtotal, totals.subtotal) ||
+      !sameAmount(p_order.tax_amount ?? 0, totals.tax_amount) ||
+      !sameAmount(p_order.shipping_cost ?? 0, totals.shipping_cost) ||
+      !sameAmount(p_order.discount_amount ?? 0, 0) ||
+      !sameAmount(p_order.total_amount, totals.total_amount)
+    ) {
+      return checkViolation('Order totals do not match current prices');
+    }
+    if (p_payment && (
+      p_payment.amount !== Math.round(totals.total_amount * 100) ||
+      p_payment.currency !== 'NGN' ||
+      p_payment.payment_method !== p_order.payment_method
+    )) {
+      return checkViolation('Payment does not match the order total');
+    }
+
+    // Rows written so far are taken back out if a later insert fails
+    const written: Array<[string, Row]> = [];
+    const insert = (table: string, values: Row): MemoryError | undefined => {
+      const { row, error } = db.insertRow(table, values);
+      if (row) written.push([table, row]);
+      return error;
+    };
+    const error =
+      insert('orders', {
+        ...Object.fromEntries(ORDER_INPUT_COLUMNS.filter(column => p_order[column] !== undefined).map(column => [column, p_order[column]])),
+        ...totals,
+        ...customerContact(customer ?? {}),
+        billing_address: p_order.billing_address ?? p_order.shipping_address ?? '',
+        shipping_address: p_order.shipping_address ?? '',
+        stock_reserved: true
+      }) ||
+      (p_items as Row[]).reduce<MemoryError | undefined>((failed, item) => failed || insert('order_items', {
+        id: item.id,
+        order_id: p_order.id,
+        product_id: item.product_id,
+        quantity: item.quantity,
+        unit_price: Number(item.unit_price),
+        total_price: Number(item.unit_price) * item.quantity
+      }), undefined) ||
+      (p_payment ? insert('payment_intents', {
+        id: p_payment.id,
+        order_id: p_order.id,
+        amount: Math.round(totals.total_amount * 100),
+        currency: 'NGN',
+        status: 'pending',
+        payment_method: p_order.payment_method
+      }) : undefined);
+    if (error) {
+      written.reverse().forEach(([table, row]) => db.deleteRow(table, row));
+      return { data: null, error };
+    }
+
+    // Reserved until the order is cancelled
+    for (const item of p_items as Row[]) {
+      const product = db.rows('products').find(row => row.id === item.product_id)!;
+      db.updateRow('products', product, { stock_quantity: product.stock_quantity - item.quantity });
+    }
+    return { data: clone(written[0][1]), error: null };
+  },
+
+  // Checks first, then writes, so a refused change leaves nothing behind
+  amend_order: (db, { p_order_id, p_quantities = null, p_changes = {} }) => {
+    const order = db.rows('orders').find(row => row.id === p_order_id);
+    if (!order || !db.authUserId || order.customer_id !== db.authUserId) {
+      return { data: null, error: memoryError('You can only change your own orders', '42501') };
+    }
+    if (order.status !== 'pending') {
+      return checkViolation('This order can no longer be changed');
+    }
+    if (Date.now() > new Date(order.created_at).getTime() + Number(setting(db, 'order_changes', 'window_minutes')) * 60000) {
+      return checkViolation('The time to change this order has passed');
+    }
+
+    const items = db.rows('order_items').filter(row => row.order_id === order.id);
+    const product = (item: Row) => db.rows('products').find(row => row.id === item.product_id);
+
+    if (p_changes.status === 'cancelled') {
+      if (order.stock_reserved) {
+        items.forEach(item => {
+          const reserved = product(item);
+          if (reserved) db.updateRow('products', reserved, { stock_quantity: reserved.stock_quantity + item.quantity });
+        });
+      }
+      db.rows('payment_intents')
+        .filter(row => row.order_id === order.id && ['pending', 'processing'].includes(row.status))
+        .forEach(row => db.updateRow('payment_intents', row, { status: 'cancelled' }));
+      db.updateRow('orders', order, {
+        status: 'cancelled',
+        stock_reserved: false,
+        cancellation_reason: p_changes.cancellation_reason ?? null,
+        updated_at: new Date().toISOString()
+      });
+    } else {
+      let totals: Row = {};
+      if (p_quantities) {
+        if (order.payment_status === 'paid') {
+          return checkViolation('A paid order can be cancelled but its items cannot be changed');
+        }
+        const quantityOf = (item: Row): number => p_quantities[item.id] ?? item.quantity;
+        for (const item of items) {
+          if (quantityOf(item) < 0) return checkViolation('Quantities cannot be negative');
+          const available = product(item)?.stock_quantity ?? 0;
+          if (order.stock_reserved && quantityOf(item) - item.quantity > available) {
+            return checkViolation(`Only ${available} more of this item in stock`);
+          }
+        }
+        const kept = items.filter(item => quantityOf(item) > 0);
+        if (kept.length === 0) {
+          return checkViolation('An order needs at least one item; cancel it instead');
+        }
+        // Repriced as place_order prices: the items keep the unit price they were placed at
+        totals = orderTotals(db, kept.reduce((sum, item) => sum + Number(item.unit_price) * quantityOf(item), 0));
+
+        items.forEach(item => {
+          const quantity = quantityOf(item);
+          const reserved = product(item);
+          if (reserved && order.stock_reserved) {
+            db.updateRow('products', reserved, { stock_quantity: reserved.stock_quantity - (quantity - item.quantity) });
+          }
+          if (quantity === 0) {
+            db.deleteRow('order_items', item);
+          } else {
+            db.updateRow('order_items', item, { quantity, total_price: Number(item.unit_price) * quantity });
+          }
+        });
+      }
+
+      db.updateRow('orders', order, {
+        ...totals,
+        shipping_address: p_changes.shipping_address ?? order.shipping_address,
+        updated_at: new Date().toISOString()
+      });
+      db.rows('payment_intents')
+        .filter(row => row.order_id === order.id && row.status === 'pending')
+        .forEach(row => db.updateRow('payment_intents', row, { amount: Math.round(order.total_amount * 100) }));
+    }
+
+    const cancelled = order.status === 'cancelled';
+    const roles = applyRoleOverrides(db.rows('role_permissions') as RoleOverride[]);
+    db.rows('users')
+      .filter(user => roleHasPermission(roles, user.role, 'orders.update_status') && user.status === 'active')
+      .forEach(user => db.insertRow('notifications', {
+        user_id: user.id,
+        type: 'order',
+        title: cancelled ? 'Order Cancelled by Customer' : 'Order Changed by Customer',
+        content: `Order ${order.order_number} was ${cancelled ? 'cancelled' : 'changed'} by the customer`,
+        data: { order_id: order.id, order_number: order.order_number }
+      }));
+    return { data: clone(order), error: null };
+  },
+
+  lock_account: (db, { p_user_id, p_locked_until }) => {
+    const user = db.rows('users').find(row => row.id === p_user_id);
+    if (user && ['active', 'pending_verification'].includes(user.status)) {
+      const longest = Date.now() + Number(setting(db, 'sign_in', 'lockout_minutes')) * 60000;
+      db.updateRow('users', user, {
+        status: 'suspended',
+        locked_until: new Date(Math.min(new Date(p_locked_until).getTime(), longest)).toISOString(),
+        updated_at: new Date().toISOString()
+      });
+    }
+    return { data: null, error: null };
+  },
+
+  unlock_account: (db, { p_user_id }) => {
+    const user = db.rows('users').find(row => row.id === p_user_id);
+    const expired = !!user?.locked_until && new Date(user.locked_until).getTime() <= Date.now();
+    if (!user || user.status !== 'suspended' || !(callerHas(db, 'customers.unlock') || expired)) {
+      return insufficientPrivilege('This account cannot be unlocked');
+    }
+    db.updateRow('users', user, { status: 'active', locked_until: null, updated_at: new Date().toISOString() });
+    return { data: null, error: null };
+  },
+
+  set_user_role: (db, { p_user_id, p_role }) => {
+    if (!callerHas(db, 'roles.manage') || p_user_id === db.authUserId) {
+      return insufficientPrivilege('You cannot change this role');
+    }
+    const user = db.rows('users').find(row => row.id === p_user_id);
+    if (user) db.updateRow('users', user, { role: p_role, updated_at: new Date().toISOString() });
+    return { data: null, error: null };
+  },
+
+  set_user_mfa: (db, { p_user_id, p_mfa }) => {
+    if (!db.authUserId || !(p_user_id === db.authUserId || (p_mfa === null && callerHas(db, 'staff.reset_mfa')))) {
+      return insufficientPrivilege('You cannot change this two-factor authentication');
+    }
+    const user = db.rows('users').find(row => row.id === p_user_id);
+    if (user) db.updateRow('users', user, { mfa: p_mfa, updated_at: new Date().toISOString() });
+    return { data: null, error: null };
+  },
+
+  confirm_email: (db, { p_user_id }) => {
+    const user = ownUser(db, p_user_id);
+    if (!user) return insufficientPrivilege('You can only confirm your own email');
+    const now = new Date().toISOString();
+    db.updateRow('users', user, {
+      email_verified_at: now,
+      status: user.status === 'pending_verification' ? 'active' : user.status,
+      updated_at: now
+    });
+    return { data: null, error: null };
+  },
+
+  confirm_phone: (db, { p_user_id }) => {
+    const user = ownUser(db, p_user_id);
+    if (!user) return insufficientPrivilege('You can only confirm your own phone number');
+    const now = new Date().toISOString();
+    db.updateRow('users', user, { phone_verified_at: now, updated_at: now });
+    return { data: null, error: null };
+  },
+
+  reset_password: (db, { p_user_id, p_password_hash }) => {
+    const user = ownUser(db, p_user_id);
+    if (!user) return insufficientPrivilege('You can only reset your own password');
+    if (user.status === 'inactive') return { data: null, error: null };
+    const now = new Date().toISOString();
+    const pending = user.status === 'pending_verification';
+    const lockedOut = user.status === 'suspended' && !!user.locked_until;
+    db.updateRow('users', user, {
+      password_hash: p_password_hash,
+      ...(pending ? { email_verified_at: now } : {}),
+      ...(pending || lockedOut ? { status: 'active' } : {}),
+      ...(user.status === 'suspended' ? { locked_until: null } : {}),
+      updated_at: now
+    });
+    return { data: null, error: null };
+  },
+
+  erase_customer_data: (db, { p_user_id }) => {
+    if (!db.authUserId || p_user_id !== db.authUserId) {
+      return { data: null, error: memoryError('You can only delete your own account', '42501') };
+    }
+    if (db.rows('users').find(row => row.id === p_user_id)?.role !== 'customer') {
+      return insufficientPrivilege('Staff accounts are removed by a super admin');
+    }
+    const now = new Date().toISOString();
+    const orders = db.rows('orders').filter(row => row.customer_id === p_user_id);
+    const cancelled = orders.filter(order => ['pending', 'confirmed', 'processing'].includes(order.status));
+
+    cancelled.forEach(order => {
+      if (order.stock_reserved) {
+        db.rows('order_items').filter(item => item.order_id === order.id).forEach(item => {
+          const product = db.rows('products').find(row => row.id === item.product_id);
+          if (product) db.updateRow('products', product, { stock_quantity: product.stock_quantity + item.quantity });
+        });
+      }
+      db.rows('payment_intents')
+        .filter(row => row.order_id === order.id && ['pending', 'processing'].includes(row.status))
+        .forEach(row => db.updateRow('payment_intents', row, { status: 'cancelled' }));
+      db.updateRow('orders', order, { status: 'cancelled', stock_reserved: false, cancellation_reason: 'account_deleted' });
+      db.insertRow('order_events', { order_id: order.id, type: 'cancelled', actor_id: null, actor_name: 'System', note: 'Account deleted' });
+    });
+
+    orders.forEach(order => db.updateRow('orders', order, {
+      customer_name: customerPseudonym(p_user_id),
+      customer_email: null,
+      customer_phone: null,
+      shipping_address: '[removed]',
+      billing_address: '[removed]',
+      notes: '',
+      pseudonymized_at: now,
+      updated_at: now
+    }));
+
+    const remove = (table: string, owned: RowFilter): number => {
+      const rows = db.rows(table).filter(owned);
+      rows.forEach(row => db.deleteRow(table, row));
+      return rows.length;
+    };
+    const removed = {
+      removed_message_count: remove('messages', row => row.sender_id === p_user_id || row.recipient_id === p_user_id),
+      removed_notification_count: remove('notifications', row => row.user_id === p_user_id),
+      removed_payment_method_count: remove('payment_methods', row => row.user_id === p_user_id),
+      removed_cart_item_count: remove('cart_items', row => row.user_id === p_user_id)
+    };
+
+    // The account stays as an anonymized tombstone for the retained orders to point at
+    const user = db.rows('users').find(row => row.id === p_user_id);
+    if (user) {
+      db.updateRow('users', user, {
+        email: `deleted_${p_user_id}`,
+        password_hash: null,
+        profile: { first_name: 'Deleted', last_name: 'Customer' },
+        preferences: { notifications: false, marketing: false, theme: 'light' },
+        status: 'inactive',
+        last_login_at: null,
+        email_verified_at: null,
+        phone_verified_at: null,
+        locked_until: null,
+        mfa: null,
+        deleted_at: now,
+        updated_at: now
+      });
+    }
+
+    return {
+      data: {
+        cancelled_order_ids: cancelled.map(order => order.id),
+        pseudonymized_order_count: orders.length,
+        ...removed
+      },
+      error: null
+    };
+  },
+
+  find_staff_invitation: (db, { p_id, p_token_hash }) => ({
+    data: db.rows('staff_invitations').filter(row => row.id === p_id && row.token_hash === p_token_hash).map(clone),
+    error: null
+  }),
+
+  accept_staff_invitation: (db, { p_id, p_token_hash, p_user_id }) => {
+    const invitation = db.rows('staff_invitations').find(row =>
+      row.id === p_id && row.token_hash === p_token_hash &&
+      !row.accepted_at && !row.revoked_at && new Date(row.expires_at).getTime() > Date.now() &&
+      db.rows('users').some(user => user.id === p_user_id && user.email === row.email)
+    );
+    if (!invitation) return checkViolation('This invitation link is not valid');
+    db.updateRow('staff_invitations', invitation, { accepted_at: new Date().toISOString(), accepted_user_id: p_user_id });
+    return { data: clone(invitation), error: null };
+  }
+};
+
+/**
+ * A call to a database function, awaited like the query builder
+ */
+class MemoryRpcCall implements PromiseLike<MemoryResponse> {
+  private signal?: AbortSignal;
+
+  constructor(private readonly db: MemoryDatabase, private readonly fn: string, private readonly args: Row) {}
+
+  abortSignal(signal: AbortSignal): this {
+    this.signal = signal;
+    return this;
+  }
+
+  then<TResult1 = MemoryResponse, TResult2 = never>(
+    onfulfilled?: ((value: MemoryResponse) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private execute(): MemoryResponse {
+    if (this.signal?.aborted) {
+      return { data: null, error: memoryError('AbortError: The operation was aborted.', ''), count: null, status: 0, statusText: '' };
+    }
+    const run = FUNCTIONS[this.fn];
+    if (!run) {
+      const error = memoryError(`Could not find the function public.${this.fn} in the schema cache`, 'PGRST202');
+      return { data: null, error, count: null, status: 404, statusText: 'Not Found' };
+    }
+    const { data, error } = run(this.db, clone(this.args));
+    return error
+      ? { data: null, error, count: null, status: 400, statusText: 'Bad Request' }
+      : { data, error: null, count: null, status: 200, statusText: 'OK' };
+  }
+}
+
+export interface MemorySupabaseClient {
+  from(table: string): MemoryQueryBuilder;
+  rpc(fn: string, args?: Row): MemoryRpcCall;
+  channel(topic: string): MemoryChannel;
+  removeChannel(channel: MemoryChannel): Promise<'ok'>;
+  removeAllChannels(): Promise<'ok'[]>;
+  getChannels(): MemoryChannel[];
+  database: MemoryDatabase;
+}
+
+// Each call gets its own tables, so tests can start from a known state
+export const createMemorySupabaseClient = (seed?: Record<string, Row[]>): MemorySupabaseClient => {
+  const database = new MemoryDatabase(seed);
+  return {
+    database,
+    from: (table: string) => new MemoryQueryBuilder(database, table),
+    rpc: (fn: string, args: Row = {}) => new MemoryRpcCall(database, fn, args),
+    channel: (topic: string) => new MemoryChannel(database, topic),
+    removeChannel: (channel: MemoryChannel) => channel.unsubscribe(),
+    removeAllChannels: () => Promise.all(database.getChannels().map(channel => channel.unsubscribe())),
+    getChannels: () => database.getChannels()
+  };
+};
+
+// Typed as the real client so callers stay unaware of which one they hold
+export const asSupabaseClient = (client: MemorySupabaseClient): SupabaseClient =>
+  client as unknown as SupabaseClient;